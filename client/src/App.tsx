@@ -1,35 +1,78 @@
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import SaveTaskDialog from '@/components/SaveTaskDialog';
+import CrewPipeline from '@/components/CrewPipeline';
+import RunHistory from '@/components/RunHistory';
+import AgentEditor from '@/components/AgentEditor';
+import AgentRevisions from '@/components/AgentRevisions';
+import Archive from '@/components/Archive';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import AgentAccessDialog from '@/components/AgentAccessDialog';
+import AgentToolsDialog from '@/components/AgentToolsDialog';
+import OutputEntry from '@/components/OutputEntry';
+import JsonTree from '@/components/JsonTree';
+import RunInputsForm from '@/components/RunInputsForm';
+import UserAdmin from '@/components/UserAdmin';
+import ApiKeys from '@/components/ApiKeys';
+import AuditLog from '@/components/AuditLog';
+import CrewConfigSync from '@/components/CrewConfigSync';
+import { useHasRole } from '@/utils/auth';
 import { trpc } from '@/utils/trpc';
+import { isPermanentError, notifyError } from '@/utils/errors';
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Agent, AgentRun, AgentOutput, StartAgentRunInput, StreamOutputEvent } from '../../server/src/schema';
+import type { Agent, AgentAccess, AgentRun, AgentOutput, Crew, RunInputs, RunStep, StartAgentRunInput, StreamOutputEvent, Task, ToolName } from '../../server/src/schema';
 
 function App() {
   // State management
   const [agents, setAgents] = useState<Agent[]>([]);
   const [selectedAgentId, setSelectedAgentId] = useState<number | null>(null);
+  const [agentView, setAgentView] = useState<'active' | 'inactive'>('active');
+  // Bumped whenever something is deleted or restored so the run history and archive reload
+  const [archiveVersion, setArchiveVersion] = useState(0);
   const [inputText, setInputText] = useState('');
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [inputMode, setInputMode] = useState<'text' | 'task' | 'crew'>('text');
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+  const [crews, setCrews] = useState<Crew[]>([]);
+  const [selectedCrewId, setSelectedCrewId] = useState<number | null>(null);
+  const [inputVariables, setInputVariables] = useState<string[]>([]);
+  const [runInputs, setRunInputs] = useState<RunInputs>({});
+  const [steps, setSteps] = useState<RunStep[]>([]);
   const [currentRun, setCurrentRun] = useState<AgentRun | null>(null);
   const [outputs, setOutputs] = useState<AgentOutput[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [agentAccess, setAgentAccess] = useState<AgentAccess | null>(null);
+  const [agentTools, setAgentTools] = useState<ToolName[]>([]);
+
+  // Controls the signed-in user's role doesn't allow are hidden rather than left to fail
+  const canOperate = useHasRole('operator');
+  const canEdit = useHasRole('editor');
+  const isAdmin = useHasRole('admin');
 
   // Ref to track the current subscription for cleanup
   const subscriptionRef = useRef<{ unsubscribe: () => void } | null>(null);
+  // Last output received, so a dropped stream resumes where it left off
+  const lastOutputIdRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  // Set once the server reports the run finished, so the stream ending is not mistaken for a drop
+  const runFinishedRef = useRef(false);
 
-  // Load agents on component mount
+  // Load agents on component mount; inactive ones are kept for the inactive view and run history names
   const loadAgents = useCallback(async () => {
     try {
-      const result = await trpc.getAgents.query();
+      const result = await trpc.getAgents.query({ status: 'all' });
       setAgents(result);
     } catch (error) {
-      console.error('Failed to load agents:', error);
+      notifyError('Failed to load agents', error);
     }
   }, []);
 
@@ -37,29 +80,183 @@ function App() {
     loadAgents();
   }, [loadAgents]);
 
-  // Cleanup subscription on component unmount
+  // Load saved tasks on component mount
+  const loadTasks = useCallback(async () => {
+    try {
+      const result = await trpc.getTasks.query();
+      setTasks(result);
+    } catch (error) {
+      notifyError('Failed to load tasks', error);
+    }
+  }, []);
+
   useEffect(() => {
-    return () => {
-      if (subscriptionRef.current) {
-        subscriptionRef.current.unsubscribe();
-        subscriptionRef.current = null;
-      }
-    };
+    loadTasks();
+  }, [loadTasks]);
+
+  // Load crews on component mount
+  const loadCrews = useCallback(async () => {
+    try {
+      const result = await trpc.getCrews.query();
+      setCrews(result);
+    } catch (error) {
+      notifyError('Failed to load crews', error);
+    }
   }, []);
 
-  // Get selected agent details
+  useEffect(() => {
+    loadCrews();
+  }, [loadCrews]);
+
+  // Stops the current subscription and any pending reconnect
+  const stopStreaming = useCallback(() => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (subscriptionRef.current) {
+      subscriptionRef.current.unsubscribe();
+      subscriptionRef.current = null;
+    }
+  }, []);
+
+  // Restricted agents can only be run and edited by the users they are shared with
+  useEffect(() => {
+    setAgentAccess(null);
+    if (selectedAgentId === null) return;
+
+    trpc.getAgentAccess.query({ agent_id: selectedAgentId })
+      .then(setAgentAccess)
+      .catch((error: unknown) => notifyError('Failed to load agent access', error));
+  }, [selectedAgentId]);
+
+  useEffect(() => {
+    setAgentTools([]);
+    if (selectedAgentId === null) return;
+
+    trpc.getAgentTools.query({ agent_id: selectedAgentId })
+      .then(setAgentTools)
+      .catch((error: unknown) => notifyError('Failed to load agent tools', error));
+  }, [selectedAgentId]);
+
+  // The {placeholders} of whatever is about to run decide which inputs the form asks for
+  useEffect(() => {
+    const lookup = inputMode === 'crew'
+      ? selectedCrewId !== null ? { crew_id: selectedCrewId } : null
+      : inputMode === 'task'
+        ? selectedTaskId !== null ? { task_id: selectedTaskId, agent_id: selectedAgentId ?? undefined } : null
+        : selectedAgentId !== null ? { agent_id: selectedAgentId } : null;
+    if (lookup === null) {
+      setInputVariables([]);
+      return;
+    }
+
+    // Restricted agents refuse the lookup; starting the run explains that better than a toast here
+    trpc.getRunInputVariables.query(lookup)
+      .then(setInputVariables)
+      .catch(() => setInputVariables([]));
+  }, [inputMode, selectedAgentId, selectedTaskId, selectedCrewId, agents, tasks, crews]);
+
+  // Cleanup subscription on component unmount
+  useEffect(() => stopStreaming, [stopStreaming]);
+
+  // Get selected agent and task details
   const selectedAgent = agents.find(agent => agent.id === selectedAgentId);
+  const selectedTask = tasks.find(task => task.id === selectedTaskId);
+  const selectedCrew = crews.find(crew => crew.id === selectedCrewId);
+
+  // Saved tasks may bring their own agent; ad-hoc text always needs one; crews bring their own agents
+  const canUseSelectedAgent = agentAccess?.can_use ?? true;
+  const hasAllInputs = inputVariables.every((variable: string) => !!runInputs[variable]?.trim());
+  const canStartRun = hasAllInputs && (inputMode === 'task'
+    ? !!selectedTask && (!!selectedAgentId || selectedTask.agent_id !== null) && canUseSelectedAgent
+    : inputMode === 'crew'
+      ? !!selectedCrew && !!inputText.trim()
+      : !!selectedAgent?.is_active && !!inputText.trim() && canUseSelectedAgent);
+
+  const agentName = (id: number) => agents.find((agent: Agent) => agent.id === id)?.name ?? `Agent #${id}`;
+  const taskName = (id: number) => tasks.find((task: Task) => task.id === id)?.name ?? `Task #${id}`;
+
+  const handleSelectTask = (taskId: number) => {
+    setSelectedTaskId(taskId);
+    const task = tasks.find((t: Task) => t.id === taskId);
+    if (task?.agent_id && agents.some((agent: Agent) => agent.id === task.agent_id)) {
+      setSelectedAgentId(task.agent_id);
+    }
+  };
+
+  const visibleAgents = agents.filter((agent: Agent) => agent.is_active === (agentView === 'active'));
+
+  const handleAgentSaved = (saved: Agent) => {
+    setAgents((prev: Agent[]) => prev.some((agent: Agent) => agent.id === saved.id)
+      ? prev.map((agent: Agent) => agent.id === saved.id ? saved : agent)
+      : [saved, ...prev]);
+    setAgentView(saved.is_active ? 'active' : 'inactive');
+    setSelectedAgentId(saved.id);
+  };
+
+  const handleToggleActive = async (agent: Agent, isActive: boolean) => {
+    try {
+      const updated = await trpc.updateAgent.mutate({ id: agent.id, is_active: isActive });
+      handleAgentSaved(updated);
+    } catch (error) {
+      notifyError('Failed to update agent', error);
+    }
+  };
+
+  const handleDeleteAgent = async (agent: Agent) => {
+    try {
+      await trpc.deleteAgent.mutate({ id: agent.id });
+      setAgents((prev: Agent[]) => prev.filter((a: Agent) => a.id !== agent.id));
+      setSelectedAgentId(null);
+      setArchiveVersion((version: number) => version + 1);
+    } catch (error) {
+      notifyError('Failed to delete agent', error);
+    }
+  };
+
+  const handleAgentRestored = (agent: Agent) => {
+    handleAgentSaved(agent);
+    setArchiveVersion((version: number) => version + 1);
+  };
+
+  const handleTaskSaved = (task: Task) => {
+    setTasks((prev: Task[]) => [...prev, task].sort((a: Task, b: Task) => a.name.localeCompare(b.name)));
+  };
+
+  // Status updates don't carry the parsed result of runs with an output schema; fetch it once they complete
+  const currentRunId = currentRun?.id;
+  const currentRunStatus = currentRun?.status;
+  useEffect(() => {
+    if (currentRunId === undefined || currentRunStatus !== 'completed') return;
+
+    trpc.getAgentRun.query({ id: currentRunId })
+      .then(setCurrentRun)
+      .catch((error: unknown) => notifyError('Failed to load run result', error));
+  }, [currentRunId, currentRunStatus]);
 
   // Handle stream events from subscription
   const handleStreamEvent = useCallback((event: StreamOutputEvent) => {
     switch (event.type) {
-      case 'output':
-        // Add new output to the list
+      case 'output': {
+        // Add new output to the list, skipping outputs replayed after a reconnect
         const outputData = event.data as AgentOutput;
-        setOutputs((prev: AgentOutput[]) => [...prev, outputData]);
+        lastOutputIdRef.current = Math.max(lastOutputIdRef.current, outputData.id);
+        setOutputs((prev: AgentOutput[]) =>
+          prev.some((output: AgentOutput) => output.id === outputData.id) ? prev : [...prev, outputData]
+        );
+        break;
+      }
+
+      case 'step_update': {
+        // Replace the step in the crew pipeline
+        const stepData = event.data as RunStep;
+        setSteps((prev: RunStep[]) => [...prev.filter((step: RunStep) => step.id !== stepData.id), stepData]
+          .sort((a: RunStep, b: RunStep) => a.position - b.position));
         break;
+      }
 
-      case 'status_update':
+      case 'status_update': {
         // Update the current run status
         const statusData = event.data as { status: AgentRun['status'] };
         setCurrentRun((prev: AgentRun | null) => {
@@ -69,90 +266,131 @@ function App() {
             status: statusData.status,
             // Update timestamps based on status
             started_at: statusData.status === 'running' ? new Date() : prev.started_at,
-            completed_at: (statusData.status === 'completed' || statusData.status === 'failed') 
+            completed_at: (statusData.status === 'completed' || statusData.status === 'failed' || statusData.status === 'cancelled')
               ? new Date() 
               : prev.completed_at
           };
         });
         break;
+      }
 
       case 'complete':
         // Mark as no longer running
+        runFinishedRef.current = true;
         setIsRunning(false);
         
         // Clean up the subscription
-        if (subscriptionRef.current) {
-          subscriptionRef.current.unsubscribe();
-          subscriptionRef.current = null;
-        }
+        stopStreaming();
         break;
 
       default:
         console.warn('Unknown stream event type:', event);
     }
-  }, []);
+  }, [stopStreaming]);
 
-  // Start streaming after agent run is created
+  // Start streaming after agent run is created. If the stream drops, reconnect with
+  // exponential backoff and resume after the last output we received.
   const startStreaming = useCallback((runId: number) => {
-    // Clean up any existing subscription
-    if (subscriptionRef.current) {
-      subscriptionRef.current.unsubscribe();
-      subscriptionRef.current = null;
-    }
+    const reconnect = () => {
+      const delay = Math.min(1000 * 2 ** reconnectAttemptRef.current, 30000);
+      reconnectAttemptRef.current++;
+      reconnectTimerRef.current = setTimeout(subscribe, delay);
+    };
 
-    try {
-      // Create subscription to stream agent run
-      const subscription = trpc.streamAgentRun.subscribe(
-        { runId },
-        {
-          onData: handleStreamEvent,
-          onError: (error) => {
-            console.error('Streaming error:', error);
-            setIsRunning(false);
+    const subscribe = () => {
+      // Clean up any existing subscription
+      stopStreaming();
+
+      try {
+        // Create subscription to stream agent run
+        const subscription = trpc.streamAgentRun.subscribe(
+          { runId, afterOutputId: lastOutputIdRef.current || undefined },
+          {
+            onData: (event: StreamOutputEvent) => {
+              reconnectAttemptRef.current = 0;
+              handleStreamEvent(event);
+            },
+            onError: (error) => {
+              if (isPermanentError(error)) {
+                stopStreaming();
+                setIsRunning(false);
+                notifyError('Stopped following the run', error);
+                return;
+              }
+              reconnect();
+            },
+            // The server ends open streams when it shuts down; pick the run up again once it is back
+            onComplete: () => {
+              if (!runFinishedRef.current) {
+                reconnect();
+              }
+            }
           }
-        }
-      );
+        );
 
-      // Store subscription reference for cleanup
-      subscriptionRef.current = subscription;
-    } catch (error) {
-      console.error('Failed to start streaming:', error);
-      setIsRunning(false);
-    }
-  }, [handleStreamEvent]);
+        // Store subscription reference for cleanup
+        subscriptionRef.current = subscription;
+      } catch (error) {
+        notifyError('Failed to start streaming', error);
+        setIsRunning(false);
+      }
+    };
+
+    lastOutputIdRef.current = 0;
+    reconnectAttemptRef.current = 0;
+    runFinishedRef.current = false;
+    subscribe();
+  }, [handleStreamEvent, stopStreaming]);
 
   // Start agent run
   const handleStartRun = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedAgentId || !inputText.trim()) return;
+    if (!canStartRun) return;
 
     // Clean up any existing subscription before starting a new run
-    if (subscriptionRef.current) {
-      subscriptionRef.current.unsubscribe();
-      subscriptionRef.current = null;
-    }
+    stopStreaming();
 
     setIsLoading(true);
     try {
-      const runInput: StartAgentRunInput = {
-        agent_id: selectedAgentId,
-        input_text: inputText.trim()
-      };
-
-      const run = await trpc.startAgentRun.mutate(runInput);
+      // Values typed for variables of an earlier selection stay in the form but aren't sent
+      const inputs: RunInputs = Object.fromEntries(inputVariables.map((variable: string) => [variable, runInputs[variable]]));
+      let run: AgentRun;
+      if (inputMode === 'crew' && selectedCrewId !== null) {
+        run = await trpc.startCrewRun.mutate({ crew_id: selectedCrewId, input_text: inputText.trim(), inputs });
+      } else {
+        const runInput: StartAgentRunInput = inputMode === 'task'
+          ? { agent_id: selectedAgentId ?? undefined, task_id: selectedTaskId ?? undefined, inputs }
+          : { agent_id: selectedAgentId ?? undefined, input_text: inputText.trim(), inputs };
+        run = await trpc.startAgentRun.mutate(runInput);
+      }
       setCurrentRun(run);
       setOutputs([]);
+      setSteps([]);
       setIsRunning(true);
       
       // Start streaming the agent run
       startStreaming(run.id);
     } catch (error) {
-      console.error('Failed to start agent run:', error);
+      notifyError('Failed to start agent run', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Stop the current run; the stream reports the cancelled status and completes
+  const handleCancelRun = async () => {
+    if (!currentRun) return;
+
+    setIsCancelling(true);
+    try {
+      await trpc.cancelAgentRun.mutate({ id: currentRun.id });
+    } catch (error) {
+      notifyError('Failed to cancel agent run', error);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   // Get status badge color
   const getStatusColor = (status: AgentRun['status']) => {
     switch (status) {
@@ -160,20 +398,11 @@ function App() {
       case 'running': return 'bg-blue-500 animate-pulse';
       case 'completed': return 'bg-green-500';
       case 'failed': return 'bg-red-500';
+      case 'cancelled': return 'bg-gray-400';
       default: return 'bg-gray-500';
     }
   };
 
-  // Get output type styling
-  const getOutputTypeStyle = (type: AgentOutput['output_type']) => {
-    switch (type) {
-      case 'log': return 'text-gray-600 bg-gray-50';
-      case 'result': return 'text-green-700 bg-green-50 font-medium';
-      case 'error': return 'text-red-700 bg-red-50 font-medium';
-      default: return 'text-gray-600';
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50">
       <div className="container mx-auto p-6 max-w-6xl">
@@ -193,19 +422,37 @@ function App() {
             {/* Agent Selection */}
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  👥 Select Agent
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">👥 Select Agent</span>
+                  {canEdit && (
+                    <AgentEditor
+                      trigger={<Button size="sm" variant="outline">➕ New agent</Button>}
+                      onSaved={handleAgentSaved}
+                    />
+                  )}
                 </CardTitle>
                 <CardDescription>
                   Choose from available CrewAI agents
                 </CardDescription>
               </CardHeader>
-              <CardContent>
-                {agents.length === 0 ? (
+              <CardContent className="space-y-4">
+                <Tabs value={agentView} onValueChange={(value: string) => setAgentView(value as 'active' | 'inactive')}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="active">
+                      🟢 Active ({agents.filter((agent: Agent) => agent.is_active).length})
+                    </TabsTrigger>
+                    <TabsTrigger value="inactive">
+                      🔴 Inactive ({agents.filter((agent: Agent) => !agent.is_active).length})
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                {visibleAgents.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
                     <p className="text-lg mb-2">🔍 No agents found</p>
                     <p className="text-sm">
-                      No agents are currently available. Please check your backend setup.
+                      {agentView === 'active'
+                        ? 'No agents are currently active. Create one or activate an inactive agent.'
+                        : 'No agents are inactive.'}
                     </p>
                   </div>
                 ) : (
@@ -217,7 +464,7 @@ function App() {
                       <SelectValue placeholder="Choose an agent..." />
                     </SelectTrigger>
                     <SelectContent>
-                      {agents.map((agent: Agent) => (
+                      {visibleAgents.map((agent: Agent) => (
                         <SelectItem key={agent.id} value={agent.id.toString()}>
                           <div className="flex items-center gap-2">
                             <Badge variant={agent.is_active ? 'default' : 'secondary'}>
@@ -237,8 +484,45 @@ function App() {
             {selectedAgent && (
               <Card>
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    🎯 {selectedAgent.name}
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">🎯 {selectedAgent.name}</span>
+                    <div className="flex items-center gap-3">
+                      {agentAccess && agentAccess.user_ids.length > 0 && (
+                        <Badge variant="outline">🔒 Restricted</Badge>
+                      )}
+                      {agentAccess?.can_manage && (
+                        <AgentAccessDialog
+                          key={selectedAgent.id}
+                          agentName={selectedAgent.name}
+                          access={agentAccess}
+                          onSaved={setAgentAccess}
+                        />
+                      )}
+                      {canEdit && canUseSelectedAgent && (
+                        <>
+                          <label className="flex items-center gap-2 text-sm font-normal">
+                            <Switch
+                              checked={selectedAgent.is_active}
+                              onCheckedChange={(checked: boolean) => handleToggleActive(selectedAgent, checked)}
+                            />
+                            {selectedAgent.is_active ? 'Active' : 'Inactive'}
+                          </label>
+                          <AgentEditor
+                            key={selectedAgent.id}
+                            agent={selectedAgent}
+                            trigger={<Button size="sm" variant="outline">✏️ Edit</Button>}
+                            onSaved={handleAgentSaved}
+                          />
+                          <ConfirmDialog
+                            trigger={<Button size="sm" variant="outline">🗑️ Delete</Button>}
+                            title={`Delete ${selectedAgent.name}?`}
+                            description="The agent and its runs move to the archive, where they can be restored or purged."
+                            confirmLabel="Delete agent"
+                            onConfirm={() => handleDeleteAgent(selectedAgent)}
+                          />
+                        </>
+                      )}
+                    </div>
                   </CardTitle>
                   <CardDescription>
                     {selectedAgent.description || 'No description available'}
@@ -257,47 +541,221 @@ function App() {
                     <strong className="text-sm text-gray-600">Backstory:</strong>
                     <p className="text-sm">{selectedAgent.backstory}</p>
                   </div>
+                  <div>
+                    <strong className="text-sm text-gray-600">Execution:</strong>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mt-1">
+                      <span className="text-gray-500">Model</span>
+                      <span>
+                        {selectedAgent.llm || 'Provider default'}
+                        {selectedAgent.llm_provider && ` (${selectedAgent.llm_provider})`}
+                      </span>
+                      <span className="text-gray-500">Temperature</span>
+                      <span>{selectedAgent.temperature ?? 'Default'}</span>
+                      <span className="text-gray-500">Max tokens</span>
+                      <span>{selectedAgent.max_tokens ?? 'Default'}</span>
+                      <span className="text-gray-500">Max iterations</span>
+                      <span>{selectedAgent.max_iter}</span>
+                      <span className="text-gray-500">Max requests/min</span>
+                      <span>{selectedAgent.max_rpm ?? 'Unlimited'}</span>
+                      <span className="text-gray-500">Max execution time</span>
+                      <span>
+                        {selectedAgent.max_execution_time !== null ? `${selectedAgent.max_execution_time}s` : 'Unlimited'}
+                      </span>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                      {selectedAgent.verbose && <Badge variant="outline">🔊 Verbose</Badge>}
+                      {selectedAgent.allow_delegation && <Badge variant="outline">🤝 Can delegate</Badge>}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <strong className="text-sm text-gray-600">Tools:</strong>
+                      {canEdit && canUseSelectedAgent && (
+                        <AgentToolsDialog
+                          key={selectedAgent.id}
+                          agentId={selectedAgent.id}
+                          agentName={selectedAgent.name}
+                          tools={agentTools}
+                          onSaved={setAgentTools}
+                        />
+                      )}
+                    </div>
+                    {agentTools.length === 0 ? (
+                      <p className="text-sm text-gray-500">No tools</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {agentTools.map((tool: ToolName) => (
+                          <Badge key={tool} variant="outline">🧰 {tool}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <AgentRevisions
+                    agent={selectedAgent}
+                    canRestore={canEdit && canUseSelectedAgent}
+                    onRestored={handleAgentSaved}
+                  />
                 </CardContent>
               </Card>
             )}
 
-            {/* Input Form */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  💬 Agent Input
-                </CardTitle>
-                <CardDescription>
-                  Provide instructions or questions for your agent
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={handleStartRun} className="space-y-4">
-                  <Textarea
-                    placeholder="Enter your message or task for the agent..."
-                    value={inputText}
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => 
-                      setInputText(e.target.value)
-                    }
-                    rows={4}
-                    disabled={isRunning}
-                  />
-                  <Button 
-                    type="submit" 
-                    disabled={!selectedAgentId || !inputText.trim() || isLoading || isRunning}
-                    className="w-full"
-                  >
-                    {isLoading ? (
-                      '🔄 Starting...'
-                    ) : isRunning ? (
-                      '⏳ Running...'
-                    ) : (
-                      '🚀 Start Agent'
+            {/* Input Form; viewers can only watch */}
+            {canOperate && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    💬 Agent Input
+                  </CardTitle>
+                  <CardDescription>
+                    Provide instructions or questions for your agent
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleStartRun} className="space-y-4">
+                    <Tabs value={inputMode} onValueChange={(value: string) => setInputMode(value as 'text' | 'task' | 'crew')}>
+                      <TabsList className="w-full">
+                        <TabsTrigger value="text" disabled={isRunning}>✍️ Ad-hoc input</TabsTrigger>
+                        <TabsTrigger value="task" disabled={isRunning}>📋 Saved task</TabsTrigger>
+                        <TabsTrigger value="crew" disabled={isRunning}>👥 Crew</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="text" className="space-y-4">
+                        <Textarea
+                          placeholder="Enter your message or task for the agent..."
+                          value={inputText}
+                          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => 
+                            setInputText(e.target.value)
+                          }
+                          rows={4}
+                          disabled={isRunning}
+                        />
+                        {canEdit && (
+                          <SaveTaskDialog
+                            description={inputText}
+                            agentId={selectedAgentId}
+                            disabled={isRunning}
+                            onSaved={handleTaskSaved}
+                          />
+                        )}
+                      </TabsContent>
+                      <TabsContent value="task" className="space-y-3">
+                        {tasks.length === 0 ? (
+                          <p className="text-sm text-gray-500 text-center py-4">
+                            📭 No saved tasks yet. Write an ad-hoc input and save it as a task.
+                          </p>
+                        ) : (
+                          <Select
+                            value={selectedTaskId?.toString() || 'none'}
+                            onValueChange={(value: string) => handleSelectTask(parseInt(value))}
+                            disabled={isRunning}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a saved task..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none" disabled>Choose a saved task...</SelectItem>
+                              {tasks.map((task: Task) => (
+                                <SelectItem key={task.id} value={task.id.toString()}>
+                                  {task.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {selectedTask && (
+                          <div className="text-sm space-y-1 rounded-md border p-3 bg-gray-50">
+                            <p><strong>Description:</strong> {selectedTask.description}</p>
+                            <p><strong>Expected output:</strong> {selectedTask.expected_output}</p>
+                            {selectedTask.output_file && (
+                              <p><strong>Output file:</strong> {selectedTask.output_file}</p>
+                            )}
+                          </div>
+                        )}
+                      </TabsContent>
+                      <TabsContent value="crew" className="space-y-3">
+                        {crews.length === 0 ? (
+                          <p className="text-sm text-gray-500 text-center py-4">
+                            📭 No crews yet. Create one through the API to run agents together.
+                          </p>
+                        ) : (
+                          <Select
+                            value={selectedCrewId?.toString() || 'none'}
+                            onValueChange={(value: string) => setSelectedCrewId(parseInt(value))}
+                            disabled={isRunning}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a crew..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none" disabled>Choose a crew...</SelectItem>
+                              {crews.map((crew: Crew) => (
+                                <SelectItem key={crew.id} value={crew.id.toString()}>
+                                  {crew.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {selectedCrew && (
+                          <div className="text-sm space-y-1 rounded-md border p-3 bg-gray-50">
+                            <p><strong>Process:</strong> {selectedCrew.process}</p>
+                            {selectedCrew.manager_agent_id !== null && (
+                              <p><strong>Manager:</strong> {agentName(selectedCrew.manager_agent_id)}</p>
+                            )}
+                            <p><strong>Agents:</strong> {selectedCrew.agent_ids.map(agentName).join(', ')}</p>
+                            <p><strong>Tasks:</strong> {selectedCrew.task_ids.map(taskName).join(' → ')}</p>
+                          </div>
+                        )}
+                        <Textarea
+                          placeholder="Enter the input the whole crew should work on..."
+                          value={inputText}
+                          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                            setInputText(e.target.value)
+                          }
+                          rows={3}
+                          disabled={isRunning}
+                        />
+                      </TabsContent>
+                    </Tabs>
+                    <RunInputsForm
+                      variables={inputVariables}
+                      values={runInputs}
+                      onChange={setRunInputs}
+                      disabled={isRunning}
+                    />
+                    {!canUseSelectedAgent && inputMode !== 'crew' && (
+                      <p className="text-sm text-amber-700">
+                        🔒 This agent is restricted; ask its owner for access to run it.
+                      </p>
                     )}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                    <div className="flex gap-2">
+                      <Button 
+                        type="submit" 
+                        disabled={!canStartRun || isLoading || isRunning}
+                        className="flex-1"
+                      >
+                        {isLoading ? (
+                          '🔄 Starting...'
+                        ) : isRunning ? (
+                          '⏳ Running...'
+                        ) : (
+                          inputMode === 'crew' ? '🚀 Start Crew' : '🚀 Start Agent'
+                        )}
+                      </Button>
+                      {isRunning && (
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          onClick={handleCancelRun}
+                          disabled={isCancelling}
+                        >
+                          {isCancelling ? 'Stopping...' : '⏹️ Stop'}
+                        </Button>
+                      )}
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Right Column - Agent Output */}
@@ -328,6 +786,22 @@ function App() {
                       <p><strong>Completed:</strong> {currentRun.completed_at.toLocaleString()}</p>
                     )}
                   </div>
+                  {currentRun.output_json !== null && currentRun.output_json !== undefined && (
+                    <div className="mt-4 rounded-md border bg-gray-50 p-3 max-h-80 overflow-y-auto">
+                      <strong className="text-sm text-gray-600">Structured result:</strong>
+                      <div className="mt-2">
+                        <JsonTree value={currentRun.output_json} />
+                      </div>
+                    </div>
+                  )}
+                  {steps.length > 0 && (
+                    <div className="mt-4">
+                      <strong className="text-sm text-gray-600">Crew pipeline:</strong>
+                      <div className="mt-2">
+                        <CrewPipeline steps={steps} agents={agents} tasks={tasks} />
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -368,22 +842,7 @@ function App() {
                   ) : (
                     <div className="space-y-3">
                       {outputs.map((output: AgentOutput) => (
-                        <div 
-                          key={output.id} 
-                          className={`p-3 rounded-lg border-l-4 ${getOutputTypeStyle(output.output_type)}`}
-                        >
-                          <div className="flex items-center justify-between mb-2">
-                            <Badge variant="outline" className="text-xs">
-                              {output.output_type.toUpperCase()}
-                            </Badge>
-                            <span className="text-xs text-gray-500">
-                              {output.timestamp.toLocaleTimeString()}
-                            </span>
-                          </div>
-                          <pre className="whitespace-pre-wrap text-sm font-mono">
-                            {output.content}
-                          </pre>
-                        </div>
+                        <OutputEntry key={output.id} output={output} agentName={agentName} taskName={taskName} />
                       ))}
                     </div>
                   )}
@@ -393,6 +852,45 @@ function App() {
           </div>
         </div>
 
+        {/* Run History */}
+        <div className="mt-6">
+          <RunHistory
+            agents={agents}
+            refreshKey={`${currentRun?.id}:${currentRun?.status}:${archiveVersion}`}
+            onRunDeleted={() => setArchiveVersion((version: number) => version + 1)}
+          />
+        </div>
+
+        {canEdit && (
+          <div className="mt-6">
+            <Archive
+              agents={agents}
+              refreshKey={archiveVersion}
+              onAgentRestored={handleAgentRestored}
+              onRunRestored={() => setArchiveVersion((version: number) => version + 1)}
+            />
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="mt-6">
+            <CrewConfigSync
+              onImported={() => {
+                loadAgents();
+                loadTasks();
+              }}
+            />
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="mt-6 space-y-6">
+            <UserAdmin />
+            <ApiKeys agents={agents} />
+            <AuditLog />
+          </div>
+        )}
+
         {/* Footer */}
         <div className="text-center mt-8 text-sm text-gray-500">
           <p>
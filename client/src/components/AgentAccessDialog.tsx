@@ -0,0 +1,94 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState } from 'react';
+import type { AgentAccess, User } from '../../../server/src/schema';
+
+interface AgentAccessDialogProps {
+  agentName: string;
+  access: AgentAccess;
+  onSaved: (access: AgentAccess) => void;
+}
+
+// Lets the agent's owner or an admin restrict who may run and edit the agent
+export default function AgentAccessDialog({ agentName, access, onSaved }: AgentAccessDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [users, setUsers] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>(access.user_ids);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setSelectedIds(access.user_ids);
+    try {
+      setUsers(await trpc.getUsers.query());
+    } catch (error) {
+      notifyError('Failed to load users', error);
+    }
+  };
+
+  const toggleUser = (userId: number, checked: boolean) => {
+    setSelectedIds((ids: number[]) => checked ? [...ids, userId] : ids.filter(id => id !== userId));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await trpc.setAgentAccess.mutate({ agent_id: access.agent_id, user_ids: selectedIds });
+      onSaved(result);
+      setOpen(false);
+    } catch (error) {
+      notifyError('Failed to update agent access', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">🔐 Access</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Who can use {agentName}?</DialogTitle>
+          <DialogDescription>
+            With nobody selected, everyone whose role allows it can run and edit the agent.
+            The owner and admins always can.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {users
+            .filter((user: User) => user.id !== access.owner_id)
+            .map((user: User) => (
+              <label key={user.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selectedIds.includes(user.id)}
+                  onCheckedChange={(checked) => toggleUser(user.id, checked === true)}
+                />
+                <span>{user.username}</span>
+                <span className="text-gray-500">{user.role}</span>
+              </label>
+            ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save access'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,337 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import JsonSchemaInput from '@/components/JsonSchemaInput';
+import { trpc } from '@/utils/trpc';
+import { errorMessage } from '@/utils/errors';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { createAgentInputSchema } from '../../../server/src/schema';
+import type { Agent, CreateAgentInput, LLMProviderName } from '../../../server/src/schema';
+
+interface AgentEditorProps {
+  // Edits this agent; creates a new one when omitted
+  agent?: Agent;
+  trigger: React.ReactNode;
+  onSaved: (agent: Agent) => void;
+}
+
+const providers: LLMProviderName[] = ['openai', 'anthropic', 'ollama', 'mock'];
+
+const emptyAgent: CreateAgentInput = {
+  name: '',
+  description: null,
+  role: '',
+  goal: '',
+  backstory: '',
+  llm_provider: null,
+  llm: null,
+  temperature: null,
+  max_tokens: null,
+  max_iter: 20,
+  max_rpm: null,
+  max_execution_time: null,
+  verbose: false,
+  allow_delegation: false,
+  expected_output_schema: null,
+  is_active: true
+};
+
+const toFormValues = (agent: Agent): CreateAgentInput => ({
+  name: agent.name,
+  description: agent.description,
+  role: agent.role,
+  goal: agent.goal,
+  backstory: agent.backstory,
+  llm_provider: agent.llm_provider,
+  llm: agent.llm,
+  temperature: agent.temperature,
+  max_tokens: agent.max_tokens,
+  max_iter: agent.max_iter,
+  max_rpm: agent.max_rpm,
+  max_execution_time: agent.max_execution_time,
+  verbose: agent.verbose,
+  allow_delegation: agent.allow_delegation,
+  expected_output_schema: agent.expected_output_schema,
+  is_active: agent.is_active
+});
+
+// Empty number inputs mean "use the default", which the schema expresses as null
+const parseNumber = (value: string): number | null => value === '' ? null : Number(value);
+
+const numberFields = [
+  { name: 'temperature', label: 'Temperature', step: '0.1', placeholder: 'Provider default' },
+  { name: 'max_tokens', label: 'Max tokens', step: '1', placeholder: 'Provider default' },
+  { name: 'max_rpm', label: 'Max requests/min', step: '1', placeholder: 'Unlimited' },
+  { name: 'max_execution_time', label: 'Max execution time (s)', step: '1', placeholder: 'Unlimited' }
+] as const;
+
+export default function AgentEditor({ agent, trigger, onSaved }: AgentEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [isSchemaValid, setIsSchemaValid] = useState(true);
+  const form = useForm<CreateAgentInput>({
+    resolver: zodResolver(createAgentInputSchema),
+    mode: 'onChange',
+    defaultValues: agent ? toFormValues(agent) : emptyAgent
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      form.reset(agent ? toFormValues(agent) : emptyAgent);
+      setIsSchemaValid(true);
+    }
+    setOpen(next);
+  };
+
+  const onSubmit = async (values: CreateAgentInput) => {
+    try {
+      const saved = agent
+        ? await trpc.updateAgent.mutate({ id: agent.id, ...values })
+        : await trpc.createAgent.mutate(values);
+      onSaved(saved);
+      setOpen(false);
+    } catch (error) {
+      form.setError('root', { message: errorMessage(error) });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{agent ? `Edit ${agent.name}` : 'New agent'}</DialogTitle>
+              <DialogDescription>
+                The persona and execution settings the agent runs with.
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="h-[60vh] pr-4">
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Research Assistant" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Optional"
+                          value={field.value ?? ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(e.target.value || null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Senior Research Analyst" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="goal"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Goal</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="backstory"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Backstory</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expected_output_schema"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected output schema</FormLabel>
+                      <FormControl>
+                        <JsonSchemaInput
+                          value={field.value ?? null}
+                          onChange={field.onChange}
+                          onValidityChange={setIsSchemaValid}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Optional JSON Schema; final answers are parsed as JSON and checked against it
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="llm_provider"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Provider</FormLabel>
+                        <Select
+                          value={field.value ?? 'default'}
+                          onValueChange={(value: string) => field.onChange(value === 'default' ? null : value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="default">Server default</SelectItem>
+                            {providers.map((provider: LLMProviderName) => (
+                              <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="llm"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Model</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="Provider default"
+                            value={field.value ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(e.target.value || null)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {numberFields.map(({ name, label, step, placeholder }) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{label}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step={step}
+                              placeholder={placeholder}
+                              value={field.value ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(parseNumber(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                  <FormField
+                    control={form.control}
+                    name="max_iter"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max iterations</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="1"
+                            value={field.value ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(parseNumber(e.target.value) ?? undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {([
+                  { name: 'verbose', label: 'Verbose', description: 'Log the system prompt and every model response' },
+                  { name: 'allow_delegation', label: 'Allow delegation', description: 'Let the agent hand work to coworkers' },
+                  { name: 'is_active', label: 'Active', description: 'Only active agents can be started' }
+                ] as const).map(({ name, label, description }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between rounded-md border p-3">
+                        <div>
+                          <FormLabel>{label}</FormLabel>
+                          <FormDescription>{description}</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value ?? false} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </ScrollArea>
+            {form.formState.errors.root && (
+              <p className="text-sm text-red-600">{form.formState.errors.root.message}</p>
+            )}
+            <DialogFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting || !form.formState.isValid || !isSchemaValid}>
+                {form.formState.isSubmitting ? 'Saving...' : agent ? 'Save changes' : 'Create agent'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect, useCallback } from 'react';
+import type { Agent, AgentRevision, AgentRevisionChange, AgentRevisionDiff } from '../../../server/src/schema';
+
+interface AgentRevisionsProps {
+  agent: Agent;
+  // Whether the user may restore revisions; they can still browse and compare them
+  canRestore: boolean;
+  onRestored: (agent: Agent) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AgentRevisions({ agent, canRestore, onRestored }: AgentRevisionsProps) {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<AgentRevision[]>([]);
+  const [diff, setDiff] = useState<AgentRevisionDiff | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const result = await trpc.getAgentRevisions.query({ agent_id: agent.id });
+      setRevisions(result);
+      setDiff(null);
+    } catch (error) {
+      notifyError('Failed to load agent revisions', error);
+    }
+  }, [agent.id]);
+
+  // Reloaded whenever the agent is saved, since a save may add a revision
+  useEffect(() => {
+    if (open) {
+      loadRevisions();
+    }
+  }, [open, loadRevisions, agent.updated_at]);
+
+  const current = revisions[0];
+
+  const handleCompare = async (revision: AgentRevision) => {
+    if (!current) return;
+    try {
+      const result = await trpc.diffAgentRevisions.query({
+        from_revision_id: revision.id,
+        to_revision_id: current.id
+      });
+      setDiff(result);
+    } catch (error) {
+      notifyError('Failed to compare agent revisions', error);
+    }
+  };
+
+  const handleRestore = async (revision: AgentRevision) => {
+    setRestoringId(revision.id);
+    try {
+      const restored = await trpc.restoreAgentRevision.mutate({ revision_id: revision.id });
+      onRestored(restored);
+    } catch (error) {
+      notifyError('Failed to restore agent revision', error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-0">
+          {open ? '▾' : '▸'} 🕘 Revision history
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No revisions recorded yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {revisions.map((revision: AgentRevision) => (
+              <li key={revision.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span className="flex items-center gap-2">
+                  <strong>r{revision.revision}</strong>
+                  <span className="text-gray-500">{revision.created_at.toLocaleString()}</span>
+                  {revision.id === current?.id && <Badge variant="secondary">Current</Badge>}
+                </span>
+                {revision.id !== current?.id && (
+                  <span className="flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => handleCompare(revision)}>
+                      Compare
+                    </Button>
+                    {canRestore && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restoringId !== null}
+                        onClick={() => handleRestore(revision)}
+                      >
+                        {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                      </Button>
+                    )}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {diff && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              Changes from r{diff.from.revision} to r{diff.to.revision}
+            </p>
+            {diff.changes.length === 0 ? (
+              <p className="text-sm text-gray-500">The revisions are identical.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>r{diff.from.revision}</TableHead>
+                    <TableHead>r{diff.to.revision}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.changes.map((change: AgentRevisionChange) => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-medium">{change.field}</TableCell>
+                      <TableCell className="text-red-700 whitespace-pre-wrap">{formatValue(change.before)}</TableCell>
+                      <TableCell className="text-green-700 whitespace-pre-wrap">{formatValue(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
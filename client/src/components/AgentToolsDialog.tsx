@@ -0,0 +1,95 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState } from 'react';
+import type { ToolInfo, ToolName } from '../../../server/src/schema';
+
+interface AgentToolsDialogProps {
+  agentId: number;
+  agentName: string;
+  tools: ToolName[];
+  onSaved: (tools: ToolName[]) => void;
+}
+
+// Lets editors pick the built-in tools the agent may call while it works
+export default function AgentToolsDialog({ agentId, agentName, tools, onSaved }: AgentToolsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [available, setAvailable] = useState<ToolInfo[]>([]);
+  const [selected, setSelected] = useState<ToolName[]>(tools);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setSelected(tools);
+    try {
+      setAvailable(await trpc.getTools.query());
+    } catch (error) {
+      notifyError('Failed to load tools', error);
+    }
+  };
+
+  const toggleTool = (name: ToolName, checked: boolean) => {
+    setSelected((current: ToolName[]) => checked ? [...current, name] : current.filter(t => t !== name));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await trpc.setAgentTools.mutate({ agent_id: agentId, tools: selected });
+      onSaved(result);
+      setOpen(false);
+    } catch (error) {
+      notifyError('Failed to update agent tools', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">🧰 Tools</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tools for {agentName}</DialogTitle>
+          <DialogDescription>
+            The agent can call these while it works. Every call and its result show up in the run's outputs.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-72 overflow-y-auto">
+          {available.map((tool: ToolInfo) => (
+            <label key={tool.name} className="flex items-start gap-2 text-sm">
+              <Checkbox
+                className="mt-0.5"
+                checked={selected.includes(tool.name)}
+                onCheckedChange={(checked) => toggleTool(tool.name, checked === true)}
+              />
+              <span>
+                <code className="font-semibold">{tool.name}</code>
+                <span className="block text-gray-500">{tool.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save tools'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect, useCallback } from 'react';
+import { apiKeyScopeSchema, type Agent, type ApiKey, type ApiKeyScope } from '../../../server/src/schema';
+
+interface ApiKeysProps {
+  agents: Agent[];
+}
+
+// Admin panel for the API keys external executors use to report run status and outputs
+export default function ApiKeys({ agents }: ApiKeysProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['runs:write', 'outputs:write']);
+  const [agentId, setAgentId] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  // Shown once right after creation; the server keeps only a hash
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      setApiKeys(await trpc.getApiKeys.query());
+    } catch (error) {
+      notifyError('Failed to load API keys', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current: ApiKeyScope[]) => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const result = await trpc.createApiKey.mutate({ name: name.trim(), scopes, agent_id: agentId });
+      setCreatedKey(result.key);
+      setName('');
+      await loadApiKeys();
+    } catch (error) {
+      notifyError('Failed to create API key', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    try {
+      await trpc.revokeApiKey.mutate({ id: apiKey.id });
+      await loadApiKeys();
+    } catch (error) {
+      notifyError('Failed to revoke API key', error);
+    }
+  };
+
+  const agentName = (id: number) => agents.find((agent: Agent) => agent.id === id)?.name ?? `Agent #${id}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🔑 API keys</CardTitle>
+        <CardDescription>
+          Machine clients send a key as <code>Authorization: Bearer &lt;key&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {createdKey && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm space-y-1">
+            <p>Copy the new key now; it won't be shown again.</p>
+            <code className="block break-all">{createdKey}</code>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>Done</Button>
+          </div>
+        )}
+
+        {apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500">No API keys yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {apiKeys.map((apiKey: ApiKey) => (
+              <div key={apiKey.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span className="flex flex-wrap items-center gap-2">
+                  <strong>{apiKey.name}</strong>
+                  <code className="text-gray-500">{apiKey.prefix}…</code>
+                  {apiKey.scopes.map((scope: ApiKeyScope) => (
+                    <Badge key={scope} variant="outline">{scope}</Badge>
+                  ))}
+                  {apiKey.agent_id !== null && <Badge variant="secondary">👤 {agentName(apiKey.agent_id)}</Badge>}
+                  <span className="text-gray-500">
+                    {apiKey.last_used_at ? `Used ${apiKey.last_used_at.toLocaleString()}` : 'Never used'}
+                  </span>
+                </span>
+                {apiKey.revoked_at ? (
+                  <Badge variant="secondary">Revoked</Badge>
+                ) : (
+                  <ConfirmDialog
+                    trigger={<Button variant="destructive" size="sm">Revoke</Button>}
+                    title={`Revoke ${apiKey.name}?`}
+                    description="Clients using this key are rejected from now on."
+                    confirmLabel="Revoke key"
+                    onConfirm={() => handleRevoke(apiKey)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="Key name, e.g. CrewAI worker"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              className="flex-1 min-w-40"
+              required
+            />
+            <Select
+              value={agentId?.toString() ?? 'all'}
+              onValueChange={(value: string) => setAgentId(value === 'all' ? null : parseInt(value))}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Runs of any agent</SelectItem>
+                {agents.map((agent: Agent) => (
+                  <SelectItem key={agent.id} value={agent.id.toString()}>
+                    Runs of {agent.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {apiKeyScopeSchema.options.map((scope: ApiKeyScope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                {scope}
+              </label>
+            ))}
+            <Button type="submit" className="ml-auto" disabled={isCreating || !name.trim() || scopes.length === 0}>
+              {isCreating ? 'Creating...' : '➕ Create key'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import { useHasRole } from '@/utils/auth';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect, useCallback } from 'react';
+import type { Agent, AgentRun, Archive as ArchiveContents } from '../../../server/src/schema';
+
+interface ArchiveProps {
+  agents: Agent[];
+  // Changing this reloads the archive, e.g. after something was deleted elsewhere
+  refreshKey?: unknown;
+  onAgentRestored: (agent: Agent) => void;
+  onRunRestored: (run: AgentRun) => void;
+}
+
+const emptyArchive: ArchiveContents = { agents: [], runs: [] };
+
+export default function Archive({ agents, refreshKey, onAgentRestored, onRunRestored }: ArchiveProps) {
+  const [archive, setArchive] = useState<ArchiveContents>(emptyArchive);
+  const canPurge = useHasRole('admin');
+
+  const loadArchive = useCallback(async () => {
+    try {
+      const result = await trpc.getArchive.query();
+      setArchive(result);
+    } catch (error) {
+      notifyError('Failed to load archive', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadArchive();
+  }, [loadArchive, refreshKey]);
+
+  const agentName = (id: number) => agents.find((agent: Agent) => agent.id === id)?.name ?? `Agent #${id}`;
+
+  const handleRestoreAgent = async (agent: Agent) => {
+    try {
+      const restored = await trpc.restoreAgent.mutate({ id: agent.id });
+      onAgentRestored(restored);
+      await loadArchive();
+    } catch (error) {
+      notifyError('Failed to restore agent', error);
+    }
+  };
+
+  const handlePurgeAgent = async (agent: Agent) => {
+    try {
+      await trpc.purgeAgent.mutate({ id: agent.id });
+      await loadArchive();
+    } catch (error) {
+      notifyError('Failed to purge agent', error);
+    }
+  };
+
+  const handleRestoreRun = async (run: AgentRun) => {
+    try {
+      const restored = await trpc.restoreAgentRun.mutate({ id: run.id });
+      onRunRestored(restored);
+      await loadArchive();
+    } catch (error) {
+      notifyError('Failed to restore run', error);
+    }
+  };
+
+  const handlePurgeRun = async (run: AgentRun) => {
+    try {
+      await trpc.purgeAgentRun.mutate({ id: run.id });
+      await loadArchive();
+    } catch (error) {
+      notifyError('Failed to purge run', error);
+    }
+  };
+
+  if (archive.agents.length === 0 && archive.runs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🗄️ Archive</CardTitle>
+        <CardDescription>
+          Deleted agents and runs. Restore them, or purge them to remove them for good.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {archive.agents.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-600">Agents</h3>
+            {archive.agents.map((agent: Agent) => (
+              <div key={agent.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span className="flex items-center gap-2">
+                  <strong>{agent.name}</strong>
+                  <span className="text-gray-500">{agent.role}</span>
+                  {agent.deleted_at && (
+                    <Badge variant="outline">Deleted {agent.deleted_at.toLocaleString()}</Badge>
+                  )}
+                </span>
+                <span className="flex gap-1">
+                  <Button variant="outline" size="sm" onClick={() => handleRestoreAgent(agent)}>
+                    Restore
+                  </Button>
+                  {canPurge && (
+                    <ConfirmDialog
+                      trigger={<Button variant="destructive" size="sm">Purge</Button>}
+                      title={`Purge ${agent.name}?`}
+                      description="The agent, its runs, their outputs and its revision history are removed permanently."
+                      confirmLabel="Purge agent"
+                      onConfirm={() => handlePurgeAgent(agent)}
+                    />
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {archive.runs.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-600">Runs</h3>
+            {archive.runs.map((run: AgentRun) => (
+              <div key={run.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <strong>#{run.id}</strong>
+                  <span className="text-gray-500">{agentName(run.agent_id)}</span>
+                  <span className="truncate max-w-xs">{run.input_text}</span>
+                </span>
+                <span className="flex gap-1">
+                  <Button variant="outline" size="sm" onClick={() => handleRestoreRun(run)}>
+                    Restore
+                  </Button>
+                  {canPurge && (
+                    <ConfirmDialog
+                      trigger={<Button variant="destructive" size="sm">Purge</Button>}
+                      title={`Purge run #${run.id}?`}
+                      description="The run and all of its outputs are removed permanently."
+                      confirmLabel="Purge run"
+                      onConfirm={() => handlePurgeRun(run)}
+                    />
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect, useCallback } from 'react';
+import type { AuditEvent, ListAuditEventsInput, User } from '../../../server/src/schema';
+
+interface AuditFilters {
+  procedure: string;
+  user_id: string;
+  outcome: 'all' | 'success' | 'failure';
+}
+
+const emptyFilters: AuditFilters = { procedure: 'all', user_id: 'all', outcome: 'all' };
+
+const formatJson = (value: unknown): string => JSON.stringify(value, null, 2);
+
+const actorLabel = (event: AuditEvent): string => {
+  if (event.actor_type === 'anonymous') return 'Anonymous';
+  const name = event.actor_name ?? `#${event.user_id ?? event.api_key_id}`;
+  return event.actor_type === 'api_key' ? `🔑 ${name}` : name;
+};
+
+// Admin viewer for the audit log of API mutations, newest first
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [procedures, setProcedures] = useState<string[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEvents = useCallback(async (cursor?: number) => {
+    const input: ListAuditEventsInput = { limit: 50, cursor };
+    if (filters.procedure !== 'all') input.procedure = filters.procedure;
+    if (filters.user_id !== 'all') input.user_id = parseInt(filters.user_id);
+    if (filters.outcome !== 'all') input.success = filters.outcome === 'success';
+
+    setIsLoading(true);
+    try {
+      const page = await trpc.listAuditEvents.query(input);
+      setEvents((current: AuditEvent[]) => cursor === undefined ? page.items : [...current, ...page.items]);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      notifyError('Failed to load audit events', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  useEffect(() => {
+    Promise.all([trpc.getAuditProcedures.query(), trpc.getUsers.query()])
+      .then(([procedureNames, userList]) => {
+        setProcedures(procedureNames);
+        setUsers(userList);
+      })
+      .catch((error: unknown) => notifyError('Failed to load audit filters', error));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">🧾 Audit log</span>
+          <Button variant="outline" size="sm" onClick={() => loadEvents()} disabled={isLoading}>
+            🔄 Refresh
+          </Button>
+        </CardTitle>
+        <CardDescription>Every change made through the API, with who made it and what changed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={filters.procedure || 'all'}
+            onValueChange={(value: string) => setFilters((current: AuditFilters) => ({ ...current, procedure: value }))}
+          >
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {procedures.map((procedure: string) => (
+                <SelectItem key={procedure} value={procedure}>{procedure}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.user_id || 'all'}
+            onValueChange={(value: string) => setFilters((current: AuditFilters) => ({ ...current, user_id: value }))}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All users</SelectItem>
+              {users.map((user: User) => (
+                <SelectItem key={user.id} value={user.id.toString()}>{user.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.outcome || 'all'}
+            onValueChange={(value: string) =>
+              setFilters((current: AuditFilters) => ({ ...current, outcome: value as AuditFilters['outcome'] }))
+            }
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any outcome</SelectItem>
+              <SelectItem value="success">Succeeded</SelectItem>
+              <SelectItem value="failure">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" onClick={() => setFilters(emptyFilters)}>Reset</Button>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            {isLoading ? 'Loading...' : 'No audit events match these filters'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {events.map((event: AuditEvent) => (
+              <Collapsible key={event.id} className="rounded-md border p-2 text-sm">
+                <CollapsibleTrigger asChild>
+                  <button type="button" className="flex w-full items-center justify-between gap-2 text-left">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <Badge variant={event.success ? 'outline' : 'destructive'}>
+                        {event.success ? 'OK' : 'FAILED'}
+                      </Badge>
+                      <code>{event.procedure}</code>
+                      <span className="text-gray-600 truncate">{actorLabel(event)}</span>
+                      {event.changes && Object.keys(event.changes).length > 0 && (
+                        <span className="text-gray-500 truncate">
+                          changed {Object.keys(event.changes).join(', ')}
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500 shrink-0">{event.created_at.toLocaleString()}</span>
+                  </button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="mt-2 space-y-2">
+                  {event.error && <p className="text-red-600">{event.error}</p>}
+                  {event.changes && Object.keys(event.changes).length > 0 && (
+                    <div className="grid grid-cols-3 gap-x-4 gap-y-1">
+                      <span className="font-semibold">Field</span>
+                      <span className="font-semibold">Before</span>
+                      <span className="font-semibold">After</span>
+                      {Object.entries(event.changes).map(([field, change]) => (
+                        <div key={field} className="contents">
+                          <span>{field}</span>
+                          <span className="text-red-700 break-all">{formatJson(change.from)}</span>
+                          <span className="text-green-700 break-all">{formatJson(change.to)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <strong className="text-gray-600">Input</strong>
+                    <pre className="whitespace-pre-wrap font-mono text-xs bg-gray-50 rounded p-2">{formatJson(event.input)}</pre>
+                  </div>
+                  {event.success && (
+                    <div>
+                      <strong className="text-gray-600">Result</strong>
+                      <pre className="whitespace-pre-wrap font-mono text-xs bg-gray-50 rounded p-2 max-h-48 overflow-y-auto">
+                        {formatJson(event.result)}
+                      </pre>
+                    </div>
+                  )}
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+          </div>
+        )}
+
+        {nextCursor !== null && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => loadEvents(nextCursor)} disabled={isLoading}>
+              {isLoading ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import LoginScreen from '@/components/LoginScreen';
+import { CurrentUserContext } from '@/utils/auth';
+import { trpc, onUnauthorized } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect } from 'react';
+import type { User } from '../../../server/src/schema';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+// Shows the login screen until there is a signed-in user, and again once the session ends
+export default function AuthGate({ children }: AuthGateProps) {
+  // undefined while the session is being checked
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+
+  useEffect(() => {
+    trpc.me.query()
+      .then(setUser)
+      .catch((error: unknown) => {
+        notifyError('Failed to check session', error);
+        setUser(null);
+      });
+
+    onUnauthorized(() => setUser(null));
+    return () => onUnauthorized(null);
+  }, []);
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      notifyError('Logout failed', error);
+    }
+    setUser(null);
+  };
+
+  if (user === undefined) {
+    return null;
+  }
+
+  if (user === null) {
+    return <LoginScreen onLoggedIn={setUser} />;
+  }
+
+  return (
+    <CurrentUserContext.Provider value={user}>
+      <div className="flex items-center justify-end gap-3 px-6 pt-4 text-sm text-gray-600">
+        <span>Signed in as <strong>{user.username}</strong> ({user.role})</span>
+        <Button variant="outline" size="sm" onClick={handleLogout}>Log out</Button>
+      </div>
+      {/* Remounted per user so no state leaks from a previous session */}
+      <div key={user.id}>{children}</div>
+    </CurrentUserContext.Provider>
+  );
+}
@@ -0,0 +1,205 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState } from 'react';
+import type {
+  ImportAction,
+  ImportAgentsResult,
+  ImportChange,
+  ImportConflictStrategy,
+  ImportItem
+} from '../../../server/src/schema';
+
+interface CrewConfigSyncProps {
+  // Called after an import wrote something, so agent and task lists can reload
+  onImported: () => void;
+}
+
+interface ConfigFile {
+  name: string;
+  text: string;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'new',
+  update: 'overwrite',
+  unchanged: 'unchanged',
+  skip: 'skip',
+  rename: 'new copy'
+};
+
+const ACTION_VARIANTS: Record<ImportAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'destructive',
+  unchanged: 'outline',
+  skip: 'secondary',
+  rename: 'default'
+};
+
+const formatValue = (value: unknown): string =>
+  value === null ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const download = (fileName: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/yaml' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function ImportItemRow({ item }: { item: ImportItem }) {
+  return (
+    <div className="rounded-md border p-2 text-sm space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={ACTION_VARIANTS[item.action]}>{ACTION_LABELS[item.action]}</Badge>
+        <span>{item.kind === 'agent' ? '👤' : '📋'}</span>
+        <strong>{item.name}</strong>
+        <code className="text-gray-500">{item.key}</code>
+      </div>
+      {item.action !== 'skip' && item.changes.length > 0 && (
+        <ul className="pl-5 text-xs space-y-0.5">
+          {item.changes.map((change: ImportChange) => (
+            <li key={change.field} className="font-mono break-words">
+              <span className="font-semibold">{change.field}</span>:{' '}
+              {item.action === 'update' && <><span className="text-red-700 line-through">{formatValue(change.before)}</span> → </>}
+              <span className="text-green-700">{formatValue(change.after)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {item.ignored_fields.length > 0 && (
+        <p className="text-xs text-gray-500">Not imported: {item.ignored_fields.join(', ')}</p>
+      )}
+    </div>
+  );
+}
+
+// Moves agents and tasks in and out as a CrewAI project's config/agents.yaml and config/tasks.yaml
+export default function CrewConfigSync({ onImported }: CrewConfigSyncProps) {
+  const [agentsFile, setAgentsFile] = useState<ConfigFile | null>(null);
+  const [tasksFile, setTasksFile] = useState<ConfigFile | null>(null);
+  const [onConflict, setOnConflict] = useState<ImportConflictStrategy>('skip');
+  const [result, setResult] = useState<ImportAgentsResult | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const files = await trpc.exportAgents.query();
+      download('agents.yaml', files.agents_yaml);
+      download('tasks.yaml', files.tasks_yaml);
+    } catch (error) {
+      notifyError('Failed to export agents', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // A preview no longer matches once the files or the conflict handling change
+  const handleFileChange = (setFile: (file: ConfigFile | null) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResult(null);
+    setFile(file ? { name: file.name, text: await file.text() } : null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!agentsFile) return;
+    setIsImporting(true);
+    try {
+      const imported = await trpc.importAgents.mutate({
+        agents_yaml: agentsFile.text,
+        tasks_yaml: tasksFile?.text ?? '',
+        on_conflict: onConflict,
+        dry_run: dryRun
+      });
+      setResult(imported);
+      if (!dryRun) {
+        onImported();
+      }
+    } catch (error) {
+      notifyError(dryRun ? 'Failed to preview import' : 'Failed to import agents', error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const writes = result?.items.filter((item: ImportItem) => item.action !== 'skip' && item.action !== 'unchanged').length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">📦 CrewAI config</CardTitle>
+        <CardDescription>
+          Download agents and tasks as <code>config/agents.yaml</code> and <code>config/tasks.yaml</code>, or import them from a CrewAI project.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? 'Exporting...' : '⬇️ Download YAML'}
+        </Button>
+
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="crew-config-agents">agents.yaml</Label>
+            <Input id="crew-config-agents" type="file" accept=".yaml,.yml" onChange={handleFileChange(setAgentsFile)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="crew-config-tasks">tasks.yaml (optional)</Label>
+            <Input id="crew-config-tasks" type="file" accept=".yaml,.yml" onChange={handleFileChange(setTasksFile)} />
+          </div>
+          <div className="space-y-1">
+            <Label>When a name is taken</Label>
+            <Select
+              value={onConflict}
+              onValueChange={(value: string) => {
+                setOnConflict(value as ImportConflictStrategy);
+                setResult(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="skip">Keep the existing one</SelectItem>
+                <SelectItem value="overwrite">Overwrite it</SelectItem>
+                <SelectItem value="rename">Import as a numbered copy</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => runImport(true)} disabled={!agentsFile || isImporting}>
+            🔍 Preview
+          </Button>
+          <Button
+            onClick={() => runImport(false)}
+            disabled={!agentsFile || isImporting || result === null || !result.dry_run || writes === 0}
+          >
+            {isImporting ? 'Importing...' : '⬆️ Import'}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {result.dry_run
+                ? writes === 0 ? 'Nothing to import; everything is skipped or unchanged.' : `Importing writes ${writes} of ${result.items.length} entries:`
+                : `Imported ${writes} of ${result.items.length} entries.`}
+            </p>
+            {result.items.map((item: ImportItem) => (
+              <ImportItemRow key={`${item.kind}:${item.key}`} item={item} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
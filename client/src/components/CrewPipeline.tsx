@@ -0,0 +1,42 @@
+import { Badge } from '@/components/ui/badge';
+import type { Agent, RunStep, Task } from '../../../server/src/schema';
+
+interface CrewPipelineProps {
+  steps: RunStep[];
+  agents: Agent[];
+  tasks: Task[];
+}
+
+const stepIcons: Record<RunStep['status'], string> = {
+  pending: '⏸️',
+  running: '⏳',
+  completed: '✅',
+  failed: '❌',
+  cancelled: '⏹️'
+};
+
+export default function CrewPipeline({ steps, agents, tasks }: CrewPipelineProps) {
+  const agentName = (id: number | null) =>
+    id === null ? 'Awaiting manager' : agents.find((agent: Agent) => agent.id === id)?.name ?? `Agent #${id}`;
+  const taskName = (id: number | null) =>
+    id === null ? 'Deleted task' : tasks.find((task: Task) => task.id === id)?.name ?? `Task #${id}`;
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step: RunStep) => (
+        <li
+          key={step.id}
+          className={`flex items-center justify-between rounded-md border p-2 text-sm ${
+            step.status === 'running' ? 'border-blue-400 bg-blue-50' : ''
+          }`}
+        >
+          <span className="flex items-center gap-2">
+            <span>{stepIcons[step.status]}</span>
+            <span className="font-medium">{step.position + 1}. {taskName(step.task_id)}</span>
+          </span>
+          <Badge variant="outline">👤 {agentName(step.agent_id)}</Badge>
+        </li>
+      ))}
+    </ol>
+  );
+}
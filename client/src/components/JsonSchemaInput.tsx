@@ -0,0 +1,65 @@
+import { Textarea } from '@/components/ui/textarea';
+import { useState } from 'react';
+import { jsonSchemaSchema, type JsonSchema } from '../../../server/src/schema';
+
+interface JsonSchemaInputProps {
+  id?: string;
+  value: JsonSchema | null;
+  onChange: (schema: JsonSchema | null) => void;
+  // Called whenever the text switches between usable and not, so forms can block saving
+  onValidityChange?: (valid: boolean) => void;
+}
+
+const formatSchema = (schema: JsonSchema | null): string => schema ? JSON.stringify(schema, null, 2) : '';
+
+const parseSchema = (text: string): { schema: JsonSchema | null } | { error: string } => {
+  if (!text.trim()) return { schema: null };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'Not valid JSON' };
+  }
+
+  const result = jsonSchemaSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    return { error: `${path}${issue.message}` };
+  }
+  return { schema: result.data };
+};
+
+// Text editor for an expected output JSON Schema; empty text means no schema
+export default function JsonSchemaInput({ id, value, onChange, onValidityChange }: JsonSchemaInputProps) {
+  const [text, setText] = useState(() => formatSchema(value));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = parseSchema(next);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      onValidityChange?.(false);
+      return;
+    }
+    setError(null);
+    onValidityChange?.(true);
+    onChange(parsed.schema);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        id={id}
+        rows={6}
+        className="font-mono text-xs"
+        placeholder={'{\n  "type": "object",\n  "properties": { "summary": { "type": "string" } },\n  "required": ["summary"]\n}'}
+        value={text}
+        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => handleChange(e.target.value)}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+
+interface JsonTreeProps {
+  value: unknown;
+  // Label shown before the value, e.g. an object key or array index
+  name?: string;
+  // Nesting depth; levels below this start expanded
+  depth?: number;
+}
+
+const EXPANDED_DEPTH = 2;
+
+function JsonLeaf({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-gray-500">null</span>;
+  switch (typeof value) {
+    case 'string':
+      return <span className="text-green-700 break-all">"{value}"</span>;
+    case 'number':
+      return <span className="text-blue-700">{value}</span>;
+    case 'boolean':
+      return <span className="text-purple-700">{String(value)}</span>;
+    default:
+      return <span className="text-gray-500">{String(value)}</span>;
+  }
+}
+
+// Collapsible, syntax-coloured view of a parsed JSON value
+export default function JsonTree({ value, name, depth = 0 }: JsonTreeProps) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const label = name !== undefined && <span className="text-gray-700">{name}: </span>;
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="font-mono text-sm">
+        {label}
+        <JsonLeaf value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries: [string, unknown][] = isArray
+    ? value.map((item: unknown, index: number) => [String(index), item])
+    : Object.entries(value);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div className="font-mono text-sm">
+      <button
+        type="button"
+        className="text-left hover:bg-gray-100 rounded"
+        onClick={() => setExpanded((current: boolean) => !current)}
+      >
+        <span className="inline-block w-4 text-gray-400">{expanded ? '▾' : '▸'}</span>
+        {label}
+        {open}
+        {!expanded && <span className="text-gray-400"> {entries.length} {isArray ? 'items' : 'keys'} </span>}
+        {!expanded && close}
+      </button>
+      {expanded && (
+        <>
+          <div className="ml-4 border-l pl-2">
+            {entries.map(([key, item]) => (
+              <JsonTree key={key} name={key} value={item} depth={depth + 1} />
+            ))}
+          </div>
+          <span className="ml-4">{close}</span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  artifactMetadataSchema,
+  outputValidationMetadataSchema,
+  tokenUsageMetadataSchema,
+  toolCallMetadataSchema,
+  toolResultMetadataSchema,
+  type AgentOutput
+} from '../../../server/src/schema';
+
+interface OutputEntryProps {
+  output: AgentOutput;
+  agentName?: (id: number) => string;
+  taskName?: (id: number) => string;
+}
+
+const TYPE_STYLES: Record<AgentOutput['output_type'], string> = {
+  log: 'text-gray-600 bg-gray-50',
+  result: 'text-green-700 bg-green-50 font-medium',
+  error: 'text-red-700 bg-red-50 font-medium',
+  thought: 'text-violet-700 bg-violet-50 italic',
+  tool_call: 'text-amber-800 bg-amber-50',
+  tool_result: 'text-sky-800 bg-sky-50',
+  delegation: 'text-indigo-700 bg-indigo-50',
+  metric: 'text-gray-500 bg-white',
+  artifact: 'text-teal-700 bg-teal-50'
+};
+
+const TYPE_LABELS: Record<AgentOutput['output_type'], string> = {
+  log: 'LOG',
+  result: 'RESULT',
+  error: 'ERROR',
+  thought: '💭 THOUGHT',
+  tool_call: '🔧 TOOL CALL',
+  tool_result: '📤 TOOL RESULT',
+  delegation: '🤝 DELEGATION',
+  metric: '📊 METRIC',
+  artifact: '📄 ARTIFACT'
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KiB`;
+
+// Tool calls and results fold away behind a one-line summary; they can get long
+function ToolBody({ output }: { output: AgentOutput }) {
+  const call = toolCallMetadataSchema.safeParse(output.metadata);
+  const result = toolResultMetadataSchema.safeParse(output.metadata);
+  const tool = call.success ? call.data.tool : result.success ? result.data.tool : null;
+  const failed = output.output_type === 'tool_result' && result.success && result.data.error !== null;
+  const detail = output.output_type === 'tool_call' && call.success
+    ? JSON.stringify(call.data.input, null, 2)
+    : output.content;
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center gap-2 text-left text-sm">
+          <code className="font-semibold">{tool ?? 'tool'}</code>
+          {failed && <Badge variant="destructive" className="text-xs">failed</Badge>}
+          <span className="truncate text-gray-500">{output.content.split('\n')[0]}</span>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="mt-2 whitespace-pre-wrap text-sm font-mono max-h-64 overflow-y-auto">{detail}</pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function OutputBody({ output }: { output: AgentOutput }) {
+  switch (output.output_type) {
+    case 'tool_call':
+    case 'tool_result':
+      return <ToolBody output={output} />;
+    case 'metric': {
+      const usage = tokenUsageMetadataSchema.safeParse(output.metadata);
+      if (!usage.success) break;
+      return (
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline">{usage.data.model}</Badge>
+          <Badge variant="outline">{usage.data.input_tokens} in</Badge>
+          <Badge variant="outline">{usage.data.output_tokens} out</Badge>
+        </div>
+      );
+    }
+    case 'artifact': {
+      const artifact = artifactMetadataSchema.safeParse(output.metadata);
+      if (!artifact.success) break;
+      return (
+        <p className="text-sm">
+          <code className="break-all">{artifact.data.path}</code>
+          <span className="text-gray-500"> ({formatBytes(artifact.data.bytes)})</span>
+        </p>
+      );
+    }
+    case 'error': {
+      const validation = outputValidationMetadataSchema.safeParse(output.metadata);
+      if (!validation.success) break;
+      return (
+        <div className="text-sm">
+          <p>Attempt {validation.data.attempt} didn't match the expected output schema:</p>
+          <ul className="mt-1 list-disc pl-5 font-mono font-normal">
+            {validation.data.errors.map((error: string) => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      );
+    }
+  }
+
+  return <pre className="whitespace-pre-wrap text-sm font-mono">{output.content}</pre>;
+}
+
+// One run output, styled by its type; names are shown when the output belongs to a crew member or task
+export default function OutputEntry({ output, agentName, taskName }: OutputEntryProps) {
+  const compact = output.output_type === 'metric';
+
+  return (
+    <div className={`rounded-lg border-l-4 ${compact ? 'px-3 py-1' : 'p-3'} ${TYPE_STYLES[output.output_type]}`}>
+      <div className={`flex items-center justify-between ${compact ? 'mb-1' : 'mb-2'}`}>
+        <div className="flex items-center gap-1">
+          <Badge variant="outline" className="text-xs">{TYPE_LABELS[output.output_type]}</Badge>
+          {agentName && output.agent_id !== null && (
+            <Badge variant="secondary" className="text-xs">👤 {agentName(output.agent_id)}</Badge>
+          )}
+          {taskName && output.task_id !== null && (
+            <Badge variant="secondary" className="text-xs">📋 {taskName(output.task_id)}</Badge>
+          )}
+        </div>
+        <span className="text-xs text-gray-500">{output.timestamp.toLocaleTimeString()}</span>
+      </div>
+      <OutputBody output={output} />
+    </div>
+  );
+}
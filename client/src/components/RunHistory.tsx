@@ -0,0 +1,357 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import OutputEntry from '@/components/OutputEntry';
+import JsonTree from '@/components/JsonTree';
+import ConfirmDialog from '@/components/ConfirmDialog';
+import { useHasRole } from '@/utils/auth';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect, useCallback } from 'react';
+import type { Agent, AgentOutput, AgentRun, AgentRunWithOutputs, RunStatus } from '../../../server/src/schema';
+
+interface RunHistoryProps {
+  agents: Agent[];
+  // Changing this reloads the current page, e.g. when a run finishes
+  refreshKey?: unknown;
+  onRunDeleted?: (run: AgentRun) => void;
+}
+
+interface RunFilters {
+  agentId: number | null;
+  status: RunStatus | null;
+  from: string; // yyyy-mm-dd from the date inputs
+  to: string;
+  search: string;
+  sort: 'newest' | 'oldest';
+}
+
+const PAGE_SIZE = 10;
+
+const emptyFilters: RunFilters = { agentId: null, status: null, from: '', to: '', search: '', sort: 'newest' };
+
+const statusColors: Record<RunStatus, string> = {
+  pending: 'bg-yellow-500',
+  running: 'bg-blue-500',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-400'
+};
+
+export default function RunHistory({ agents, refreshKey, onRunDeleted }: RunHistoryProps) {
+  const [filters, setFilters] = useState<RunFilters>(emptyFilters);
+  const [searchText, setSearchText] = useState('');
+  // Cursor for each page visited so far; the first page has none
+  const [cursors, setCursors] = useState<(number | undefined)[]>([undefined]);
+  const [runs, setRuns] = useState<AgentRun[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<AgentRunWithOutputs | null>(null);
+  const canDelete = useHasRole('editor');
+  const canRetry = useHasRole('operator');
+
+  const cursor = cursors[cursors.length - 1];
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const page = await trpc.listAgentRuns.query({
+        agent_id: filters.agentId ?? undefined,
+        status: filters.status ?? undefined,
+        created_after: filters.from ? new Date(`${filters.from}T00:00:00`) : undefined,
+        created_before: filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined,
+        search: filters.search || undefined,
+        sort: filters.sort,
+        cursor,
+        limit: PAGE_SIZE
+      });
+      setRuns(page.items);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      notifyError('Failed to load run history', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, cursor]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, refreshKey]);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<RunFilters>) => {
+    setFilters((prev: RunFilters) => ({ ...prev, ...changes }));
+    setCursors([undefined]);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchText.trim() });
+  };
+
+  const handleReset = () => {
+    setSearchText('');
+    updateFilters(emptyFilters);
+  };
+
+  const openRun = async (runId: number) => {
+    try {
+      const run = await trpc.getAgentRun.query({ id: runId });
+      setSelectedRun(run);
+    } catch (error) {
+      notifyError('Failed to load run', error);
+    }
+  };
+
+  const handleDeleteRun = async (run: AgentRun) => {
+    try {
+      await trpc.deleteAgentRun.mutate({ id: run.id });
+      setSelectedRun(null);
+      onRunDeleted?.(run);
+      await loadRuns();
+    } catch (error) {
+      notifyError('Failed to delete run', error);
+    }
+  };
+
+  // Failed and cancelled runs go back to the queue as their next attempt
+  const handleRetryRun = async (run: AgentRun) => {
+    try {
+      await trpc.retryAgentRun.mutate({ id: run.id });
+      await openRun(run.id);
+      await loadRuns();
+    } catch (error) {
+      notifyError('Failed to retry run', error);
+    }
+  };
+
+  const agentName = (id: number) => agents.find((agent: Agent) => agent.id === id)?.name ?? `Agent #${id}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🕘 Run History
+        </CardTitle>
+        <CardDescription>
+          Browse past runs and open one to see its outputs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Select
+            value={filters.agentId?.toString() ?? 'all'}
+            onValueChange={(value: string) => updateFilters({ agentId: value === 'all' ? null : parseInt(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="All agents" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All agents</SelectItem>
+              {agents.map((agent: Agent) => (
+                <SelectItem key={agent.id} value={agent.id.toString()}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.status ?? 'all'}
+            onValueChange={(value: string) => updateFilters({ status: value === 'all' ? null : value as RunStatus })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Any status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any status</SelectItem>
+              {(Object.keys(statusColors) as RunStatus[]).map((status: RunStatus) => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.sort || 'newest'}
+            onValueChange={(value: string) => updateFilters({ sort: value as RunFilters['sort'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">Newest first</SelectItem>
+              <SelectItem value="oldest">Oldest first</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            aria-label="Created from"
+            value={filters.from}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilters({ from: e.target.value })}
+          />
+          <Input
+            type="date"
+            aria-label="Created until"
+            value={filters.to}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilters({ to: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <Input
+              placeholder="Search input text..."
+              value={searchText}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchText(e.target.value)}
+            />
+            <Button type="submit" variant="outline">🔍</Button>
+            <Button type="button" variant="ghost" onClick={handleReset}>Reset</Button>
+          </div>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Run</TableHead>
+              <TableHead>Agent</TableHead>
+              <TableHead>Input</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Created</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-gray-500 py-6">
+                  {isLoading ? 'Loading runs...' : '📭 No runs match these filters'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              runs.map((run: AgentRun) => (
+                <TableRow key={run.id} className="cursor-pointer" onClick={() => openRun(run.id)}>
+                  <TableCell>#{run.id}</TableCell>
+                  <TableCell>{agentName(run.agent_id)}</TableCell>
+                  <TableCell className="max-w-xs truncate">{run.input_text}</TableCell>
+                  <TableCell>
+                    <Badge className={statusColors[run.status]}>{run.status.toUpperCase()}</Badge>
+                    {run.attempt > 1 && <span className="ml-2 text-xs text-gray-500">attempt {run.attempt}</span>}
+                  </TableCell>
+                  <TableCell>{run.created_at.toLocaleString()}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                aria-disabled={cursors.length === 1}
+                className={cursors.length === 1 ? 'pointer-events-none opacity-50' : ''}
+                onClick={(e: React.MouseEvent) => {
+                  e.preventDefault();
+                  setCursors((prev: (number | undefined)[]) => prev.length > 1 ? prev.slice(0, -1) : prev);
+                }}
+              />
+            </PaginationItem>
+            <PaginationItem>
+              <span className="px-3 text-sm text-gray-600">Page {cursors.length}</span>
+            </PaginationItem>
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                aria-disabled={nextCursor === null}
+                className={nextCursor === null ? 'pointer-events-none opacity-50' : ''}
+                onClick={(e: React.MouseEvent) => {
+                  e.preventDefault();
+                  if (nextCursor !== null) {
+                    setCursors((prev: (number | undefined)[]) => [...prev, nextCursor]);
+                  }
+                }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      </CardContent>
+
+      <Dialog open={selectedRun !== null} onOpenChange={(open: boolean) => !open && setSelectedRun(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {selectedRun && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  Run #{selectedRun.id}
+                  <Badge className={statusColors[selectedRun.status]}>{selectedRun.status.toUpperCase()}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {agentName(selectedRun.agent_id)} • {selectedRun.created_at.toLocaleString()}
+                  {selectedRun.attempt > 1 && ` • attempt ${selectedRun.attempt}`}
+                </DialogDescription>
+              </DialogHeader>
+              <p className="text-sm"><strong>Input:</strong> {selectedRun.input_text}</p>
+              {Object.keys(selectedRun.inputs).length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-sm">
+                  <strong>Inputs:</strong>
+                  {Object.entries(selectedRun.inputs).map(([variable, value]) => (
+                    <Badge key={variable} variant="outline">{variable}: {value}</Badge>
+                  ))}
+                </div>
+              )}
+              {selectedRun.resolved_prompt !== null && (
+                <Collapsible className="text-sm">
+                  <CollapsibleTrigger className="font-semibold hover:underline">Resolved prompt ▸</CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <pre className="mt-1 whitespace-pre-wrap font-mono text-xs bg-gray-50 rounded p-2 max-h-48 overflow-y-auto">
+                      {selectedRun.resolved_prompt}
+                    </pre>
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+              {selectedRun.output_json !== null && selectedRun.output_json !== undefined && (
+                <div className="rounded-md border bg-gray-50 p-3 max-h-64 overflow-y-auto">
+                  <p className="text-sm font-semibold mb-1">Structured result</p>
+                  <JsonTree value={selectedRun.output_json} />
+                </div>
+              )}
+              <ScrollArea className="h-80 rounded-md border p-3">
+                {selectedRun.outputs.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">This run has no outputs</p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedRun.outputs.map((output: AgentOutput) => (
+                      <OutputEntry key={output.id} output={output} agentName={agentName} />
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+              <div className="flex justify-end gap-2">
+                {canRetry && (selectedRun.status === 'failed' || selectedRun.status === 'cancelled') && (
+                  <Button variant="outline" size="sm" onClick={() => handleRetryRun(selectedRun)}>
+                    🔁 Retry
+                  </Button>
+                )}
+                {canDelete && selectedRun.status !== 'pending' && selectedRun.status !== 'running' && (
+                  <ConfirmDialog
+                    trigger={<Button variant="outline" size="sm">🗑️ Delete run</Button>}
+                    title={`Delete run #${selectedRun.id}?`}
+                    description="The run moves to the archive, where it can be restored or purged."
+                    confirmLabel="Delete run"
+                    onConfirm={() => handleDeleteRun(selectedRun)}
+                  />
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
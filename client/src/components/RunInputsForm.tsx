@@ -0,0 +1,42 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { RunInputs } from '../../../server/src/schema';
+
+interface RunInputsFormProps {
+  // The {placeholder} variables of the agent, task or crew about to run
+  variables: string[];
+  values: RunInputs;
+  onChange: (values: RunInputs) => void;
+  disabled?: boolean;
+}
+
+// Turns variable names like target_audience into "Target audience"
+const labelFor = (variable: string): string => {
+  const words = variable.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// One field per template variable; every one needs a value before the run can start
+export default function RunInputsForm({ variables, values, onChange, disabled = false }: RunInputsFormProps) {
+  if (variables.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">🧩 Inputs</p>
+      {variables.map((variable: string) => (
+        <div key={variable} className="space-y-1">
+          <Label htmlFor={`run-input-${variable}`}>
+            {labelFor(variable)} <code className="text-xs text-gray-500">{`{${variable}}`}</code>
+          </Label>
+          <Input
+            id={`run-input-${variable}`}
+            value={values[variable] ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...values, [variable]: e.target.value })}
+            disabled={disabled}
+            required
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import JsonSchemaInput from '@/components/JsonSchemaInput';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState } from 'react';
+import type { JsonSchema, Task } from '../../../server/src/schema';
+
+interface SaveTaskDialogProps {
+  description: string;
+  agentId: number | null;
+  disabled?: boolean;
+  onSaved: (task: Task) => void;
+}
+
+export default function SaveTaskDialog({ description, agentId, disabled = false, onSaved }: SaveTaskDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expectedOutput, setExpectedOutput] = useState('');
+  const [outputSchema, setOutputSchema] = useState<JsonSchema | null>(null);
+  const [isSchemaValid, setIsSchemaValid] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setOutputSchema(null);
+      setIsSchemaValid(true);
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !expectedOutput.trim() || !isSchemaValid) return;
+
+    setIsSaving(true);
+    try {
+      const task = await trpc.createTask.mutate({
+        name: name.trim(),
+        description: description.trim(),
+        expected_output: expectedOutput.trim(),
+        expected_output_schema: outputSchema,
+        agent_id: agentId,
+        context_task_ids: [],
+        output_file: null,
+        async_execution: false
+      });
+      onSaved(task);
+      setName('');
+      setExpectedOutput('');
+      setOpen(false);
+    } catch (error) {
+      notifyError('Failed to save task', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" disabled={disabled || !description.trim()}>
+          💾 Save as task
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Save as task</DialogTitle>
+            <DialogDescription>
+              Saved tasks can be re-run later without pasting the text again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="task-name">Name</Label>
+            <Input
+              id="task-name"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              placeholder="e.g. Daily market scan"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-expected-output">Expected output</Label>
+            <Textarea
+              id="task-expected-output"
+              value={expectedOutput}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setExpectedOutput(e.target.value)}
+              placeholder="Describe what a good answer looks like"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-output-schema">Expected output schema (optional)</Label>
+            <JsonSchemaInput
+              id="task-output-schema"
+              value={outputSchema}
+              onChange={setOutputSchema}
+              onValidityChange={setIsSchemaValid}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSaving || !name.trim() || !expectedOutput.trim() || !isSchemaValid}>
+              {isSaving ? 'Saving...' : 'Save task'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrentUser } from '@/utils/auth';
+import { trpc } from '@/utils/trpc';
+import { notifyError } from '@/utils/errors';
+import { useState, useEffect, useCallback } from 'react';
+import { userRoleSchema, type User, type UserRole } from '../../../server/src/schema';
+
+const roleDescriptions: Record<UserRole, string> = {
+  viewer: 'Watch runs',
+  operator: 'Start and cancel runs',
+  editor: 'Change agents, tasks and crews',
+  admin: 'Manage users'
+};
+
+// Admin panel for creating users and changing their roles
+export default function UserAdmin() {
+  const currentUser = useCurrentUser();
+  const [users, setUsers] = useState<User[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers(await trpc.getUsers.query());
+    } catch (error) {
+      notifyError('Failed to load users', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      await trpc.createUser.mutate({ username: username.trim(), password, role });
+      setUsername('');
+      setPassword('');
+      setRole('viewer');
+      await loadUsers();
+    } catch (error) {
+      notifyError('Failed to create user', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRoleChange = async (user: User, nextRole: UserRole) => {
+    try {
+      const updated = await trpc.updateUser.mutate({ id: user.id, role: nextRole });
+      setUsers((current: User[]) => current.map(u => u.id === updated.id ? updated : u));
+    } catch (error) {
+      notifyError('Failed to change user role', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">🛡️ Users</CardTitle>
+        <CardDescription>
+          {userRoleSchema.options.map(r => `${r}: ${roleDescriptions[r]}`).join(' • ')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {users.map((user: User) => (
+            <div key={user.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+              <strong>{user.username}</strong>
+              <Select
+                value={user.role}
+                onValueChange={(value: string) => handleRoleChange(user, value as UserRole)}
+                disabled={user.id === currentUser?.id}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoleSchema.options.map((option: UserRole) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+          <Input
+            placeholder="Username"
+            value={username}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUsername(e.target.value)}
+            className="flex-1 min-w-32"
+            required
+          />
+          <Input
+            type="password"
+            placeholder="Password (8+ characters)"
+            value={password}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+            className="flex-1 min-w-32"
+            minLength={8}
+            required
+          />
+          <Select value={role} onValueChange={(value: string) => setRole(value as UserRole)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {userRoleSchema.options.map((option: UserRole) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isCreating || username.trim().length < 3 || password.length < 8}>
+            {isCreating ? 'Adding...' : '➕ Add user'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { hasRole, type User, type UserRole } from '../../../server/src/schema';
+
+// The signed-in user, provided by AuthGate
+export const CurrentUserContext = createContext<User | null>(null);
+
+export const useCurrentUser = (): User | null => useContext(CurrentUserContext);
+
+// Whether the signed-in user may do what the role allows; used to hide controls they can't use
+export const useHasRole = (role: UserRole): boolean => {
+  const user = useCurrentUser();
+  return user !== null && hasRole(user, role);
+};
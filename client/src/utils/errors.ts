@@ -0,0 +1,36 @@
+import { TRPCClientError } from '@trpc/client';
+import { toast } from 'sonner';
+import type { AppRouter } from '../../../server/src';
+
+const isServerError = (error: unknown): error is TRPCClientError<AppRouter> => error instanceof TRPCClientError;
+
+// What to tell the user about a failed request. Domain errors describe the broken rule (not found,
+// conflict, inactive agent, ...); input validation and unexpected failures carry messages meant
+// for developers, so they get a generic one.
+export const errorMessage = (error: unknown): string => {
+  if (isServerError(error) && error.data && error.data.cause === null) {
+    return error.data.code === 'BAD_REQUEST'
+      ? 'Some of the entered values are invalid.'
+      : 'Something went wrong on the server. Please try again.';
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Shows a failed action as a toast. Expired sessions are left to the login screen.
+export const notifyError = (title: string, error: unknown) => {
+  if (isServerError(error) && error.data?.code === 'UNAUTHORIZED') {
+    return;
+  }
+  if (!isServerError(error) || error.data?.cause === null) {
+    // Not one of the app's expected failures; keep the details for debugging
+    console.error(`${title}:`, error);
+  }
+  toast.error(title, { description: errorMessage(error) });
+};
+
+// Failures that asking again won't fix, like a purged run or lost access. Dropped connections
+// and server hiccups carry no such code and are worth retrying.
+const PERMANENT_ERROR_CODES = new Set(['BAD_REQUEST', 'UNAUTHORIZED', 'FORBIDDEN', 'NOT_FOUND']);
+
+export const isPermanentError = (error: unknown): boolean =>
+  isServerError(error) && PERMANENT_ERROR_CODES.has(error.data?.code ?? '');
@@ -1,14 +1,41 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, loggerLink, splitLink, type TRPCLink } from '@trpc/client';
+import { observable } from '@trpc/server/observable';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+let unauthorizedHandler: (() => void) | null = null;
+
+// Called whenever the server rejects a request because the session is missing or expired
+export const onUnauthorized = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+const unauthorizedLink: TRPCLink<AppRouter> = () => ({ next, op }) =>
+  observable((observer) => next(op).subscribe({
+    next: (value) => observer.next(value),
+    error: (error) => {
+      if (error.data?.code === 'UNAUTHORIZED') {
+        unauthorizedHandler?.();
+      }
+      observer.error(error);
+    },
+    complete: () => observer.complete()
+  }));
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
             (opts.direction === 'down' && opts.result instanceof Error),
         }),
+    unauthorizedLink,
+    // Subscriptions stream over server-sent events; everything else is batched over HTTP.
+    // Both send the session cookie, since the API is served from the same origin.
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({ url: '/api', transformer: superjson }),
+      false: httpBatchLink({ url: '/api', transformer: superjson }),
+    }),
   ],
 });
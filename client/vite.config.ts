@@ -14,7 +14,6 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:2022',
         changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
   },
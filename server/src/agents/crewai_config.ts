@@ -0,0 +1,184 @@
+import { basename } from 'path';
+import { z } from 'zod';
+import { parseYaml, stringifyYaml, YamlSyntaxError } from '../yaml';
+import {
+  llmProviderSchema,
+  type Agent,
+  type CrewAgentConfig,
+  type CrewConfigFiles,
+  type CrewTaskConfig,
+  type LLMProviderName,
+  type Task
+} from '../schema';
+import { InvalidInputError } from '../errors';
+
+// Maps agents and tasks to the entries of a CrewAI project's config/agents.yaml and
+// config/tasks.yaml. CrewAI keys entries by snake_case names, which stand in for our names.
+
+// The agent settings the config files carry
+export type AgentConfigValues = Pick<Agent,
+  'description' | 'role' | 'goal' | 'backstory' | 'llm_provider' | 'llm' | 'temperature' |
+  'max_tokens' | 'max_iter' | 'max_rpm' | 'max_execution_time' | 'verbose' | 'allow_delegation'>;
+
+// What a new agent gets for the settings its entry leaves out, matching the table defaults
+export const AGENT_CONFIG_DEFAULTS: Omit<AgentConfigValues, 'role' | 'goal' | 'backstory'> = {
+  description: null,
+  llm_provider: null,
+  llm: null,
+  temperature: null,
+  max_tokens: null,
+  max_iter: 20,
+  max_rpm: null,
+  max_execution_time: null,
+  verbose: false,
+  allow_delegation: false
+};
+
+export interface ConfigEntry<T> {
+  key: string;
+  config: T;
+  // Keys of the entry that have no equivalent here, such as tools or memory
+  ignored_fields: string[];
+}
+
+export const configKey = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'entry';
+
+// research_analyst becomes "Research Analyst"
+export const nameFromKey = (key: string): string =>
+  key.split(/[_\s-]+/).filter(word => word !== '').map(word => word[0].toUpperCase() + word.slice(1)).join(' ') || key;
+
+// Keys for the given names in order, numbering repeats like CrewAI projects tend to
+export const assignConfigKeys = (names: string[], taken: Iterable<string> = []): string[] => {
+  const used = new Set(taken);
+  return names.map(name => {
+    const base = configKey(name);
+    let key = base;
+    for (let n = 2; used.has(key); n++) {
+      key = `${base}_${n}`;
+    }
+    used.add(key);
+    return key;
+  });
+};
+
+export const formatLlm = (provider: LLMProviderName | null, model: string | null): string | null =>
+  provider !== null && model !== null ? `${provider}/${model}` : provider ?? model;
+
+// "openai/gpt-4o" names provider and model, "gpt-4o" only the model and "openai" only the provider.
+// Prefixes we have no provider for, like "groq/", stay part of the model id.
+export const parseLlm = (llm: string): Pick<AgentConfigValues, 'llm_provider' | 'llm'> => {
+  const slash = llm.indexOf('/');
+  const provider = llmProviderSchema.safeParse(slash === -1 ? llm : llm.slice(0, slash));
+  if (!provider.success) {
+    return { llm_provider: null, llm };
+  }
+  return { llm_provider: provider.data, llm: slash === -1 ? null : llm.slice(slash + 1) || null };
+};
+
+const withoutNulls = <T extends object>(entry: T): T =>
+  Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== null && value !== undefined)) as T;
+
+export const toAgentConfig = (agent: AgentConfigValues): CrewAgentConfig => withoutNulls({
+  role: agent.role,
+  goal: agent.goal,
+  backstory: agent.backstory,
+  description: agent.description,
+  llm: formatLlm(agent.llm_provider, agent.llm),
+  temperature: agent.temperature,
+  max_tokens: agent.max_tokens,
+  max_iter: agent.max_iter,
+  max_rpm: agent.max_rpm,
+  max_execution_time: agent.max_execution_time,
+  verbose: agent.verbose,
+  allow_delegation: agent.allow_delegation
+});
+
+// The settings an entry spells out; anything it leaves out is not part of the result
+export const agentValuesFromConfig = (config: CrewAgentConfig): Partial<AgentConfigValues> => {
+  const values: Partial<AgentConfigValues> = { role: config.role, goal: config.goal, backstory: config.backstory };
+
+  if (config.description !== undefined) values.description = config.description || null;
+  if (config.llm !== undefined) Object.assign(values, config.llm === null ? { llm_provider: null, llm: null } : parseLlm(config.llm));
+  if (config.temperature !== undefined) values.temperature = config.temperature;
+  if (config.max_tokens !== undefined) values.max_tokens = config.max_tokens;
+  if (config.max_iter !== undefined) values.max_iter = config.max_iter;
+  if (config.max_rpm !== undefined) values.max_rpm = config.max_rpm;
+  if (config.max_execution_time !== undefined) values.max_execution_time = config.max_execution_time;
+  if (config.verbose !== undefined) values.verbose = config.verbose;
+  if (config.allow_delegation !== undefined) values.allow_delegation = config.allow_delegation;
+
+  return values;
+};
+
+// Agent and context tasks are given as the keys their entries have in the same export
+export const toTaskConfig = (task: Pick<Task, 'description' | 'expected_output' | 'output_file' | 'async_execution'>, agentKey: string | null, contextKeys: string[]): CrewTaskConfig => withoutNulls({
+  description: task.description,
+  expected_output: task.expected_output,
+  agent: agentKey,
+  context: contextKeys.length > 0 ? contextKeys : undefined,
+  output_file: task.output_file,
+  async_execution: task.async_execution
+});
+
+// CrewAI writes outputs to paths like output/report.md; we keep files in one directory
+export const normalizeOutputFile = (outputFile: string | null | undefined): string | null | undefined =>
+  typeof outputFile === 'string' ? basename(outputFile) : outputFile;
+
+// Reads one config file into its entries. Problems name the file, the entry and the field.
+export const parseConfigFile = <S extends z.AnyZodObject>(yaml: string, file: string, schema: S): ConfigEntry<z.infer<S>>[] => {
+  let document: unknown;
+  try {
+    document = parseYaml(yaml);
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      throw new InvalidInputError(`${file}: ${error.message}`, { file, line: error.line });
+    }
+    throw error;
+  }
+
+  if (document === null) {
+    return [];
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    throw new InvalidInputError(`${file}: expected a mapping of entries by key`, { file });
+  }
+
+  const keys = new Set<string>();
+  return Object.entries(document).map(([key, entry]) => {
+    if (keys.has(configKey(key))) {
+      throw new InvalidInputError(`${file}: ${key} clashes with another entry's key`, { file, key });
+    }
+    keys.add(configKey(key));
+
+    const parsed = schema.safeParse(entry);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const field = [key, ...issue.path].join('.');
+      throw new InvalidInputError(`${file}: ${field}: ${issue.message}`, { file, key });
+    }
+
+    const ignored = typeof entry === 'object' && entry !== null
+      ? Object.keys(entry).filter(field => !(field in schema.shape))
+      : [];
+    return { key, config: parsed.data, ignored_fields: ignored };
+  });
+};
+
+// Writes agents and tasks as CrewAI config files; tasks refer to agents and context tasks by key
+export const buildConfigFiles = (agents: Agent[], tasks: Task[]): CrewConfigFiles => {
+  const agentKeys = new Map(assignConfigKeys(agents.map(agent => agent.name)).map((key, i) => [agents[i].id, key]));
+  const taskKeys = new Map(assignConfigKeys(tasks.map(task => task.name)).map((key, i) => [tasks[i].id, key]));
+
+  const agentEntries = Object.fromEntries(agents.map(agent => [agentKeys.get(agent.id)!, toAgentConfig(agent)]));
+  const taskEntries = Object.fromEntries(tasks.map(task => [
+    taskKeys.get(task.id)!,
+    toTaskConfig(
+      task,
+      task.agent_id !== null ? agentKeys.get(task.agent_id) ?? null : null,
+      task.context_task_ids.flatMap(id => taskKeys.get(id) ?? [])
+    )
+  ]));
+
+  return { agents_yaml: stringifyYaml(agentEntries), tasks_yaml: stringifyYaml(taskEntries) };
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { agentRevisionsTable, agentsTable } from '../db/schema';
+import { agentSnapshotSchema, type AgentRevision, type AgentRevisionChange, type AgentSnapshot } from '../schema';
+import { NotFoundError } from '../errors';
+import { eq, desc } from 'drizzle-orm';
+
+// Either the db itself or an open transaction
+type Queryable = Pick<typeof db, 'select' | 'insert'>;
+
+const snapshotFields = agentSnapshotSchema.keyof().options;
+
+// Fields whose values differ between two snapshots, in schema order. Snapshots older than a
+// field lack it, which counts as null. The output schema is compared by value.
+export const diffAgentSnapshots = (before: AgentSnapshot, after: AgentSnapshot): AgentRevisionChange[] =>
+  snapshotFields
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+
+// Returns the revision matching the agent's current settings, writing a new one when they
+// changed since the latest revision (or the agent has none yet). Locks the agent row so
+// concurrent callers cannot claim the same revision number.
+export const ensureAgentRevision = async (tx: Queryable, agentId: number): Promise<AgentRevision> => {
+  const agent = await tx.select()
+    .from(agentsTable)
+    .where(eq(agentsTable.id, agentId))
+    .for('update')
+    .execute();
+
+  if (agent.length === 0) {
+    throw new NotFoundError('Agent', agentId);
+  }
+
+  const snapshot = agentSnapshotSchema.parse(agent[0]);
+  const latest = await tx.select()
+    .from(agentRevisionsTable)
+    .where(eq(agentRevisionsTable.agent_id, agentId))
+    .orderBy(desc(agentRevisionsTable.revision))
+    .limit(1)
+    .execute();
+
+  if (latest.length > 0 && diffAgentSnapshots(latest[0].snapshot, snapshot).length === 0) {
+    return latest[0];
+  }
+
+  const result = await tx.insert(agentRevisionsTable)
+    .values({
+      agent_id: agentId,
+      revision: latest.length > 0 ? latest[0].revision + 1 : 1,
+      snapshot
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
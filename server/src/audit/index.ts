@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { db } from '../db';
+import {
+  agentsTable,
+  agentRevisionsTable,
+  agentRunsTable,
+  auditEventsTable,
+  crewsTable,
+  tasksTable,
+  usersTable,
+  type NewAuditEvent
+} from '../db/schema';
+import { type AuditChanges } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Fields whose values never belong in the audit log
+const SECRET_FIELDS = new Set(['password', 'password_hash', 'token', 'key', 'key_hash']);
+
+// Fields every update touches, which would only add noise to a diff
+const IGNORED_CHANGE_FIELDS = new Set(['updated_at']);
+
+// Converts a value to plain JSON for a jsonb column, redacting secrets at any depth
+export const toAuditJson = (value: unknown): unknown => {
+  if (value === undefined) {
+    return null;
+  }
+
+  return JSON.parse(JSON.stringify(value, (field, fieldValue: unknown) =>
+    SECRET_FIELDS.has(field) ? '[redacted]' : fieldValue
+  ));
+};
+
+// Top-level fields whose values differ between two versions of a record
+export const diffRecords = (before: unknown, after: unknown): AuditChanges | null => {
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object') {
+    return null;
+  }
+
+  const from = toAuditJson(before) as Record<string, unknown>;
+  const to = toAuditJson(after) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (IGNORED_CHANGE_FIELDS.has(field)) continue;
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      changes[field] = { from: from[field] ?? null, to: to[field] ?? null };
+    }
+  }
+
+  return changes;
+};
+
+const idInput = z.object({ id: z.number() });
+
+// Loads one row by the id in a mutation's input; the input has not been validated yet
+const rowById = (load: (id: number) => Promise<unknown[]>) => async (input: unknown): Promise<unknown> => {
+  const parsed = idInput.safeParse(input);
+  return parsed.success ? (await load(parsed.data.id))[0] ?? null : null;
+};
+
+// The state each updating mutation changes, read before it runs so the event can record what changed.
+// The mutations return the updated row, which is compared against this.
+export const auditSnapshotLoaders: Partial<Record<string, (input: unknown) => Promise<unknown>>> = {
+  updateAgent: rowById(id => db.select().from(agentsTable).where(eq(agentsTable.id, id)).execute()),
+  updateTask: rowById(id => db.select().from(tasksTable).where(eq(tasksTable.id, id)).execute()),
+  updateCrew: rowById(id => db.select().from(crewsTable).where(eq(crewsTable.id, id)).execute()),
+  updateAgentRunStatus: rowById(id => db.select().from(agentRunsTable).where(eq(agentRunsTable.id, id)).execute()),
+  cancelAgentRun: rowById(id => db.select().from(agentRunsTable).where(eq(agentRunsTable.id, id)).execute()),
+  retryAgentRun: rowById(id => db.select().from(agentRunsTable).where(eq(agentRunsTable.id, id)).execute()),
+  updateUser: rowById(id => db.select({
+    id: usersTable.id,
+    username: usersTable.username,
+    role: usersTable.role,
+    created_at: usersTable.created_at,
+    updated_at: usersTable.updated_at
+  }).from(usersTable).where(eq(usersTable.id, id)).execute()),
+  restoreAgentRevision: async (input) => {
+    const parsed = z.object({ revision_id: z.number() }).safeParse(input);
+    if (!parsed.success) return null;
+
+    const agent = await db.select({ agent: agentsTable })
+      .from(agentRevisionsTable)
+      .innerJoin(agentsTable, eq(agentRevisionsTable.agent_id, agentsTable.id))
+      .where(eq(agentRevisionsTable.id, parsed.data.revision_id))
+      .execute();
+    return agent[0]?.agent ?? null;
+  }
+};
+
+// Audit writes never fail the request they describe
+export const recordAuditEvent = async (event: NewAuditEvent): Promise<void> => {
+  try {
+    await db.insert(auditEventsTable).values(event).execute();
+  } catch (error) {
+    console.error('Audit event recording failed:', error);
+  }
+};
@@ -0,0 +1,119 @@
+import { db } from '../db';
+import { agentAccessTable, agentRevisionsTable, agentRunsTable, agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { hasRole, type StartAgentRunInput, type User } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Agents without access rows are open to every user whose role allows the action.
+// Once an agent lists users, only those users, its owner and admins may run or change it.
+export const canUseAgent = async (user: User, agentId: number): Promise<boolean> => {
+  if (hasRole(user, 'admin')) {
+    return true;
+  }
+
+  const agent = await db.select({ owner_id: agentsTable.owner_id })
+    .from(agentsTable)
+    .where(eq(agentsTable.id, agentId))
+    .execute();
+
+  if (agent.length === 0 || agent[0].owner_id === user.id) {
+    // Unknown agents are left to the handler, which reports them as not found
+    return true;
+  }
+
+  const access = await db.select({ user_id: agentAccessTable.user_id })
+    .from(agentAccessTable)
+    .where(eq(agentAccessTable.agent_id, agentId))
+    .execute();
+
+  return access.length === 0 || access.some(row => row.user_id === user.id);
+};
+
+// Only the owner and admins may change who can use an agent
+export const canManageAgentAccess = async (user: User, agentId: number): Promise<boolean> => {
+  if (hasRole(user, 'admin')) {
+    return true;
+  }
+
+  const agent = await db.select({ owner_id: agentsTable.owner_id })
+    .from(agentsTable)
+    .where(eq(agentsTable.id, agentId))
+    .execute();
+
+  return agent.length > 0 && agent[0].owner_id === user.id;
+};
+
+// The agents a route acts on, resolved from its input for the access middleware
+
+export const agentIdsForRun = async (runId: number): Promise<number[]> => {
+  const run = await db.select({ agent_id: agentRunsTable.agent_id })
+    .from(agentRunsTable)
+    .where(eq(agentRunsTable.id, runId))
+    .execute();
+
+  return run.map(row => row.agent_id);
+};
+
+export const agentIdsForRevision = async (revisionId: number): Promise<number[]> => {
+  const revision = await db.select({ agent_id: agentRevisionsTable.agent_id })
+    .from(agentRevisionsTable)
+    .where(eq(agentRevisionsTable.id, revisionId))
+    .execute();
+
+  return revision.map(row => row.agent_id);
+};
+
+export const agentIdsForCrew = async (crewId: number): Promise<number[]> => {
+  const crew = await db.select()
+    .from(crewsTable)
+    .where(eq(crewsTable.id, crewId))
+    .execute();
+
+  if (crew.length === 0) {
+    return [];
+  }
+
+  const { manager_agent_id, agent_ids } = crew[0];
+  return manager_agent_id !== null ? [manager_agent_id, ...agent_ids] : agent_ids;
+};
+
+export const agentIdsForTask = async (taskId: number): Promise<number[]> => {
+  const task = await db.select({ agent_id: tasksTable.agent_id })
+    .from(tasksTable)
+    .where(eq(tasksTable.id, taskId))
+    .execute();
+
+  return task.flatMap(row => row.agent_id !== null ? [row.agent_id] : []);
+};
+
+// Creating or changing a task needs access to the agent it has now and to the one it is given
+export const agentIdsForTaskInput = async (input: { id?: number; agent_id?: number | null }): Promise<number[]> => {
+  const current = input.id !== undefined ? await agentIdsForTask(input.id) : [];
+  const given = input.agent_id != null ? [input.agent_id] : [];
+  return [...new Set([...current, ...given])];
+};
+
+// The same for crews, covering both the manager and the members
+export const agentIdsForCrewInput = async (
+  input: { id?: number; manager_agent_id?: number | null; agent_ids?: number[] }
+): Promise<number[]> => {
+  const current = input.id !== undefined ? await agentIdsForCrew(input.id) : [];
+  const given = input.manager_agent_id != null ? [input.manager_agent_id, ...input.agent_ids ?? []] : input.agent_ids ?? [];
+  return [...new Set([...current, ...given])];
+};
+
+// A task run uses the task's agent unless the input names one
+export const agentIdsForRunInput = async (input: StartAgentRunInput): Promise<number[]> => {
+  if (input.agent_id !== undefined) {
+    return [input.agent_id];
+  }
+  if (input.task_id === undefined) {
+    return [];
+  }
+
+  const task = await db.select({ agent_id: tasksTable.agent_id })
+    .from(tasksTable)
+    .where(eq(tasksTable.id, input.task_id))
+    .execute();
+
+  return task.flatMap(row => row.agent_id !== null ? [row.agent_id] : []);
+};
@@ -0,0 +1,42 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import { type ApiKeyScope } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+const API_KEY_PREFIX = 'cak_';
+
+// What a request authenticated with an API key may do
+export interface ApiKeyPrincipal {
+  id: number;
+  name: string;
+  scopes: ApiKeyScope[];
+  agent_id: number | null;
+}
+
+export const generateApiKey = (): string => `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+// Keys are high-entropy random strings, so a plain hash is enough to make a leaked table useless
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+// Looks up an unrevoked key, recording that it was used
+export const authenticateApiKey = async (key: string): Promise<ApiKeyPrincipal | null> => {
+  const result = await db.update(apiKeysTable)
+    .set({ last_used_at: new Date() })
+    .where(and(eq(apiKeysTable.key_hash, hashApiKey(key)), isNull(apiKeysTable.revoked_at)))
+    .returning({
+      id: apiKeysTable.id,
+      name: apiKeysTable.name,
+      scopes: apiKeysTable.scopes,
+      agent_id: apiKeysTable.agent_id
+    })
+    .execute();
+
+  return result[0] ?? null;
+};
+
+// Reads the key from an "Authorization: Bearer <key>" request header
+export const readBearerToken = (authorizationHeader: string | undefined): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorizationHeader?.trim() ?? '');
+  return match ? match[1] : null;
+};
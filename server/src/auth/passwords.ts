@@ -0,0 +1,33 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+// Stored as scrypt$<N>$<r>$<p>$<salt>$<hash> so the cost can be raised without breaking old hashes
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => error ? reject(error) : resolve(key));
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, COST);
+  return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(n), r: Number(r), p: Number(p) });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+};
+
+// Hash of a random password, checked against when a username doesn't exist so that
+// a failed login takes the same time either way
+let unknownUserHash: Promise<string> | null = null;
+export const getUnknownUserHash = (): Promise<string> =>
+  unknownUserHash ??= hashPassword(randomBytes(16).toString('hex'));
@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { and, eq, gt, lt } from 'drizzle-orm';
+
+export const SESSION_COOKIE = 'session';
+
+const sessionTtlMs = () => parseInt(process.env['SESSION_TTL_HOURS'] || '168') * 60 * 60 * 1000;
+
+// Sessions are looked up by a hash of the token, so a leaked sessions table can't be replayed
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export const createSession = async (userId: number): Promise<{ token: string; expires_at: Date }> => {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + sessionTtlMs());
+
+  // Signing in is a good moment to forget the user's expired sessions
+  await db.delete(sessionsTable)
+    .where(and(eq(sessionsTable.user_id, userId), lt(sessionsTable.expires_at, new Date())))
+    .execute();
+
+  await db.insert(sessionsTable)
+    .values({ id: hashToken(token), user_id: userId, expires_at: expiresAt })
+    .execute();
+
+  return { token, expires_at: expiresAt };
+};
+
+// The signed-in user for a session token, or null if the session is unknown or expired
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const result = await db.select({
+    id: usersTable.id,
+    username: usersTable.username,
+    role: usersTable.role,
+    created_at: usersTable.created_at,
+    updated_at: usersTable.updated_at
+  })
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(eq(sessionsTable.id, hashToken(token)), gt(sessionsTable.expires_at, new Date())))
+    .execute();
+
+  return result[0] ?? null;
+};
+
+export const deleteSession = async (token: string): Promise<void> => {
+  await db.delete(sessionsTable)
+    .where(eq(sessionsTable.id, hashToken(token)))
+    .execute();
+};
+
+// Reads the session token from a Cookie request header
+export const readSessionToken = (cookieHeader: string | undefined): string | null => {
+  for (const part of (cookieHeader ?? '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
+
+// Set-Cookie value for a session; pass null to clear the cookie
+export const sessionCookie = (token: string | null, expiresAt?: Date): string => {
+  const parts = [
+    `${SESSION_COOKIE}=${token ? encodeURIComponent(token) : ''}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    token && expiresAt ? `Expires=${expiresAt.toUTCString()}` : 'Max-Age=0'
+  ];
+  if (process.env['COOKIE_SECURE'] === 'true') {
+    parts.push('Secure');
+  }
+  return parts.join('; ');
+};
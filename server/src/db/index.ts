@@ -3,7 +3,7 @@ import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
 import * as schema from './schema';
 
-const pool = new Pool({
+export const pool = new Pool({
   connectionString: process.env['APP_DATABASE_URL']!,
 });
 
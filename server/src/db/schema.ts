@@ -1,9 +1,18 @@
-import { serial, text, pgTable, timestamp, boolean, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, boolean, integer, real, pgEnum, jsonb, unique, primaryKey } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import { type AgentSnapshot, type AuditChanges, type JsonSchema, type OutputMetadata, type RunInputs } from '../schema';
 
 // Enums
-export const runStatusEnum = pgEnum('run_status', ['pending', 'running', 'completed', 'failed']);
-export const outputTypeEnum = pgEnum('output_type', ['log', 'result', 'error']);
+export const runStatusEnum = pgEnum('run_status', ['pending', 'running', 'completed', 'failed', 'cancelled']);
+export const outputTypeEnum = pgEnum('output_type', [
+  'log', 'result', 'error', 'thought', 'tool_call', 'tool_result', 'delegation', 'metric', 'artifact'
+]);
+export const crewProcessEnum = pgEnum('crew_process', ['sequential', 'hierarchical']);
+export const llmProviderEnum = pgEnum('llm_provider', ['openai', 'anthropic', 'ollama', 'mock']);
+export const userRoleEnum = pgEnum('user_role', ['viewer', 'operator', 'editor', 'admin']);
+export const apiKeyScopeEnum = pgEnum('api_key_scope', ['runs:read', 'runs:write', 'outputs:write']);
+export const auditActorTypeEnum = pgEnum('audit_actor_type', ['user', 'api_key', 'anonymous']);
+export const toolNameEnum = pgEnum('tool_name', ['calculator', 'read_file', 'http_fetch', 'sql_query']);
 
 // Agents table
 export const agentsTable = pgTable('agents', {
@@ -13,7 +22,124 @@ export const agentsTable = pgTable('agents', {
   role: text('role').notNull(),
   goal: text('goal').notNull(),
   backstory: text('backstory').notNull(),
+  llm_provider: llmProviderEnum('llm_provider'), // Nullable - falls back to the configured default provider
+  llm: text('llm'), // Nullable model id - falls back to the provider's default model
+  temperature: real('temperature'), // Nullable - provider default
+  max_tokens: integer('max_tokens'), // Nullable - provider default
+  max_iter: integer('max_iter').notNull().default(20),
+  max_rpm: integer('max_rpm'), // Nullable - no rate limit
+  max_execution_time: integer('max_execution_time'), // Seconds, nullable - no time limit
+  verbose: boolean('verbose').notNull().default(false),
+  allow_delegation: boolean('allow_delegation').notNull().default(false),
+  expected_output_schema: jsonb('expected_output_schema').$type<JsonSchema>(), // Nullable - free-text answers
   is_active: boolean('is_active').notNull().default(true),
+  deleted_at: timestamp('deleted_at'), // Nullable - set while the agent is archived
+  owner_id: integer('owner_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable - the user who created the agent
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Agent revisions table - immutable snapshots of an agent's persona and settings, one per change
+export const agentRevisionsTable = pgTable('agent_revisions', {
+  id: serial('id').primaryKey(),
+  agent_id: integer('agent_id').notNull().references(() => agentsTable.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(), // Counts up from 1 per agent
+  snapshot: jsonb('snapshot').$type<AgentSnapshot>().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('agent_revisions_agent_revision_unique').on(table.agent_id, table.revision)
+]);
+
+// Users table - accounts that can sign in to the dashboard and API
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  username: text('username').notNull().unique(),
+  password_hash: text('password_hash').notNull(), // scrypt, see auth/passwords.ts
+  role: userRoleEnum('role').notNull().default('viewer'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Sessions table - one row per signed-in browser; only a hash of the cookie token is stored
+export const sessionsTable = pgTable('sessions', {
+  id: text('id').primaryKey(), // SHA-256 of the session token
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// API keys table - credentials for machine clients such as external executors; only a hash of the key is stored
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  key_hash: text('key_hash').notNull().unique(), // SHA-256 of the key
+  prefix: text('prefix').notNull(), // Start of the key, so it can be recognized in lists
+  scopes: apiKeyScopeEnum('scopes').array().notNull(),
+  agent_id: integer('agent_id').references(() => agentsTable.id, { onDelete: 'cascade' }), // Nullable - limits the key to runs of one agent
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  last_used_at: timestamp('last_used_at'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Audit events table - one row per API mutation, written by the audit middleware in trpc.ts
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actor_type: auditActorTypeEnum('actor_type').notNull(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  api_key_id: integer('api_key_id').references(() => apiKeysTable.id, { onDelete: 'set null' }),
+  actor_name: text('actor_name'), // Username or key name at the time, kept after the actor is gone
+  procedure: text('procedure').notNull(),
+  input: jsonb('input'), // Secrets such as passwords are redacted
+  changes: jsonb('changes').$type<AuditChanges>(), // Nullable - fields an update changed, with old and new values
+  result: jsonb('result'),
+  success: boolean('success').notNull(),
+  error: text('error'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Agent access table - when an agent has rows here, only those users (plus its owner and admins) may use it
+export const agentAccessTable = pgTable('agent_access', {
+  agent_id: integer('agent_id').notNull().references(() => agentsTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.agent_id, table.user_id] })
+]);
+
+// Agent tools table - the built-in tools an agent may call while it works
+export const agentToolsTable = pgTable('agent_tools', {
+  agent_id: integer('agent_id').notNull().references(() => agentsTable.id, { onDelete: 'cascade' }),
+  tool_name: toolNameEnum('tool_name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.agent_id, table.tool_name] })
+]);
+
+// Tasks table - reusable units of work that can be assigned to an agent
+export const tasksTable = pgTable('tasks', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description').notNull(),
+  expected_output: text('expected_output').notNull(),
+  expected_output_schema: jsonb('expected_output_schema').$type<JsonSchema>(), // Nullable - falls back to the agent's schema
+  agent_id: integer('agent_id').references(() => agentsTable.id, { onDelete: 'set null' }), // Nullable - assigned agent
+  context_task_ids: integer('context_task_ids').array().notNull().default([]), // Tasks whose results feed this one
+  output_file: text('output_file'), // Nullable - file name the result is written to
+  async_execution: boolean('async_execution').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Crews table - teams of agents working through an ordered list of tasks
+export const crewsTable = pgTable('crews', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'), // Nullable by default
+  process: crewProcessEnum('process').notNull().default('sequential'),
+  manager_agent_id: integer('manager_agent_id').references(() => agentsTable.id, { onDelete: 'set null' }), // Nullable - hierarchical crews fall back to their first agent
+  agent_ids: integer('agent_ids').array().notNull().default([]), // Ordered crew members
+  task_ids: integer('task_ids').array().notNull().default([]), // Ordered tasks
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -21,27 +147,125 @@ export const agentsTable = pgTable('agents', {
 // Agent runs table
 export const agentRunsTable = pgTable('agent_runs', {
   id: serial('id').primaryKey(),
-  agent_id: integer('agent_id').notNull().references(() => agentsTable.id),
+  agent_id: integer('agent_id').notNull().references(() => agentsTable.id, { onDelete: 'cascade' }), // For crew runs: the manager or first agent
+  agent_revision_id: integer('agent_revision_id').references(() => agentRevisionsTable.id, { onDelete: 'set null' }), // Nullable - the agent revision the run started with
+  task_id: integer('task_id').references(() => tasksTable.id, { onDelete: 'set null' }), // Nullable - set when started from a saved task
+  crew_id: integer('crew_id').references(() => crewsTable.id, { onDelete: 'set null' }), // Nullable - set for crew runs
   input_text: text('input_text').notNull(),
+  inputs: jsonb('inputs').$type<RunInputs>().notNull().default({}), // Values for the agent's and task's {placeholders}
+  resolved_prompt: text('resolved_prompt'), // Nullable - set when the run starts executing
   status: runStatusEnum('status').notNull().default('pending'),
   started_at: timestamp('started_at'), // Nullable - set when run actually starts
   completed_at: timestamp('completed_at'), // Nullable - set when run completes
+  attempt: integer('attempt').notNull().default(1), // Counts retries of failed and cancelled runs
+  output_json: jsonb('output_json'), // Nullable - the validated structured result
+  deleted_at: timestamp('deleted_at'), // Nullable - set while the run is archived
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Run steps table - one row per task handoff within a crew run
+export const runStepsTable = pgTable('run_steps', {
+  id: serial('id').primaryKey(),
+  run_id: integer('run_id').notNull().references(() => agentRunsTable.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(),
+  task_id: integer('task_id').references(() => tasksTable.id, { onDelete: 'set null' }),
+  agent_id: integer('agent_id').references(() => agentsTable.id, { onDelete: 'set null' }), // Nullable until a hierarchical manager delegates the task
+  status: runStatusEnum('status').notNull().default('pending'),
+  input_text: text('input_text'), // Nullable - the prompt handed to the agent
+  output: text('output'), // Nullable - the agent's answer
+  started_at: timestamp('started_at'),
+  completed_at: timestamp('completed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Agent outputs table for streaming logs and results
 export const agentOutputsTable = pgTable('agent_outputs', {
   id: serial('id').primaryKey(),
-  run_id: integer('run_id').notNull().references(() => agentRunsTable.id),
+  run_id: integer('run_id').notNull().references(() => agentRunsTable.id, { onDelete: 'cascade' }),
+  agent_id: integer('agent_id').references(() => agentsTable.id, { onDelete: 'set null' }), // Nullable - agent that produced the output in a crew run
+  task_id: integer('task_id').references(() => tasksTable.id, { onDelete: 'set null' }), // Nullable - task the output belongs to
   output_type: outputTypeEnum('output_type').notNull(),
   content: text('content').notNull(),
+  metadata: jsonb('metadata').$type<OutputMetadata>(), // Nullable - structured details, shaped by the output type
   timestamp: timestamp('timestamp').defaultNow().notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
 // Relations
-export const agentsRelations = relations(agentsTable, ({ many }) => ({
+export const agentsRelations = relations(agentsTable, ({ one, many }) => ({
+  owner: one(usersTable, {
+    fields: [agentsTable.owner_id],
+    references: [usersTable.id]
+  }),
+  runs: many(agentRunsTable),
+  tasks: many(tasksTable),
+  revisions: many(agentRevisionsTable),
+  access: many(agentAccessTable),
+  tools: many(agentToolsTable)
+}));
+
+export const agentToolsRelations = relations(agentToolsTable, ({ one }) => ({
+  agent: one(agentsTable, {
+    fields: [agentToolsTable.agent_id],
+    references: [agentsTable.id]
+  })
+}));
+
+export const apiKeysRelations = relations(apiKeysTable, ({ one }) => ({
+  agent: one(agentsTable, {
+    fields: [apiKeysTable.agent_id],
+    references: [agentsTable.id]
+  }),
+  createdBy: one(usersTable, {
+    fields: [apiKeysTable.created_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditEventsRelations = relations(auditEventsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [auditEventsTable.user_id],
+    references: [usersTable.id]
+  }),
+  apiKey: one(apiKeysTable, {
+    fields: [auditEventsTable.api_key_id],
+    references: [apiKeysTable.id]
+  })
+}));
+
+export const agentAccessRelations = relations(agentAccessTable, ({ one }) => ({
+  agent: one(agentsTable, {
+    fields: [agentAccessTable.agent_id],
+    references: [agentsTable.id]
+  }),
+  user: one(usersTable, {
+    fields: [agentAccessTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const agentRevisionsRelations = relations(agentRevisionsTable, ({ one, many }) => ({
+  agent: one(agentsTable, {
+    fields: [agentRevisionsTable.agent_id],
+    references: [agentsTable.id]
+  }),
+  runs: many(agentRunsTable)
+}));
+
+export const tasksRelations = relations(tasksTable, ({ one, many }) => ({
+  agent: one(agentsTable, {
+    fields: [tasksTable.agent_id],
+    references: [agentsTable.id]
+  }),
+  runs: many(agentRunsTable)
+}));
+
+export const crewsRelations = relations(crewsTable, ({ one, many }) => ({
+  manager: one(agentsTable, {
+    fields: [crewsTable.manager_agent_id],
+    references: [agentsTable.id]
+  }),
   runs: many(agentRunsTable)
 }));
 
@@ -50,27 +274,93 @@ export const agentRunsRelations = relations(agentRunsTable, ({ one, many }) => (
     fields: [agentRunsTable.agent_id],
     references: [agentsTable.id]
   }),
+  agentRevision: one(agentRevisionsTable, {
+    fields: [agentRunsTable.agent_revision_id],
+    references: [agentRevisionsTable.id]
+  }),
+  task: one(tasksTable, {
+    fields: [agentRunsTable.task_id],
+    references: [tasksTable.id]
+  }),
+  crew: one(crewsTable, {
+    fields: [agentRunsTable.crew_id],
+    references: [crewsTable.id]
+  }),
+  steps: many(runStepsTable),
   outputs: many(agentOutputsTable)
 }));
 
+export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable),
+  agentAccess: many(agentAccessTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const runStepsRelations = relations(runStepsTable, ({ one }) => ({
+  run: one(agentRunsTable, {
+    fields: [runStepsTable.run_id],
+    references: [agentRunsTable.id]
+  })
+}));
+
 export const agentOutputsRelations = relations(agentOutputsTable, ({ one }) => ({
   run: one(agentRunsTable, {
     fields: [agentOutputsTable.run_id],
     references: [agentRunsTable.id]
+  }),
+  agent: one(agentsTable, {
+    fields: [agentOutputsTable.agent_id],
+    references: [agentsTable.id]
   })
 }));
 
 // TypeScript types for the table schemas
 export type Agent = typeof agentsTable.$inferSelect;
 export type NewAgent = typeof agentsTable.$inferInsert;
+export type AgentRevision = typeof agentRevisionsTable.$inferSelect;
+export type NewAgentRevision = typeof agentRevisionsTable.$inferInsert;
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+export type Session = typeof sessionsTable.$inferSelect;
+export type AgentAccess = typeof agentAccessTable.$inferSelect;
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+export type AuditEvent = typeof auditEventsTable.$inferSelect;
+export type NewAuditEvent = typeof auditEventsTable.$inferInsert;
+export type NewAgentAccess = typeof agentAccessTable.$inferInsert;
+export type AgentTool = typeof agentToolsTable.$inferSelect;
+export type NewAgentTool = typeof agentToolsTable.$inferInsert;
+export type NewSession = typeof sessionsTable.$inferInsert;
+export type Task = typeof tasksTable.$inferSelect;
+export type NewTask = typeof tasksTable.$inferInsert;
+export type Crew = typeof crewsTable.$inferSelect;
+export type NewCrew = typeof crewsTable.$inferInsert;
 export type AgentRun = typeof agentRunsTable.$inferSelect;
 export type NewAgentRun = typeof agentRunsTable.$inferInsert;
+export type RunStep = typeof runStepsTable.$inferSelect;
+export type NewRunStep = typeof runStepsTable.$inferInsert;
 export type AgentOutput = typeof agentOutputsTable.$inferSelect;
 export type NewAgentOutput = typeof agentOutputsTable.$inferInsert;
 
 // Export all tables for proper query building
 export const tables = { 
   agents: agentsTable, 
+  agentRevisions: agentRevisionsTable,
+  users: usersTable,
+  sessions: sessionsTable,
+  agentAccess: agentAccessTable,
+  agentTools: agentToolsTable,
+  apiKeys: apiKeysTable,
+  auditEvents: auditEventsTable,
+  tasks: tasksTable,
+  crews: crewsTable,
   agentRuns: agentRunsTable,
+  runSteps: runStepsTable,
   agentOutputs: agentOutputsTable
 };
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { type TRPC_ERROR_CODE_KEY } from '@trpc/server/rpc';
+
+// Facts about a failure that clients can act on, sent along as the error's cause
+export type DomainErrorDetails = Record<string, string | number | boolean | null>;
+
+// Expected failures of the app's rules, as opposed to bugs. Handlers throw these without knowing
+// about the transport; the tRPC error formatter turns them into the matching error code.
+export abstract class DomainError extends Error {
+  abstract readonly code: TRPC_ERROR_CODE_KEY;
+
+  constructor(message: string, readonly details: DomainErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// A record the request refers to doesn't exist, or was deleted
+export class NotFoundError extends DomainError {
+  readonly code = 'NOT_FOUND';
+
+  constructor(entity: string, id: number | string) {
+    super(`${entity} with ID ${id} not found`, { entity, id });
+  }
+}
+
+// The request clashes with the current state, e.g. a duplicate name or a record still in use
+export class ConflictError extends DomainError {
+  readonly code = 'CONFLICT';
+}
+
+// A record the request needs is switched off
+export class InactiveError extends DomainError {
+  readonly code = 'PRECONDITION_FAILED';
+
+  constructor(entity: string, id: number) {
+    super(`${entity} with ID ${id} is not active`, { entity, id });
+  }
+}
+
+// A record can't move from its current status to the requested one
+export class InvalidTransitionError extends DomainError {
+  readonly code = 'CONFLICT';
+
+  constructor(entity: string, id: number, readonly from: string, readonly to: string) {
+    super(`${entity} with ID ${id} is ${from} and cannot move to ${to}`, { entity, id, from, to });
+  }
+}
+
+// The caller is signed in but may not do this
+export class ForbiddenError extends DomainError {
+  readonly code = 'FORBIDDEN';
+}
+
+// The caller couldn't be identified
+export class UnauthorizedError extends DomainError {
+  readonly code = 'UNAUTHORIZED';
+}
+
+// The input passed validation but doesn't make sense together
+export class InvalidInputError extends DomainError {
+  readonly code = 'BAD_REQUEST';
+}
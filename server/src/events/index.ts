@@ -0,0 +1,83 @@
+import { type RunStatus } from '../schema';
+
+// Change notifications for a single run. They only say what changed;
+// subscribers read the new rows themselves, so payloads stay well under NOTIFY's size limit.
+export type RunEvent =
+  | { type: 'output'; run_id: number; output_id: number }
+  | { type: 'status'; run_id: number; status: RunStatus }
+  | { type: 'step'; run_id: number; step_id: number };
+
+// Sent to subscribers when events may have been lost, e.g. after the NOTIFY connection dropped
+export type RunResyncEvent = { type: 'resync'; run_id: number };
+
+export type RunEventListener = (event: RunEvent | RunResyncEvent) => void;
+
+export interface RunEventBus {
+  // Registers a listener for one run; returns the function that removes it
+  subscribe: (runId: number, listener: RunEventListener) => () => void;
+  // Delivers the event to local listeners and hands it to the forwarder, if any
+  publish: (event: RunEvent) => Promise<void>;
+  // Delivers the event to local listeners only (used for events received from other instances)
+  deliver: (event: RunEvent) => void;
+  // Tells every listener it may have missed events and should re-read the run
+  resync: () => void;
+  // Sends published events to other instances
+  setForwarder: (forwarder: ((event: RunEvent) => Promise<void>) | null) => void;
+  listenerCount: () => number;
+}
+
+export const createRunEventBus = (): RunEventBus => {
+  const listeners = new Map<number, Set<RunEventListener>>();
+  let forwarder: ((event: RunEvent) => Promise<void>) | null = null;
+
+  const notify = (runId: number, event: RunEvent | RunResyncEvent) => {
+    for (const listener of listeners.get(runId) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Run event listener for run ${runId} failed:`, error);
+      }
+    }
+  };
+
+  const deliver = (event: RunEvent) => notify(event.run_id, event);
+
+  return {
+    subscribe: (runId, listener) => {
+      const set = listeners.get(runId) ?? new Set<RunEventListener>();
+      set.add(listener);
+      listeners.set(runId, set);
+
+      return () => {
+        set.delete(listener);
+        if (set.size === 0 && listeners.get(runId) === set) {
+          listeners.delete(runId);
+        }
+      };
+    },
+    publish: async (event) => {
+      deliver(event);
+      if (forwarder) {
+        try {
+          await forwarder(event);
+        } catch (error) {
+          // Local subscribers already have the event; remote ones resync when the bridge reconnects
+          console.error('Run event forwarding failed:', error);
+        }
+      }
+    },
+    deliver,
+    resync: () => {
+      for (const runId of listeners.keys()) {
+        notify(runId, { type: 'resync', run_id: runId });
+      }
+    },
+    setForwarder: (next) => {
+      forwarder = next;
+    },
+    listenerCount: () => [...listeners.values()].reduce((total, set) => total + set.size, 0)
+  };
+};
+
+// Process-wide bus that handlers publish to and streams subscribe to
+export const runEvents = createRunEventBus();
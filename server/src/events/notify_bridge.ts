@@ -0,0 +1,118 @@
+import { randomUUID } from 'crypto';
+import { type Pool, type PoolClient, type Notification } from 'pg';
+import { z } from 'zod';
+import { runStatusSchema } from '../schema';
+import { type RunEventBus } from '.';
+
+const CHANNEL = 'run_events';
+
+const notificationSchema = z.object({
+  origin: z.string(),
+  event: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('output'), run_id: z.number(), output_id: z.number() }),
+    z.object({ type: z.literal('status'), run_id: z.number(), status: runStatusSchema }),
+    z.object({ type: z.literal('step'), run_id: z.number(), step_id: z.number() })
+  ])
+});
+
+export interface NotifyBridgeOptions {
+  // Delay before reconnecting after the LISTEN connection drops
+  reconnectDelayMs?: number;
+}
+
+export interface NotifyBridge {
+  stop: () => Promise<void>;
+}
+
+// Connects a run event bus to Postgres LISTEN/NOTIFY so that every server instance
+// sees the events published by the others. Events from this instance are not delivered twice.
+export const startNotifyBridge = async (
+  bus: RunEventBus,
+  pool: Pool,
+  options: NotifyBridgeOptions = {}
+): Promise<NotifyBridge> => {
+  const origin = randomUUID();
+  const reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+  let client: PoolClient | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const onNotification = (message: Notification) => {
+    if (message.channel !== CHANNEL || !message.payload) {
+      return;
+    }
+
+    // Anyone can NOTIFY on the channel, so the payload may not even be JSON
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.payload);
+    } catch {
+      console.error('Ignoring malformed run event notification:', message.payload);
+      return;
+    }
+
+    const parsed = notificationSchema.safeParse(payload);
+    if (!parsed.success) {
+      console.error('Ignoring malformed run event notification:', message.payload);
+      return;
+    }
+    if (parsed.data.origin !== origin) {
+      bus.deliver(parsed.data.event);
+    }
+  };
+
+  const connect = async () => {
+    const next = await pool.connect();
+    next.on('notification', onNotification);
+    next.on('error', (error) => {
+      console.error('Run event bridge connection failed:', error);
+      next.release(true);
+      if (client === next) {
+        client = null;
+        scheduleReconnect();
+      }
+    });
+    await next.query(`LISTEN ${CHANNEL}`);
+    client = next;
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) {
+      return;
+    }
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      try {
+        await connect();
+        // Events sent while we were disconnected are gone; let subscribers catch up from the database
+        bus.resync();
+      } catch (error) {
+        console.error('Run event bridge reconnect failed:', error);
+        scheduleReconnect();
+      }
+    }, reconnectDelayMs);
+  };
+
+  await connect();
+  bus.setForwarder(async (event) => {
+    await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, JSON.stringify({ origin, event })]);
+  });
+
+  return {
+    stop: async () => {
+      stopped = true;
+      bus.setForwarder(null);
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      if (client) {
+        const current = client;
+        client = null;
+        current.removeListener('notification', onNotification);
+        await current.query(`UNLISTEN ${CHANNEL}`).catch(() => undefined);
+        current.release();
+      }
+    }
+  };
+};
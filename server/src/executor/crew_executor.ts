@@ -0,0 +1,260 @@
+import { db } from '../db';
+import { agentsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { type Agent, type AgentRun, type ArtifactMetadata, type DelegationMetadata, type RunStep, type Task } from '../schema';
+import { createAgentOutput } from '../handlers/create_agent_output';
+import { runEvents } from '../events';
+import { type AgentRuntime, type RecordOutput, type RunContext, RunCancelledError } from './runtime';
+import { describeOutputSchema, ensureStructuredAnswer } from './structured_output';
+import { buildTaskPrompt, writeTaskOutputFile } from './task_prompt';
+import { InvalidInputError, NotFoundError } from '../errors';
+import { createToolbox, loadAgentTools } from '../tools';
+import { agentTemplateVariables, assertInputsProvided, renderAgent, renderTask, taskTemplateVariables } from '../templates';
+import { eq, asc, inArray } from 'drizzle-orm';
+
+// Prompt asking the manager of a hierarchical crew which coworker should take a task
+export const buildDelegationPrompt = (task: Task, coworkers: Agent[]): string =>
+  `Decide which coworker should handle the next task.\n\nTask: ${task.description}\n` +
+  `Expected output: ${task.expected_output}\n\nCoworkers:\n` +
+  coworkers.map(agent => `- ${agent.name}: ${agent.role}`).join('\n') +
+  '\n\nReply with the name of the coworker only.';
+
+// Picks the coworker whose name the manager mentioned first, or null when none was named
+export const parseDelegation = (response: string, coworkers: Agent[]): Agent | null => {
+  const text = response.toLowerCase();
+  let chosen: Agent | null = null;
+  let chosenIndex = Infinity;
+
+  for (const agent of coworkers) {
+    const index = text.indexOf(agent.name.toLowerCase());
+    if (index !== -1 && index < chosenIndex) {
+      chosen = agent;
+      chosenIndex = index;
+    }
+  }
+
+  return chosen;
+};
+
+// Consecutive async tasks run together; every other task waits for everything before it
+const groupIntoBatches = (steps: RunStep[], tasks: Map<number, Task>): RunStep[][] => {
+  const batches: RunStep[][] = [];
+
+  for (const step of steps) {
+    const isAsync = step.task_id !== null && tasks.get(step.task_id)?.async_execution === true;
+    const last = batches[batches.length - 1];
+    const lastIsAsync = last !== undefined &&
+      last.every(s => s.task_id !== null && tasks.get(s.task_id)?.async_execution === true);
+
+    if (isAsync && lastIsAsync) {
+      last.push(step);
+    } else {
+      batches.push([step]);
+    }
+  }
+
+  return batches;
+};
+
+const updateStep = async (step: RunStep, data: Partial<typeof runStepsTable.$inferInsert>) => {
+  await db.update(runStepsTable)
+    .set(data)
+    .where(eq(runStepsTable.id, step.id))
+    .execute();
+  await runEvents.publish({ type: 'step', run_id: step.run_id, step_id: step.id });
+};
+
+export interface CrewRunResult {
+  output: string;
+  // The validated JSON of the last task, when it has an expected output schema
+  outputJson: unknown;
+}
+
+// Works through a crew run's steps, handing each task to a crew member and
+// passing results along as context. Returns the output of the last task.
+export const executeCrewRun = async (run: AgentRun, runtime: AgentRuntime, signal: AbortSignal): Promise<CrewRunResult> => {
+  if (run.crew_id === null) {
+    throw new Error(`Agent run with ID ${run.id} is not a crew run`);
+  }
+
+  const crew = await db.select()
+    .from(crewsTable)
+    .where(eq(crewsTable.id, run.crew_id))
+    .execute();
+
+  if (crew.length === 0) {
+    throw new NotFoundError('Crew', run.crew_id);
+  }
+
+  const steps = await db.select()
+    .from(runStepsTable)
+    .where(eq(runStepsTable.run_id, run.id))
+    .orderBy(asc(runStepsTable.position))
+    .execute();
+
+  if (steps.length === 0) {
+    throw new Error(`Crew run ${run.id} has no steps`);
+  }
+
+  const taskIds = steps.flatMap(step => step.task_id !== null ? [step.task_id] : []);
+  const tasks = new Map<number, Task>();
+  if (taskIds.length > 0) {
+    const rows = await db.select().from(tasksTable).where(inArray(tasksTable.id, taskIds)).execute();
+    rows.forEach(task => tasks.set(task.id, task));
+  }
+
+  const agentIds = [...new Set([run.agent_id, ...crew[0].agent_ids, ...steps.flatMap(s => s.agent_id !== null ? [s.agent_id] : [])])];
+  const agents = new Map<number, Agent>();
+  const agentRows = await db.select().from(agentsTable).where(inArray(agentsTable.id, agentIds)).execute();
+  agentRows.forEach(agent => agents.set(agent.id, agent));
+
+  // Fill in the run's inputs; the crew may have gained placeholders since the run was started
+  assertInputsProvided([
+    ...[...agents.values()].flatMap(agentTemplateVariables),
+    ...[...tasks.values()].flatMap(taskTemplateVariables)
+  ], run.inputs);
+  agents.forEach((agent, id) => agents.set(id, renderAgent(agent, run.inputs)));
+  tasks.forEach((task, id) => tasks.set(id, renderTask(task, run.inputs)));
+
+  const coworkers = crew[0].agent_ids.flatMap(id => agents.get(id) ?? []);
+  const manager = agents.get(crew[0].manager_agent_id ?? run.agent_id) ?? null;
+  // Only a manager that is allowed to delegate gets to pick who takes a task
+  const delegator = manager?.allow_delegation ? manager : null;
+
+  // Outputs are attributed to the agent and task they belong to
+  const recorderFor = (agent: Agent, task: Task): RecordOutput => async (output_type, content, metadata) => {
+    await createAgentOutput({ run_id: run.id, output_type, content, metadata, agent_id: agent.id, task_id: task.id });
+  };
+
+  // Hierarchical crews ask the manager who should take the task
+  const delegate = async (task: Task, stepSignal: AbortSignal): Promise<Agent> => {
+    if (coworkers.length === 0) {
+      // Members can be purged after the crew was set up, leaving nobody to hand the task to
+      throw new InvalidInputError(`Crew "${crew[0].name}" has no members left to take "${task.name}"`, {
+        crew_id: crew[0].id,
+        task_id: task.id
+      });
+    }
+
+    const fallback = (task.agent_id !== null ? coworkers.find(a => a.id === task.agent_id) : undefined) ?? coworkers[0];
+    if (!delegator) {
+      if (manager) {
+        await recorderFor(manager, task)('log', `${manager.name} is not allowed to delegate; "${task.name}" goes to ${fallback.name}`);
+      }
+      return fallback;
+    }
+
+    const record = recorderFor(delegator, task);
+    const response = await runtime.execute({
+      agent: delegator,
+      run,
+      prompt: buildDelegationPrompt(task, coworkers),
+      log: (content) => record('log', content),
+      record,
+      signal: stepSignal,
+      // Picking a coworker needs no tools
+      toolbox: createToolbox([], { signal: stepSignal, record })
+    });
+
+    return parseDelegation(response, coworkers) ?? fallback;
+  };
+
+  const results = new Map<number, string>();
+  const structuredResults = new Map<number, unknown>();
+  let previousOutputs: string[] = [];
+
+  // Steps watch their batch's signal, which also fires when a sibling step fails
+  const executeStep = async (step: RunStep, stepSignal: AbortSignal): Promise<string> => {
+    const task = step.task_id !== null ? tasks.get(step.task_id) : undefined;
+    if (!task) {
+      throw new Error(`Task for step ${step.position + 1} of crew run ${run.id} no longer exists`);
+    }
+
+    try {
+      const assigned = step.agent_id !== null ? agents.get(step.agent_id) : undefined;
+      const agent = assigned ?? await delegate(task, stepSignal);
+
+      // Explicit context tasks win; otherwise the task builds on the previous batch
+      const context = task.context_task_ids.length > 0
+        ? task.context_task_ids.flatMap(id => results.get(id) ?? [])
+        : previousOutputs;
+      const prompt = `${buildTaskPrompt(task, context)}\n\nCrew input: ${run.input_text}`;
+
+      const record = recorderFor(agent, task);
+
+      await updateStep(step, { status: 'running', agent_id: agent.id, input_text: prompt, started_at: new Date() });
+      await record('delegation', `Handing "${task.name}" to ${agent.name}`, {
+        task_id: task.id,
+        agent_id: agent.id,
+        delegated_by: assigned || !delegator ? null : delegator.id
+      } satisfies DelegationMetadata);
+
+      // Same rules as single-agent runs: the task's output schema wins over the agent's
+      const outputSchema = task.expected_output_schema ?? agent.expected_output_schema;
+      const runContext: RunContext = {
+        agent,
+        run,
+        prompt: outputSchema ? prompt + describeOutputSchema(outputSchema) : prompt,
+        log: (content) => record('log', content),
+        record,
+        signal: stepSignal,
+        toolbox: createToolbox(await loadAgentTools(agent.id), { signal: stepSignal, record })
+      };
+      let output = await runtime.execute(runContext);
+
+      if (outputSchema) {
+        const outputJson = await ensureStructuredAnswer(output, runContext.prompt, outputSchema, {
+          repair: (repairPrompt) => runtime.execute({ ...runContext, prompt: repairPrompt }),
+          onInvalid: async (invalid) => {
+            await createAgentOutput({
+              run_id: run.id,
+              output_type: 'error',
+              content: invalid.message,
+              metadata: invalid.metadata,
+              agent_id: agent.id,
+              task_id: task.id
+            });
+          }
+        });
+        structuredResults.set(task.id, outputJson);
+        output = JSON.stringify(outputJson, null, 2);
+      }
+
+      if (task.output_file) {
+        const path = await writeTaskOutputFile(task.output_file, output);
+        await record('artifact', `Saved result to ${path}`, { path, bytes: Buffer.byteLength(output) } satisfies ArtifactMetadata);
+      }
+
+      await updateStep(step, { status: 'completed', output, completed_at: new Date() });
+      results.set(task.id, output);
+      return output;
+    } catch (error) {
+      // Steps stopped because the run was cancelled or a sibling failed did not fail themselves
+      const stopped = signal.reason instanceof RunCancelledError || (stepSignal.aborted && !signal.aborted);
+      const status = stopped ? 'cancelled' : 'failed';
+      await updateStep(step, { status, completed_at: new Date() });
+      throw error;
+    }
+  };
+
+  let lastOutput = '';
+  let lastOutputJson: unknown;
+  for (const batch of groupIntoBatches(steps, tasks)) {
+    // The first failure stops the rest of the batch; the run only fails once every step has stopped
+    const batchController = new AbortController();
+    const batchSignal = AbortSignal.any([signal, batchController.signal]);
+    const settled = await Promise.allSettled(batch.map(step => executeStep(step, batchSignal).catch((error: unknown) => {
+      batchController.abort(error);
+      throw error;
+    })));
+    if (batchController.signal.aborted) {
+      throw batchController.signal.reason;
+    }
+
+    previousOutputs = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    lastOutput = previousOutputs[previousOutputs.length - 1];
+    const lastTaskId = batch[batch.length - 1].task_id;
+    lastOutputJson = lastTaskId !== null ? structuredResults.get(lastTaskId) : undefined;
+  }
+
+  return { output: lastOutput, outputJson: lastOutputJson };
+};
@@ -0,0 +1,149 @@
+import { type Agent, type TokenUsageMetadata } from '../schema';
+import { getLLMProvider } from '../llm';
+import { createRateLimiter } from '../llm/rate_limiter';
+import { type ChatMessage, type LLMProvider } from '../llm/types';
+import { type Tool } from '../tools/types';
+import { type AgentRuntime } from './runtime';
+
+const FINAL_ANSWER_MARKER = 'Final Answer:';
+
+const THOUGHT_PREFIX = /^Thought:\s*/i;
+
+const ACTION_PATTERN = /Action:\s*([\w-]+)\s*\n\s*Action Input:\s*([\s\S]*)/;
+
+const CONTINUE_PROMPT = `Continue working on the task. When you are done, reply with "${FINAL_ANSWER_MARKER}" followed by your complete answer.`;
+
+// Tells the model which tools it has and the ReAct format for calling them
+const describeTools = (tools: Tool[]): string =>
+  '\nYou can use these tools:\n' +
+  tools.map(tool => `- ${tool.name}: ${tool.description} Example input: ${JSON.stringify(tool.exampleInput)}`).join('\n') +
+  '\nTo use a tool, reply with exactly:\nAction: <tool name>\nAction Input: <JSON object>\n' +
+  'Then stop and wait for the Observation with its result.';
+
+// CrewAI-style persona prompt built from the agent's role, goal and backstory
+export const buildAgentMessages = (agent: Agent, inputText: string, tools: Tool[] = []): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You are ${agent.role}. ${agent.backstory}\nYour personal goal is: ${agent.goal}\n` +
+      `When you have the complete answer, reply with "${FINAL_ANSWER_MARKER}" followed by the answer.` +
+      (tools.length > 0 ? describeTools(tools) : '')
+  },
+  { role: 'user', content: inputText }
+];
+
+// Returns the text after the final answer marker, or null if the model is not done yet
+export const extractFinalAnswer = (content: string): string | null => {
+  const index = content.indexOf(FINAL_ANSWER_MARKER);
+  if (index === -1) {
+    return null;
+  }
+  return content.slice(index + FINAL_ANSWER_MARKER.length).trim();
+};
+
+// The reasoning the model wrote before acting or answering, or null when it went straight to it
+export const extractThought = (content: string): string | null => {
+  const ends = [content.indexOf(FINAL_ANSWER_MARKER), content.search(/^Action:/m)].filter(index => index !== -1);
+  const thought = content.slice(0, ends.length > 0 ? Math.min(...ends) : undefined)
+    .trim()
+    .replace(THOUGHT_PREFIX, '');
+  return thought === '' ? null : thought;
+};
+
+export interface ToolAction {
+  tool: string;
+  input: unknown;
+}
+
+// Reads the tool call out of a reply, or returns null when the model did not ask for one.
+// Input that isn't valid JSON is passed on as a string so the tool can reject it.
+export const parseToolAction = (content: string): ToolAction | null => {
+  const match = ACTION_PATTERN.exec(content);
+  if (!match) {
+    return null;
+  }
+
+  // Models sometimes carry on and imagine the observation themselves
+  const rawInput = match[2].split(/\nObservation:/)[0].trim()
+    .replace(/^```(?:json)?\s*/, '')
+    .replace(/\s*```$/, '');
+  try {
+    return { tool: match[1], input: JSON.parse(rawInput) };
+  } catch {
+    return { tool: match[1], input: rawInput };
+  }
+};
+
+const resolveAgentProvider = (agent: Agent): LLMProvider => getLLMProvider(agent.llm_provider ?? undefined);
+
+// Shared across runs so max_rpm holds for an agent even when several of its runs execute at once
+const rateLimiter = createRateLimiter();
+
+// Runtime that executes agents against their configured LLM provider, running the tools
+// the model asks for and iterating until it gives a final answer or max_iter is reached
+export const createLLMRuntime = (resolveProvider: (agent: Agent) => LLMProvider = resolveAgentProvider): AgentRuntime => ({
+  name: 'llm',
+  execute: async ({ agent, prompt, log, record, signal, toolbox }) => {
+    const provider = resolveProvider(agent);
+    const model = agent.llm ?? provider.defaultModel;
+    await log(`Calling ${provider.name} provider with model ${model}`);
+
+    const messages = buildAgentMessages(agent, prompt, toolbox.tools);
+    if (agent.verbose) {
+      await log(`System prompt: ${messages[0].content}`);
+    }
+
+    let lastContent = '';
+    for (let iteration = 1; iteration <= agent.max_iter; iteration++) {
+      // The executor stops waiting once the run is aborted; stop calling the provider too
+      signal.throwIfAborted();
+      if (agent.max_rpm !== null) {
+        await rateLimiter.acquire(`agent:${agent.id}`, agent.max_rpm, signal);
+      }
+
+      const response = await provider.chat({
+        messages,
+        model,
+        temperature: agent.temperature ?? undefined,
+        max_tokens: agent.max_tokens ?? undefined,
+        signal
+      });
+      lastContent = response.content;
+
+      if (agent.verbose) {
+        await log(`Iteration ${iteration}: ${response.content}`);
+      }
+      if (response.usage) {
+        const usage: TokenUsageMetadata = { model: response.model, ...response.usage };
+        await record('metric', `Token usage: ${usage.input_tokens} input, ${usage.output_tokens} output`, usage);
+      }
+
+      const thought = extractThought(response.content);
+      if (thought !== null) {
+        await record('thought', thought);
+      }
+
+      const finalAnswer = extractFinalAnswer(response.content);
+      if (finalAnswer !== null) {
+        return finalAnswer;
+      }
+
+      const action = toolbox.tools.length > 0 ? parseToolAction(response.content) : null;
+      if (action) {
+        const observation = await toolbox.call(action.tool, action.input);
+        messages.push(
+          { role: 'assistant', content: response.content },
+          { role: 'user', content: `Observation: ${observation}` }
+        );
+        continue;
+      }
+
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: CONTINUE_PROMPT }
+      );
+    }
+
+    await log(`Reached the maximum of ${agent.max_iter} iterations; using the last response as the answer`);
+    return lastContent;
+  }
+});
@@ -0,0 +1,14 @@
+import { type AgentRuntime } from './runtime';
+
+// Deterministic runtime that never leaves the process.
+// Produces the same outputs for the same agent and input, which makes it suitable for tests.
+export const createLocalRuntime = (): AgentRuntime => ({
+  name: 'local',
+  execute: async ({ agent, run, prompt, log }) => {
+    await log(`${agent.name} (${agent.role}) picked up run #${run.id}`);
+    await log(`Goal: ${agent.goal}`);
+    await log(`Working on: ${prompt}`);
+
+    return `${agent.role} completed: ${prompt}`;
+  }
+});
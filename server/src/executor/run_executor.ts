@@ -0,0 +1,253 @@
+import { db } from '../db';
+import { agentRunsTable, agentsTable, tasksTable } from '../db/schema';
+import { type AgentRun, type ArtifactMetadata } from '../schema';
+import { createAgentOutput } from '../handlers/create_agent_output';
+import { updateAgentRunStatus } from '../handlers/update_agent_run_status';
+import { runEvents } from '../events';
+import { RunTransitionError, applyRunTransition, transitionRun } from '../runs/state_machine';
+import { type AgentRuntime, type RecordOutput, type RunContext, RunCancelledError } from './runtime';
+import { describeOutputSchema, ensureStructuredAnswer, OutputValidationError } from './structured_output';
+import { buildTaskPrompt, loadTaskContext, writeTaskOutputFile } from './task_prompt';
+import { executeCrewRun } from './crew_executor';
+import { NotFoundError } from '../errors';
+import { createToolbox, loadAgentTools } from '../tools';
+import { agentTemplateVariables, assertInputsProvided, renderAgent, renderTask, taskTemplateVariables } from '../templates';
+import { eq, asc } from 'drizzle-orm';
+
+export interface RunExecutorOptions {
+  runtime: AgentRuntime;
+  pollIntervalMs?: number;
+  concurrency?: number;
+}
+
+export interface RunExecutor {
+  start: () => void;
+  stop: () => Promise<void>;
+  // Claims pending runs up to the free concurrency slots and starts executing them
+  tick: () => Promise<void>;
+  // Resolves once every run started so far has finished
+  idle: () => Promise<void>;
+}
+
+// Atomically moves the oldest pending run to running.
+// SKIP LOCKED lets several server instances poll the same table without double-claiming a run.
+export const claimNextRun = async (): Promise<AgentRun | null> => {
+  try {
+    const claimed = await db.transaction(async (tx) => {
+      const pending = await tx.select()
+        .from(agentRunsTable)
+        .where(eq(agentRunsTable.status, 'pending'))
+        .orderBy(asc(agentRunsTable.id))
+        .limit(1)
+        .for('update', { skipLocked: true })
+        .execute();
+
+      if (pending.length === 0) {
+        return null;
+      }
+
+      return await transitionRun(tx, pending[0], 'running');
+    });
+
+    if (claimed) {
+      await runEvents.publish({ type: 'status', run_id: claimed.id, status: 'running' });
+    }
+    return claimed;
+  } catch (error) {
+    console.error('Agent run claim failed:', error);
+    throw error;
+  }
+};
+
+// Rejects with the abort reason as soon as the signal fires, even if the runtime ignores it
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    // A run makes several raced calls on the same signal; don't leave a listener behind for each
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Stores a failure as an error output; answers that broke the output schema keep their details
+const recordRunError = async (runId: number, error: unknown): Promise<void> => {
+  await createAgentOutput({
+    run_id: runId,
+    output_type: 'error',
+    content: error instanceof Error ? error.message : String(error),
+    metadata: error instanceof OutputValidationError ? error.metadata : null
+  });
+};
+
+// Runs a claimed run to completion, recording logs, the result or the error as outputs
+export const executeRun = async (run: AgentRun, runtime: AgentRuntime): Promise<AgentRun | null> => {
+  const controller = new AbortController();
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  // Cancellation may come from any server instance; it reaches us as a status event
+  const unsubscribe = runEvents.subscribe(run.id, (event) => {
+    if (event.type === 'status' && event.status === 'cancelled') {
+      controller.abort(new RunCancelledError(run.id));
+    }
+  });
+
+  try {
+    const agent = await db.select()
+      .from(agentsTable)
+      .where(eq(agentsTable.id, run.agent_id))
+      .execute();
+
+    if (agent.length === 0) {
+      throw new NotFoundError('Agent', run.agent_id);
+    }
+
+    const task = run.task_id !== null
+      ? (await db.select().from(tasksTable).where(eq(tasksTable.id, run.task_id)).execute())[0] ?? null
+      : null;
+
+    const maxExecutionTime = agent[0].max_execution_time;
+    if (maxExecutionTime !== null) {
+      timeout = setTimeout(() => {
+        controller.abort(new Error(`Run exceeded the agent's max execution time of ${maxExecutionTime}s`));
+      }, maxExecutionTime * 1000);
+    }
+
+    const record: RecordOutput = async (output_type, content, metadata) => {
+      await createAgentOutput({ run_id: run.id, output_type, content, metadata });
+    };
+
+    // Crew runs hand their tasks to crew members; everything else runs on the single agent
+    let result: string;
+    let outputJson: unknown;
+    if (run.crew_id !== null) {
+      ({ output: result, outputJson } = await raceAbort(executeCrewRun(run, runtime, controller.signal), controller.signal));
+    } else {
+      // The agent or task may have gained placeholders since the run was started
+      assertInputsProvided([...agentTemplateVariables(agent[0]), ...(task ? taskTemplateVariables(task) : [])], run.inputs);
+
+      // Runs started from a saved task get the task prompt plus the results of its context tasks
+      const prompt = task
+        ? buildTaskPrompt(renderTask(task, run.inputs), await loadTaskContext(task))
+        : run.input_text;
+      await db.update(agentRunsTable)
+        .set({ resolved_prompt: prompt })
+        .where(eq(agentRunsTable.id, run.id))
+        .execute();
+
+      // The task's output schema wins over the agent's
+      const outputSchema = task?.expected_output_schema ?? agent[0].expected_output_schema;
+      const context: RunContext = {
+        agent: renderAgent(agent[0], run.inputs),
+        run,
+        prompt: outputSchema ? prompt + describeOutputSchema(outputSchema) : prompt,
+        log: (content) => record('log', content),
+        record,
+        signal: controller.signal,
+        toolbox: createToolbox(await loadAgentTools(agent[0].id), { signal: controller.signal, record })
+      };
+      result = await raceAbort(runtime.execute(context), controller.signal);
+
+      if (outputSchema) {
+        outputJson = await ensureStructuredAnswer(result, context.prompt, outputSchema, {
+          repair: (repairPrompt) => raceAbort(runtime.execute({ ...context, prompt: repairPrompt }), controller.signal),
+          onInvalid: (invalid) => recordRunError(run.id, invalid)
+        });
+        result = JSON.stringify(outputJson, null, 2);
+      }
+    }
+
+    if (task?.output_file) {
+      const path = await writeTaskOutputFile(task.output_file, result);
+      await record('artifact', `Saved result to ${path}`, { path, bytes: Buffer.byteLength(result) } satisfies ArtifactMetadata);
+    }
+
+    await createAgentOutput({ run_id: run.id, output_type: 'result', content: result });
+    return await applyRunTransition(run.id, 'completed', { output_json: outputJson });
+  } catch (error) {
+    // Cancellation already moved the run to cancelled; just note where it stopped.
+    // A cancel landing before the subscription above shows up as a refused transition instead,
+    // as does another actor (an admin or an external executor) finishing the run first.
+    if (controller.signal.reason instanceof RunCancelledError || error instanceof RunTransitionError) {
+      const [stored] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, run.id)).execute();
+      if (stored?.status === 'cancelled') {
+        await createAgentOutput({ run_id: run.id, output_type: 'log', content: 'Run cancelled' });
+        return stored;
+      }
+      if (stored && error instanceof RunTransitionError) {
+        console.warn(`Agent run ${run.id} was already ${stored.status}; dropping the executor's outcome`);
+        await createAgentOutput({ run_id: run.id, output_type: 'log', content: `Run was already ${stored.status}; the executor's outcome was dropped` });
+        return stored;
+      }
+    }
+
+    console.error(`Agent run ${run.id} failed:`, error);
+    await recordRunError(run.id, error);
+    return await updateAgentRunStatus({ id: run.id, status: 'failed' });
+  } finally {
+    unsubscribe();
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+  }
+};
+
+export const createRunExecutor = (options: RunExecutorOptions): RunExecutor => {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const concurrency = options.concurrency ?? 1;
+  const active = new Set<Promise<unknown>>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  const tick = async () => {
+    while (active.size < concurrency) {
+      const run = await claimNextRun();
+      if (!run) {
+        return;
+      }
+
+      const execution = executeRun(run, options.runtime)
+        .catch(error => console.error(`Agent run ${run.id} could not be finalized:`, error))
+        .finally(() => active.delete(execution));
+      active.add(execution);
+    }
+  };
+
+  const idle = async () => {
+    while (active.size > 0) {
+      await Promise.all(active);
+    }
+  };
+
+  const loop = async () => {
+    try {
+      await tick();
+    } catch (error) {
+      console.error('Run executor tick failed:', error);
+    }
+
+    if (running) {
+      timer = setTimeout(loop, pollIntervalMs);
+    }
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      loop();
+    },
+    stop: async () => {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await idle();
+    },
+    tick,
+    idle
+  };
+};
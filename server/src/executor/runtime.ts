@@ -0,0 +1,39 @@
+import { type Agent, type AgentRun, type OutputMetadata, type OutputType } from '../schema';
+import { type Toolbox } from '../tools';
+
+// Output types a runtime records while it works; the executor records the result or error itself
+export type RuntimeOutputType = Exclude<OutputType, 'result' | 'error'>;
+
+// Persists an output for the run; await it to keep outputs in order
+export type RecordOutput = (outputType: RuntimeOutputType, content: string, metadata?: OutputMetadata) => Promise<void>;
+
+// Everything a runtime needs to execute a single claimed run
+export interface RunContext {
+  agent: Agent;
+  run: AgentRun;
+  // What the agent should work on: the run's input text, or the task prompt with its context
+  prompt: string;
+  // Persists a log output for the run; await it to keep outputs in order
+  log: (content: string) => Promise<void>;
+  // Persists a structured output such as a thought or metric
+  record: RecordOutput;
+  // Aborted when the run exceeds the agent's max_execution_time or is cancelled
+  signal: AbortSignal;
+  // The tools the agent was given; calls made through it are recorded as outputs
+  toolbox: Toolbox;
+}
+
+// Abort reason used when a user cancels a run, so it can be told apart from a timeout
+export class RunCancelledError extends Error {
+  constructor(runId: number) {
+    super(`Agent run ${runId} was cancelled`);
+    this.name = 'RunCancelledError';
+  }
+}
+
+// Pluggable execution backend. The returned string is stored as the run's result;
+// throwing marks the run as failed and stores the message as an error output.
+export interface AgentRuntime {
+  name: string;
+  execute: (context: RunContext) => Promise<string>;
+}
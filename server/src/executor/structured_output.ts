@@ -0,0 +1,97 @@
+import { type JsonSchema, type OutputValidationMetadata } from '../schema';
+import { validateJson } from '../json_schema';
+
+// How often the model is asked to fix an answer that doesn't match the schema
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// A final answer that isn't JSON matching the expected output schema
+export class OutputValidationError extends Error {
+  readonly metadata: OutputValidationMetadata;
+
+  constructor(attempt: number, readonly errors: string[]) {
+    super(`The answer does not match the expected output schema: ${errors.join('; ')}`);
+    this.name = 'OutputValidationError';
+    this.metadata = { kind: 'output_validation', attempt, errors };
+  }
+}
+
+// Asks for JSON only and shows the schema; appended to the prompt of runs with an output schema
+export const describeOutputSchema = (schema: JsonSchema): string =>
+  '\n\nYour final answer must be only a JSON value, without any other text, that matches this JSON Schema:\n' +
+  JSON.stringify(schema, null, 2);
+
+export const buildRepairPrompt = (prompt: string, answer: string, errors: string[]): string =>
+  `${prompt}\n\nYour previous final answer was:\n${answer}\n\n` +
+  `It does not match the JSON Schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\n` +
+  'Reply with a corrected final answer that is only JSON matching the schema.';
+
+// Reads the JSON out of an answer; models like to wrap it in a code fence or a sentence
+export const extractJson = (answer: string): unknown => {
+  const text = answer.trim();
+  const fenced = /```(?:json)?\s*\n?([\s\S]*?)\n?```/.exec(text);
+  const candidates = [text, fenced?.[1]?.trim()];
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next way of finding the JSON
+    }
+  }
+  throw new SyntaxError('the answer is not valid JSON');
+};
+
+export type StructuredCheck = { ok: true; value: unknown } | { ok: false; errors: string[] };
+
+export const checkStructuredAnswer = (answer: string, schema: JsonSchema): StructuredCheck => {
+  let value: unknown;
+  try {
+    value = extractJson(answer);
+  } catch (error) {
+    return { ok: false, errors: [`$: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateJson(value, schema);
+  return errors.length === 0 ? { ok: true, value } : { ok: false, errors };
+};
+
+export interface StructuredAnswerOptions {
+  // Runs the agent again with the given prompt and returns its new final answer
+  repair: (prompt: string) => Promise<string>;
+  // Called for every answer that is repaired; the last failure is thrown instead
+  onInvalid: (error: OutputValidationError) => Promise<void>;
+  maxRepairs?: number;
+}
+
+// Validates the final answer, asking for repairs until it matches or the attempts run out.
+// Returns the parsed JSON.
+export const ensureStructuredAnswer = async (
+  answer: string,
+  prompt: string,
+  schema: JsonSchema,
+  options: StructuredAnswerOptions
+): Promise<unknown> => {
+  const maxRepairs = options.maxRepairs ?? MAX_REPAIR_ATTEMPTS;
+  let current = answer;
+
+  for (let attempt = 1; ; attempt++) {
+    const check = checkStructuredAnswer(current, schema);
+    if (check.ok) {
+      return check.value;
+    }
+
+    const error = new OutputValidationError(attempt, check.errors);
+    if (attempt > maxRepairs) {
+      throw error;
+    }
+    await options.onInvalid(error);
+    current = await options.repair(buildRepairPrompt(prompt, current, check.errors));
+  }
+};
@@ -0,0 +1,65 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { db } from '../db';
+import { agentRunsTable, agentOutputsTable } from '../db/schema';
+import { type Task } from '../schema';
+import { and, asc, desc, eq, isNull } from 'drizzle-orm';
+
+// Mirrors the way CrewAI phrases a task for its assigned agent
+export const buildTaskPrompt = (task: Task, context: string[]): string => {
+  let prompt = `${task.description}\n\nThis is the expected criteria for your final answer: ${task.expected_output}`;
+
+  if (context.length > 0) {
+    prompt += `\n\nThis is the context you're working with:\n${context.join('\n\n')}`;
+  }
+
+  return prompt;
+};
+
+// Collects the result of the latest completed run of every context task
+export const loadTaskContext = async (task: Task): Promise<string[]> => {
+  const context: string[] = [];
+
+  for (const contextTaskId of task.context_task_ids) {
+    const latestRun = await db.select()
+      .from(agentRunsTable)
+      .where(and(
+        eq(agentRunsTable.task_id, contextTaskId),
+        eq(agentRunsTable.status, 'completed'),
+        isNull(agentRunsTable.deleted_at)
+      ))
+      .orderBy(desc(agentRunsTable.completed_at))
+      .limit(1)
+      .execute();
+
+    if (latestRun.length === 0) {
+      continue;
+    }
+
+    const results = await db.select()
+      .from(agentOutputsTable)
+      .where(and(
+        eq(agentOutputsTable.run_id, latestRun[0].id),
+        eq(agentOutputsTable.output_type, 'result')
+      ))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    if (results.length > 0) {
+      context.push(results.map(r => r.content).join('\n'));
+    }
+  }
+
+  return context;
+};
+
+// Writes a task result into TASK_OUTPUT_DIR and returns the full path
+export const writeTaskOutputFile = async (fileName: string, content: string): Promise<string> => {
+  const outputDir = resolve(process.env['TASK_OUTPUT_DIR'] || 'output');
+  // Never let a stored file name escape the output directory
+  const path = resolve(outputDir, basename(fileName));
+
+  await mkdir(outputDir, { recursive: true });
+  await writeFile(path, content, 'utf8');
+  return path;
+};
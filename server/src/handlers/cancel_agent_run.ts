@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { runStepsTable } from '../db/schema';
+import { type AgentRun } from '../schema';
+import { runEvents } from '../events';
+import { ACTIVE_RUN_STATUSES, lockRun, transitionRun } from '../runs/state_machine';
+import { NotFoundError } from '../errors';
+import { and, eq, inArray } from 'drizzle-orm';
+
+export const cancelAgentRun = async (id: number): Promise<AgentRun> => {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const run = await lockRun(tx, id);
+      if (!run) {
+        throw new NotFoundError('Agent run', id);
+      }
+
+      // Only runs that have not finished yet can be cancelled
+      const now = new Date();
+      const cancelled = await transitionRun(tx, run, 'cancelled', { now });
+
+      // Crew steps that never got to finish are cancelled with the run
+      const steps = await tx.update(runStepsTable)
+        .set({ status: 'cancelled', completed_at: now })
+        .where(and(
+          eq(runStepsTable.run_id, id),
+          inArray(runStepsTable.status, ACTIVE_RUN_STATUSES)
+        ))
+        .returning({ id: runStepsTable.id })
+        .execute();
+
+      return { run: cancelled, stepIds: steps.map(step => step.id) };
+    });
+
+    // The executor running the run listens for this and aborts the runtime
+    await runEvents.publish({ type: 'status', run_id: id, status: 'cancelled' });
+    for (const stepId of result.stepIds) {
+      await runEvents.publish({ type: 'step', run_id: id, step_id: stepId });
+    }
+
+    return result.run;
+  } catch (error) {
+    console.error('Agent run cancellation failed:', error);
+    throw error;
+  }
+};
@@ -1,22 +1,38 @@
 import { db } from '../db';
 import { agentsTable } from '../db/schema';
 import { type CreateAgentInput, type Agent } from '../schema';
+import { ensureAgentRevision } from '../agents/revisions';
 
-export const createAgent = async (input: CreateAgentInput): Promise<Agent> => {
+export const createAgent = async (input: CreateAgentInput, ownerId: number | null = null): Promise<Agent> => {
   try {
-    const result = await db.insert(agentsTable)
-      .values({
-        name: input.name,
-        description: input.description,
-        role: input.role,
-        goal: input.goal,
-        backstory: input.backstory,
-        is_active: input.is_active
-      })
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(agentsTable)
+        .values({
+          name: input.name,
+          description: input.description,
+          role: input.role,
+          goal: input.goal,
+          backstory: input.backstory,
+          llm_provider: input.llm_provider ?? null,
+          llm: input.llm ?? null,
+          temperature: input.temperature ?? null,
+          max_tokens: input.max_tokens ?? null,
+          max_iter: input.max_iter,
+          max_rpm: input.max_rpm ?? null,
+          max_execution_time: input.max_execution_time ?? null,
+          verbose: input.verbose,
+          allow_delegation: input.allow_delegation,
+          expected_output_schema: input.expected_output_schema ?? null,
+          is_active: input.is_active,
+          owner_id: ownerId
+        })
+        .returning()
+        .execute();
 
-    return result[0];
+      // Every agent starts at revision 1
+      await ensureAgentRevision(tx, result[0].id);
+      return result[0];
+    });
   } catch (error) {
     console.error('Agent creation failed:', error);
     throw error;
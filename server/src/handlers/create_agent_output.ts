@@ -1,6 +1,8 @@
 import { db } from '../db';
 import { agentOutputsTable, agentRunsTable } from '../db/schema';
 import { type CreateAgentOutputInput, type AgentOutput } from '../schema';
+import { runEvents } from '../events';
+import { NotFoundError } from '../errors';
 import { eq } from 'drizzle-orm';
 
 export const createAgentOutput = async (input: CreateAgentOutputInput): Promise<AgentOutput> => {
@@ -12,7 +14,7 @@ export const createAgentOutput = async (input: CreateAgentOutputInput): Promise<
       .execute();
 
     if (run.length === 0) {
-      throw new Error(`Agent run with ID ${input.run_id} not found`);
+      throw new NotFoundError('Agent run', input.run_id);
     }
 
     const result = await db.insert(agentOutputsTable)
@@ -20,11 +22,16 @@ export const createAgentOutput = async (input: CreateAgentOutputInput): Promise<
         run_id: input.run_id,
         output_type: input.output_type,
         content: input.content,
+        metadata: input.metadata ?? null,
+        agent_id: input.agent_id ?? null,
+        task_id: input.task_id ?? null,
         timestamp: input.timestamp || new Date()
       })
       .returning()
       .execute();
 
+    await runEvents.publish({ type: 'output', run_id: input.run_id, output_id: result[0].id });
+
     return result[0];
   } catch (error) {
     console.error('Agent output creation failed:', error);
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { agentsTable, apiKeysTable } from '../db/schema';
+import { type CreateApiKeyInput, type CreatedApiKey } from '../schema';
+import { generateApiKey, hashApiKey } from '../auth/api_keys';
+import { NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const createApiKey = async (input: CreateApiKeyInput, createdBy: number | null = null): Promise<CreatedApiKey> => {
+  try {
+    if (input.agent_id !== null) {
+      const agent = await db.select({ id: agentsTable.id })
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, input.agent_id), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', input.agent_id);
+      }
+    }
+
+    const key = generateApiKey();
+    const result = await db.insert(apiKeysTable)
+      .values({
+        name: input.name,
+        key_hash: hashApiKey(key),
+        prefix: key.slice(0, 12),
+        scopes: [...new Set(input.scopes)],
+        agent_id: input.agent_id,
+        created_by: createdBy
+      })
+      .returning()
+      .execute();
+
+    const { key_hash: _keyHash, ...apiKey } = result[0];
+    return { api_key: apiKey, key };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { type CreateCrewInput, type Crew } from '../schema';
+import { NotFoundError, InvalidInputError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+export const createCrew = async (input: CreateCrewInput): Promise<Crew> => {
+  try {
+    const agentIds = [...new Set(input.agent_ids)];
+    const taskIds = [...new Set(input.task_ids)];
+
+    // Verify all crew members exist
+    const agents = await db.select({ id: agentsTable.id })
+      .from(agentsTable)
+      .where(and(inArray(agentsTable.id, agentIds), isNull(agentsTable.deleted_at)))
+      .execute();
+
+    if (agents.length !== agentIds.length) {
+      const found = new Set(agents.map(a => a.id));
+      const missing = agentIds.filter(id => !found.has(id));
+      throw new NotFoundError('Agent', missing[0]);
+    }
+
+    // Verify all tasks exist
+    const tasks = await db.select({ id: tasksTable.id })
+      .from(tasksTable)
+      .where(inArray(tasksTable.id, taskIds))
+      .execute();
+
+    if (tasks.length !== taskIds.length) {
+      const found = new Set(tasks.map(t => t.id));
+      const missing = taskIds.filter(id => !found.has(id));
+      throw new NotFoundError('Task', missing[0]);
+    }
+
+    // The manager delegates work, so it cannot also be one of the workers
+    if (input.manager_agent_id !== null) {
+      if (agentIds.includes(input.manager_agent_id)) {
+        throw new InvalidInputError(`Manager agent with ID ${input.manager_agent_id} cannot also be a crew member`, { agent_id: input.manager_agent_id });
+      }
+
+      const manager = await db.select()
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, input.manager_agent_id), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (manager.length === 0) {
+        throw new NotFoundError('Agent', input.manager_agent_id);
+      }
+    }
+
+    const result = await db.insert(crewsTable)
+      .values({
+        name: input.name,
+        description: input.description,
+        process: input.process,
+        manager_agent_id: input.manager_agent_id,
+        agent_ids: agentIds,
+        task_ids: taskIds
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Crew creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { agentsTable, tasksTable } from '../db/schema';
+import { type CreateTaskInput, type Task } from '../schema';
+import { NotFoundError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+export const createTask = async (input: CreateTaskInput): Promise<Task> => {
+  try {
+    // Verify the assigned agent exists
+    if (input.agent_id !== null) {
+      const agent = await db.select()
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, input.agent_id), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', input.agent_id);
+      }
+    }
+
+    // Verify all context tasks exist
+    const contextTaskIds = [...new Set(input.context_task_ids)];
+    if (contextTaskIds.length > 0) {
+      const contextTasks = await db.select({ id: tasksTable.id })
+        .from(tasksTable)
+        .where(inArray(tasksTable.id, contextTaskIds))
+        .execute();
+
+      if (contextTasks.length !== contextTaskIds.length) {
+        const found = new Set(contextTasks.map(t => t.id));
+        const missing = contextTaskIds.filter(id => !found.has(id));
+        throw new NotFoundError('Context task', missing[0]);
+      }
+    }
+
+    const result = await db.insert(tasksTable)
+      .values({
+        name: input.name,
+        description: input.description,
+        expected_output: input.expected_output,
+        expected_output_schema: input.expected_output_schema ?? null,
+        agent_id: input.agent_id,
+        context_task_ids: contextTaskIds,
+        output_file: input.output_file,
+        async_execution: input.async_execution
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Task creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type CreateUserInput, type User } from '../schema';
+import { hashPassword } from '../auth/passwords';
+import { ConflictError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const createUser = async (input: CreateUserInput): Promise<User> => {
+  try {
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new ConflictError(`User ${input.username} already exists`, { username: input.username });
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        username: input.username,
+        password_hash: await hashPassword(input.password),
+        role: input.role
+      })
+      .returning({
+        id: usersTable.id,
+        username: usersTable.username,
+        role: usersTable.role,
+        created_at: usersTable.created_at,
+        updated_at: usersTable.updated_at
+      })
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('User creation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { agentRunsTable, agentsTable, crewsTable } from '../db/schema';
+import { ACTIVE_RUN_STATUSES } from '../runs/state_machine';
+import { ConflictError, NotFoundError } from '../errors';
+import { and, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+
+// Soft-deletes an agent together with its runs. The runs share the agent's deleted_at,
+// so restoring the agent brings back exactly the runs archived with it.
+export const deleteAgent = async (id: number): Promise<{ success: boolean }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const agent = await tx.select()
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, id), isNull(agentsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', id);
+      }
+
+      // Crew runs belong to their lead agent, but may still hand work to any member or the manager
+      const activeRuns = await tx.select({ id: agentRunsTable.id })
+        .from(agentRunsTable)
+        .leftJoin(crewsTable, eq(agentRunsTable.crew_id, crewsTable.id))
+        .where(and(
+          inArray(agentRunsTable.status, ACTIVE_RUN_STATUSES),
+          or(
+            eq(agentRunsTable.agent_id, id),
+            sql`${id} = any(${crewsTable.agent_ids})`,
+            eq(crewsTable.manager_agent_id, id)
+          )
+        ))
+        .execute();
+
+      if (activeRuns.length > 0) {
+        throw new ConflictError(`Agent with ID ${id} has ${activeRuns.length} active run(s); cancel them before deleting it`, {
+          entity: 'Agent',
+          id,
+          active_runs: activeRuns.length
+        });
+      }
+
+      const now = new Date();
+      await tx.update(agentsTable)
+        .set({ deleted_at: now, updated_at: now })
+        .where(eq(agentsTable.id, id))
+        .execute();
+
+      await tx.update(agentRunsTable)
+        .set({ deleted_at: now, updated_at: now })
+        .where(and(eq(agentRunsTable.agent_id, id), isNull(agentRunsTable.deleted_at)))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Agent deletion failed:', error);
+    throw error;
+  }
+};
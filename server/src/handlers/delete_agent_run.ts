@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { agentRunsTable } from '../db/schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const deleteAgentRun = async (id: number): Promise<{ success: boolean }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const run = await tx.select()
+        .from(agentRunsTable)
+        .where(and(eq(agentRunsTable.id, id), isNull(agentRunsTable.deleted_at)))
+        .for('update')
+        .execute();
+
+      if (run.length === 0) {
+        throw new NotFoundError('Agent run', id);
+      }
+
+      const { status } = run[0];
+      if (status === 'pending' || status === 'running') {
+        throw new ConflictError(`Agent run with ID ${id} is ${status} and cannot be deleted; cancel it first`, { entity: 'Agent run', id, status });
+      }
+
+      const now = new Date();
+      await tx.update(agentRunsTable)
+        .set({ deleted_at: now, updated_at: now })
+        .where(eq(agentRunsTable.id, id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Agent run deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { crewsTable, tasksTable } from '../db/schema';
+import { NotFoundError } from '../errors';
+import { eq, sql } from 'drizzle-orm';
+
+export const deleteTask = async (id: number): Promise<{ success: boolean }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(tasksTable)
+        .where(eq(tasksTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new NotFoundError('Task', id);
+      }
+
+      // Drop the deleted task from other tasks' context; past runs keep their input but lose the link
+      await tx.update(tasksTable)
+        .set({ context_task_ids: sql`array_remove(${tasksTable.context_task_ids}, ${id})` })
+        .where(sql`${id} = any(${tasksTable.context_task_ids})`)
+        .execute();
+
+      // Crews stop running the task too, so a later crew run doesn't plan a step for it
+      await tx.update(crewsTable)
+        .set({ task_ids: sql`array_remove(${crewsTable.task_ids}, ${id})` })
+        .where(sql`${id} = any(${crewsTable.task_ids})`)
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Task deletion failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { agentRevisionsTable } from '../db/schema';
+import { type DiffAgentRevisionsInput, type AgentRevisionDiff } from '../schema';
+import { diffAgentSnapshots } from '../agents/revisions';
+import { NotFoundError, InvalidInputError } from '../errors';
+import { inArray } from 'drizzle-orm';
+
+export const diffAgentRevisions = async (input: DiffAgentRevisionsInput): Promise<AgentRevisionDiff> => {
+  try {
+    const revisions = await db.select()
+      .from(agentRevisionsTable)
+      .where(inArray(agentRevisionsTable.id, [input.from_revision_id, input.to_revision_id]))
+      .execute();
+
+    const from = revisions.find(revision => revision.id === input.from_revision_id);
+    const to = revisions.find(revision => revision.id === input.to_revision_id);
+
+    if (!from) {
+      throw new NotFoundError('Agent revision', input.from_revision_id);
+    }
+    if (!to) {
+      throw new NotFoundError('Agent revision', input.to_revision_id);
+    }
+    if (from.agent_id !== to.agent_id) {
+      throw new InvalidInputError(`Agent revisions ${from.id} and ${to.id} belong to different agents`);
+    }
+
+    return {
+      from,
+      to,
+      changes: diffAgentSnapshots(from.snapshot, to.snapshot)
+    };
+  } catch (error) {
+    console.error('Agent revision diff failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { agentsTable, tasksTable } from '../db/schema';
+import { type CrewConfigFiles } from '../schema';
+import { buildConfigFiles } from '../agents/crewai_config';
+import { asc, isNull } from 'drizzle-orm';
+
+// Agents and tasks as the config/agents.yaml and config/tasks.yaml of a CrewAI project.
+// Records are taken in creation order so repeated names get the same numbered keys each time.
+export const exportAgents = async (): Promise<CrewConfigFiles> => {
+  try {
+    const agents = await db.select()
+      .from(agentsTable)
+      .where(isNull(agentsTable.deleted_at))
+      .orderBy(asc(agentsTable.id))
+      .execute();
+    const tasks = await db.select()
+      .from(tasksTable)
+      .orderBy(asc(tasksTable.id))
+      .execute();
+
+    return buildConfigFiles(agents, tasks);
+  } catch (error) {
+    console.error('Agent export failed:', error);
+    throw error;
+  }
+};
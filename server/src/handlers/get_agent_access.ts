@@ -0,0 +1,37 @@
+import { db } from '../db';
+import { agentAccessTable, agentsTable } from '../db/schema';
+import { type AgentAccess, type User } from '../schema';
+import { canManageAgentAccess, canUseAgent } from '../auth/access';
+import { NotFoundError } from '../errors';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+
+// Who may use the agent, and what the given user may do with it
+export const getAgentAccess = async (agentId: number, user: User): Promise<AgentAccess> => {
+  try {
+    const agent = await db.select({ owner_id: agentsTable.owner_id })
+      .from(agentsTable)
+      .where(and(eq(agentsTable.id, agentId), isNull(agentsTable.deleted_at)))
+      .execute();
+
+    if (agent.length === 0) {
+      throw new NotFoundError('Agent', agentId);
+    }
+
+    const access = await db.select({ user_id: agentAccessTable.user_id })
+      .from(agentAccessTable)
+      .where(eq(agentAccessTable.agent_id, agentId))
+      .orderBy(asc(agentAccessTable.user_id))
+      .execute();
+
+    return {
+      agent_id: agentId,
+      owner_id: agent[0].owner_id,
+      user_ids: access.map(row => row.user_id),
+      can_use: await canUseAgent(user, agentId),
+      can_manage: await canManageAgentAccess(user, agentId)
+    };
+  } catch (error) {
+    console.error('Failed to get agent access:', error);
+    throw error;
+  }
+};
@@ -1,17 +1,18 @@
 import { db } from '../db';
 import { agentsTable } from '../db/schema';
 import { type Agent } from '../schema';
-import { eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
 
-export const getAgentById = async (id: number): Promise<Agent | null> => {
+export const getAgentById = async (id: number): Promise<Agent> => {
   try {
     const result = await db.select()
       .from(agentsTable)
-      .where(eq(agentsTable.id, id))
+      .where(and(eq(agentsTable.id, id), isNull(agentsTable.deleted_at)))
       .execute();
 
     if (result.length === 0) {
-      return null;
+      throw new NotFoundError('Agent', id);
     }
 
     return result[0];
@@ -1,17 +1,19 @@
 import { db } from '../db';
-import { agentOutputsTable } from '../db/schema';
+import { agentOutputsTable, agentRunsTable } from '../db/schema';
 import { type AgentOutput } from '../schema';
-import { eq, asc } from 'drizzle-orm';
+import { and, eq, asc, isNull } from 'drizzle-orm';
 
 export const getAgentOutputs = async (runId: number): Promise<AgentOutput[]> => {
   try {
-    const result = await db.select()
+    // Outputs of archived runs are hidden along with the run
+    const result = await db.select({ output: agentOutputsTable })
       .from(agentOutputsTable)
-      .where(eq(agentOutputsTable.run_id, runId))
+      .innerJoin(agentRunsTable, eq(agentOutputsTable.run_id, agentRunsTable.id))
+      .where(and(eq(agentOutputsTable.run_id, runId), isNull(agentRunsTable.deleted_at)))
       .orderBy(asc(agentOutputsTable.timestamp))
       .execute();
 
-    return result;
+    return result.map(row => row.output);
   } catch (error) {
     console.error('Failed to get agent outputs:', error);
     throw error;
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { agentRevisionsTable } from '../db/schema';
+import { type AgentRevision } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+
+export const getAgentRevisions = async (agentId: number): Promise<AgentRevision[]> => {
+  try {
+    const result = await db.select()
+      .from(agentRevisionsTable)
+      .where(eq(agentRevisionsTable.agent_id, agentId))
+      .orderBy(desc(agentRevisionsTable.revision))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get agent revisions:', error);
+    throw error;
+  }
+};
@@ -1,18 +1,19 @@
 import { db } from '../db';
 import { agentRunsTable, agentOutputsTable } from '../db/schema';
 import { type AgentRunWithOutputs } from '../schema';
-import { eq } from 'drizzle-orm';
+import { NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
 
-export const getAgentRun = async (id: number): Promise<AgentRunWithOutputs | null> => {
+export const getAgentRun = async (id: number): Promise<AgentRunWithOutputs> => {
   try {
     // Get the agent run
     const runResult = await db.select()
       .from(agentRunsTable)
-      .where(eq(agentRunsTable.id, id))
+      .where(and(eq(agentRunsTable.id, id), isNull(agentRunsTable.deleted_at)))
       .execute();
 
     if (runResult.length === 0) {
-      return null;
+      throw new NotFoundError('Agent run', id);
     }
 
     const run = runResult[0];
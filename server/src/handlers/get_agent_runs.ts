@@ -1,14 +1,14 @@
 import { db } from '../db';
 import { agentRunsTable } from '../db/schema';
 import { type AgentRun } from '../schema';
-import { eq, desc } from 'drizzle-orm';
+import { and, eq, desc, isNull } from 'drizzle-orm';
 
 export const getAgentRuns = async (agentId?: number): Promise<AgentRun[]> => {
   try {
     if (agentId !== undefined) {
       const result = await db.select()
         .from(agentRunsTable)
-        .where(eq(agentRunsTable.agent_id, agentId))
+        .where(and(eq(agentRunsTable.agent_id, agentId), isNull(agentRunsTable.deleted_at)))
         .orderBy(desc(agentRunsTable.created_at))
         .execute();
       
@@ -17,6 +17,7 @@ export const getAgentRuns = async (agentId?: number): Promise<AgentRun[]> => {
 
     const result = await db.select()
       .from(agentRunsTable)
+      .where(isNull(agentRunsTable.deleted_at))
       .orderBy(desc(agentRunsTable.created_at))
       .execute();
 
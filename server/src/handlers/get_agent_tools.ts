@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { agentToolsTable, agentsTable } from '../db/schema';
+import { type ToolName } from '../schema';
+import { NotFoundError } from '../errors';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+
+// The tools the agent may call while it works
+export const getAgentTools = async (agentId: number): Promise<ToolName[]> => {
+  try {
+    const agent = await db.select({ id: agentsTable.id })
+      .from(agentsTable)
+      .where(and(eq(agentsTable.id, agentId), isNull(agentsTable.deleted_at)))
+      .execute();
+
+    if (agent.length === 0) {
+      throw new NotFoundError('Agent', agentId);
+    }
+
+    const tools = await db.select({ tool_name: agentToolsTable.tool_name })
+      .from(agentToolsTable)
+      .where(eq(agentToolsTable.agent_id, agentId))
+      .orderBy(asc(agentToolsTable.tool_name))
+      .execute();
+
+    return tools.map(row => row.tool_name);
+  } catch (error) {
+    console.error('Failed to get agent tools:', error);
+    throw error;
+  }
+};
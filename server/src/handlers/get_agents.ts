@@ -1,13 +1,16 @@
 import { db } from '../db';
 import { agentsTable } from '../db/schema';
-import { type Agent } from '../schema';
-import { eq, desc } from 'drizzle-orm';
+import { type Agent, type AgentStatusFilter } from '../schema';
+import { and, eq, desc, isNull } from 'drizzle-orm';
 
-export const getAgents = async (): Promise<Agent[]> => {
+export const getAgents = async (status: AgentStatusFilter = 'active'): Promise<Agent[]> => {
   try {
     const result = await db.select()
       .from(agentsTable)
-      .where(eq(agentsTable.is_active, true))
+      .where(and(
+        isNull(agentsTable.deleted_at),
+        status === 'all' ? undefined : eq(agentsTable.is_active, status === 'active')
+      ))
       .orderBy(desc(agentsTable.created_at))
       .execute();
 
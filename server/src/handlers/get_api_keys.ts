@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import { type ApiKey } from '../schema';
+import { desc } from 'drizzle-orm';
+
+export const getApiKeys = async (): Promise<ApiKey[]> => {
+  try {
+    const result = await db.select({
+      id: apiKeysTable.id,
+      name: apiKeysTable.name,
+      prefix: apiKeysTable.prefix,
+      scopes: apiKeysTable.scopes,
+      agent_id: apiKeysTable.agent_id,
+      created_by: apiKeysTable.created_by,
+      last_used_at: apiKeysTable.last_used_at,
+      revoked_at: apiKeysTable.revoked_at,
+      created_at: apiKeysTable.created_at
+    })
+      .from(apiKeysTable)
+      .orderBy(desc(apiKeysTable.created_at), desc(apiKeysTable.id))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get API keys:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { agentRunsTable, agentsTable } from '../db/schema';
+import { type Archive } from '../schema';
+import { and, desc, eq, isNotNull, isNull } from 'drizzle-orm';
+
+export const getArchive = async (): Promise<Archive> => {
+  try {
+    const agents = await db.select()
+      .from(agentsTable)
+      .where(isNotNull(agentsTable.deleted_at))
+      .orderBy(desc(agentsTable.deleted_at))
+      .execute();
+
+    const runs = await db.select({ run: agentRunsTable })
+      .from(agentRunsTable)
+      .innerJoin(agentsTable, eq(agentRunsTable.agent_id, agentsTable.id))
+      .where(and(isNotNull(agentRunsTable.deleted_at), isNull(agentsTable.deleted_at)))
+      .orderBy(desc(agentRunsTable.deleted_at))
+      .execute();
+
+    return {
+      agents,
+      runs: runs.map(row => row.run)
+    };
+  } catch (error) {
+    console.error('Failed to get archive:', error);
+    throw error;
+  }
+};
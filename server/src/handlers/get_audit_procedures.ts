@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { auditEventsTable } from '../db/schema';
+import { asc } from 'drizzle-orm';
+
+// Procedures that appear in the audit log, for filtering it
+export const getAuditProcedures = async (): Promise<string[]> => {
+  try {
+    const result = await db.selectDistinct({ procedure: auditEventsTable.procedure })
+      .from(auditEventsTable)
+      .orderBy(asc(auditEventsTable.procedure))
+      .execute();
+
+    return result.map(row => row.procedure);
+  } catch (error) {
+    console.error('Failed to get audit procedures:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { crewsTable } from '../db/schema';
+import { type Crew } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getCrews = async (): Promise<Crew[]> => {
+  try {
+    const result = await db.select()
+      .from(crewsTable)
+      .orderBy(asc(crewsTable.name))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get crews:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { agentOutputsTable } from '../db/schema';
+import { type RetentionReport, type RetentionRules } from '../schema';
+import { expiredOutputsCondition } from '../retention';
+import { count, countDistinct, min } from 'drizzle-orm';
+
+// Dry run of the retention sweep: reports what would be deleted without deleting anything
+export const getRetentionReport = async (rules: RetentionRules, enabled: boolean): Promise<RetentionReport> => {
+  try {
+    const now = new Date();
+    const condition = expiredOutputsCondition(rules, now);
+    const report: RetentionReport = {
+      enabled,
+      rules,
+      generated_at: now,
+      total: 0,
+      runs_affected: 0,
+      by_type: []
+    };
+
+    if (!condition) {
+      return report;
+    }
+
+    const byType = await db.select({
+      output_type: agentOutputsTable.output_type,
+      count: count(),
+      oldest: min(agentOutputsTable.created_at)
+    })
+      .from(agentOutputsTable)
+      .where(condition)
+      .groupBy(agentOutputsTable.output_type)
+      .orderBy(agentOutputsTable.output_type)
+      .execute();
+
+    const [runs] = await db.select({ count: countDistinct(agentOutputsTable.run_id) })
+      .from(agentOutputsTable)
+      .where(condition)
+      .execute();
+
+    report.by_type = byType.map(row => ({ output_type: row.output_type, count: row.count, oldest: row.oldest! }));
+    report.total = byType.reduce((sum, row) => sum + row.count, 0);
+    report.runs_affected = runs.count;
+    return report;
+  } catch (error) {
+    console.error('Retention report failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { type GetRunInputVariablesInput } from '../schema';
+import { agentTemplateVariables, taskTemplateVariables } from '../templates';
+import { NotFoundError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+// The {placeholder} variables a run of the crew, task or agent needs values for, so clients can ask for them
+export const getRunInputVariables = async (input: GetRunInputVariablesInput): Promise<string[]> => {
+  try {
+    let agentIds: number[] = [];
+    let taskIds: number[] = [];
+
+    if (input.crew_id !== undefined) {
+      const crew = await db.select()
+        .from(crewsTable)
+        .where(eq(crewsTable.id, input.crew_id))
+        .execute();
+
+      if (crew.length === 0) {
+        throw new NotFoundError('Crew', input.crew_id);
+      }
+
+      const { manager_agent_id, agent_ids, task_ids } = crew[0];
+      agentIds = manager_agent_id !== null ? [manager_agent_id, ...agent_ids] : agent_ids;
+      taskIds = task_ids;
+    } else {
+      if (input.task_id !== undefined) {
+        const task = await db.select({ agent_id: tasksTable.agent_id })
+          .from(tasksTable)
+          .where(eq(tasksTable.id, input.task_id))
+          .execute();
+
+        if (task.length === 0) {
+          throw new NotFoundError('Task', input.task_id);
+        }
+
+        taskIds = [input.task_id];
+        agentIds = input.agent_id === undefined && task[0].agent_id !== null ? [task[0].agent_id] : [];
+      }
+      if (input.agent_id !== undefined) {
+        agentIds = [input.agent_id];
+      }
+    }
+
+    const agents = agentIds.length > 0
+      ? await db.select()
+        .from(agentsTable)
+        .where(and(inArray(agentsTable.id, agentIds), isNull(agentsTable.deleted_at)))
+        .execute()
+      : [];
+    const tasks = taskIds.length > 0
+      ? await db.select().from(tasksTable).where(inArray(tasksTable.id, taskIds)).execute()
+      : [];
+
+    // Persona variables first, then the tasks', each in crew order
+    const variables = [
+      ...agentIds.flatMap(id => agents.filter(agent => agent.id === id).flatMap(agentTemplateVariables)),
+      ...taskIds.flatMap(id => tasks.filter(task => task.id === id).flatMap(taskTemplateVariables))
+    ];
+    return [...new Set(variables)];
+  } catch (error) {
+    console.error('Failed to get run input variables:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { agentRunsTable, runStepsTable } from '../db/schema';
+import { type RunStep } from '../schema';
+import { and, eq, asc, isNull } from 'drizzle-orm';
+
+export const getRunSteps = async (runId: number): Promise<RunStep[]> => {
+  try {
+    const result = await db.select({ step: runStepsTable })
+      .from(runStepsTable)
+      .innerJoin(agentRunsTable, eq(runStepsTable.run_id, agentRunsTable.id))
+      .where(and(eq(runStepsTable.run_id, runId), isNull(agentRunsTable.deleted_at)))
+      .orderBy(asc(runStepsTable.position))
+      .execute();
+
+    return result.map(row => row.step);
+  } catch (error) {
+    console.error('Failed to get run steps:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { type Task } from '../schema';
+import { NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const getTaskById = async (id: number): Promise<Task> => {
+  try {
+    const result = await db.select()
+      .from(tasksTable)
+      .where(eq(tasksTable.id, id))
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError('Task', id);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to get task by ID:', error);
+    throw error;
+  }
+};
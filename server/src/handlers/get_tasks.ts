@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { type Task } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getTasks = async (): Promise<Task[]> => {
+  try {
+    const result = await db.select()
+      .from(tasksTable)
+      .orderBy(asc(tasksTable.name))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get tasks:', error);
+    throw error;
+  }
+};
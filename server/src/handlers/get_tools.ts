@@ -0,0 +1,12 @@
+import { type ToolInfo } from '../schema';
+import { listTools } from '../tools';
+
+// Every built-in tool, for picking the tools an agent may use
+export const getTools = async (): Promise<ToolInfo[]> => {
+  try {
+    return listTools();
+  } catch (error) {
+    console.error('Failed to get tools:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { asc } from 'drizzle-orm';
+
+export const getUsers = async (): Promise<User[]> => {
+  try {
+    const result = await db.select({
+      id: usersTable.id,
+      username: usersTable.username,
+      role: usersTable.role,
+      created_at: usersTable.created_at,
+      updated_at: usersTable.updated_at
+    })
+      .from(usersTable)
+      .orderBy(asc(usersTable.username))
+      .execute();
+
+    return result;
+  } catch (error) {
+    console.error('Failed to get users:', error);
+    throw error;
+  }
+};
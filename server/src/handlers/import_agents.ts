@@ -0,0 +1,291 @@
+import { db } from '../db';
+import { agentsTable, tasksTable } from '../db/schema';
+import {
+  createTaskInputSchema,
+  crewAgentConfigSchema,
+  crewTaskConfigSchema,
+  type Agent,
+  type CrewTaskConfig,
+  type ImportAction,
+  type ImportAgentsInput,
+  type ImportAgentsResult,
+  type ImportChange,
+  type ImportItem,
+  type Task,
+  type User
+} from '../schema';
+import {
+  AGENT_CONFIG_DEFAULTS,
+  agentValuesFromConfig,
+  assignConfigKeys,
+  configKey,
+  nameFromKey,
+  normalizeOutputFile,
+  parseConfigFile,
+  toAgentConfig,
+  toTaskConfig,
+  type AgentConfigValues
+} from '../agents/crewai_config';
+import { ensureAgentRevision } from '../agents/revisions';
+import { canUseAgent } from '../auth/access';
+import { ForbiddenError, InvalidInputError } from '../errors';
+import { asc, eq, isNull } from 'drizzle-orm';
+
+interface PlannedAgent {
+  item: ImportItem;
+  existing: Agent | null;
+  values: AgentConfigValues;
+  finalKey: string;
+}
+
+interface PlannedTask {
+  item: ImportItem;
+  existing: Task | null;
+  config: CrewTaskConfig;
+  finalKey: string;
+}
+
+// Fields whose YAML values differ, in the order the entry lists them
+const diffEntries = (before: object, after: object): ImportChange[] => {
+  const from = before as Record<string, unknown>;
+  const to = after as Record<string, unknown>;
+  return [...new Set([...Object.keys(to), ...Object.keys(from)])]
+    .filter(field => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+    .map(field => ({ field, before: from[field] ?? null, after: to[field] ?? null }));
+};
+
+const agentConfigValues = (agent: Agent): AgentConfigValues => ({
+  description: agent.description,
+  role: agent.role,
+  goal: agent.goal,
+  backstory: agent.backstory,
+  llm_provider: agent.llm_provider,
+  llm: agent.llm,
+  temperature: agent.temperature,
+  max_tokens: agent.max_tokens,
+  max_iter: agent.max_iter,
+  max_rpm: agent.max_rpm,
+  max_execution_time: agent.max_execution_time,
+  verbose: agent.verbose,
+  allow_delegation: agent.allow_delegation
+});
+
+// Imports CrewAI agents.yaml and tasks.yaml entries. Entries match existing agents and tasks whose
+// names give the same key; on_conflict decides whether those are skipped, overwritten with the
+// fields the entry spells out, or left alone while the entry is created under a free name.
+// Nothing is written on a dry run, and a failed import writes nothing at all.
+export const importAgents = async (input: ImportAgentsInput, user: User): Promise<ImportAgentsResult> => {
+  try {
+    const agentEntries = parseConfigFile(input.agents_yaml, 'agents.yaml', crewAgentConfigSchema);
+    const taskEntries = parseConfigFile(input.tasks_yaml, 'tasks.yaml', crewTaskConfigSchema);
+
+    const existingAgents = await db.select()
+      .from(agentsTable)
+      .where(isNull(agentsTable.deleted_at))
+      .orderBy(asc(agentsTable.id))
+      .execute();
+    const existingTasks = await db.select().from(tasksTable).orderBy(asc(tasksTable.id)).execute();
+
+    // Existing records are keyed the way an export would key them
+    const existingAgentKeys = assignConfigKeys(existingAgents.map(agent => agent.name));
+    const agentsByKey = new Map(existingAgentKeys.map((key, i) => [key, existingAgents[i]]));
+    const agentKeysById = new Map(existingAgents.map((agent, i) => [agent.id, existingAgentKeys[i]]));
+    const existingTaskKeys = assignConfigKeys(existingTasks.map(task => task.name));
+    const tasksByKey = new Map(existingTaskKeys.map((key, i) => [key, existingTasks[i]]));
+    const taskKeysById = new Map(existingTasks.map((task, i) => [task.id, existingTaskKeys[i]]));
+
+    // Renamed copies get keys neither existing records nor other entries use
+    const takenAgentKeys = new Set([...existingAgentKeys, ...agentEntries.map(entry => configKey(entry.key))]);
+    const takenTaskKeys = new Set([...existingTaskKeys, ...taskEntries.map(entry => configKey(entry.key))]);
+
+    const actionFor = (exists: boolean): ImportAction =>
+      !exists ? 'create' : input.on_conflict === 'overwrite' ? 'update' : input.on_conflict;
+
+    const plannedAgents = new Map<string, PlannedAgent>();
+    for (const entry of agentEntries) {
+      const key = configKey(entry.key);
+      const existing = agentsByKey.get(key) ?? null;
+      let action = actionFor(existing !== null);
+
+      if (existing && action === 'update' && !await canUseAgent(user, existing.id)) {
+        throw new ForbiddenError(`You don't have access to agent ${existing.id}`, { agent_id: existing.id });
+      }
+
+      const finalKey = action === 'rename' ? assignConfigKeys([key], takenAgentKeys)[0] : key;
+      takenAgentKeys.add(finalKey);
+
+      const imported = agentValuesFromConfig(entry.config);
+      const values: AgentConfigValues = existing && action !== 'rename'
+        ? { ...agentConfigValues(existing), ...(action === 'update' ? imported : {}) }
+        : { ...AGENT_CONFIG_DEFAULTS, ...imported } as AgentConfigValues;
+      const changes = diffEntries(existing && action !== 'rename' ? toAgentConfig(existing) : {}, toAgentConfig(values));
+      if (action === 'update' && changes.length === 0) {
+        action = 'unchanged';
+      }
+
+      plannedAgents.set(key, {
+        item: {
+          kind: 'agent',
+          key: entry.key,
+          name: existing && action !== 'rename' ? existing.name : nameFromKey(finalKey),
+          action,
+          id: existing && action !== 'rename' ? existing.id : null,
+          changes,
+          ignored_fields: entry.ignored_fields
+        },
+        existing,
+        values,
+        finalKey
+      });
+    }
+
+    // Keys are settled for every task before references to them are resolved; context may point forward
+    const taskFinalKeys = new Map<string, string>();
+    for (const entry of taskEntries) {
+      const key = configKey(entry.key);
+      const finalKey = tasksByKey.has(key) && input.on_conflict === 'rename' ? assignConfigKeys([key], takenTaskKeys)[0] : key;
+      takenTaskKeys.add(finalKey);
+      taskFinalKeys.set(key, finalKey);
+    }
+
+    const resolveAgent = (taskKey: string, reference: string): string => {
+      const key = configKey(reference);
+      const finalKey = plannedAgents.get(key)?.finalKey ?? (agentsByKey.has(key) ? key : undefined);
+      if (finalKey === undefined) {
+        throw new InvalidInputError(`tasks.yaml: ${taskKey}.agent: no agent has the key ${reference}`, { file: 'tasks.yaml', key: taskKey });
+      }
+      return finalKey;
+    };
+
+    const resolveContext = (taskKey: string, reference: string): string => {
+      const key = configKey(reference);
+      const finalKey = taskFinalKeys.get(key) ?? (tasksByKey.has(key) ? key : undefined);
+      if (finalKey === undefined) {
+        throw new InvalidInputError(`tasks.yaml: ${taskKey}.context: no task has the key ${reference}`, { file: 'tasks.yaml', key: taskKey });
+      }
+      return finalKey;
+    };
+
+    const plannedTasks: PlannedTask[] = [];
+    for (const entry of taskEntries) {
+      const key = configKey(entry.key);
+      const existing = tasksByKey.get(key) ?? null;
+      let action = actionFor(existing !== null);
+      const finalKey = taskFinalKeys.get(key)!;
+
+      const outputFile = normalizeOutputFile(entry.config.output_file);
+      const outputFileCheck = createTaskInputSchema.shape.output_file.safeParse(outputFile ?? null);
+      if (!outputFileCheck.success) {
+        throw new InvalidInputError(`tasks.yaml: ${entry.key}.output_file: ${outputFileCheck.error.issues[0].message}`, { file: 'tasks.yaml', key: entry.key });
+      }
+
+      const imported: Partial<CrewTaskConfig> = {
+        description: entry.config.description,
+        expected_output: entry.config.expected_output
+      };
+      if (entry.config.agent !== undefined) imported.agent = entry.config.agent === null ? null : resolveAgent(entry.key, entry.config.agent);
+      if (entry.config.context !== undefined) imported.context = entry.config.context.map(reference => resolveContext(entry.key, reference));
+      if (outputFile !== undefined) imported.output_file = outputFile;
+      if (entry.config.async_execution !== undefined) imported.async_execution = entry.config.async_execution;
+
+      const before = existing && action !== 'rename'
+        ? toTaskConfig(
+          existing,
+          existing.agent_id !== null ? agentKeysById.get(existing.agent_id) ?? null : null,
+          existing.context_task_ids.flatMap(id => taskKeysById.get(id) ?? [])
+        )
+        : null;
+      const merged = { async_execution: false, ...(before ?? {}), ...(action === 'skip' ? {} : imported) } as CrewTaskConfig;
+      const config = toTaskConfig(
+        { description: merged.description, expected_output: merged.expected_output, output_file: merged.output_file ?? null, async_execution: merged.async_execution ?? false },
+        merged.agent ?? null,
+        merged.context ?? []
+      );
+      const changes = diffEntries(before ?? {}, config);
+      if (action === 'update' && changes.length === 0) {
+        action = 'unchanged';
+      }
+
+      plannedTasks.push({
+        item: {
+          kind: 'task',
+          key: entry.key,
+          name: existing && action !== 'rename' ? existing.name : nameFromKey(finalKey),
+          action,
+          id: existing && action !== 'rename' ? existing.id : null,
+          changes,
+          ignored_fields: entry.ignored_fields
+        },
+        existing,
+        config,
+        finalKey
+      });
+    }
+
+    const items = [...[...plannedAgents.values()].map(planned => planned.item), ...plannedTasks.map(planned => planned.item)];
+    if (input.dry_run) {
+      return { dry_run: true, items };
+    }
+
+    await db.transaction(async (tx) => {
+      const agentIds = new Map(existingAgentKeys.map((key, i) => [key, existingAgents[i].id]));
+      for (const planned of plannedAgents.values()) {
+        const { item } = planned;
+        if (item.action === 'create' || item.action === 'rename') {
+          const [agent] = await tx.insert(agentsTable)
+            .values({ ...planned.values, name: item.name, owner_id: user.id })
+            .returning()
+            .execute();
+          item.id = agent.id;
+          await ensureAgentRevision(tx, agent.id);
+        } else if (item.action === 'update') {
+          await tx.update(agentsTable)
+            .set({ ...planned.values, updated_at: new Date() })
+            .where(eq(agentsTable.id, planned.existing!.id))
+            .execute();
+          await ensureAgentRevision(tx, planned.existing!.id);
+        }
+        agentIds.set(planned.finalKey, item.id!);
+      }
+
+      // Context is set once every task has an id, since entries may refer to later ones
+      const taskIds = new Map(existingTaskKeys.map((key, i) => [key, existingTasks[i].id]));
+      const written: PlannedTask[] = [];
+      for (const planned of plannedTasks) {
+        const { item, config } = planned;
+        const values = {
+          description: config.description,
+          expected_output: config.expected_output,
+          agent_id: config.agent ? agentIds.get(config.agent)! : null,
+          output_file: config.output_file ?? null,
+          async_execution: config.async_execution ?? false
+        };
+
+        if (item.action === 'create' || item.action === 'rename') {
+          const [task] = await tx.insert(tasksTable).values({ ...values, name: item.name }).returning().execute();
+          item.id = task.id;
+          written.push(planned);
+        } else if (item.action === 'update') {
+          await tx.update(tasksTable)
+            .set({ ...values, updated_at: new Date() })
+            .where(eq(tasksTable.id, planned.existing!.id))
+            .execute();
+          written.push(planned);
+        }
+        taskIds.set(planned.finalKey, item.id!);
+      }
+
+      for (const planned of written) {
+        await tx.update(tasksTable)
+          .set({ context_task_ids: (planned.config.context ?? []).map(key => taskIds.get(key)!) })
+          .where(eq(tasksTable.id, planned.item.id!))
+          .execute();
+      }
+    });
+
+    return { dry_run: false, items };
+  } catch (error) {
+    console.error('Agent import failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { agentRunsTable } from '../db/schema';
+import { type ListAgentRunsInput, type AgentRunPage } from '../schema';
+import { and, asc, desc, eq, gt, gte, ilike, isNull, lt, lte, type SQL } from 'drizzle-orm';
+
+// Escapes LIKE wildcards so the search text is matched literally
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, char => `\\${char}`);
+
+export const listAgentRuns = async (input: ListAgentRunsInput): Promise<AgentRunPage> => {
+  try {
+    const conditions: SQL[] = [isNull(agentRunsTable.deleted_at)];
+
+    if (input.agent_id !== undefined) {
+      conditions.push(eq(agentRunsTable.agent_id, input.agent_id));
+    }
+    if (input.status !== undefined) {
+      conditions.push(eq(agentRunsTable.status, input.status));
+    }
+    if (input.created_after !== undefined) {
+      conditions.push(gte(agentRunsTable.created_at, input.created_after));
+    }
+    if (input.created_before !== undefined) {
+      conditions.push(lte(agentRunsTable.created_at, input.created_before));
+    }
+    if (input.search !== undefined) {
+      conditions.push(ilike(agentRunsTable.input_text, `%${escapeLike(input.search)}%`));
+    }
+
+    // Ids grow with creation time, so they double as a stable cursor for either direction
+    const newestFirst = input.sort === 'newest';
+    if (input.cursor !== undefined) {
+      conditions.push(newestFirst ? lt(agentRunsTable.id, input.cursor) : gt(agentRunsTable.id, input.cursor));
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await db.select()
+      .from(agentRunsTable)
+      .where(and(...conditions))
+      .orderBy(newestFirst ? desc(agentRunsTable.id) : asc(agentRunsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const items = rows.slice(0, input.limit);
+    return {
+      items,
+      next_cursor: rows.length > input.limit ? items[items.length - 1].id : null
+    };
+  } catch (error) {
+    console.error('Failed to list agent runs:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { auditEventsTable } from '../db/schema';
+import { type ListAuditEventsInput, type AuditEventPage } from '../schema';
+import { and, desc, eq, gte, lt, lte, type SQL } from 'drizzle-orm';
+
+export const listAuditEvents = async (input: ListAuditEventsInput): Promise<AuditEventPage> => {
+  try {
+    const conditions: SQL[] = [];
+
+    if (input.procedure !== undefined) {
+      conditions.push(eq(auditEventsTable.procedure, input.procedure));
+    }
+    if (input.user_id !== undefined) {
+      conditions.push(eq(auditEventsTable.user_id, input.user_id));
+    }
+    if (input.actor_type !== undefined) {
+      conditions.push(eq(auditEventsTable.actor_type, input.actor_type));
+    }
+    if (input.success !== undefined) {
+      conditions.push(eq(auditEventsTable.success, input.success));
+    }
+    if (input.created_after !== undefined) {
+      conditions.push(gte(auditEventsTable.created_at, input.created_after));
+    }
+    if (input.created_before !== undefined) {
+      conditions.push(lte(auditEventsTable.created_at, input.created_before));
+    }
+    if (input.cursor !== undefined) {
+      conditions.push(lt(auditEventsTable.id, input.cursor));
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await db.select()
+      .from(auditEventsTable)
+      .where(and(...conditions))
+      .orderBy(desc(auditEventsTable.id))
+      .limit(input.limit + 1)
+      .execute();
+
+    const items = rows.slice(0, input.limit);
+    return {
+      items,
+      next_cursor: rows.length > input.limit ? items[items.length - 1].id : null
+    };
+  } catch (error) {
+    console.error('Failed to list audit events:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type LoginInput, type User } from '../schema';
+import { getUnknownUserHash, verifyPassword } from '../auth/passwords';
+import { createSession } from '../auth/sessions';
+import { UnauthorizedError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export interface LoginResult {
+  user: User;
+  token: string;
+  expires_at: Date;
+}
+
+export const login = async (input: LoginInput): Promise<LoginResult> => {
+  try {
+    const result = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    // Check a password even for unknown users so the response time doesn't reveal which usernames exist
+    const valid = await verifyPassword(input.password, result[0]?.password_hash ?? await getUnknownUserHash());
+    if (result.length === 0 || !valid) {
+      throw new UnauthorizedError('Invalid username or password');
+    }
+
+    const { id, username, role, created_at, updated_at } = result[0];
+    const session = await createSession(id);
+    return { user: { id, username, role, created_at, updated_at }, ...session };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,15 @@
+import { deleteSession } from '../auth/sessions';
+
+export const logout = async (token: string | null): Promise<{ success: boolean }> => {
+  try {
+    if (token === null) {
+      return { success: false };
+    }
+
+    await deleteSession(token);
+    return { success: true };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { agentsTable, crewsTable } from '../db/schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { eq, sql } from 'drizzle-orm';
+
+// Permanently removes an archived agent. Its runs, their outputs and steps, and its
+// revisions go with it; tasks, crews and other runs' outputs just lose the reference.
+export const purgeAgent = async (id: number): Promise<{ success: boolean }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const agent = await tx.select()
+        .from(agentsTable)
+        .where(eq(agentsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', id);
+      }
+
+      if (agent[0].deleted_at === null) {
+        throw new ConflictError(`Agent with ID ${id} must be deleted before it can be purged`, { entity: 'Agent', id });
+      }
+
+      // Crew members are kept in an array, which foreign keys cannot clean up
+      await tx.update(crewsTable)
+        .set({ agent_ids: sql`array_remove(${crewsTable.agent_ids}, ${id})` })
+        .where(sql`${id} = any(${crewsTable.agent_ids})`)
+        .execute();
+
+      await tx.delete(agentsTable)
+        .where(eq(agentsTable.id, id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Agent purge failed:', error);
+    throw error;
+  }
+};
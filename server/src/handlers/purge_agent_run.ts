@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { agentRunsTable } from '../db/schema';
+import { ConflictError, NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+// Permanently removes an archived run along with its outputs and steps
+export const purgeAgentRun = async (id: number): Promise<{ success: boolean }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const run = await tx.select()
+        .from(agentRunsTable)
+        .where(eq(agentRunsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (run.length === 0) {
+        throw new NotFoundError('Agent run', id);
+      }
+
+      if (run[0].deleted_at === null) {
+        throw new ConflictError(`Agent run with ID ${id} must be deleted before it can be purged`, { entity: 'Agent run', id });
+      }
+
+      await tx.delete(agentRunsTable)
+        .where(eq(agentRunsTable.id, id))
+        .execute();
+
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Agent run purge failed:', error);
+    throw error;
+  }
+};
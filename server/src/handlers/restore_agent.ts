@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { agentRunsTable, agentsTable } from '../db/schema';
+import { type Agent } from '../schema';
+import { NotFoundError } from '../errors';
+import { and, eq } from 'drizzle-orm';
+
+export const restoreAgent = async (id: number): Promise<Agent> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const agent = await tx.select()
+        .from(agentsTable)
+        .where(eq(agentsTable.id, id))
+        .for('update')
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', id);
+      }
+
+      const deletedAt = agent[0].deleted_at;
+      if (deletedAt === null) {
+        return agent[0];
+      }
+
+      // Runs archived on their own before the agent was deleted stay archived
+      await tx.update(agentRunsTable)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(and(eq(agentRunsTable.agent_id, id), eq(agentRunsTable.deleted_at, deletedAt)))
+        .execute();
+
+      const result = await tx.update(agentsTable)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(eq(agentsTable.id, id))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Agent restore failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { agentRevisionsTable, agentsTable } from '../db/schema';
+import { type Agent } from '../schema';
+import { ensureAgentRevision } from '../agents/revisions';
+import { NotFoundError, ConflictError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Puts an agent back to an earlier revision's settings. Revisions are immutable,
+// so the restore is recorded as a new revision rather than rewinding history.
+export const restoreAgentRevision = async (revisionId: number): Promise<Agent> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const revision = await tx.select()
+        .from(agentRevisionsTable)
+        .where(eq(agentRevisionsTable.id, revisionId))
+        .execute();
+
+      if (revision.length === 0) {
+        throw new NotFoundError('Agent revision', revisionId);
+      }
+
+      const result = await tx.update(agentsTable)
+        .set({
+          ...revision[0].snapshot,
+          // Revisions written before agents had an output schema never had one
+          expected_output_schema: revision[0].snapshot.expected_output_schema ?? null,
+          updated_at: new Date()
+        })
+        .where(and(eq(agentsTable.id, revision[0].agent_id), isNull(agentsTable.deleted_at)))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new ConflictError(`Agent with ID ${revision[0].agent_id} is deleted; restore it before restoring a revision`, { entity: 'Agent', id: revision[0].agent_id });
+      }
+
+      await ensureAgentRevision(tx, revision[0].agent_id);
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Agent revision restore failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { agentRunsTable, agentsTable } from '../db/schema';
+import { type AgentRun } from '../schema';
+import { NotFoundError, ConflictError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+export const restoreAgentRun = async (id: number): Promise<AgentRun> => {
+  try {
+    const run = await db.select()
+      .from(agentRunsTable)
+      .where(eq(agentRunsTable.id, id))
+      .execute();
+
+    if (run.length === 0) {
+      throw new NotFoundError('Agent run', id);
+    }
+
+    if (run[0].deleted_at === null) {
+      return run[0];
+    }
+
+    const agent = await db.select()
+      .from(agentsTable)
+      .where(eq(agentsTable.id, run[0].agent_id))
+      .execute();
+
+    if (agent[0].deleted_at !== null) {
+      throw new ConflictError(`Agent with ID ${run[0].agent_id} is deleted; restore the agent to get its runs back`, { entity: 'Agent', id: run[0].agent_id });
+    }
+
+    const result = await db.update(agentRunsTable)
+      .set({ deleted_at: null, updated_at: new Date() })
+      .where(eq(agentRunsTable.id, id))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Agent run restore failed:', error);
+    throw error;
+  }
+};
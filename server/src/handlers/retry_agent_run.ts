@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { agentsTable, runStepsTable } from '../db/schema';
+import { type AgentRun } from '../schema';
+import { createAgentOutput } from './create_agent_output';
+import { runEvents } from '../events';
+import { lockRun, transitionRun } from '../runs/state_machine';
+import { NotFoundError, InactiveError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Puts a failed or cancelled run back in the queue as its next attempt. Earlier outputs are kept;
+// crew steps start over, still assigned to the agents that had them.
+export const retryAgentRun = async (id: number): Promise<AgentRun> => {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const run = await lockRun(tx, id);
+      if (!run || run.deleted_at !== null) {
+        throw new NotFoundError('Agent run', id);
+      }
+
+      const agent = await tx.select()
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, run.agent_id), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', run.agent_id);
+      }
+      if (!agent[0].is_active) {
+        throw new InactiveError('Agent', run.agent_id);
+      }
+
+      const retried = await transitionRun(tx, run, 'pending');
+
+      const steps = await tx.update(runStepsTable)
+        .set({ status: 'pending', input_text: null, output: null, started_at: null, completed_at: null })
+        .where(eq(runStepsTable.run_id, id))
+        .returning({ id: runStepsTable.id })
+        .execute();
+
+      return { run: retried, stepIds: steps.map(step => step.id) };
+    });
+
+    await createAgentOutput({ run_id: id, output_type: 'log', content: `Retrying (attempt ${result.run.attempt})` });
+    await runEvents.publish({ type: 'status', run_id: id, status: 'pending' });
+    for (const stepId of result.stepIds) {
+      await runEvents.publish({ type: 'step', run_id: id, step_id: stepId });
+    }
+
+    return result.run;
+  } catch (error) {
+    console.error('Agent run retry failed:', error);
+    throw error;
+  }
+};
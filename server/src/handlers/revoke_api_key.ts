@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Revoked keys stop working immediately but stay listed, so their last use can still be checked
+export const revokeApiKey = async (id: number): Promise<{ success: boolean }> => {
+  try {
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(and(eq(apiKeysTable.id, id), isNull(apiKeysTable.revoked_at)))
+      .returning({ id: apiKeysTable.id })
+      .execute();
+
+    return { success: result.length > 0 };
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+};
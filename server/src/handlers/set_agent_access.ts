@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { agentAccessTable, agentsTable, usersTable } from '../db/schema';
+import { type AgentAccess, type SetAgentAccessInput, type User } from '../schema';
+import { getAgentAccess } from './get_agent_access';
+import { NotFoundError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+// Replaces the agent's access list; an empty list opens the agent to everyone again
+export const setAgentAccess = async (input: SetAgentAccessInput, user: User): Promise<AgentAccess> => {
+  try {
+    const agent = await db.select({ id: agentsTable.id })
+      .from(agentsTable)
+      .where(and(eq(agentsTable.id, input.agent_id), isNull(agentsTable.deleted_at)))
+      .execute();
+
+    if (agent.length === 0) {
+      throw new NotFoundError('Agent', input.agent_id);
+    }
+
+    const userIds = [...new Set(input.user_ids)];
+    if (userIds.length > 0) {
+      const users = await db.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(inArray(usersTable.id, userIds))
+        .execute();
+
+      if (users.length !== userIds.length) {
+        const found = new Set(users.map(u => u.id));
+        const missing = userIds.filter(id => !found.has(id));
+        throw new NotFoundError('User', missing[0]);
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(agentAccessTable)
+        .where(eq(agentAccessTable.agent_id, input.agent_id))
+        .execute();
+
+      if (userIds.length > 0) {
+        await tx.insert(agentAccessTable)
+          .values(userIds.map(userId => ({ agent_id: input.agent_id, user_id: userId })))
+          .execute();
+      }
+    });
+
+    return await getAgentAccess(input.agent_id, user);
+  } catch (error) {
+    console.error('Agent access update failed:', error);
+    throw error;
+  }
+};
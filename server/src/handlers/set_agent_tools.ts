@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { agentToolsTable, agentsTable } from '../db/schema';
+import { type SetAgentToolsInput, type ToolName } from '../schema';
+import { getAgentTools } from './get_agent_tools';
+import { NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Replaces the tools the agent may call; an empty list takes all of them away
+export const setAgentTools = async (input: SetAgentToolsInput): Promise<ToolName[]> => {
+  try {
+    const agent = await db.select({ id: agentsTable.id })
+      .from(agentsTable)
+      .where(and(eq(agentsTable.id, input.agent_id), isNull(agentsTable.deleted_at)))
+      .execute();
+
+    if (agent.length === 0) {
+      throw new NotFoundError('Agent', input.agent_id);
+    }
+
+    const tools = [...new Set(input.tools)];
+    await db.transaction(async (tx) => {
+      await tx.delete(agentToolsTable)
+        .where(eq(agentToolsTable.agent_id, input.agent_id))
+        .execute();
+
+      if (tools.length > 0) {
+        await tx.insert(agentToolsTable)
+          .values(tools.map(toolName => ({ agent_id: input.agent_id, tool_name: toolName })))
+          .execute();
+      }
+    });
+
+    return await getAgentTools(input.agent_id);
+  } catch (error) {
+    console.error('Agent tools update failed:', error);
+    throw error;
+  }
+};
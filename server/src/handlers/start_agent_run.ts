@@ -1,36 +1,80 @@
 import { db } from '../db';
-import { agentRunsTable, agentsTable } from '../db/schema';
+import { agentRunsTable, agentsTable, tasksTable } from '../db/schema';
 import { type StartAgentRunInput, type AgentRun } from '../schema';
-import { eq } from 'drizzle-orm';
+import { ensureAgentRevision } from '../agents/revisions';
+import { agentTemplateVariables, assertInputsProvided, taskTemplateVariables } from '../templates';
+import { NotFoundError, InactiveError, InvalidInputError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
 
 export const startAgentRun = async (input: StartAgentRunInput): Promise<AgentRun> => {
   try {
+    let agentId = input.agent_id;
+    let inputText = input.input_text;
+    let taskVariables: string[] = [];
+
+    // Saved tasks provide the input and, unless overridden, the agent
+    if (input.task_id !== undefined) {
+      const task = await db.select()
+        .from(tasksTable)
+        .where(eq(tasksTable.id, input.task_id))
+        .execute();
+
+      if (task.length === 0) {
+        throw new NotFoundError('Task', input.task_id);
+      }
+
+      agentId = agentId ?? task[0].agent_id ?? undefined;
+      inputText = task[0].description;
+      taskVariables = taskTemplateVariables(task[0]);
+    }
+
+    if (agentId === undefined) {
+      throw new InvalidInputError(`Task with ID ${input.task_id} has no assigned agent; provide agent_id`, { task_id: input.task_id ?? null });
+    }
+
+    if (inputText === undefined) {
+      throw new InvalidInputError('Provide either input_text or task_id');
+    }
+
     // Verify the agent exists and is active
     const agent = await db.select()
       .from(agentsTable)
-      .where(eq(agentsTable.id, input.agent_id))
+      .where(and(eq(agentsTable.id, agentId), isNull(agentsTable.deleted_at)))
       .execute();
 
     if (agent.length === 0) {
-      throw new Error(`Agent with ID ${input.agent_id} not found`);
+      throw new NotFoundError('Agent', agentId);
     }
 
     if (!agent[0].is_active) {
-      throw new Error(`Agent with ID ${input.agent_id} is not active`);
+      throw new InactiveError('Agent', agentId);
     }
 
-    const result = await db.insert(agentRunsTable)
-      .values({
-        agent_id: input.agent_id,
-        input_text: input.input_text,
-        status: 'pending'
-      })
-      .returning()
-      .execute();
+    // Every {placeholder} in the agent's persona and the task needs a value up front
+    const inputs = input.inputs ?? {};
+    assertInputsProvided([...agentTemplateVariables(agent[0]), ...taskVariables], inputs);
+
+    const runAgentId = agentId;
+    const runInputText = inputText;
+    return await db.transaction(async (tx) => {
+      // Pin the run to the revision it starts with so later edits don't rewrite its history
+      const revision = await ensureAgentRevision(tx, runAgentId);
+      const result = await tx.insert(agentRunsTable)
+        .values({
+          agent_id: runAgentId,
+          agent_revision_id: revision.id,
+          task_id: input.task_id ?? null,
+          input_text: runInputText,
+          inputs,
+          status: 'pending'
+        })
+        .returning()
+        .execute();
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('Agent run start failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
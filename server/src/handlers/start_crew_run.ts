@@ -0,0 +1,106 @@
+import { db } from '../db';
+import { agentRunsTable, agentsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { type StartCrewRunInput, type AgentRun } from '../schema';
+import { ensureAgentRevision } from '../agents/revisions';
+import { agentTemplateVariables, assertInputsProvided, taskTemplateVariables } from '../templates';
+import { NotFoundError, ConflictError, InactiveError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+export const startCrewRun = async (input: StartCrewRunInput): Promise<AgentRun> => {
+  try {
+    const crew = await db.select()
+      .from(crewsTable)
+      .where(eq(crewsTable.id, input.crew_id))
+      .execute();
+
+    if (crew.length === 0) {
+      throw new NotFoundError('Crew', input.crew_id);
+    }
+
+    const { process, manager_agent_id, agent_ids, task_ids } = crew[0];
+
+    // Purging an agent removes it from its crews, which can leave a crew empty
+    if (agent_ids.length === 0) {
+      throw new ConflictError(`Crew with ID ${input.crew_id} has no agents`, { entity: 'Crew', id: input.crew_id });
+    }
+
+    // Every agent that may pick up work has to be active
+    const participantIds = manager_agent_id !== null ? [manager_agent_id, ...agent_ids] : agent_ids;
+    const agents = await db.select()
+      .from(agentsTable)
+      .where(and(inArray(agentsTable.id, participantIds), isNull(agentsTable.deleted_at)))
+      .execute();
+
+    for (const agentId of participantIds) {
+      const agent = agents.find(a => a.id === agentId);
+      if (!agent) {
+        throw new NotFoundError('Agent', agentId);
+      }
+      if (!agent.is_active) {
+        throw new InactiveError('Agent', agentId);
+      }
+    }
+
+    // Deleting a task removes it from its crews, which can leave a crew without tasks
+    if (task_ids.length === 0) {
+      throw new ConflictError(`Crew with ID ${input.crew_id} has no tasks`, { entity: 'Crew', id: input.crew_id });
+    }
+
+    const tasks = await db.select()
+      .from(tasksTable)
+      .where(inArray(tasksTable.id, task_ids))
+      .execute();
+
+    if (tasks.length !== new Set(task_ids).size) {
+      const missing = task_ids.find(id => !tasks.some(t => t.id === id))!;
+      throw new NotFoundError('Task', missing);
+    }
+
+    // Any member may pick up any task, so every {placeholder} in the crew needs a value
+    const inputs = input.inputs ?? {};
+    assertInputsProvided([...agents.flatMap(agentTemplateVariables), ...tasks.flatMap(taskTemplateVariables)], inputs);
+
+    // Sequential crews hand each task to its assigned agent when that agent is in the crew,
+    // otherwise to crew members in turn. Hierarchical crews leave the choice to the manager.
+    const planAgent = (taskId: number, position: number): number | null => {
+      if (process === 'hierarchical') {
+        return null;
+      }
+      const assigned = tasks.find(t => t.id === taskId)?.agent_id ?? null;
+      if (assigned !== null && agent_ids.includes(assigned)) {
+        return assigned;
+      }
+      return agent_ids[position % agent_ids.length];
+    };
+
+    const leadAgentId = manager_agent_id ?? agent_ids[0];
+    return await db.transaction(async (tx) => {
+      const revision = await ensureAgentRevision(tx, leadAgentId);
+      const result = await tx.insert(agentRunsTable)
+        .values({
+          agent_id: leadAgentId,
+          agent_revision_id: revision.id,
+          crew_id: input.crew_id,
+          input_text: input.input_text,
+          inputs,
+          status: 'pending'
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(runStepsTable)
+        .values(task_ids.map((taskId, position) => ({
+          run_id: result[0].id,
+          position,
+          task_id: taskId,
+          agent_id: planAgent(taskId, position)
+        })))
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Crew run start failed:', error);
+    throw error;
+  }
+};
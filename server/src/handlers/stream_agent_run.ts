@@ -1,143 +1,188 @@
 import { db } from '../db';
-import { agentRunsTable, agentOutputsTable } from '../db/schema';
-import { type StreamOutputEvent } from '../schema';
-import { eq, gt, desc, and } from 'drizzle-orm';
+import { agentRunsTable, agentOutputsTable, runStepsTable } from '../db/schema';
+import { type AgentOutput, type StreamOutputEvent } from '../schema';
+import { runEvents, type RunEvent, type RunResyncEvent } from '../events';
+import { isTerminalStatus } from '../runs/state_machine';
+import { NotFoundError } from '../errors';
+import { eq, gt, lte, and, asc, isNull } from 'drizzle-orm';
+
+// Crew run steps whose status or assigned agent changed since the last read
+const loadChangedSteps = async (runId: number, seen: Map<number, string>) => {
+  const steps = await db.select()
+    .from(runStepsTable)
+    .where(eq(runStepsTable.run_id, runId))
+    .orderBy(asc(runStepsTable.position))
+    .execute();
+
+  return steps.filter(step => {
+    const state = `${step.status}:${step.agent_id}`;
+    if (seen.get(step.id) === state) {
+      return false;
+    }
+    seen.set(step.id, state);
+    return true;
+  });
+};
+
+const loadOutputsAfter = (runId: number, lastOutputId: number): Promise<AgentOutput[]> => db.select()
+  .from(agentOutputsTable)
+  .where(and(eq(agentOutputsTable.run_id, runId), gt(agentOutputsTable.id, lastOutputId)))
+  .orderBy(asc(agentOutputsTable.id))
+  .execute();
+
+const toOutputEvent = (output: AgentOutput): StreamOutputEvent => ({
+  type: 'output',
+  run_id: output.run_id,
+  data: {
+    id: output.id,
+    run_id: output.run_id,
+    agent_id: output.agent_id,
+    task_id: output.task_id,
+    output_type: output.output_type,
+    content: output.content,
+    metadata: output.metadata,
+    timestamp: output.timestamp,
+    created_at: output.created_at
+  }
+});
+
+export interface StreamAgentRunOptions {
+  // Only outputs after this ID are sent; set by clients resuming a dropped stream
+  afterOutputId?: number;
+  signal?: AbortSignal;
+}
+
+// Streams a run's outputs, crew steps and status changes until the run finishes.
+// After catching up from the database it only reads again when a run event arrives,
+// so an idle subscriber costs no queries.
+export async function* streamAgentRun(runId: number, options: StreamAgentRunOptions = {}): AsyncGenerator<StreamOutputEvent> {
+  const { afterOutputId = 0, signal } = options;
+  // Subscribe before the first read so nothing published in between is missed
+  const pending: (RunEvent | RunResyncEvent)[] = [];
+  let wake: (() => void) | null = null;
+  const unsubscribe = runEvents.subscribe(runId, (event) => {
+    pending.push(event);
+    wake?.();
+  });
+  const onAbort = () => wake?.();
+  signal?.addEventListener('abort', onAbort);
 
-export async function* streamAgentRun(runId: number): AsyncGenerator<StreamOutputEvent> {
   try {
-    // Verify the run exists
+    // Verify the run exists and is not archived
     const run = await db.select()
       .from(agentRunsTable)
-      .where(eq(agentRunsTable.id, runId))
+      .where(and(eq(agentRunsTable.id, runId), isNull(agentRunsTable.deleted_at)))
       .execute();
 
     if (run.length === 0) {
-      throw new Error(`Agent run with ID ${runId} not found`);
+      throw new NotFoundError('Agent run', runId);
     }
 
-    let lastOutputId = 0;
-    let lastStatus = run[0].status;
-    let isComplete = lastStatus === 'completed' || lastStatus === 'failed';
+    let status = run[0].status;
+    let lastOutputId = afterOutputId;
+    const results: string[] = [];
 
-    // If already complete, stream all existing outputs and complete
-    if (isComplete) {
-      const allOutputs = await db.select()
+    if (afterOutputId > 0) {
+      // The client already has the earlier outputs, but the final result still includes them
+      const earlierResults = await db.select()
         .from(agentOutputsTable)
-        .where(eq(agentOutputsTable.run_id, runId))
-        .orderBy(agentOutputsTable.id)
+        .where(and(
+          eq(agentOutputsTable.run_id, runId),
+          eq(agentOutputsTable.output_type, 'result'),
+          lte(agentOutputsTable.id, afterOutputId)
+        ))
+        .orderBy(asc(agentOutputsTable.id))
         .execute();
-
-      for (const output of allOutputs) {
-        yield {
-          type: 'output',
-          run_id: runId,
-          data: {
-            id: output.id,
-            run_id: output.run_id,
-            output_type: output.output_type,
-            content: output.content,
-            timestamp: output.timestamp,
-            created_at: output.created_at
-          }
-        };
-      }
-
-      yield {
-        type: 'complete',
-        run_id: runId,
-        data: {
-          final_result: allOutputs
-            .filter(o => o.output_type === 'result')
-            .map(o => o.content)
-            .join('\n') || undefined
-        }
-      };
-      return;
+      results.push(...earlierResults.map(output => output.content));
     }
 
-    // Poll for updates until completion
-    while (!isComplete) {
-      // Check for new outputs
-      const conditions = [eq(agentOutputsTable.run_id, runId)];
-      
-      // Filter by ID if we've seen outputs before
-      if (lastOutputId > 0) {
-        conditions.push(gt(agentOutputsTable.id, lastOutputId));
-      }
+    // Subscribers may have missed status changes while (re)connecting, even before any output
+    yield {
+      type: 'status_update',
+      run_id: runId,
+      data: { status }
+    };
 
-      const filteredOutputs = await db.select()
-        .from(agentOutputsTable)
-        .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-        .orderBy(agentOutputsTable.id)
-        .execute();
+    const seenSteps = new Map<number, string>();
 
-      // Yield new outputs
-      for (const output of filteredOutputs) {
-        yield {
-          type: 'output',
-          run_id: runId,
-          data: {
-            id: output.id,
-            run_id: output.run_id,
-            output_type: output.output_type,
-            content: output.content,
-            timestamp: output.timestamp,
-            created_at: output.created_at
-          }
-        };
+    const readSteps = async () => (await loadChangedSteps(runId, seenSteps))
+      .map((step): StreamOutputEvent => ({ type: 'step_update', run_id: runId, data: step }));
+
+    const readOutputs = async () => {
+      const outputs = await loadOutputsAfter(runId, lastOutputId);
+      for (const output of outputs) {
         lastOutputId = output.id;
+        if (output.output_type === 'result') {
+          results.push(output.content);
+        }
+      }
+      return outputs.map(toOutputEvent);
+    };
+
+    // Catch up on everything recorded so far
+    yield* await readSteps();
+    yield* await readOutputs();
+
+    while (!isTerminalStatus(status)) {
+      if (pending.length === 0 && !signal?.aborted) {
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+      if (signal?.aborted) {
+        return;
       }
 
-      // Check for status updates
-      const currentRun = await db.select()
-        .from(agentRunsTable)
-        .where(eq(agentRunsTable.id, runId))
-        .execute();
+      const events = pending.splice(0);
+      const resync = events.some(event => event.type === 'resync');
 
-      if (currentRun.length === 0) {
-        throw new Error(`Agent run with ID ${runId} was deleted`);
+      if (resync || events.some(event => event.type === 'step')) {
+        yield* await readSteps();
       }
-
-      const currentStatus = currentRun[0].status;
-      
-      // Yield status update if changed
-      if (currentStatus !== lastStatus) {
-        yield {
-          type: 'status_update',
-          run_id: runId,
-          data: { status: currentStatus }
-        };
-        lastStatus = currentStatus;
+      if (resync || events.some(event => event.type === 'output' && event.output_id > lastOutputId)) {
+        yield* await readOutputs();
       }
 
-      // Check if completed
-      isComplete = currentStatus === 'completed' || currentStatus === 'failed';
-
-      if (isComplete) {
-        // Get final results
-        const finalOutputs = await db.select()
-          .from(agentOutputsTable)
-          .where(eq(agentOutputsTable.run_id, runId))
+      let nextStatus = status;
+      if (resync) {
+        const current = await db.select()
+          .from(agentRunsTable)
+          .where(and(eq(agentRunsTable.id, runId), isNull(agentRunsTable.deleted_at)))
           .execute();
 
-        const finalResult = finalOutputs
-          .filter(o => o.output_type === 'result')
-          .map(o => o.content)
-          .join('\n') || undefined;
+        if (current.length === 0) {
+          throw new NotFoundError('Agent run', runId);
+        }
+        nextStatus = current[0].status;
+      } else {
+        for (const event of events) {
+          if (event.type === 'status') {
+            nextStatus = event.status;
+          }
+        }
+      }
 
+      if (nextStatus !== status) {
+        status = nextStatus;
         yield {
-          type: 'complete',
+          type: 'status_update',
           run_id: runId,
-          data: { final_result: finalResult }
+          data: { status }
         };
-        break;
       }
-
-      // Wait before next poll (1 second)
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
+
+    yield {
+      type: 'complete',
+      run_id: runId,
+      data: { final_result: results.join('\n') || undefined }
+    };
   } catch (error) {
     console.error('Agent run streaming failed:', error);
     throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    unsubscribe();
   }
-}
\ No newline at end of file
+}
@@ -1,9 +1,11 @@
 import { db } from '../db';
 import { agentsTable } from '../db/schema';
 import { type UpdateAgentInput, type Agent } from '../schema';
-import { eq } from 'drizzle-orm';
+import { ensureAgentRevision } from '../agents/revisions';
+import { NotFoundError } from '../errors';
+import { and, eq, isNull } from 'drizzle-orm';
 
-export const updateAgent = async (input: UpdateAgentInput): Promise<Agent | null> => {
+export const updateAgent = async (input: UpdateAgentInput): Promise<Agent> => {
   try {
     // Build update object with only provided fields
     const updateData: Partial<typeof agentsTable.$inferInsert> = {
@@ -15,19 +17,33 @@ export const updateAgent = async (input: UpdateAgentInput): Promise<Agent | null
     if (input.role !== undefined) updateData.role = input.role;
     if (input.goal !== undefined) updateData.goal = input.goal;
     if (input.backstory !== undefined) updateData.backstory = input.backstory;
+    if (input.llm_provider !== undefined) updateData.llm_provider = input.llm_provider;
+    if (input.llm !== undefined) updateData.llm = input.llm;
+    if (input.temperature !== undefined) updateData.temperature = input.temperature;
+    if (input.max_tokens !== undefined) updateData.max_tokens = input.max_tokens;
+    if (input.max_iter !== undefined) updateData.max_iter = input.max_iter;
+    if (input.max_rpm !== undefined) updateData.max_rpm = input.max_rpm;
+    if (input.max_execution_time !== undefined) updateData.max_execution_time = input.max_execution_time;
+    if (input.verbose !== undefined) updateData.verbose = input.verbose;
+    if (input.allow_delegation !== undefined) updateData.allow_delegation = input.allow_delegation;
+    if (input.expected_output_schema !== undefined) updateData.expected_output_schema = input.expected_output_schema;
     if (input.is_active !== undefined) updateData.is_active = input.is_active;
 
-    const result = await db.update(agentsTable)
-      .set(updateData)
-      .where(eq(agentsTable.id, input.id))
-      .returning()
-      .execute();
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(agentsTable)
+        .set(updateData)
+        .where(and(eq(agentsTable.id, input.id), isNull(agentsTable.deleted_at)))
+        .returning()
+        .execute();
 
-    if (result.length === 0) {
-      return null;
-    }
+      if (result.length === 0) {
+        throw new NotFoundError('Agent', input.id);
+      }
 
-    return result[0];
+      // Changes to the persona or settings get a new revision; previous ones stay untouched
+      await ensureAgentRevision(tx, input.id);
+      return result[0];
+    });
   } catch (error) {
     console.error('Agent update failed:', error);
     throw error;
@@ -0,0 +1,93 @@
+import { db } from '../db';
+import { agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { type UpdateCrewInput, type Crew } from '../schema';
+import { NotFoundError, InvalidInputError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+export const updateCrew = async (input: UpdateCrewInput): Promise<Crew> => {
+  try {
+    const existing = await db.select()
+      .from(crewsTable)
+      .where(eq(crewsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError('Crew', input.id);
+    }
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof crewsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.agent_ids !== undefined) {
+      const agentIds = [...new Set(input.agent_ids)];
+      const agents = await db.select({ id: agentsTable.id })
+        .from(agentsTable)
+        .where(and(inArray(agentsTable.id, agentIds), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (agents.length !== agentIds.length) {
+        const found = new Set(agents.map(a => a.id));
+        const missing = agentIds.filter(id => !found.has(id));
+        throw new NotFoundError('Agent', missing[0]);
+      }
+
+      updateData.agent_ids = agentIds;
+    }
+
+    if (input.task_ids !== undefined) {
+      const taskIds = [...new Set(input.task_ids)];
+      const tasks = await db.select({ id: tasksTable.id })
+        .from(tasksTable)
+        .where(inArray(tasksTable.id, taskIds))
+        .execute();
+
+      if (tasks.length !== taskIds.length) {
+        const found = new Set(tasks.map(t => t.id));
+        const missing = taskIds.filter(id => !found.has(id));
+        throw new NotFoundError('Task', missing[0]);
+      }
+
+      updateData.task_ids = taskIds;
+    }
+
+    if (input.manager_agent_id !== undefined && input.manager_agent_id !== null) {
+      const manager = await db.select()
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, input.manager_agent_id), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (manager.length === 0) {
+        throw new NotFoundError('Agent', input.manager_agent_id);
+      }
+    }
+
+    // Check the manager against the members the crew will have after the update
+    const managerId = input.manager_agent_id !== undefined ? input.manager_agent_id : existing[0].manager_agent_id;
+    const memberIds = updateData.agent_ids ?? existing[0].agent_ids;
+    if (managerId !== null && memberIds.includes(managerId)) {
+      throw new InvalidInputError(`Manager agent with ID ${managerId} cannot also be a crew member`, { agent_id: managerId });
+    }
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.process !== undefined) updateData.process = input.process;
+    if (input.manager_agent_id !== undefined) updateData.manager_agent_id = input.manager_agent_id;
+
+    const result = await db.update(crewsTable)
+      .set(updateData)
+      .where(eq(crewsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError('Crew', input.id);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Crew update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { agentsTable, tasksTable } from '../db/schema';
+import { type UpdateTaskInput, type Task } from '../schema';
+import { NotFoundError, InvalidInputError } from '../errors';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+
+export const updateTask = async (input: UpdateTaskInput): Promise<Task> => {
+  try {
+    // Verify the newly assigned agent exists
+    if (input.agent_id !== undefined && input.agent_id !== null) {
+      const agent = await db.select()
+        .from(agentsTable)
+        .where(and(eq(agentsTable.id, input.agent_id), isNull(agentsTable.deleted_at)))
+        .execute();
+
+      if (agent.length === 0) {
+        throw new NotFoundError('Agent', input.agent_id);
+      }
+    }
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof tasksTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.context_task_ids !== undefined) {
+      const contextTaskIds = [...new Set(input.context_task_ids)];
+      if (contextTaskIds.includes(input.id)) {
+        throw new InvalidInputError(`Task with ID ${input.id} cannot use itself as context`, { task_id: input.id });
+      }
+
+      if (contextTaskIds.length > 0) {
+        const contextTasks = await db.select({ id: tasksTable.id })
+          .from(tasksTable)
+          .where(inArray(tasksTable.id, contextTaskIds))
+          .execute();
+
+        if (contextTasks.length !== contextTaskIds.length) {
+          const found = new Set(contextTasks.map(t => t.id));
+          const missing = contextTaskIds.filter(id => !found.has(id));
+          throw new NotFoundError('Context task', missing[0]);
+        }
+      }
+
+      updateData.context_task_ids = contextTaskIds;
+    }
+
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.expected_output !== undefined) updateData.expected_output = input.expected_output;
+    if (input.expected_output_schema !== undefined) updateData.expected_output_schema = input.expected_output_schema;
+    if (input.agent_id !== undefined) updateData.agent_id = input.agent_id;
+    if (input.output_file !== undefined) updateData.output_file = input.output_file;
+    if (input.async_execution !== undefined) updateData.async_execution = input.async_execution;
+
+    const result = await db.update(tasksTable)
+      .set(updateData)
+      .where(eq(tasksTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new NotFoundError('Task', input.id);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Task update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type UpdateUserInput, type User } from '../schema';
+import { hashPassword } from '../auth/passwords';
+import { NotFoundError, ConflictError } from '../errors';
+import { and, eq, ne } from 'drizzle-orm';
+
+export const updateUser = async (input: UpdateUserInput): Promise<User> => {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (existing.length === 0) {
+        throw new NotFoundError('User', input.id);
+      }
+
+      // Someone has to be able to manage users afterwards
+      if (existing[0].role === 'admin' && input.role !== undefined && input.role !== 'admin') {
+        const otherAdmins = await tx.select({ id: usersTable.id })
+          .from(usersTable)
+          .where(and(eq(usersTable.role, 'admin'), ne(usersTable.id, input.id)))
+          .for('update')
+          .execute();
+
+        if (otherAdmins.length === 0) {
+          throw new ConflictError(`User ${existing[0].username} is the last admin`, { entity: 'User', id: input.id });
+        }
+      }
+
+      const updateData: Partial<typeof usersTable.$inferInsert> = {
+        updated_at: new Date()
+      };
+
+      if (input.role !== undefined) updateData.role = input.role;
+      if (input.password !== undefined) {
+        updateData.password_hash = await hashPassword(input.password);
+        // A new password signs the user out everywhere
+        await tx.delete(sessionsTable)
+          .where(eq(sessionsTable.user_id, input.id))
+          .execute();
+      }
+
+      const result = await tx.update(usersTable)
+        .set(updateData)
+        .where(eq(usersTable.id, input.id))
+        .returning({
+          id: usersTable.id,
+          username: usersTable.username,
+          role: usersTable.role,
+          created_at: usersTable.created_at,
+          updated_at: usersTable.updated_at
+        })
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('User update failed:', error);
+    throw error;
+  }
+};
@@ -1,9 +1,20 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import {
+  router,
+  publicProcedure,
+  viewerProcedure,
+  operatorProcedure,
+  editorProcedure,
+  adminProcedure,
+  requireAgentAccess,
+  requireAgentOwner,
+  scopedProcedure,
+  requireApiKeyRunAccess,
+  createContext
+} from './trpc';
 
 // Import schemas
 import { 
@@ -11,28 +22,135 @@ import {
   updateAgentInputSchema, 
   startAgentRunInputSchema,
   updateAgentRunInputSchema,
-  createAgentOutputInputSchema
+  createAgentOutputInputSchema,
+  createTaskInputSchema,
+  updateTaskInputSchema,
+  createCrewInputSchema,
+  updateCrewInputSchema,
+  startCrewRunInputSchema,
+  getRunInputVariablesInputSchema,
+  streamAgentRunInputSchema,
+  listAgentRunsInputSchema,
+  agentStatusFilterSchema,
+  diffAgentRevisionsInputSchema,
+  loginInputSchema,
+  createUserInputSchema,
+  updateUserInputSchema,
+  setAgentAccessInputSchema,
+  createApiKeyInputSchema,
+  listAuditEventsInputSchema,
+  setAgentToolsInputSchema,
+  importAgentsInputSchema,
+  type StartCrewRunInput,
+  type GetRunInputVariablesInput,
+  type SetAgentAccessInput
 } from './schema';
 
 // Import handlers
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
+import { createUser } from './handlers/create_user';
+import { getUsers } from './handlers/get_users';
+import { updateUser } from './handlers/update_user';
+import { getAgentAccess } from './handlers/get_agent_access';
+import { setAgentAccess } from './handlers/set_agent_access';
+import { getTools } from './handlers/get_tools';
+import { getAgentTools } from './handlers/get_agent_tools';
+import { setAgentTools } from './handlers/set_agent_tools';
+import { createApiKey } from './handlers/create_api_key';
+import { getApiKeys } from './handlers/get_api_keys';
+import { revokeApiKey } from './handlers/revoke_api_key';
+import { listAuditEvents } from './handlers/list_audit_events';
+import { getAuditProcedures } from './handlers/get_audit_procedures';
 import { createAgent } from './handlers/create_agent';
 import { getAgents } from './handlers/get_agents';
 import { getAgentById } from './handlers/get_agent_by_id';
 import { updateAgent } from './handlers/update_agent';
+import { getAgentRevisions } from './handlers/get_agent_revisions';
+import { diffAgentRevisions } from './handlers/diff_agent_revisions';
+import { restoreAgentRevision } from './handlers/restore_agent_revision';
+import { deleteAgent } from './handlers/delete_agent';
+import { restoreAgent } from './handlers/restore_agent';
+import { purgeAgent } from './handlers/purge_agent';
 import { startAgentRun } from './handlers/start_agent_run';
 import { getAgentRun } from './handlers/get_agent_run';
 import { getAgentRuns } from './handlers/get_agent_runs';
+import { listAgentRuns } from './handlers/list_agent_runs';
 import { updateAgentRunStatus } from './handlers/update_agent_run_status';
+import { cancelAgentRun } from './handlers/cancel_agent_run';
+import { retryAgentRun } from './handlers/retry_agent_run';
+import { deleteAgentRun } from './handlers/delete_agent_run';
+import { restoreAgentRun } from './handlers/restore_agent_run';
+import { purgeAgentRun } from './handlers/purge_agent_run';
+import { getArchive } from './handlers/get_archive';
+import { getRetentionReport } from './handlers/get_retention_report';
 import { createAgentOutput } from './handlers/create_agent_output';
 import { getAgentOutputs } from './handlers/get_agent_outputs';
 import { streamAgentRun } from './handlers/stream_agent_run';
+import { createTask } from './handlers/create_task';
+import { getTasks } from './handlers/get_tasks';
+import { getTaskById } from './handlers/get_task_by_id';
+import { updateTask } from './handlers/update_task';
+import { deleteTask } from './handlers/delete_task';
+import { createCrew } from './handlers/create_crew';
+import { getCrews } from './handlers/get_crews';
+import { updateCrew } from './handlers/update_crew';
+import { startCrewRun } from './handlers/start_crew_run';
+import { getRunInputVariables } from './handlers/get_run_input_variables';
+import { exportAgents } from './handlers/export_agents';
+import { importAgents } from './handlers/import_agents';
+import { getRunSteps } from './handlers/get_run_steps';
 
-const t = initTRPC.create({
-  transformer: superjson,
+// Import auth helpers
+import { sessionCookie } from './auth/sessions';
+import {
+  agentIdsForCrew,
+  agentIdsForCrewInput,
+  agentIdsForRevision,
+  agentIdsForRun,
+  agentIdsForRunInput,
+  agentIdsForTask,
+  agentIdsForTaskInput
+} from './auth/access';
+
+// Import run events
+import { runEvents } from './events';
+import { startNotifyBridge } from './events/notify_bridge';
+import { pool } from './db';
+
+// Import output retention
+import { createRetentionSweeper, loadRetentionRules, type RetentionSweeper } from './retention';
+
+// Import run executor
+import { createRunExecutor, type RunExecutor } from './executor/run_executor';
+import { createLLMRuntime } from './executor/llm_runtime';
+
+// Aborted on shutdown so open subscriptions end instead of holding the server open
+const shutdownController = new AbortController();
+
+// tRPC calls the iterator's inherited Symbol.asyncDispose without binding it, which throws
+// on runtimes where async generators have one (Bun) and turns every finished stream into an
+// error event. Exposing only next/return/throw avoids that.
+const plainAsyncIterable = <T>(generator: AsyncGenerator<T>): AsyncIterable<T> => ({
+  [Symbol.asyncIterator]: () => ({
+    next: () => generator.next(),
+    return: (value?: unknown) => generator.return(value as T),
+    throw: (error?: unknown) => generator.throw(error)
+  })
 });
 
-const publicProcedure = t.procedure;
-const router = t.router;
+// Access checks for routes that act on one agent, run or revision by ID
+const byAgentId = requireAgentAccess(async (input: { id: number }) => [input.id]);
+const byAgentIdField = requireAgentAccess(async (input: { agent_id: number }) => [input.agent_id]);
+const byRunId = requireAgentAccess((input: { id: number }) => agentIdsForRun(input.id));
+// API keys limited to one agent only reach that agent's runs
+const keyByRunId = requireApiKeyRunAccess((input: { id: number }) => input.id);
+const keyByRunIdField = requireApiKeyRunAccess((input: { run_id: number }) => input.run_id);
+const keyByRunIdParam = requireApiKeyRunAccess((input: { runId: number }) => input.runId);
+
+// Output retention only deletes anything once enabled; the report shows what it would remove
+const retentionRules = loadRetentionRules();
+const retentionEnabled = process.env['OUTPUT_RETENTION_ENABLED'] === 'true';
 
 const appRouter = router({
   // Health check
@@ -40,52 +158,266 @@ const appRouter = router({
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication routes; everything else needs a signed-in user with a fitting role.
+  // Viewers can read, operators start and cancel runs, editors change agents, tasks and crews,
+  // and admins manage users and anything that removes data for good.
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const result = await login(input);
+      ctx.setCookie(sessionCookie(result.token, result.expires_at));
+      return result.user;
+    }),
+
+  logout: publicProcedure
+    .mutation(async ({ ctx }) => {
+      ctx.setCookie(sessionCookie(null));
+      return logout(ctx.sessionToken);
+    }),
+
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
+
+  // User management routes; editors can list users to share their agents with them
+  getUsers: editorProcedure
+    .query(() => getUsers()),
+
+  createUser: adminProcedure
+    .input(createUserInputSchema)
+    .mutation(({ input }) => createUser(input)),
+
+  updateUser: adminProcedure
+    .input(updateUserInputSchema)
+    .mutation(({ input }) => updateUser(input)),
+
+  // API key routes; keys let machine clients such as external executors call back in
+  getApiKeys: adminProcedure
+    .query(() => getApiKeys()),
+
+  createApiKey: adminProcedure
+    .input(createApiKeyInputSchema)
+    .mutation(({ input, ctx }) => createApiKey(input, ctx.user.id)),
+
+  revokeApiKey: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => revokeApiKey(input.id)),
+
+  // Audit log routes; every mutation is recorded by the audit middleware in trpc.ts
+  listAuditEvents: adminProcedure
+    .input(listAuditEventsInputSchema)
+    .query(({ input }) => listAuditEvents(input)),
+
+  getAuditProcedures: adminProcedure
+    .query(() => getAuditProcedures()),
+
   // Agent management routes
-  createAgent: publicProcedure
+  createAgent: editorProcedure
     .input(createAgentInputSchema)
-    .mutation(({ input }) => createAgent(input)),
+    .mutation(({ input, ctx }) => createAgent(input, ctx.user.id)),
     
-  getAgents: publicProcedure
-    .query(() => getAgents()),
+  getAgents: viewerProcedure
+    .input(z.object({ status: agentStatusFilterSchema.optional() }).optional())
+    .query(({ input }) => getAgents(input?.status)),
     
-  getAgentById: publicProcedure
+  getAgentById: viewerProcedure
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getAgentById(input.id)),
     
-  updateAgent: publicProcedure
+  updateAgent: editorProcedure
     .input(updateAgentInputSchema)
+    .use(byAgentId)
     .mutation(({ input }) => updateAgent(input)),
 
+  // Agent revision routes
+  getAgentRevisions: viewerProcedure
+    .input(z.object({ agent_id: z.number() }))
+    .query(({ input }) => getAgentRevisions(input.agent_id)),
+
+  diffAgentRevisions: viewerProcedure
+    .input(diffAgentRevisionsInputSchema)
+    .query(({ input }) => diffAgentRevisions(input)),
+
+  // Per-agent access routes; only the owner and admins may restrict an agent
+  getAgentAccess: viewerProcedure
+    .input(z.object({ agent_id: z.number() }))
+    .query(({ input, ctx }) => getAgentAccess(input.agent_id, ctx.user)),
+
+  setAgentAccess: editorProcedure
+    .input(setAgentAccessInputSchema)
+    .use(requireAgentOwner((input: SetAgentAccessInput) => input.agent_id))
+    .mutation(({ input, ctx }) => setAgentAccess(input, ctx.user)),
+
+  // Tool routes: the built-in tools, and which of them each agent may call
+  getTools: viewerProcedure
+    .query(() => getTools()),
+
+  getAgentTools: viewerProcedure
+    .input(z.object({ agent_id: z.number() }))
+    .use(byAgentIdField)
+    .query(({ input }) => getAgentTools(input.agent_id)),
+
+  setAgentTools: editorProcedure
+    .input(setAgentToolsInputSchema)
+    .use(byAgentIdField)
+    .mutation(({ input }) => setAgentTools(input)),
+
+  restoreAgentRevision: editorProcedure
+    .input(z.object({ revision_id: z.number() }))
+    .use(requireAgentAccess((input: { revision_id: number }) => agentIdsForRevision(input.revision_id)))
+    .mutation(({ input }) => restoreAgentRevision(input.revision_id)),
+
+  // Archive routes: delete archives, restore brings back, purge removes for good
+  deleteAgent: editorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(byAgentId)
+    .mutation(({ input }) => deleteAgent(input.id)),
+
+  restoreAgent: editorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(byAgentId)
+    .mutation(({ input }) => restoreAgent(input.id)),
+
+  purgeAgent: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => purgeAgent(input.id)),
+
+  deleteAgentRun: editorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(byRunId)
+    .mutation(({ input }) => deleteAgentRun(input.id)),
+
+  restoreAgentRun: editorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(byRunId)
+    .mutation(({ input }) => restoreAgentRun(input.id)),
+
+  purgeAgentRun: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => purgeAgentRun(input.id)),
+
+  getArchive: editorProcedure
+    .query(() => getArchive()),
+
+  // Output retention routes
+  getRetentionReport: adminProcedure
+    .query(() => getRetentionReport(retentionRules, retentionEnabled)),
+
+  // Task management routes
+  createTask: editorProcedure
+    .input(createTaskInputSchema)
+    .use(requireAgentAccess(agentIdsForTaskInput))
+    .mutation(({ input }) => createTask(input)),
+
+  getTasks: viewerProcedure
+    .query(() => getTasks()),
+
+  getTaskById: viewerProcedure
+    .input(z.object({ id: z.number() }))
+    .query(({ input }) => getTaskById(input.id)),
+
+  updateTask: editorProcedure
+    .input(updateTaskInputSchema)
+    .use(requireAgentAccess(agentIdsForTaskInput))
+    .mutation(({ input }) => updateTask(input)),
+
+  deleteTask: editorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(requireAgentAccess((input: { id: number }) => agentIdsForTask(input.id)))
+    .mutation(({ input }) => deleteTask(input.id)),
+
+  // Crew management routes
+  createCrew: editorProcedure
+    .input(createCrewInputSchema)
+    .use(requireAgentAccess(agentIdsForCrewInput))
+    .mutation(({ input }) => createCrew(input)),
+
+  getCrews: viewerProcedure
+    .query(() => getCrews()),
+
+  updateCrew: editorProcedure
+    .input(updateCrewInputSchema)
+    .use(requireAgentAccess(agentIdsForCrewInput))
+    .mutation(({ input }) => updateCrew(input)),
+
+  // CrewAI config routes: agents and tasks as config/agents.yaml and config/tasks.yaml
+  exportAgents: viewerProcedure
+    .query(() => exportAgents()),
+
+  importAgents: editorProcedure
+    .input(importAgentsInputSchema)
+    .mutation(({ input, ctx }) => importAgents(input, ctx.user)),
+
   // Agent run management routes
-  startAgentRun: publicProcedure
+  startAgentRun: operatorProcedure
     .input(startAgentRunInputSchema)
+    .use(requireAgentAccess(agentIdsForRunInput))
     .mutation(({ input }) => startAgentRun(input)),
+
+  startCrewRun: operatorProcedure
+    .input(startCrewRunInputSchema)
+    .use(requireAgentAccess((input: StartCrewRunInput) => agentIdsForCrew(input.crew_id)))
+    .mutation(({ input }) => startCrewRun(input)),
+
+  getRunInputVariables: viewerProcedure
+    .input(getRunInputVariablesInputSchema)
+    .use(requireAgentAccess((input: GetRunInputVariablesInput) =>
+      input.crew_id !== undefined ? agentIdsForCrew(input.crew_id) : agentIdsForRunInput(input)))
+    .query(({ input }) => getRunInputVariables(input)),
+
+  getRunSteps: scopedProcedure('runs:read', 'viewer')
+    .input(z.object({ runId: z.number() }))
+    .use(keyByRunIdParam)
+    .query(({ input }) => getRunSteps(input.runId)),
     
-  getAgentRun: publicProcedure
+  getAgentRun: scopedProcedure('runs:read', 'viewer')
     .input(z.object({ id: z.number() }))
+    .use(keyByRunId)
     .query(({ input }) => getAgentRun(input.id)),
     
-  getAgentRuns: publicProcedure
+  getAgentRuns: viewerProcedure
     .input(z.object({ agentId: z.number().optional() }))
     .query(({ input }) => getAgentRuns(input.agentId)),
+
+  listAgentRuns: viewerProcedure
+    .input(listAgentRunsInputSchema)
+    .query(({ input }) => listAgentRuns(input)),
     
-  updateAgentRunStatus: publicProcedure
+  // Run status and outputs are written by the built-in executor, or by external executors
+  // calling back with an API key
+  updateAgentRunStatus: scopedProcedure('runs:write', 'admin')
     .input(updateAgentRunInputSchema)
+    .use(keyByRunId)
     .mutation(({ input }) => updateAgentRunStatus(input)),
 
+  cancelAgentRun: operatorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(byRunId)
+    .mutation(({ input }) => cancelAgentRun(input.id)),
+
+  retryAgentRun: operatorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(byRunId)
+    .mutation(({ input }) => retryAgentRun(input.id)),
+
   // Agent output management routes
-  createAgentOutput: publicProcedure
+  createAgentOutput: scopedProcedure('outputs:write', 'admin')
     .input(createAgentOutputInputSchema)
+    .use(keyByRunIdField)
     .mutation(({ input }) => createAgentOutput(input)),
     
-  getAgentOutputs: publicProcedure
+  getAgentOutputs: scopedProcedure('runs:read', 'viewer')
     .input(z.object({ runId: z.number() }))
+    .use(keyByRunIdParam)
     .query(({ input }) => getAgentOutputs(input.runId)),
 
   // Streaming route for real-time agent execution
-  streamAgentRun: publicProcedure
-    .input(z.object({ runId: z.number() }))
-    .subscription(({ input }) => streamAgentRun(input.runId)),
+  streamAgentRun: scopedProcedure('runs:read', 'viewer')
+    .input(streamAgentRunInputSchema)
+    .use(keyByRunIdParam)
+    .subscription(({ input, signal }) => plainAsyncIterable(streamAgentRun(input.runId, {
+      afterOutputId: input.afterOutputId,
+      signal: signal ? AbortSignal.any([signal, shutdownController.signal]) : shutdownController.signal
+    }))),
 });
 
 export type AppRouter = typeof appRouter;
@@ -161,22 +493,106 @@ async function seedDatabase() {
   }
 }
 
+// Creates the first account from ADMIN_USERNAME and ADMIN_PASSWORD when nobody can sign in yet
+async function seedAdmin() {
+  try {
+    const { db } = await import('./db');
+    const { usersTable } = await import('./db/schema');
+
+    const existingUsers = await db.select({ id: usersTable.id }).from(usersTable).limit(1).execute();
+    if (existingUsers.length > 0) {
+      return;
+    }
+
+    const username = process.env['ADMIN_USERNAME'];
+    const password = process.env['ADMIN_PASSWORD'];
+    if (!username || !password) {
+      console.warn('No users exist; set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin');
+      return;
+    }
+
+    const admin = await createUser(createUserInputSchema.parse({ username, password, role: 'admin' }));
+    console.log(`Created bootstrap admin ${admin.username}`);
+  } catch (error) {
+    console.error('Failed to seed admin user:', error);
+  }
+}
+
 async function start() {
   // Seed database on startup
   await seedDatabase();
+  await seedAdmin();
+
+  // Share run events with other server instances through Postgres NOTIFY
+  const notifyBridge = await startNotifyBridge(runEvents, pool);
+
+  // Drive pending runs to completion in the background
+  let runExecutor: RunExecutor | null = null;
+  if (process.env['RUN_EXECUTOR_ENABLED'] !== 'false') {
+    runExecutor = createRunExecutor({
+      runtime: createLLMRuntime(),
+      pollIntervalMs: parseInt(process.env['RUN_EXECUTOR_POLL_MS'] || '1000'),
+      concurrency: parseInt(process.env['RUN_EXECUTOR_CONCURRENCY'] || '2')
+    });
+    runExecutor.start();
+    console.log('Run executor started');
+  }
+
+  // Periodically delete outputs the retention rules no longer keep
+  let retentionSweeper: RetentionSweeper | null = null;
+  if (retentionEnabled) {
+    retentionSweeper = createRetentionSweeper({
+      rules: retentionRules,
+      intervalMs: parseInt(process.env['OUTPUT_RETENTION_INTERVAL_MS'] || '3600000')
+    });
+    retentionSweeper.start();
+    console.log('Retention sweeper started');
+  }
   
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
+    // Served under /api so the client and any reverse proxy can use the same path
+    basePath: '/api/',
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Graceful shutdown: end open streams, let running agents finish, then close the pool
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`Received ${signal}, shutting down`);
+
+    // Don't wait forever on a stuck run
+    setTimeout(() => {
+      console.error('Shutdown timed out, exiting');
+      process.exit(1);
+    }, parseInt(process.env['SHUTDOWN_TIMEOUT_MS'] || '30000')).unref();
+
+    try {
+      shutdownController.abort();
+      const closed = new Promise<void>(resolve => server.close(() => resolve()));
+      server.closeIdleConnections();
+      await runExecutor?.stop();
+      await retentionSweeper?.stop();
+      await closed;
+      await notifyBridge.stop();
+      await pool.end();
+      process.exit(0);
+    } catch (error) {
+      console.error('Shutdown failed:', error);
+      process.exit(1);
+    }
+  };
+
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+  process.once('SIGINT', () => shutdown('SIGINT'));
 }
 
 start();
\ No newline at end of file
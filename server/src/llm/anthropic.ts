@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { postJson } from './http';
+import { type LLMProvider } from './types';
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  baseUrl: string; // e.g. https://api.anthropic.com
+  defaultModel: string;
+}
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+const messagesResponseSchema = z.object({
+  model: z.string(),
+  content: z.array(z.object({
+    type: z.string(),
+    text: z.string().optional()
+  })),
+  usage: z.object({
+    input_tokens: z.number(),
+    output_tokens: z.number()
+  }).optional()
+});
+
+export const createAnthropicProvider = (options: AnthropicProviderOptions): LLMProvider => ({
+  name: 'anthropic',
+  defaultModel: options.defaultModel,
+  chat: async (request) => {
+    const headers: Record<string, string> = { 'anthropic-version': '2023-06-01' };
+    if (options.apiKey) {
+      headers['x-api-key'] = options.apiKey;
+    }
+
+    // System prompts are a top-level field rather than a message role
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    const raw = await postJson(`${options.baseUrl}/v1/messages`, {
+      model: request.model ?? options.defaultModel,
+      system: system || undefined,
+      messages: request.messages.filter(m => m.role !== 'system'),
+      temperature: request.temperature,
+      max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS
+    }, headers, request.signal);
+
+    const parsed = messagesResponseSchema.parse(raw);
+    return {
+      content: parsed.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text ?? '')
+        .join(''),
+      model: parsed.model,
+      usage: parsed.usage
+    };
+  }
+});
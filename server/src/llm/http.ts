@@ -0,0 +1,21 @@
+// Shared JSON POST used by the HTTP-backed providers
+export const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`LLM request to ${url} failed with status ${response.status}: ${text}`);
+  }
+
+  return response.json();
+};
@@ -0,0 +1,50 @@
+import { fileURLToPath } from 'url';
+import { llmProviderSchema, type LLMProviderName } from '../schema';
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+import { createOllamaProvider } from './ollama';
+import { createMockProvider, loadMockFixtures } from './mock';
+import { type LLMProvider } from './types';
+
+const DEFAULT_MOCK_FIXTURES = fileURLToPath(new URL('../../fixtures/llm/default.json', import.meta.url));
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+const createProvider = (name: LLMProviderName): LLMProvider => {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: process.env['OPENAI_API_KEY'],
+        baseUrl: process.env['OPENAI_BASE_URL'] || 'https://api.openai.com/v1',
+        defaultModel: process.env['OPENAI_MODEL'] || 'gpt-4o-mini'
+      });
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: process.env['ANTHROPIC_API_KEY'],
+        baseUrl: process.env['ANTHROPIC_BASE_URL'] || 'https://api.anthropic.com',
+        defaultModel: process.env['ANTHROPIC_MODEL'] || 'claude-3-5-haiku-latest'
+      });
+    case 'ollama':
+      return createOllamaProvider({
+        baseUrl: process.env['OLLAMA_BASE_URL'] || 'http://localhost:11434',
+        defaultModel: process.env['OLLAMA_MODEL'] || 'llama3.1'
+      });
+    case 'mock':
+      return createMockProvider(loadMockFixtures(process.env['LLM_MOCK_FIXTURES'] || DEFAULT_MOCK_FIXTURES));
+  }
+};
+
+// Provider used for agents that do not pick one; the mock keeps fresh installs working offline
+export const getDefaultProviderName = (): LLMProviderName => {
+  return llmProviderSchema.parse(process.env['LLM_PROVIDER'] || 'mock');
+};
+
+// Providers are built lazily from the environment and reused afterwards
+export const getLLMProvider = (name: LLMProviderName = getDefaultProviderName()): LLMProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+};
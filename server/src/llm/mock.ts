@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { readFileSync } from 'fs';
+import { type LLMProvider } from './types';
+
+export const mockFixturesSchema = z.object({
+  responses: z.array(z.object({
+    match: z.string().optional(), // Case-insensitive substring of the latest user message
+    content: z.string()
+  })).min(1)
+});
+
+export type MockFixtures = z.infer<typeof mockFixturesSchema>;
+
+export const loadMockFixtures = (path: string): MockFixtures => {
+  return mockFixturesSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+};
+
+// Rough whitespace token count so usage stays deterministic
+const countTokens = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// Replays canned responses so the whole stack runs without network access.
+// The first fixture whose `match` appears in the latest user message wins;
+// otherwise fixtures without `match` are replayed in order, wrapping around.
+export const createMockProvider = (fixtures: MockFixtures): LLMProvider => {
+  const fallbacks = fixtures.responses.filter(r => r.match === undefined);
+  let fallbackIndex = 0;
+
+  return {
+    name: 'mock',
+    defaultModel: 'mock',
+    chat: async (request) => {
+      request.signal?.throwIfAborted();
+
+      const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+      const prompt = (lastUserMessage?.content ?? '').toLowerCase();
+
+      let response = fixtures.responses.find(r => r.match !== undefined && prompt.includes(r.match.toLowerCase()));
+      if (!response && fallbacks.length > 0) {
+        response = fallbacks[fallbackIndex % fallbacks.length];
+        fallbackIndex++;
+      }
+
+      if (!response) {
+        throw new Error('No mock LLM fixture matches the request');
+      }
+
+      return {
+        content: response.content,
+        model: request.model ?? 'mock',
+        usage: {
+          input_tokens: request.messages.reduce((sum, m) => sum + countTokens(m.content), 0),
+          output_tokens: countTokens(response.content)
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { postJson } from './http';
+import { type LLMProvider } from './types';
+
+export interface OllamaProviderOptions {
+  baseUrl: string; // e.g. http://localhost:11434
+  defaultModel: string;
+}
+
+const chatResponseSchema = z.object({
+  model: z.string(),
+  message: z.object({ content: z.string() }),
+  prompt_eval_count: z.number().optional(),
+  eval_count: z.number().optional()
+});
+
+export const createOllamaProvider = (options: OllamaProviderOptions): LLMProvider => ({
+  name: 'ollama',
+  defaultModel: options.defaultModel,
+  chat: async (request) => {
+    const raw = await postJson(`${options.baseUrl}/api/chat`, {
+      model: request.model ?? options.defaultModel,
+      messages: request.messages,
+      stream: false,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.max_tokens
+      }
+    }, {}, request.signal);
+
+    const parsed = chatResponseSchema.parse(raw);
+    return {
+      content: parsed.message.content,
+      model: parsed.model,
+      usage: parsed.prompt_eval_count !== undefined && parsed.eval_count !== undefined
+        ? { input_tokens: parsed.prompt_eval_count, output_tokens: parsed.eval_count }
+        : undefined
+    };
+  }
+});
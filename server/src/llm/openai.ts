@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { postJson } from './http';
+import { type LLMProvider } from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseUrl: string; // e.g. https://api.openai.com/v1 or any OpenAI-compatible gateway
+  defaultModel: string;
+}
+
+const chatCompletionResponseSchema = z.object({
+  model: z.string(),
+  choices: z.array(z.object({
+    message: z.object({ content: z.string().nullable() })
+  })).min(1),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number()
+  }).optional()
+});
+
+export const createOpenAIProvider = (options: OpenAIProviderOptions): LLMProvider => ({
+  name: 'openai',
+  defaultModel: options.defaultModel,
+  chat: async (request) => {
+    const headers: Record<string, string> = {};
+    if (options.apiKey) {
+      headers['authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    const raw = await postJson(`${options.baseUrl}/chat/completions`, {
+      model: request.model ?? options.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.max_tokens
+    }, headers, request.signal);
+
+    const parsed = chatCompletionResponseSchema.parse(raw);
+    return {
+      content: parsed.choices[0].message.content ?? '',
+      model: parsed.model,
+      usage: parsed.usage && {
+        input_tokens: parsed.usage.prompt_tokens,
+        output_tokens: parsed.usage.completion_tokens
+      }
+    };
+  }
+});
@@ -0,0 +1,43 @@
+const WINDOW_MS = 60_000;
+
+export interface RateLimiter {
+  // Resolves once another request for `key` fits within `maxPerMinute`
+  acquire: (key: string, maxPerMinute: number, signal?: AbortSignal) => Promise<void>;
+}
+
+// Sliding one-minute window per key, used to honor agents' max_rpm
+export const createRateLimiter = (now: () => number = Date.now): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  const acquire = async (key: string, maxPerMinute: number, signal?: AbortSignal): Promise<void> => {
+    signal?.throwIfAborted();
+
+    const current = now();
+    const recent = (requests.get(key) ?? []).filter(time => current - time < WINDOW_MS);
+
+    if (recent.length < maxPerMinute) {
+      recent.push(current);
+      requests.set(key, recent);
+      return;
+    }
+
+    requests.set(key, recent);
+    const waitMs = recent[0] + WINDOW_MS - current;
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      // Long runs wait many times on the same signal; don't leave a listener behind for each wait
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, waitMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return acquire(key, maxPerMinute, signal);
+  };
+
+  return { acquire };
+};
@@ -0,0 +1,29 @@
+import { type LLMProviderName } from '../schema';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  model?: string; // Falls back to the provider's configured default model
+  temperature?: number;
+  max_tokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  content: string;
+  model: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  chat: (request: ChatRequest) => Promise<ChatResponse>;
+}
@@ -0,0 +1,158 @@
+import { db } from '../db';
+import { agentOutputsTable, agentRunsTable } from '../db/schema';
+import { outputTypeSchema, retentionRulesSchema, type OutputType, type RetentionRules } from '../schema';
+import { TERMINAL_RUN_STATUSES } from '../runs/state_machine';
+import { and, eq, gt, inArray, lt, or, sql, type SQL } from 'drizzle-orm';
+
+// Logs are only useful while debugging a run; results and errors are kept forever
+export const DEFAULT_RETENTION_RULES: RetentionRules = {
+  log: { max_age_days: 14 }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reads rules from a JSON object such as {"log":{"max_age_days":14,"max_per_run":500}}
+export const loadRetentionRules = (raw: string | undefined = process.env['OUTPUT_RETENTION_RULES']): RetentionRules => {
+  if (!raw) {
+    return DEFAULT_RETENTION_RULES;
+  }
+  return retentionRulesSchema.parse(JSON.parse(raw));
+};
+
+// Outputs of the given type beyond the newest `keep` in their run
+const outputsBeyondCap = (outputType: OutputType, keep: number) => {
+  const ranked = db.select({
+    id: agentOutputsTable.id,
+    rank: sql<number>`row_number() over (partition by ${agentOutputsTable.run_id} order by ${agentOutputsTable.id} desc)`.as('rank')
+  })
+    .from(agentOutputsTable)
+    .where(eq(agentOutputsTable.output_type, outputType))
+    .as(`ranked_${outputType}`);
+
+  return db.select({ id: ranked.id })
+    .from(ranked)
+    .where(gt(ranked.rank, keep));
+};
+
+// Matches every output the rules allow deleting, or undefined when no rule removes anything.
+// Outputs of runs that are still pending or running are never touched.
+export const expiredOutputsCondition = (rules: RetentionRules, now: Date = new Date()): SQL | undefined => {
+  const clauses: SQL[] = [];
+
+  for (const outputType of outputTypeSchema.options) {
+    const rule = rules[outputType];
+    const limits: SQL[] = [];
+
+    if (rule?.max_age_days !== undefined) {
+      limits.push(lt(agentOutputsTable.created_at, new Date(now.getTime() - rule.max_age_days * DAY_MS)));
+    }
+    if (rule?.max_per_run !== undefined) {
+      limits.push(inArray(agentOutputsTable.id, outputsBeyondCap(outputType, rule.max_per_run)));
+    }
+
+    if (limits.length > 0) {
+      clauses.push(and(eq(agentOutputsTable.output_type, outputType), or(...limits))!);
+    }
+  }
+
+  if (clauses.length === 0) {
+    return undefined;
+  }
+
+  const finishedRuns = db.select({ id: agentRunsTable.id })
+    .from(agentRunsTable)
+    .where(inArray(agentRunsTable.status, TERMINAL_RUN_STATUSES));
+
+  return and(or(...clauses), inArray(agentOutputsTable.run_id, finishedRuns));
+};
+
+// Deletes expired outputs in batches so a large backlog doesn't hold one long transaction.
+// Returns how many outputs were deleted.
+export const sweepExpiredOutputs = async (
+  rules: RetentionRules,
+  options: { now?: Date; batchSize?: number } = {}
+): Promise<number> => {
+  const condition = expiredOutputsCondition(rules, options.now);
+  if (!condition) {
+    return 0;
+  }
+
+  const batchSize = options.batchSize ?? 1000;
+  let total = 0;
+  for (;;) {
+    const batch = db.select({ id: agentOutputsTable.id })
+      .from(agentOutputsTable)
+      .where(condition)
+      .limit(batchSize);
+
+    const deleted = await db.delete(agentOutputsTable)
+      .where(inArray(agentOutputsTable.id, batch))
+      .returning({ id: agentOutputsTable.id })
+      .execute();
+
+    total += deleted.length;
+    if (deleted.length < batchSize) {
+      return total;
+    }
+  }
+};
+
+export interface RetentionSweeperOptions {
+  rules: RetentionRules;
+  intervalMs?: number;
+}
+
+export interface RetentionSweeper {
+  start: () => void;
+  stop: () => Promise<void>;
+  // Runs one sweep now; resolves with the number of deleted outputs
+  sweep: () => Promise<number>;
+}
+
+export const createRetentionSweeper = (options: RetentionSweeperOptions): RetentionSweeper => {
+  const intervalMs = options.intervalMs ?? 60 * 60 * 1000;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let current: Promise<number> | null = null;
+
+  const sweep = async () => {
+    const deleted = await sweepExpiredOutputs(options.rules);
+    if (deleted > 0) {
+      console.log(`Retention sweep deleted ${deleted} output(s)`);
+    }
+    return deleted;
+  };
+
+  const loop = async () => {
+    current = sweep();
+    try {
+      await current;
+    } catch (error) {
+      console.error('Retention sweep failed:', error);
+    } finally {
+      current = null;
+    }
+
+    if (running) {
+      timer = setTimeout(loop, intervalMs);
+    }
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      loop();
+    },
+    stop: async () => {
+      running = false;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      // Let a sweep in progress finish before the pool closes
+      await current?.catch(() => undefined);
+    },
+    sweep
+  };
+};
@@ -0,0 +1,148 @@
+import { db } from '../db';
+import { agentRunsTable } from '../db/schema';
+import { type AgentRun, type RunStatus } from '../schema';
+import { runEvents } from '../events';
+import { InvalidInputError, InvalidTransitionError, NotFoundError } from '../errors';
+import { and, eq } from 'drizzle-orm';
+
+// Legal run status transitions. Runs start pending, are claimed by an executor and end
+// completed, failed or cancelled. Failed and cancelled runs can be retried, which puts
+// them back to pending for another attempt; completed runs are final.
+export const RUN_TRANSITIONS: Readonly<Record<RunStatus, readonly RunStatus[]>> = {
+  pending: ['running', 'cancelled'],
+  running: ['completed', 'failed', 'cancelled'],
+  completed: [],
+  failed: ['pending'],
+  cancelled: ['pending']
+};
+
+export const TERMINAL_RUN_STATUSES: RunStatus[] = ['completed', 'failed', 'cancelled'];
+export const ACTIVE_RUN_STATUSES: RunStatus[] = ['pending', 'running'];
+
+export const isTerminalStatus = (status: RunStatus): boolean => TERMINAL_RUN_STATUSES.includes(status);
+
+export const canTransition = (from: RunStatus, to: RunStatus): boolean => RUN_TRANSITIONS[from].includes(to);
+
+// The run is not in a status it can leave for the requested one
+export class RunTransitionError extends InvalidTransitionError {
+  constructor(readonly runId: number, from: RunStatus, to: RunStatus) {
+    super('Agent run', runId, from, to);
+  }
+}
+
+// The timestamps given for a transition don't fit the run's history
+export class RunTimestampError extends InvalidInputError {
+  constructor(readonly runId: number, message: string) {
+    super(`Agent run with ID ${runId}: ${message}`, { entity: 'Agent run', id: runId });
+  }
+}
+
+export interface RunTransitionOptions {
+  now?: Date;
+  // Only for moves to running
+  started_at?: Date;
+  // Only for moves to completed, failed or cancelled
+  completed_at?: Date;
+  // Only for moves to completed: the validated structured result
+  output_json?: unknown;
+}
+
+type TransitionSource = Pick<AgentRun, 'id' | 'status' | 'started_at' | 'completed_at' | 'attempt'>;
+
+export type RunTransition = Pick<AgentRun, 'status' | 'started_at' | 'completed_at' | 'attempt' | 'output_json'>;
+
+// Works out the run's fields after moving to the given status, or throws if the move is illegal.
+// Retrying clears the timestamps and structured result of the previous attempt.
+export const planTransition = (run: TransitionSource, to: RunStatus, options: RunTransitionOptions = {}): RunTransition => {
+  if (!canTransition(run.status, to)) {
+    throw new RunTransitionError(run.id, run.status, to);
+  }
+
+  const now = options.now ?? new Date();
+  if (options.started_at !== undefined && to !== 'running') {
+    throw new RunTimestampError(run.id, 'started_at can only be given when the run starts running');
+  }
+  if (options.completed_at !== undefined && !isTerminalStatus(to)) {
+    throw new RunTimestampError(run.id, 'completed_at can only be given when the run finishes');
+  }
+  if (options.output_json !== undefined && to !== 'completed') {
+    throw new InvalidInputError(`Agent run with ID ${run.id}: output_json can only be given when the run completes`, { entity: 'Agent run', id: run.id });
+  }
+
+  if (to === 'pending') {
+    return { status: to, started_at: null, completed_at: null, attempt: run.attempt + 1, output_json: null };
+  }
+
+  if (to === 'running') {
+    const startedAt = options.started_at ?? now;
+    if (startedAt > now) {
+      throw new RunTimestampError(run.id, 'started_at cannot be in the future');
+    }
+    return { status: to, started_at: startedAt, completed_at: null, attempt: run.attempt, output_json: null };
+  }
+
+  const completedAt = options.completed_at ?? now;
+  if (run.started_at !== null && completedAt < run.started_at) {
+    throw new RunTimestampError(run.id, 'completed_at cannot be before started_at');
+  }
+  return {
+    status: to,
+    started_at: run.started_at,
+    completed_at: completedAt,
+    attempt: run.attempt,
+    output_json: to === 'completed' ? options.output_json ?? null : null
+  };
+};
+
+type RunTransaction = Pick<typeof db, 'select' | 'update'>;
+
+// Locks a run for a transition; null when it doesn't exist
+export const lockRun = async (tx: RunTransaction, runId: number): Promise<AgentRun | null> => {
+  const result = await tx.select()
+    .from(agentRunsTable)
+    .where(eq(agentRunsTable.id, runId))
+    .for('update')
+    .execute();
+
+  return result[0] ?? null;
+};
+
+// Moves a run that the transaction has locked to the given status. Callers publish the status
+// event once the transaction has committed.
+export const transitionRun = async (
+  tx: RunTransaction,
+  run: AgentRun,
+  to: RunStatus,
+  options: RunTransitionOptions = {}
+): Promise<AgentRun> => {
+  const transition = planTransition(run, to, options);
+  const result = await tx.update(agentRunsTable)
+    .set({ ...transition, updated_at: options.now ?? new Date() })
+    .where(and(eq(agentRunsTable.id, run.id), eq(agentRunsTable.status, run.status)))
+    .returning()
+    .execute();
+
+  // Only reachable if the caller did not lock the run and someone else moved it first
+  if (result.length === 0) {
+    throw new RunTransitionError(run.id, run.status, to);
+  }
+  return result[0];
+};
+
+// Locks, moves and announces a run in one go
+export const applyRunTransition = async (
+  runId: number,
+  to: RunStatus,
+  options: RunTransitionOptions = {}
+): Promise<AgentRun> => {
+  const updated = await db.transaction(async (tx) => {
+    const run = await lockRun(tx, runId);
+    if (!run) {
+      throw new NotFoundError('Agent run', runId);
+    }
+    return await transitionRun(tx, run, to, options);
+  });
+
+  await runEvents.publish({ type: 'status', run_id: runId, status: updated.status });
+  return updated;
+};
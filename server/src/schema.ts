@@ -1,5 +1,75 @@
 import { z } from 'zod';
 
+// LLM providers an agent can be executed with
+export const llmProviderSchema = z.enum(['openai', 'anthropic', 'ollama', 'mock']);
+
+export type LLMProviderName = z.infer<typeof llmProviderSchema>;
+
+// Execution knobs mirroring CrewAI's Agent parameters, with sane ranges
+export const agentTemperatureSchema = z.number().min(0).max(2);
+export const agentMaxTokensSchema = z.number().int().min(1).max(200000);
+export const agentMaxIterSchema = z.number().int().min(1).max(100);
+export const agentMaxRpmSchema = z.number().int().min(1).max(10000);
+export const agentMaxExecutionTimeSchema = z.number().int().min(1).max(86400); // Seconds, up to a day
+
+// JSON Schema types a structured output can declare
+export const jsonSchemaTypeSchema = z.enum(['object', 'array', 'string', 'number', 'integer', 'boolean', 'null']);
+
+export type JsonSchemaType = z.infer<typeof jsonSchemaTypeSchema>;
+
+// The subset of JSON Schema that structured outputs are validated with; see json_schema/.
+// Unknown keywords are rejected rather than silently ignored.
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+}
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const jsonSchemaSchema: z.ZodType<JsonSchema> = z.lazy(() => z.object({
+  $schema: z.string().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  type: z.union([jsonSchemaTypeSchema, z.array(jsonSchemaTypeSchema).min(1)]).optional(),
+  enum: z.array(z.unknown()).min(1).optional(),
+  const: z.unknown().optional(),
+  properties: z.record(z.string(), jsonSchemaSchema).optional(),
+  required: z.array(z.string()).optional(),
+  additionalProperties: z.boolean().optional(),
+  items: jsonSchemaSchema.optional(),
+  minItems: z.number().int().nonnegative().optional(),
+  maxItems: z.number().int().nonnegative().optional(),
+  minLength: z.number().int().nonnegative().optional(),
+  maxLength: z.number().int().nonnegative().optional(),
+  pattern: z.string().refine(isValidPattern, 'Invalid regular expression').optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+  anyOf: z.array(jsonSchemaSchema).min(1).optional()
+}).strict());
+
 // Agent schema
 export const agentSchema = z.object({
   id: z.number(),
@@ -8,33 +78,287 @@ export const agentSchema = z.object({
   role: z.string(),
   goal: z.string(),
   backstory: z.string(),
+  llm_provider: llmProviderSchema.nullable(),
+  llm: z.string().nullable(),
+  temperature: z.number().nullable(),
+  max_tokens: z.number().int().nullable(),
+  max_iter: z.number().int(),
+  max_rpm: z.number().int().nullable(),
+  max_execution_time: z.number().int().nullable(),
+  verbose: z.boolean(),
+  allow_delegation: z.boolean(),
+  expected_output_schema: jsonSchemaSchema.nullable(), // Final answers must be JSON matching this
   is_active: z.boolean(),
+  deleted_at: z.coerce.date().nullable(), // Set while the agent is archived
+  owner_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Agent = z.infer<typeof agentSchema>;
 
+// The part of an agent captured by a revision: everything that shapes how it runs.
+// Activation is left out, so toggling an agent on or off does not create a revision.
+export const agentSnapshotSchema = agentSchema.pick({
+  name: true,
+  description: true,
+  role: true,
+  goal: true,
+  backstory: true,
+  llm_provider: true,
+  llm: true,
+  temperature: true,
+  max_tokens: true,
+  max_iter: true,
+  max_rpm: true,
+  max_execution_time: true,
+  verbose: true,
+  allow_delegation: true,
+  expected_output_schema: true
+});
+
+export type AgentSnapshot = z.infer<typeof agentSnapshotSchema>;
+
+// Agent revision schema - an immutable snapshot written whenever an agent is created or changed
+export const agentRevisionSchema = z.object({
+  id: z.number(),
+  agent_id: z.number(),
+  revision: z.number().int(),
+  snapshot: agentSnapshotSchema,
+  created_at: z.coerce.date()
+});
+
+export type AgentRevision = z.infer<typeof agentRevisionSchema>;
+
+// A single field that differs between two revisions
+export const agentRevisionChangeSchema = z.object({
+  field: agentSnapshotSchema.keyof(),
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+export type AgentRevisionChange = z.infer<typeof agentRevisionChangeSchema>;
+
+export const agentRevisionDiffSchema = z.object({
+  from: agentRevisionSchema,
+  to: agentRevisionSchema,
+  changes: z.array(agentRevisionChangeSchema)
+});
+
+export type AgentRevisionDiff = z.infer<typeof agentRevisionDiffSchema>;
+
+// User roles, from least to most privileged; each role can do everything the previous ones can.
+// Viewers watch runs, operators start and cancel them, editors change agents, admins manage users.
+export const userRoleSchema = z.enum(['viewer', 'operator', 'editor', 'admin']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const hasRole = (user: { role: UserRole }, role: UserRole): boolean =>
+  userRoleSchema.options.indexOf(user.role) >= userRoleSchema.options.indexOf(role);
+
+// User schema - never includes the password hash
+export const userSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  role: userRoleSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Input schema for signing in
+export const loginInputSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1)
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+// Input schema for creating user accounts
+export const createUserInputSchema = z.object({
+  username: z.string().min(3).max(50).regex(/^[\w.-]+$/, 'Use letters, digits, dots, dashes and underscores'),
+  password: z.string().min(8).max(200),
+  role: userRoleSchema.default('viewer')
+});
+
+export type CreateUserInput = z.infer<typeof createUserInputSchema>;
+
+// Input schema for updating user accounts
+export const updateUserInputSchema = z.object({
+  id: z.number(),
+  role: userRoleSchema.optional(),
+  password: z.string().min(8).max(200).optional()
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
+
+// Task schema
+export const taskSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string(),
+  expected_output: z.string(),
+  expected_output_schema: jsonSchemaSchema.nullable(), // Takes precedence over the agent's schema
+  agent_id: z.number().nullable(),
+  context_task_ids: z.array(z.number()),
+  output_file: z.string().nullable(),
+  async_execution: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Task = z.infer<typeof taskSchema>;
+
+// Crew process types, matching CrewAI's Process enum
+export const crewProcessSchema = z.enum(['sequential', 'hierarchical']);
+
+export type CrewProcess = z.infer<typeof crewProcessSchema>;
+
+// Crew schema
+export const crewSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  process: crewProcessSchema,
+  manager_agent_id: z.number().nullable(),
+  agent_ids: z.array(z.number()),
+  task_ids: z.array(z.number()),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Crew = z.infer<typeof crewSchema>;
+
+// Run lifecycle statuses; completed, failed and cancelled are terminal
+export const runStatusSchema = z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']);
+
+export type RunStatus = z.infer<typeof runStatusSchema>;
+
+// Values for the {placeholders} in an agent's persona and a task's text, keyed by variable name
+export const runInputsSchema = z.record(z.string(), z.string());
+
+export type RunInputs = z.infer<typeof runInputsSchema>;
+
 // Agent run schema
 export const agentRunSchema = z.object({
   id: z.number(),
   agent_id: z.number(),
+  agent_revision_id: z.number().nullable(), // Null for runs recorded before agents were versioned
+  task_id: z.number().nullable(),
+  crew_id: z.number().nullable(),
   input_text: z.string(),
-  status: z.enum(['pending', 'running', 'completed', 'failed']),
+  inputs: runInputsSchema,
+  resolved_prompt: z.string().nullable(), // The prompt with the inputs filled in, set once the run starts; crew runs keep theirs per step
+  status: runStatusSchema,
   started_at: z.coerce.date().nullable(),
   completed_at: z.coerce.date().nullable(),
+  attempt: z.number().int(), // 1 for the first try, incremented on every retry
+  output_json: z.unknown(), // The validated result of runs with an expected output schema, else null
+  deleted_at: z.coerce.date().nullable(), // Set while the run is archived
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type AgentRun = z.infer<typeof agentRunSchema>;
 
+// Run step schema - a single task handoff within a crew run
+export const runStepSchema = z.object({
+  id: z.number(),
+  run_id: z.number(),
+  position: z.number().int(),
+  task_id: z.number().nullable(),
+  agent_id: z.number().nullable(),
+  status: runStatusSchema,
+  input_text: z.string().nullable(),
+  output: z.string().nullable(),
+  started_at: z.coerce.date().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type RunStep = z.infer<typeof runStepSchema>;
+
+// Kinds of output a run records
+export const outputTypeSchema = z.enum([
+  'log',
+  'result',
+  'error',
+  'thought', // The model's reasoning before it acts or answers
+  'tool_call',
+  'tool_result',
+  'delegation', // A task handed to a crew member
+  'metric', // Measurements such as token usage
+  'artifact' // A file the run wrote
+]);
+
+export type OutputType = z.infer<typeof outputTypeSchema>;
+
+// Structured details stored next to an output's text; the shape depends on the output type
+export const outputMetadataSchema = z.record(z.string(), z.unknown());
+
+export type OutputMetadata = z.infer<typeof outputMetadataSchema>;
+
+// Metadata of a tool_call output; the content is a readable form of the call
+export const toolCallMetadataSchema = z.object({
+  tool: z.string(),
+  input: z.unknown()
+});
+
+export type ToolCallMetadata = z.infer<typeof toolCallMetadataSchema>;
+
+// Metadata of a tool_result output; the content is the tool's output, or the error when it failed
+export const toolResultMetadataSchema = z.object({
+  tool: z.string(),
+  error: z.string().nullable()
+});
+
+export type ToolResultMetadata = z.infer<typeof toolResultMetadataSchema>;
+
+// Metadata of a delegation output; delegated_by is the manager that picked the agent, if any
+export const delegationMetadataSchema = z.object({
+  task_id: z.number(),
+  agent_id: z.number(),
+  delegated_by: z.number().nullable()
+});
+
+export type DelegationMetadata = z.infer<typeof delegationMetadataSchema>;
+
+// Metadata of a token usage metric output
+export const tokenUsageMetadataSchema = z.object({
+  model: z.string(),
+  input_tokens: z.number(),
+  output_tokens: z.number()
+});
+
+export type TokenUsageMetadata = z.infer<typeof tokenUsageMetadataSchema>;
+
+// Metadata of an error output for a final answer that did not match the expected output schema
+export const outputValidationMetadataSchema = z.object({
+  kind: z.literal('output_validation'),
+  attempt: z.number().int(), // 1 for the first answer, then one more per repair
+  errors: z.array(z.string())
+});
+
+export type OutputValidationMetadata = z.infer<typeof outputValidationMetadataSchema>;
+
+// Metadata of an artifact output
+export const artifactMetadataSchema = z.object({
+  path: z.string(),
+  bytes: z.number()
+});
+
+export type ArtifactMetadata = z.infer<typeof artifactMetadataSchema>;
+
 // Agent output schema for streaming logs and results
 export const agentOutputSchema = z.object({
   id: z.number(),
   run_id: z.number(),
-  output_type: z.enum(['log', 'result', 'error']),
+  agent_id: z.number().nullable(), // Which crew member produced the output
+  task_id: z.number().nullable(),
+  output_type: outputTypeSchema,
   content: z.string(),
+  metadata: outputMetadataSchema.nullable(),
   timestamp: z.coerce.date(),
   created_at: z.coerce.date()
 });
@@ -48,11 +372,26 @@ export const createAgentInputSchema = z.object({
   role: z.string().min(1),
   goal: z.string().min(1),
   backstory: z.string().min(1),
+  llm_provider: llmProviderSchema.nullable().optional(), // Omitted or null uses the default provider
+  llm: z.string().min(1).max(200).nullable().optional(),
+  temperature: agentTemperatureSchema.nullable().optional(),
+  max_tokens: agentMaxTokensSchema.nullable().optional(),
+  max_iter: agentMaxIterSchema.optional(),
+  max_rpm: agentMaxRpmSchema.nullable().optional(),
+  max_execution_time: agentMaxExecutionTimeSchema.nullable().optional(),
+  verbose: z.boolean().optional(),
+  allow_delegation: z.boolean().optional(),
+  expected_output_schema: jsonSchemaSchema.nullable().optional(),
   is_active: z.boolean().default(true)
 });
 
 export type CreateAgentInput = z.infer<typeof createAgentInputSchema>;
 
+// Which agents getAgents returns; only active ones unless asked otherwise
+export const agentStatusFilterSchema = z.enum(['active', 'inactive', 'all']);
+
+export type AgentStatusFilter = z.infer<typeof agentStatusFilterSchema>;
+
 // Input schema for updating agents
 export const updateAgentInputSchema = z.object({
   id: z.number(),
@@ -61,25 +400,287 @@ export const updateAgentInputSchema = z.object({
   role: z.string().min(1).optional(),
   goal: z.string().min(1).optional(),
   backstory: z.string().min(1).optional(),
+  llm_provider: llmProviderSchema.nullable().optional(),
+  llm: z.string().min(1).max(200).nullable().optional(),
+  temperature: agentTemperatureSchema.nullable().optional(),
+  max_tokens: agentMaxTokensSchema.nullable().optional(),
+  max_iter: agentMaxIterSchema.optional(),
+  max_rpm: agentMaxRpmSchema.nullable().optional(),
+  max_execution_time: agentMaxExecutionTimeSchema.nullable().optional(),
+  verbose: z.boolean().optional(),
+  allow_delegation: z.boolean().optional(),
+  expected_output_schema: jsonSchemaSchema.nullable().optional(),
   is_active: z.boolean().optional()
 });
 
 export type UpdateAgentInput = z.infer<typeof updateAgentInputSchema>;
 
-// Input schema for starting agent runs
-export const startAgentRunInputSchema = z.object({
+// What an API key may do: read runs and their outputs, update run status, or record outputs
+export const apiKeyScopeSchema = z.enum(['runs:read', 'runs:write', 'outputs:write']);
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+// API key schema - never includes the key or its hash
+export const apiKeySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  agent_id: z.number().nullable(), // Limits the key to runs of this agent
+  created_by: z.number().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+// Input schema for creating API keys
+export const createApiKeyInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  agent_id: z.number().nullable().default(null)
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+// A newly created key; the key itself is only ever returned here
+export const createdApiKeySchema = z.object({
+  api_key: apiKeySchema,
+  key: z.string()
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+// Who performed an audited mutation
+export const auditActorTypeSchema = z.enum(['user', 'api_key', 'anonymous']);
+
+export type AuditActorType = z.infer<typeof auditActorTypeSchema>;
+
+// Fields an update changed, keyed by field name
+export const auditChangesSchema = z.record(z.string(), z.object({
+  from: z.unknown(),
+  to: z.unknown()
+}));
+
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+// Audit event schema - one per API mutation
+export const auditEventSchema = z.object({
+  id: z.number(),
+  actor_type: auditActorTypeSchema,
+  user_id: z.number().nullable(),
+  api_key_id: z.number().nullable(),
+  actor_name: z.string().nullable(),
+  procedure: z.string(),
+  input: z.unknown(),
+  changes: auditChangesSchema.nullable(),
+  result: z.unknown(),
+  success: z.boolean(),
+  error: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+// Input schema for browsing the audit log, newest first.
+// cursor is the id of the last event on the previous page.
+export const listAuditEventsInputSchema = z.object({
+  procedure: z.string().optional(),
+  user_id: z.number().optional(),
+  actor_type: auditActorTypeSchema.optional(),
+  success: z.boolean().optional(),
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+  cursor: z.number().optional(),
+  limit: z.number().int().min(1).max(100).default(50)
+});
+
+export type ListAuditEventsInput = z.infer<typeof listAuditEventsInputSchema>;
+
+// One page of audit events
+export const auditEventPageSchema = z.object({
+  items: z.array(auditEventSchema),
+  next_cursor: z.number().nullable() // Null on the last page
+});
+
+export type AuditEventPage = z.infer<typeof auditEventPageSchema>;
+
+// Who may use an agent. An empty user list means everyone with the right role may.
+export const agentAccessSchema = z.object({
+  agent_id: z.number(),
+  owner_id: z.number().nullable(),
+  user_ids: z.array(z.number()),
+  can_use: z.boolean(), // Whether the requesting user may run and edit the agent
+  can_manage: z.boolean() // Whether the requesting user may change this list
+});
+
+export type AgentAccess = z.infer<typeof agentAccessSchema>;
+
+// Input schema for restricting an agent to a set of users
+export const setAgentAccessInputSchema = z.object({
   agent_id: z.number(),
-  input_text: z.string().min(1)
+  user_ids: z.array(z.number())
+});
+
+export type SetAgentAccessInput = z.infer<typeof setAgentAccessInputSchema>;
+
+// Built-in tools agents can be given; see tools/ for what each does
+export const toolNameSchema = z.enum(['calculator', 'read_file', 'http_fetch', 'sql_query']);
+
+export type ToolName = z.infer<typeof toolNameSchema>;
+
+// A tool as offered to users picking tools for an agent
+export const toolInfoSchema = z.object({
+  name: toolNameSchema,
+  description: z.string(),
+  example_input: z.record(z.unknown()) // Shown to the model as the shape of a valid call
+});
+
+export type ToolInfo = z.infer<typeof toolInfoSchema>;
+
+// Input schema for replacing the tools an agent may call
+export const setAgentToolsInputSchema = z.object({
+  agent_id: z.number(),
+  tools: z.array(toolNameSchema)
+});
+
+export type SetAgentToolsInput = z.infer<typeof setAgentToolsInputSchema>;
+
+// Input schema for comparing two revisions of the same agent
+export const diffAgentRevisionsInputSchema = z.object({
+  from_revision_id: z.number(),
+  to_revision_id: z.number()
+});
+
+export type DiffAgentRevisionsInput = z.infer<typeof diffAgentRevisionsInputSchema>;
+
+// Task output files are plain file names inside the configured output directory
+const taskOutputFileSchema = z.string().min(1).regex(/^[\w.-]+$/, 'Use a plain file name without directories');
+
+// Input schema for creating tasks
+export const createTaskInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  expected_output: z.string().min(1),
+  expected_output_schema: jsonSchemaSchema.nullable().optional(),
+  agent_id: z.number().nullable(),
+  context_task_ids: z.array(z.number()).default([]),
+  output_file: taskOutputFileSchema.nullable(),
+  async_execution: z.boolean().default(false)
+});
+
+export type CreateTaskInput = z.infer<typeof createTaskInputSchema>;
+
+// Input schema for updating tasks
+export const updateTaskInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  expected_output: z.string().min(1).optional(),
+  expected_output_schema: jsonSchemaSchema.nullable().optional(),
+  agent_id: z.number().nullable().optional(),
+  context_task_ids: z.array(z.number()).optional(),
+  output_file: taskOutputFileSchema.nullable().optional(),
+  async_execution: z.boolean().optional()
+});
+
+export type UpdateTaskInput = z.infer<typeof updateTaskInputSchema>;
+
+// Input schema for starting agent runs, either from ad-hoc text or from a saved task
+export const startAgentRunInputSchema = z.object({
+  agent_id: z.number().optional(), // Defaults to the task's assigned agent when running a task
+  input_text: z.string().min(1).optional(),
+  task_id: z.number().optional(),
+  inputs: runInputsSchema.optional() // Required when the agent or task has {placeholders}
+}).refine(input => (input.input_text === undefined) !== (input.task_id === undefined), {
+  message: 'Provide either input_text or task_id'
 });
 
 export type StartAgentRunInput = z.infer<typeof startAgentRunInputSchema>;
 
-// Input schema for updating agent run status
+// Input schema for creating crews
+export const createCrewInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().nullable(),
+  process: crewProcessSchema.default('sequential'),
+  manager_agent_id: z.number().nullable(),
+  agent_ids: z.array(z.number()).min(1),
+  task_ids: z.array(z.number()).min(1)
+});
+
+export type CreateCrewInput = z.infer<typeof createCrewInputSchema>;
+
+// Input schema for updating crews
+export const updateCrewInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  process: crewProcessSchema.optional(),
+  manager_agent_id: z.number().nullable().optional(),
+  agent_ids: z.array(z.number()).min(1).optional(),
+  task_ids: z.array(z.number()).min(1).optional()
+});
+
+export type UpdateCrewInput = z.infer<typeof updateCrewInputSchema>;
+
+// Input schema for kicking off a crew
+export const startCrewRunInputSchema = z.object({
+  crew_id: z.number(),
+  input_text: z.string().min(1),
+  inputs: runInputsSchema.optional() // Required when a crew member or task has {placeholders}
+});
+
+export type StartCrewRunInput = z.infer<typeof startCrewRunInputSchema>;
+
+// Input schema for looking up the variables a run needs values for: a crew, a task or an agent
+export const getRunInputVariablesInputSchema = z.object({
+  agent_id: z.number().optional(),
+  task_id: z.number().optional(),
+  crew_id: z.number().optional()
+});
+
+export type GetRunInputVariablesInput = z.infer<typeof getRunInputVariablesInputSchema>;
+
+// Input schema for browsing run history, newest first by default.
+// cursor is the id of the last run on the previous page.
+export const listAgentRunsInputSchema = z.object({
+  agent_id: z.number().optional(),
+  status: runStatusSchema.optional(),
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+  search: z.string().trim().min(1).optional(), // Case-insensitive match on input_text
+  sort: z.enum(['newest', 'oldest']).default('newest'),
+  cursor: z.number().optional(),
+  limit: z.number().int().min(1).max(100).default(20)
+});
+
+export type ListAgentRunsInput = z.infer<typeof listAgentRunsInputSchema>;
+
+// One page of run history
+export const agentRunPageSchema = z.object({
+  items: z.array(agentRunSchema),
+  next_cursor: z.number().nullable() // Null on the last page
+});
+
+export type AgentRunPage = z.infer<typeof agentRunPageSchema>;
+
+// Archived agents and runs, most recently archived first. Runs of an archived agent are
+// left out; they come back when the agent is restored.
+export const archiveSchema = z.object({
+  agents: z.array(agentSchema),
+  runs: z.array(agentRunSchema)
+});
+
+export type Archive = z.infer<typeof archiveSchema>;
+
+// Input schema for moving a run to another status; see runs/state_machine.ts for the legal moves.
+// The timestamps default to now and may only be given for the transition that sets them.
 export const updateAgentRunInputSchema = z.object({
   id: z.number(),
-  status: z.enum(['pending', 'running', 'completed', 'failed']),
-  started_at: z.coerce.date().nullable().optional(),
-  completed_at: z.coerce.date().nullable().optional()
+  status: runStatusSchema,
+  started_at: z.coerce.date().optional(), // When moving to running
+  completed_at: z.coerce.date().optional() // When moving to completed, failed or cancelled
 });
 
 export type UpdateAgentRunInput = z.infer<typeof updateAgentRunInputSchema>;
@@ -87,8 +688,11 @@ export type UpdateAgentRunInput = z.infer<typeof updateAgentRunInputSchema>;
 // Input schema for creating agent output
 export const createAgentOutputInputSchema = z.object({
   run_id: z.number(),
-  output_type: z.enum(['log', 'result', 'error']),
+  output_type: outputTypeSchema,
   content: z.string(),
+  metadata: outputMetadataSchema.nullable().optional(),
+  agent_id: z.number().nullable().optional(),
+  task_id: z.number().nullable().optional(),
   timestamp: z.coerce.date().optional() // Optional, will default to now if not provided
 });
 
@@ -101,15 +705,140 @@ export const agentRunWithOutputsSchema = agentRunSchema.extend({
 
 export type AgentRunWithOutputs = z.infer<typeof agentRunWithOutputsSchema>;
 
+// Input schema for streaming a run; afterOutputId resumes a dropped stream after the last output seen
+export const streamAgentRunInputSchema = z.object({
+  runId: z.number(),
+  afterOutputId: z.number().int().nonnegative().optional()
+});
+
+export type StreamAgentRunInput = z.infer<typeof streamAgentRunInputSchema>;
+
 // Schema for streaming output events
 export const streamOutputEventSchema = z.object({
-  type: z.enum(['output', 'status_update', 'complete']),
+  type: z.enum(['output', 'status_update', 'step_update', 'complete']),
   run_id: z.number(),
   data: z.union([
     agentOutputSchema,
-    z.object({ status: z.enum(['pending', 'running', 'completed', 'failed']) }),
+    runStepSchema,
+    z.object({ status: runStatusSchema }),
     z.object({ final_result: z.string().optional() })
   ])
 });
 
-export type StreamOutputEvent = z.infer<typeof streamOutputEventSchema>;
\ No newline at end of file
+export type StreamOutputEvent = z.infer<typeof streamOutputEventSchema>;
+
+// Retention limits for one output type; an omitted limit never removes anything
+export const retentionRuleSchema = z.object({
+  max_age_days: z.number().positive().optional(),
+  max_per_run: z.number().int().positive().optional() // Keeps the newest outputs of the type per run
+});
+
+export type RetentionRule = z.infer<typeof retentionRuleSchema>;
+
+// Retention rules by output type; types without a rule are kept forever
+export const retentionRulesSchema = z.record(outputTypeSchema, retentionRuleSchema);
+
+export type RetentionRules = z.infer<typeof retentionRulesSchema>;
+
+// What a retention sweep would delete right now
+export const retentionReportSchema = z.object({
+  enabled: z.boolean(), // Whether the sweeper is actually running
+  rules: retentionRulesSchema,
+  generated_at: z.coerce.date(),
+  total: z.number().int(),
+  runs_affected: z.number().int(),
+  by_type: z.array(z.object({
+    output_type: outputTypeSchema,
+    count: z.number().int(),
+    oldest: z.coerce.date()
+  }))
+});
+
+export type RetentionReport = z.infer<typeof retentionReportSchema>;
+
+// One entry of a CrewAI config/agents.yaml. CrewAI ignores keys it doesn't know, so the
+// dashboard-only settings (description, temperature, max_tokens) travel along in the same file.
+// llm is "provider/model", a bare model id or a bare provider name.
+export const crewAgentConfigSchema = z.object({
+  role: z.string().trim().min(1),
+  goal: z.string().trim().min(1),
+  backstory: z.string().trim().min(1),
+  description: z.string().trim().nullable().optional(),
+  llm: z.string().trim().min(1).max(200).nullable().optional(),
+  temperature: agentTemperatureSchema.nullable().optional(),
+  max_tokens: agentMaxTokensSchema.nullable().optional(),
+  max_iter: agentMaxIterSchema.optional(),
+  max_rpm: agentMaxRpmSchema.nullable().optional(),
+  max_execution_time: agentMaxExecutionTimeSchema.nullable().optional(),
+  verbose: z.boolean().optional(),
+  allow_delegation: z.boolean().optional()
+});
+
+export type CrewAgentConfig = z.infer<typeof crewAgentConfigSchema>;
+
+// One entry of a CrewAI config/tasks.yaml; agent and context refer to entries by their YAML key
+export const crewTaskConfigSchema = z.object({
+  description: z.string().trim().min(1),
+  expected_output: z.string().trim().min(1),
+  agent: z.string().trim().min(1).nullable().optional(),
+  context: z.array(z.string().trim().min(1)).optional(),
+  output_file: z.string().trim().min(1).nullable().optional(), // Directories are dropped on import
+  async_execution: z.boolean().optional()
+});
+
+export type CrewTaskConfig = z.infer<typeof crewTaskConfigSchema>;
+
+// The two YAML files of a CrewAI project's config directory
+export const crewConfigFilesSchema = z.object({
+  agents_yaml: z.string(),
+  tasks_yaml: z.string()
+});
+
+export type CrewConfigFiles = z.infer<typeof crewConfigFilesSchema>;
+
+// What happens to an imported entry whose key matches an existing agent or task
+export const importConflictStrategySchema = z.enum(['skip', 'overwrite', 'rename']);
+
+export type ImportConflictStrategy = z.infer<typeof importConflictStrategySchema>;
+
+// Input schema for importing CrewAI YAML; a dry run only reports what the import would change
+export const importAgentsInputSchema = z.object({
+  agents_yaml: z.string(),
+  tasks_yaml: z.string().default(''),
+  on_conflict: importConflictStrategySchema.default('skip'),
+  dry_run: z.boolean().default(false)
+});
+
+export type ImportAgentsInput = z.infer<typeof importAgentsInputSchema>;
+
+export const importActionSchema = z.enum(['create', 'update', 'unchanged', 'skip', 'rename']);
+
+export type ImportAction = z.infer<typeof importActionSchema>;
+
+// A field of an imported entry, as written in the YAML, before and after the import
+export const importChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+export type ImportChange = z.infer<typeof importChangeSchema>;
+
+export const importItemSchema = z.object({
+  kind: z.enum(['agent', 'task']),
+  key: z.string(), // The entry's key in the YAML file
+  name: z.string(), // The record's name once imported; renamed entries get a free one
+  action: importActionSchema,
+  id: z.number().nullable(), // Null for new records in a dry run
+  changes: z.array(importChangeSchema),
+  ignored_fields: z.array(z.string()) // Keys the dashboard has no equivalent for, e.g. tools
+});
+
+export type ImportItem = z.infer<typeof importItemSchema>;
+
+export const importAgentsResultSchema = z.object({
+  dry_run: z.boolean(),
+  items: z.array(importItemSchema)
+});
+
+export type ImportAgentsResult = z.infer<typeof importAgentsResultSchema>;
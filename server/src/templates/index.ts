@@ -0,0 +1,61 @@
+import { type RunInputs } from '../schema';
+import { InvalidInputError } from '../errors';
+
+// CrewAI-style {placeholders} in agents and tasks, filled in from the inputs a run starts with.
+// Only identifiers count as variables, so braces in JSON examples or code are left alone.
+const VARIABLE_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+interface AgentTemplate {
+  role: string;
+  goal: string;
+  backstory: string;
+}
+
+interface TaskTemplate {
+  description: string;
+  expected_output: string;
+}
+
+// Variable names in the order they first appear
+export const findTemplateVariables = (...texts: string[]): string[] => {
+  const variables = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      variables.add(match[1]);
+    }
+  }
+  return [...variables];
+};
+
+export const agentTemplateVariables = (agent: AgentTemplate): string[] =>
+  findTemplateVariables(agent.role, agent.goal, agent.backstory);
+
+export const taskTemplateVariables = (task: TaskTemplate): string[] =>
+  findTemplateVariables(task.description, task.expected_output);
+
+// Throws when any variable has no value; blank values count as missing
+export const assertInputsProvided = (variables: string[], inputs: RunInputs): void => {
+  const missing = [...new Set(variables)].filter(variable => !inputs[variable]?.trim());
+  if (missing.length > 0) {
+    throw new InvalidInputError(`Missing values for input variables: ${missing.join(', ')}`, { missing: missing.join(', ') });
+  }
+};
+
+// Variables without a value stay as they are
+export const renderTemplate = (text: string, inputs: RunInputs): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, variable: string) =>
+    Object.hasOwn(inputs, variable) ? inputs[variable] : placeholder
+  );
+
+export const renderAgent = <T extends AgentTemplate>(agent: T, inputs: RunInputs): T => ({
+  ...agent,
+  role: renderTemplate(agent.role, inputs),
+  goal: renderTemplate(agent.goal, inputs),
+  backstory: renderTemplate(agent.backstory, inputs)
+});
+
+export const renderTask = <T extends TaskTemplate>(task: T, inputs: RunInputs): T => ({
+  ...task,
+  description: renderTemplate(task.description, inputs),
+  expected_output: renderTemplate(task.expected_output, inputs)
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRevisionsTable } from '../db/schema';
+import { type CreateAgentInput } from '../schema';
+import { createAgent } from '../handlers/create_agent';
+import { updateAgent } from '../handlers/update_agent';
+import { startAgentRun } from '../handlers/start_agent_run';
+import { getAgentRevisions } from '../handlers/get_agent_revisions';
+import { diffAgentRevisions } from '../handlers/diff_agent_revisions';
+import { restoreAgentRevision } from '../handlers/restore_agent_revision';
+
+// Test agent data
+const testAgentData: CreateAgentInput = {
+  name: 'Versioned Agent',
+  description: 'Agent for revision tests',
+  role: 'Analyst',
+  goal: 'Analyze data',
+  backstory: 'Created for testing purposes',
+  max_iter: 20,
+  verbose: false,
+  allow_delegation: false,
+  is_active: true
+};
+
+describe('agent revisions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should write the first revision when an agent is created', async () => {
+    const agent = await createAgent(testAgentData);
+
+    const revisions = await getAgentRevisions(agent.id);
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].revision).toEqual(1);
+    expect(revisions[0].snapshot.role).toEqual('Analyst');
+    expect(revisions[0].snapshot.goal).toEqual('Analyze data');
+    expect(revisions[0].snapshot).not.toHaveProperty('is_active');
+  });
+
+  it('should add a revision per change, newest first, and leave older ones untouched', async () => {
+    const agent = await createAgent(testAgentData);
+    await updateAgent({ id: agent.id, role: 'Senior Analyst' });
+    await updateAgent({ id: agent.id, goal: 'Find trends', temperature: 0.3 });
+
+    const revisions = await getAgentRevisions(agent.id);
+
+    expect(revisions.map(r => r.revision)).toEqual([3, 2, 1]);
+    expect(revisions[0].snapshot.goal).toEqual('Find trends');
+    expect(revisions[0].snapshot.temperature).toEqual(0.3);
+    expect(revisions[1].snapshot.role).toEqual('Senior Analyst');
+    expect(revisions[2].snapshot.role).toEqual('Analyst');
+  });
+
+  it('should not add a revision when only activation changes', async () => {
+    const agent = await createAgent(testAgentData);
+    await updateAgent({ id: agent.id, is_active: false });
+    await updateAgent({ id: agent.id, role: 'Analyst' });
+
+    const revisions = await getAgentRevisions(agent.id);
+
+    expect(revisions).toHaveLength(1);
+  });
+
+  it('should link runs to the revision they started with', async () => {
+    const agent = await createAgent(testAgentData);
+    const firstRun = await startAgentRun({ agent_id: agent.id, input_text: 'Before the edit' });
+    await updateAgent({ id: agent.id, backstory: 'A changed backstory' });
+    const secondRun = await startAgentRun({ agent_id: agent.id, input_text: 'After the edit' });
+
+    const [latest, original] = await getAgentRevisions(agent.id);
+
+    expect(firstRun.agent_revision_id).toEqual(original.id);
+    expect(secondRun.agent_revision_id).toEqual(latest.id);
+  });
+
+  it('should record a revision for agents that predate versioning when they run', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Legacy', description: null, role: 'Old', goal: 'Keep going', backstory: 'From before' })
+      .returning()
+      .execute();
+
+    const run = await startAgentRun({ agent_id: agent.id, input_text: 'Hello' });
+
+    const revisions = await getAgentRevisions(agent.id);
+    expect(revisions).toHaveLength(1);
+    expect(run.agent_revision_id).toEqual(revisions[0].id);
+  });
+
+  it('should list the fields that changed between two revisions', async () => {
+    const agent = await createAgent(testAgentData);
+    await updateAgent({ id: agent.id, role: 'Senior Analyst', max_iter: 5 });
+    const [to, from] = await getAgentRevisions(agent.id);
+
+    const diff = await diffAgentRevisions({ from_revision_id: from.id, to_revision_id: to.id });
+
+    expect(diff.from.id).toEqual(from.id);
+    expect(diff.to.id).toEqual(to.id);
+    expect(diff.changes).toEqual([
+      { field: 'role', before: 'Analyst', after: 'Senior Analyst' },
+      { field: 'max_iter', before: 20, after: 5 }
+    ]);
+  });
+
+  it('should refuse to diff revisions of different agents', async () => {
+    const first = await createAgent(testAgentData);
+    const second = await createAgent({ ...testAgentData, name: 'Other Agent' });
+    const [firstRevision] = await getAgentRevisions(first.id);
+    const [secondRevision] = await getAgentRevisions(second.id);
+
+    await expect(diffAgentRevisions({ from_revision_id: firstRevision.id, to_revision_id: secondRevision.id }))
+      .rejects.toThrow(/different agents/i);
+    await expect(diffAgentRevisions({ from_revision_id: firstRevision.id, to_revision_id: 999 }))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should restore an earlier revision as a new revision', async () => {
+    const agent = await createAgent(testAgentData);
+    await updateAgent({ id: agent.id, role: 'Senior Analyst', llm: 'gpt-4o' });
+    const original = (await getAgentRevisions(agent.id))[1];
+
+    const restored = await restoreAgentRevision(original.id);
+
+    expect(restored.role).toEqual('Analyst');
+    expect(restored.llm).toBeNull();
+    expect(restored.is_active).toBe(true);
+
+    const revisions = await getAgentRevisions(agent.id);
+    expect(revisions.map(r => r.revision)).toEqual([3, 2, 1]);
+    expect(revisions[0].snapshot).toEqual(original.snapshot);
+
+    const stored = await db.select().from(agentRevisionsTable).execute();
+    expect(stored.find(r => r.revision === 2)!.snapshot.role).toEqual('Senior Analyst');
+  });
+
+  it('should throw when restoring a non-existent revision', async () => {
+    await expect(restoreAgentRevision(999)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable } from '../db/schema';
+import { getTools } from '../handlers/get_tools';
+import { getAgentTools } from '../handlers/get_agent_tools';
+import { setAgentTools } from '../handlers/set_agent_tools';
+import { NotFoundError } from '../errors';
+
+const testAgent = {
+  name: 'Tooled Agent',
+  description: 'Agent for tool tests',
+  role: 'Tester',
+  goal: 'Use tools',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+describe('agent tools', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    agentId = agent.id;
+  });
+
+  it('should describe every built-in tool with an example input', async () => {
+    const tools = await getTools();
+
+    expect(tools.map(tool => tool.name)).toEqual(['calculator', 'read_file', 'http_fetch', 'sql_query']);
+    tools.forEach(tool => {
+      expect(tool.description.length).toBeGreaterThan(0);
+      expect(Object.keys(tool.example_input).length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should start agents without tools', async () => {
+    expect(await getAgentTools(agentId)).toEqual([]);
+  });
+
+  it('should replace the tools of an agent', async () => {
+    await setAgentTools({ agent_id: agentId, tools: ['sql_query', 'calculator', 'calculator'] });
+    expect(await getAgentTools(agentId)).toEqual(['calculator', 'sql_query']);
+
+    const tools = await setAgentTools({ agent_id: agentId, tools: ['read_file'] });
+    expect(tools).toEqual(['read_file']);
+
+    expect(await setAgentTools({ agent_id: agentId, tools: [] })).toEqual([]);
+  });
+
+  it('should reject missing and deleted agents', async () => {
+    await expect(getAgentTools(agentId + 1)).rejects.toThrow(NotFoundError);
+    await expect(setAgentTools({ agent_id: agentId + 1, tools: ['calculator'] })).rejects.toThrow(NotFoundError);
+
+    await db.update(agentsTable).set({ deleted_at: new Date() }).execute();
+    await expect(getAgentTools(agentId)).rejects.toThrow(/not found/i);
+  });
+});
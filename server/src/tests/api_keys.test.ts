@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, apiKeysTable } from '../db/schema';
+import { authenticateApiKey, readBearerToken } from '../auth/api_keys';
+import { createApiKey } from '../handlers/create_api_key';
+import { getApiKeys } from '../handlers/get_api_keys';
+import { revokeApiKey } from '../handlers/revoke_api_key';
+import { createContext, router, scopedProcedure, requireApiKeyRunAccess, viewerProcedure } from '../trpc';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+
+// Test agent data
+const testAgent = {
+  name: 'External Agent',
+  description: 'Executed outside the server',
+  role: 'Worker',
+  goal: 'Report back',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+const testRouter = router({
+  watch: viewerProcedure.query(() => 'watching'),
+  writeOutput: scopedProcedure('outputs:write', 'admin')
+    .input(z.object({ run_id: z.number() }))
+    .use(requireApiKeyRunAccess((input: { run_id: number }) => input.run_id))
+    .mutation(({ input }) => `wrote to ${input.run_id}`)
+});
+
+// Builds a caller for a request carrying the key in its Authorization header
+const callerWithKey = async (key: string) => {
+  const options = {
+    req: { headers: { authorization: `Bearer ${key}` } },
+    res: { setHeader: () => undefined }
+  } as unknown as CreateHTTPContextOptions;
+  return testRouter.createCaller(await createContext(options));
+};
+
+describe('API keys', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+  let runId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    agentId = agent.id;
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Do the work', status: 'running' })
+      .returning()
+      .execute();
+    runId = run.id;
+  });
+
+  it('should return the key once and store only its hash', async () => {
+    const { api_key, key } = await createApiKey({ name: 'Executor', scopes: ['outputs:write'], agent_id: null });
+
+    expect(key).toStartWith('cak_');
+    expect(api_key.prefix).toEqual(key.slice(0, 12));
+    expect(api_key).not.toHaveProperty('key_hash');
+
+    const [stored] = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, api_key.id)).execute();
+    expect(stored.key_hash).not.toContain(key);
+
+    const listed = await getApiKeys();
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).not.toHaveProperty('key_hash');
+  });
+
+  it('should reject keys for unknown agents', async () => {
+    await expect(createApiKey({ name: 'Executor', scopes: ['runs:write'], agent_id: agentId + 1 }))
+      .rejects.toThrow(/agent with id \d+ not found/i);
+  });
+
+  it('should authenticate keys and record when they were last used', async () => {
+    const { api_key, key } = await createApiKey({ name: 'Executor', scopes: ['runs:read'], agent_id: null });
+    expect(api_key.last_used_at).toBeNull();
+
+    const principal = await authenticateApiKey(key);
+
+    expect(principal).toEqual({ id: api_key.id, name: 'Executor', scopes: ['runs:read'], agent_id: null });
+    const [stored] = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, api_key.id)).execute();
+    expect(stored.last_used_at).toBeInstanceOf(Date);
+
+    expect(await authenticateApiKey('cak_unknown')).toBeNull();
+  });
+
+  it('should stop accepting revoked keys', async () => {
+    const { api_key, key } = await createApiKey({ name: 'Executor', scopes: ['runs:read'], agent_id: null });
+
+    expect(await revokeApiKey(api_key.id)).toEqual({ success: true });
+    expect(await revokeApiKey(api_key.id)).toEqual({ success: false });
+    expect(await authenticateApiKey(key)).toBeNull();
+
+    const [listed] = await getApiKeys();
+    expect(listed.revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should read bearer tokens from the Authorization header', () => {
+    expect(readBearerToken('Bearer cak_abc')).toEqual('cak_abc');
+    expect(readBearerToken('bearer   cak_abc ')).toEqual('cak_abc');
+    expect(readBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(readBearerToken(undefined)).toBeNull();
+  });
+
+  it('should only let keys through procedures matching their scopes', async () => {
+    const writer = await createApiKey({ name: 'Writer', scopes: ['outputs:write'], agent_id: null });
+    const reader = await createApiKey({ name: 'Reader', scopes: ['runs:read'], agent_id: null });
+
+    const writerCaller = await callerWithKey(writer.key);
+    expect(await writerCaller.writeOutput({ run_id: runId })).toEqual(`wrote to ${runId}`);
+    // Keys never act as a signed-in user
+    await expect(writerCaller.watch()).rejects.toThrow(/sign in/i);
+
+    await expect((await callerWithKey(reader.key)).writeOutput({ run_id: runId })).rejects.toThrow(/outputs:write scope/i);
+    await expect((await callerWithKey('cak_unknown')).writeOutput({ run_id: runId })).rejects.toThrow(/api key/i);
+  });
+
+  it('should keep keys limited to an agent away from other agents runs', async () => {
+    const [otherAgent] = await db.insert(agentsTable).values({ ...testAgent, name: 'Other Agent' }).returning().execute();
+    const [otherRun] = await db.insert(agentRunsTable)
+      .values({ agent_id: otherAgent.id, input_text: 'Not yours', status: 'running' })
+      .returning()
+      .execute();
+    const { key } = await createApiKey({ name: 'Scoped', scopes: ['outputs:write'], agent_id: agentId });
+
+    const caller = await callerWithKey(key);
+
+    expect(await caller.writeOutput({ run_id: runId })).toEqual(`wrote to ${runId}`);
+    await expect(caller.writeOutput({ run_id: otherRun.id })).rejects.toThrow(/can't access run/i);
+  });
+});
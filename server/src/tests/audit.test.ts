@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, auditEventsTable } from '../db/schema';
+import { updateAgentInputSchema, type User } from '../schema';
+import { diffRecords, toAuditJson } from '../audit';
+import { createSession } from '../auth/sessions';
+import { createApiKey } from '../handlers/create_api_key';
+import { createUser } from '../handlers/create_user';
+import { updateAgent } from '../handlers/update_agent';
+import { listAuditEvents } from '../handlers/list_audit_events';
+import { getAuditProcedures } from '../handlers/get_audit_procedures';
+import { createContext, router, publicProcedure, viewerProcedure, editorProcedure, scopedProcedure } from '../trpc';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { z } from 'zod';
+
+// Test agent data
+const testAgent = {
+  name: 'Audited Agent',
+  description: 'Agent for audit tests',
+  role: 'Tester',
+  goal: 'Be audited',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+// Procedure names match the app router so the snapshot loaders apply
+const testRouter = router({
+  getAgents: viewerProcedure.query(() => 'agents'),
+  updateAgent: editorProcedure
+    .input(updateAgentInputSchema)
+    .mutation(({ input }) => updateAgent(input)),
+  login: publicProcedure
+    .input(z.object({ username: z.string(), password: z.string() }))
+    .mutation(({ input }) => input.username),
+  createAgentOutput: scopedProcedure('outputs:write', 'admin')
+    .mutation(() => 'recorded')
+});
+
+const callerFor = async (headers: Record<string, string>) => {
+  const options = {
+    req: { headers },
+    res: { setHeader: () => undefined }
+  } as unknown as CreateHTTPContextOptions;
+  return testRouter.createCaller(await createContext(options));
+};
+
+const callerAs = async (user: User) => {
+  const { token } = await createSession(user.id);
+  return callerFor({ cookie: `session=${token}` });
+};
+
+const allEvents = () => db.select().from(auditEventsTable).execute();
+
+describe('audit log', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    agentId = agent.id;
+  });
+
+  it('should redact secrets and serialize dates', () => {
+    const json = toAuditJson({
+      username: 'admin',
+      password: 'hunter22',
+      nested: { key: 'cak_secret', at: new Date('2030-01-01T00:00:00Z') }
+    });
+
+    expect(json).toEqual({
+      username: 'admin',
+      password: '[redacted]',
+      nested: { key: '[redacted]', at: '2030-01-01T00:00:00.000Z' }
+    });
+    expect(toAuditJson(undefined)).toBeNull();
+  });
+
+  it('should diff records field by field, ignoring updated_at', () => {
+    const changes = diffRecords(
+      { id: 1, name: 'Old', is_active: true, updated_at: new Date(1) },
+      { id: 1, name: 'New', is_active: false, updated_at: new Date(2) }
+    );
+
+    expect(changes).toEqual({
+      name: { from: 'Old', to: 'New' },
+      is_active: { from: true, to: false }
+    });
+    expect(diffRecords(null, { id: 1 })).toBeNull();
+  });
+
+  it('should record who changed what in an update', async () => {
+    const editor = await createUser({ username: 'editor', password: 'correct horse battery', role: 'editor' });
+    const caller = await callerAs(editor);
+
+    await caller.updateAgent({ id: agentId, is_active: false });
+
+    const [event] = await allEvents();
+    expect(event.actor_type).toEqual('user');
+    expect(event.user_id).toEqual(editor.id);
+    expect(event.actor_name).toEqual('editor');
+    expect(event.procedure).toEqual('updateAgent');
+    expect(event.success).toBe(true);
+    expect(event.input).toEqual({ id: agentId, is_active: false });
+    expect(event.changes).toEqual({ is_active: { from: true, to: false } });
+    expect((event.result as { is_active: boolean }).is_active).toBe(false);
+  });
+
+  it('should record refused mutations and skip queries', async () => {
+    const viewer = await createUser({ username: 'viewer', password: 'correct horse battery', role: 'viewer' });
+    const caller = await callerAs(viewer);
+
+    await caller.getAgents();
+    await expect(caller.updateAgent({ id: agentId, name: 'Hijacked' })).rejects.toThrow(/editor role/i);
+
+    const events = await allEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0].success).toBe(false);
+    expect(events[0].error).toMatch(/editor role/i);
+    expect(events[0].changes).toBeNull();
+  });
+
+  it('should record anonymous actors without their passwords', async () => {
+    const caller = await callerFor({});
+
+    await caller.login({ username: 'someone', password: 'not-in-the-log' });
+
+    const [event] = await allEvents();
+    expect(event.actor_type).toEqual('anonymous');
+    expect(event.input).toEqual({ username: 'someone', password: '[redacted]' });
+  });
+
+  it('should record API keys as actors', async () => {
+    const { api_key, key } = await createApiKey({ name: 'Executor', scopes: ['outputs:write'], agent_id: null });
+    const caller = await callerFor({ authorization: `Bearer ${key}` });
+
+    await caller.createAgentOutput();
+
+    const [event] = await allEvents();
+    expect(event.actor_type).toEqual('api_key');
+    expect(event.api_key_id).toEqual(api_key.id);
+    expect(event.actor_name).toEqual('Executor');
+  });
+
+  it('should list events newest first with filters and pagination', async () => {
+    const editor = await createUser({ username: 'editor', password: 'correct horse battery', role: 'editor' });
+    const caller = await callerAs(editor);
+    await caller.updateAgent({ id: agentId, name: 'First' });
+    await caller.updateAgent({ id: agentId, name: 'Second' });
+    await (await callerFor({})).login({ username: 'someone', password: 'secret' });
+
+    const firstPage = await listAuditEvents({ user_id: editor.id, limit: 1 });
+    expect(firstPage.items).toHaveLength(1);
+    expect(firstPage.items[0].changes).toEqual({ name: { from: 'First', to: 'Second' } });
+    expect(firstPage.next_cursor).not.toBeNull();
+
+    const secondPage = await listAuditEvents({ user_id: editor.id, limit: 1, cursor: firstPage.next_cursor! });
+    expect(secondPage.items[0].changes).toEqual({ name: { from: 'Audited Agent', to: 'First' } });
+    expect(secondPage.next_cursor).toBeNull();
+
+    const anonymous = await listAuditEvents({ actor_type: 'anonymous', limit: 50 });
+    expect(anonymous.items.map(event => event.procedure)).toEqual(['login']);
+
+    expect(await getAuditProcedures()).toEqual(['login', 'updateAgent']);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { hashPassword, verifyPassword } from '../auth/passwords';
+import { getSessionUser, readSessionToken, sessionCookie } from '../auth/sessions';
+import { createUser } from '../handlers/create_user';
+import { login } from '../handlers/login';
+import { logout } from '../handlers/logout';
+import { createContext, protectedProcedure, publicProcedure, router } from '../trpc';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { eq } from 'drizzle-orm';
+
+const credentials = { username: 'admin', password: 'correct horse battery', role: 'admin' as const };
+
+// Minimal request/response pair for building a context outside the HTTP server
+const contextOptions = (cookie?: string) => {
+  const setCookies: string[] = [];
+  const options = {
+    req: { headers: { cookie } },
+    res: { setHeader: (_name: string, value: string) => setCookies.push(value) }
+  } as unknown as CreateHTTPContextOptions;
+  return { options, setCookies };
+};
+
+const testRouter = router({
+  open: publicProcedure.query(({ ctx }) => ctx.user?.username ?? null),
+  secret: protectedProcedure.query(({ ctx }) => `hello ${ctx.user.username}`)
+});
+
+describe('authentication', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should hash passwords with a salt and verify them', async () => {
+    const first = await hashPassword('s3cret-password');
+    const second = await hashPassword('s3cret-password');
+
+    expect(first).toStartWith('scrypt$');
+    expect(first).not.toEqual(second);
+    expect(await verifyPassword('s3cret-password', first)).toBe(true);
+    expect(await verifyPassword('wrong-password', first)).toBe(false);
+    expect(await verifyPassword('s3cret-password', 'not-a-hash')).toBe(false);
+  });
+
+  it('should create users without exposing the password hash', async () => {
+    const user = await createUser(credentials);
+
+    expect(user.username).toEqual('admin');
+    expect(user.role).toEqual('admin');
+    expect(user).not.toHaveProperty('password_hash');
+
+    const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(stored.password_hash).not.toContain(credentials.password);
+  });
+
+  it('should reject duplicate usernames', async () => {
+    await createUser(credentials);
+
+    await expect(createUser(credentials)).rejects.toThrow(/already exists/i);
+  });
+
+  it('should sign in with the right password and open a session', async () => {
+    const user = await createUser(credentials);
+
+    const result = await login(credentials);
+
+    expect(result.user).toEqual(user);
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(await getSessionUser(result.token)).toEqual(user);
+
+    // Only a hash of the token is stored
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).not.toEqual(result.token);
+  });
+
+  it('should reject wrong passwords and unknown users alike', async () => {
+    await createUser(credentials);
+
+    await expect(login({ ...credentials, password: 'wrong password' })).rejects.toThrow(/invalid username or password/i);
+    await expect(login({ ...credentials, username: 'nobody' })).rejects.toThrow(/invalid username or password/i);
+  });
+
+  it('should not accept expired sessions', async () => {
+    await createUser(credentials);
+    const { token } = await login(credentials);
+
+    await db.update(sessionsTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+    expect(await getSessionUser(token)).toBeNull();
+  });
+
+  it('should end the session on logout', async () => {
+    await createUser(credentials);
+    const { token } = await login(credentials);
+
+    expect(await logout(token)).toEqual({ success: true });
+    expect(await getSessionUser(token)).toBeNull();
+    expect(await logout(null)).toEqual({ success: false });
+  });
+
+  it('should read and write the session cookie', () => {
+    expect(readSessionToken('theme=dark; session=abc%2F123; other=1')).toEqual('abc/123');
+    expect(readSessionToken('theme=dark')).toBeNull();
+    expect(readSessionToken(undefined)).toBeNull();
+
+    const cookie = sessionCookie('abc/123', new Date('2030-01-01T00:00:00Z'));
+    expect(cookie).toContain('session=abc%2F123');
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('Expires=Tue, 01 Jan 2030 00:00:00 GMT');
+    expect(sessionCookie(null)).toContain('Max-Age=0');
+  });
+
+  it('should only let signed-in users call protected procedures', async () => {
+    await createUser(credentials);
+    const { token } = await login(credentials);
+
+    const anonymous = testRouter.createCaller(await createContext(contextOptions().options));
+    expect(await anonymous.open()).toBeNull();
+    await expect(anonymous.secret()).rejects.toThrow(/sign in/i);
+
+    const signedIn = testRouter.createCaller(await createContext(contextOptions(`session=${token}`).options));
+    expect(await signedIn.open()).toEqual('admin');
+    expect(await signedIn.secret()).toEqual('hello admin');
+
+    const forged = testRouter.createCaller(await createContext(contextOptions('session=forged').options));
+    await expect(forged.secret()).rejects.toThrow(/sign in/i);
+  });
+});
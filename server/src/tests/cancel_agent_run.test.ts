@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, runStepsTable, tasksTable } from '../db/schema';
+import { cancelAgentRun } from '../handlers/cancel_agent_run';
+import { claimNextRun, executeRun } from '../executor/run_executor';
+import { type AgentRuntime } from '../executor/runtime';
+import { eq, asc } from 'drizzle-orm';
+
+const testAgent = {
+  name: 'Test Agent',
+  description: 'Agent for cancellation tests',
+  role: 'Tester',
+  goal: 'Get cancelled',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+// Never finishes on its own; settles only once the run is aborted
+const blockingRuntime: AgentRuntime = {
+  name: 'blocking',
+  execute: async ({ log, signal }) => {
+    await log('Working forever');
+    return new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+  }
+};
+
+describe('cancelAgentRun', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    agentId = agent.id;
+  });
+
+  it('should cancel a pending run so it is never claimed', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Not needed anymore' })
+      .returning()
+      .execute();
+
+    const result = await cancelAgentRun(run.id);
+
+    expect(result.status).toEqual('cancelled');
+    expect(result.completed_at).toBeInstanceOf(Date);
+    expect(await claimNextRun()).toBeNull();
+  });
+
+  it('should stop a run that is executing', async () => {
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Runaway' })
+      .execute();
+    const claimed = await claimNextRun();
+
+    const execution = executeRun(claimed!, blockingRuntime);
+    // Let the runtime start before cancelling
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await cancelAgentRun(claimed!.id);
+    const finished = await execution;
+
+    expect(finished!.status).toEqual('cancelled');
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+    expect(outputs.map(o => o.content)).toEqual(['Working forever', 'Run cancelled']);
+    expect(outputs.some(o => o.output_type === 'error')).toBe(false);
+  });
+
+  it('should cancel the unfinished steps of a crew run', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Task', description: 'Do it', expected_output: 'Done' })
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Crew work', status: 'running' })
+      .returning()
+      .execute();
+    await db.insert(runStepsTable)
+      .values([
+        { run_id: run.id, position: 0, task_id: task.id, agent_id: agentId, status: 'completed' },
+        { run_id: run.id, position: 1, task_id: task.id, agent_id: agentId }
+      ])
+      .execute();
+
+    await cancelAgentRun(run.id);
+
+    const steps = await db.select()
+      .from(runStepsTable)
+      .where(eq(runStepsTable.run_id, run.id))
+      .orderBy(asc(runStepsTable.position))
+      .execute();
+    expect(steps.map(s => s.status)).toEqual(['completed', 'cancelled']);
+  });
+
+  it('should keep a run cancelled before its executor subscribed', async () => {
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Cancelled right after the claim' })
+      .execute();
+    const claimed = await claimNextRun();
+    await cancelAgentRun(claimed!.id);
+
+    const quickRuntime: AgentRuntime = { name: 'quick', execute: async () => 'Finished anyway' };
+    const result = await executeRun(claimed!, quickRuntime);
+
+    expect(result!.status).toEqual('cancelled');
+  });
+
+  it('should reject runs that already finished', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Done', status: 'completed' })
+      .returning()
+      .execute();
+
+    await expect(cancelAgentRun(run.id)).rejects.toThrow(/is completed and cannot move to cancelled/i);
+  });
+
+  it('should throw for a non-existent run', async () => {
+    await expect(cancelAgentRun(999)).rejects.toThrow(/Agent run with ID 999 not found/i);
+  });
+});
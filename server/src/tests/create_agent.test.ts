@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { agentsTable } from '../db/schema';
-import { type CreateAgentInput } from '../schema';
+import { type CreateAgentInput, createAgentInputSchema } from '../schema';
 import { createAgent } from '../handlers/create_agent';
 import { eq } from 'drizzle-orm';
 
@@ -167,4 +167,61 @@ describe('createAgent', () => {
     const timeDifference = Math.abs(result.updated_at.getTime() - result.created_at.getTime());
     expect(timeDifference).toBeLessThan(1000); // Less than 1 second difference
   });
+
+  it('should store the selected LLM provider', async () => {
+    const result = await createAgent({ ...testInput, llm_provider: 'ollama' });
+
+    expect(result.llm_provider).toEqual('ollama');
+  });
+
+  it('should leave the LLM provider unset by default', async () => {
+    const result = await createAgent(testInput);
+
+    expect(result.llm_provider).toBeNull();
+  });
+
+  it('should store the execution settings', async () => {
+    const result = await createAgent({
+      ...testInput,
+      llm: 'gpt-4o',
+      temperature: 0.7,
+      max_tokens: 2048,
+      max_iter: 5,
+      max_rpm: 30,
+      max_execution_time: 120,
+      verbose: true,
+      allow_delegation: true
+    });
+
+    expect(result.llm).toEqual('gpt-4o');
+    expect(result.temperature).toBeCloseTo(0.7);
+    expect(result.max_tokens).toEqual(2048);
+    expect(result.max_iter).toEqual(5);
+    expect(result.max_rpm).toEqual(30);
+    expect(result.max_execution_time).toEqual(120);
+    expect(result.verbose).toBe(true);
+    expect(result.allow_delegation).toBe(true);
+  });
+
+  it('should apply execution defaults when settings are omitted', async () => {
+    const result = await createAgent(testInput);
+
+    expect(result.llm).toBeNull();
+    expect(result.temperature).toBeNull();
+    expect(result.max_tokens).toBeNull();
+    expect(result.max_iter).toEqual(20);
+    expect(result.max_rpm).toBeNull();
+    expect(result.max_execution_time).toBeNull();
+    expect(result.verbose).toBe(false);
+    expect(result.allow_delegation).toBe(false);
+  });
+
+  it('should reject execution settings outside their ranges', () => {
+    expect(createAgentInputSchema.safeParse({ ...testInput, temperature: 2.5 }).success).toBe(false);
+    expect(createAgentInputSchema.safeParse({ ...testInput, max_tokens: 0 }).success).toBe(false);
+    expect(createAgentInputSchema.safeParse({ ...testInput, max_iter: 1.5 }).success).toBe(false);
+    expect(createAgentInputSchema.safeParse({ ...testInput, max_rpm: -1 }).success).toBe(false);
+    expect(createAgentInputSchema.safeParse({ ...testInput, max_execution_time: 100000 }).success).toBe(false);
+    expect(createAgentInputSchema.safeParse({ ...testInput, temperature: 0, max_iter: 1 }).success).toBe(true);
+  });
 });
\ No newline at end of file
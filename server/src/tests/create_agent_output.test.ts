@@ -59,6 +59,24 @@ describe('createAgentOutput', () => {
     expect(typeof result.id).toBe('number');
     expect(result.timestamp).toBeInstanceOf(Date);
     expect(result.created_at).toBeInstanceOf(Date);
+    expect(result.metadata).toBeNull();
+  });
+
+  it('should store structured metadata with the output', async () => {
+    const result = await createAgentOutput({
+      run_id: testRunId,
+      output_type: 'metric',
+      content: 'Token usage: 12 input, 3 output',
+      metadata: { model: 'gpt-4o-mini', input_tokens: 12, output_tokens: 3 }
+    });
+
+    const saved = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.id, result.id))
+      .execute();
+
+    expect(saved[0].output_type).toEqual('metric');
+    expect(saved[0].metadata).toEqual({ model: 'gpt-4o-mini', input_tokens: 12, output_tokens: 3 });
   });
 
   it('should create agent output with result type', async () => {
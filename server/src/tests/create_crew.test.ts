@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { createCrewInputSchema } from '../schema';
+import { createCrew } from '../handlers/create_crew';
+import { eq } from 'drizzle-orm';
+
+const baseAgent = {
+  description: 'Agent for crew tests',
+  goal: 'Get the job done',
+  backstory: 'Works well in a team',
+  is_active: true
+};
+
+const baseTask = {
+  description: 'Do the thing',
+  expected_output: 'The thing, done'
+};
+
+describe('createCrew', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let researcherId: number;
+  let writerId: number;
+  let taskIds: number[];
+
+  beforeEach(async () => {
+    const agents = await db.insert(agentsTable)
+      .values([
+        { ...baseAgent, name: 'Researcher', role: 'Researcher' },
+        { ...baseAgent, name: 'Writer', role: 'Writer' }
+      ])
+      .returning()
+      .execute();
+    researcherId = agents[0].id;
+    writerId = agents[1].id;
+
+    const tasks = await db.insert(tasksTable)
+      .values([{ ...baseTask, name: 'Research' }, { ...baseTask, name: 'Write' }])
+      .returning()
+      .execute();
+    taskIds = tasks.map(t => t.id);
+  });
+
+  it('should create a sequential crew by default', async () => {
+    const input = createCrewInputSchema.parse({
+      name: 'Content crew',
+      description: null,
+      manager_agent_id: null,
+      agent_ids: [researcherId, writerId],
+      task_ids: taskIds
+    });
+
+    const result = await createCrew(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Content crew');
+    expect(result.process).toEqual('sequential');
+    expect(result.agent_ids).toEqual([researcherId, writerId]);
+    expect(result.task_ids).toEqual(taskIds);
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const stored = await db.select().from(crewsTable).where(eq(crewsTable.id, result.id)).execute();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].task_ids).toEqual(taskIds);
+  });
+
+  it('should create a hierarchical crew with a manager', async () => {
+    const [manager] = await db.insert(agentsTable)
+      .values({ ...baseAgent, name: 'Manager', role: 'Manager' })
+      .returning()
+      .execute();
+
+    const result = await createCrew({
+      name: 'Managed crew',
+      description: 'Led by a manager',
+      process: 'hierarchical',
+      manager_agent_id: manager.id,
+      agent_ids: [researcherId, writerId],
+      task_ids: taskIds
+    });
+
+    expect(result.process).toEqual('hierarchical');
+    expect(result.manager_agent_id).toEqual(manager.id);
+  });
+
+  it('should reject unknown agents and tasks', async () => {
+    const input = {
+      name: 'Broken crew',
+      description: null,
+      process: 'sequential' as const,
+      manager_agent_id: null,
+      agent_ids: [researcherId],
+      task_ids: taskIds
+    };
+
+    await expect(createCrew({ ...input, agent_ids: [researcherId, 999] })).rejects.toThrow(/agent with ID 999 not found/i);
+    await expect(createCrew({ ...input, task_ids: [999] })).rejects.toThrow(/task with ID 999 not found/i);
+  });
+
+  it('should reject a manager that is also a crew member', async () => {
+    await expect(createCrew({
+      name: 'Confused crew',
+      description: null,
+      process: 'hierarchical',
+      manager_agent_id: researcherId,
+      agent_ids: [researcherId, writerId],
+      task_ids: taskIds
+    })).rejects.toThrow(/cannot also be a crew member/i);
+  });
+
+  it('should require at least one agent and one task', () => {
+    const result = createCrewInputSchema.safeParse({
+      name: 'Empty crew',
+      description: null,
+      manager_agent_id: null,
+      agent_ids: [],
+      task_ids: []
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
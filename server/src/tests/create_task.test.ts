@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, tasksTable } from '../db/schema';
+import { type CreateTaskInput, createTaskInputSchema } from '../schema';
+import { createTask } from '../handlers/create_task';
+import { eq } from 'drizzle-orm';
+
+const testAgent = {
+  name: 'Research Agent',
+  description: 'Agent for task tests',
+  role: 'Researcher',
+  goal: 'Find things out',
+  backstory: 'Curious by nature',
+  is_active: true
+};
+
+const testInput: CreateTaskInput = {
+  name: 'Daily market scan',
+  description: 'Scan the market for new competitors',
+  expected_output: 'A bullet list of competitors',
+  agent_id: null,
+  context_task_ids: [],
+  output_file: null,
+  async_execution: false
+};
+
+describe('createTask', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a task with all fields', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+
+    const result = await createTask({
+      ...testInput,
+      agent_id: agent.id,
+      output_file: 'scan.md',
+      async_execution: true
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.name).toEqual('Daily market scan');
+    expect(result.description).toEqual(testInput.description);
+    expect(result.expected_output).toEqual(testInput.expected_output);
+    expect(result.agent_id).toEqual(agent.id);
+    expect(result.context_task_ids).toEqual([]);
+    expect(result.output_file).toEqual('scan.md');
+    expect(result.async_execution).toBe(true);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save the task to the database', async () => {
+    const result = await createTask(testInput);
+
+    const tasks = await db.select()
+      .from(tasksTable)
+      .where(eq(tasksTable.id, result.id))
+      .execute();
+
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].name).toEqual(testInput.name);
+    expect(tasks[0].agent_id).toBeNull();
+  });
+
+  it('should store context task ids', async () => {
+    const first = await createTask(testInput);
+    const second = await createTask({ ...testInput, name: 'Summary', context_task_ids: [first.id, first.id] });
+
+    expect(second.context_task_ids).toEqual([first.id]);
+  });
+
+  it('should throw for a non-existent agent', async () => {
+    await expect(createTask({ ...testInput, agent_id: 9999 }))
+      .rejects.toThrow(/agent with id 9999 not found/i);
+  });
+
+  it('should throw for a non-existent context task', async () => {
+    await expect(createTask({ ...testInput, context_task_ids: [4242] }))
+      .rejects.toThrow(/context task with id 4242 not found/i);
+  });
+
+  it('should only accept plain output file names', () => {
+    expect(createTaskInputSchema.safeParse({ ...testInput, output_file: '../etc/passwd' }).success).toBe(false);
+    expect(createTaskInputSchema.safeParse({ ...testInput, output_file: 'report.md' }).success).toBe(true);
+  });
+});
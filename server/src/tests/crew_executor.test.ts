@@ -0,0 +1,322 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentOutputsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { type Agent } from '../schema';
+import { startCrewRun } from '../handlers/start_crew_run';
+import { claimNextRun, executeRun } from '../executor/run_executor';
+import { parseDelegation } from '../executor/crew_executor';
+import { type AgentRuntime } from '../executor/runtime';
+import { eq, asc } from 'drizzle-orm';
+
+const baseAgent = {
+  description: null,
+  goal: 'Get the job done',
+  backstory: 'Works well in a team',
+  is_active: true
+};
+
+// Answers with the agent's name and its prompt so tests can see who did what with which context
+const recordingRuntime = (calls: { agent: string; prompt: string }[]): AgentRuntime => ({
+  name: 'recording',
+  execute: async ({ agent, prompt, log }) => {
+    calls.push({ agent: agent.name, prompt });
+    await log(`${agent.name} is working`);
+    return `${agent.name} output #${calls.length}`;
+  }
+});
+
+describe('crew executor', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agents: Agent[];
+
+  beforeEach(async () => {
+    agents = await db.insert(agentsTable)
+      .values([
+        { ...baseAgent, name: 'Researcher', role: 'Researcher' },
+        { ...baseAgent, name: 'Writer', role: 'Writer' }
+      ])
+      .returning()
+      .execute();
+  });
+
+  const loadSteps = (runId: number) => db.select()
+    .from(runStepsTable)
+    .where(eq(runStepsTable.run_id, runId))
+    .orderBy(asc(runStepsTable.position))
+    .execute();
+
+  it('should run tasks in order and hand each result to the next task', async () => {
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'Research', description: 'Research the topic', expected_output: 'Notes', agent_id: agents[0].id },
+        { name: 'Write', description: 'Write the article', expected_output: 'Article', agent_id: agents[1].id }
+      ])
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agents.map(a => a.id), task_ids: tasks.map(t => t.id) })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'AI agents' });
+
+    const calls: { agent: string; prompt: string }[] = [];
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, recordingRuntime(calls));
+
+    expect(finished!.status).toEqual('completed');
+    expect(calls.map(c => c.agent)).toEqual(['Researcher', 'Writer']);
+    expect(calls[0].prompt).toContain('Crew input: AI agents');
+    expect(calls[1].prompt).toContain('Researcher output #1');
+
+    const steps = await loadSteps(claimed!.id);
+    expect(steps.map(s => s.status)).toEqual(['completed', 'completed']);
+    expect(steps[1].output).toEqual('Writer output #2');
+    expect(steps[1].input_text).toContain('Write the article');
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+    expect(outputs.filter(o => o.output_type !== 'result').map(o => [o.output_type, o.content])).toEqual([
+      ['delegation', 'Handing "Research" to Researcher'],
+      ['log', 'Researcher is working'],
+      ['delegation', 'Handing "Write" to Writer'],
+      ['log', 'Writer is working']
+    ]);
+    expect(outputs[2].metadata).toEqual({ task_id: tasks[1].id, agent_id: agents[1].id, delegated_by: null });
+    expect(outputs[3].agent_id).toEqual(agents[1].id);
+    expect(outputs[3].task_id).toEqual(tasks[1].id);
+    expect(outputs[outputs.length - 1].output_type).toEqual('result');
+    expect(outputs[outputs.length - 1].content).toEqual('Writer output #2');
+  });
+
+  it('should let the manager delegate tasks in hierarchical crews', async () => {
+    const [manager] = await db.insert(agentsTable)
+      .values({ ...baseAgent, name: 'Manager', role: 'Manager', allow_delegation: true })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Write', description: 'Write the article', expected_output: 'Article' })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', process: 'hierarchical', manager_agent_id: manager.id, agent_ids: agents.map(a => a.id), task_ids: [task.id] })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    const calls: { agent: string; prompt: string }[] = [];
+    const delegatingRuntime: AgentRuntime = {
+      name: 'delegating',
+      execute: async (ctx) => {
+        if (ctx.agent.id === manager.id) {
+          calls.push({ agent: ctx.agent.name, prompt: ctx.prompt });
+          return 'The Writer should take this one';
+        }
+        return recordingRuntime(calls).execute(ctx);
+      }
+    };
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, delegatingRuntime);
+
+    expect(finished!.status).toEqual('completed');
+    expect(calls.map(c => c.agent)).toEqual(['Manager', 'Writer']);
+    expect(calls[0].prompt).toContain('- Researcher: Researcher');
+
+    const steps = await loadSteps(claimed!.id);
+    expect(steps[0].agent_id).toEqual(agents[1].id);
+
+    const [delegation] = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.output_type, 'delegation'))
+      .execute();
+    expect(delegation.metadata).toEqual({ task_id: task.id, agent_id: agents[1].id, delegated_by: manager.id });
+  });
+
+  it('should not ask a manager that may not delegate', async () => {
+    const [manager] = await db.insert(agentsTable)
+      .values({ ...baseAgent, name: 'Manager', role: 'Manager', allow_delegation: false })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Write', description: 'Write the article', expected_output: 'Article', agent_id: agents[1].id })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', process: 'hierarchical', manager_agent_id: manager.id, agent_ids: agents.map(a => a.id), task_ids: [task.id] })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    const calls: { agent: string; prompt: string }[] = [];
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, recordingRuntime(calls));
+
+    // The task stays with the agent it names; the manager is never consulted
+    expect(finished!.status).toEqual('completed');
+    expect(calls.map(c => c.agent)).toEqual(['Writer']);
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .execute();
+    expect(outputs.some(o => o.content.includes('Manager is not allowed to delegate'))).toBe(true);
+    const delegation = outputs.find(o => o.output_type === 'delegation');
+    expect(delegation!.metadata).toEqual({ task_id: task.id, agent_id: agents[1].id, delegated_by: null });
+  });
+
+  it('should mark the failing step and fail the run', async () => {
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'First', description: 'First', expected_output: 'Done' },
+        { name: 'Second', description: 'Second', expected_output: 'Done' }
+      ])
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [agents[0].id], task_ids: tasks.map(t => t.id) })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    const failingRuntime: AgentRuntime = {
+      name: 'failing',
+      execute: async () => {
+        throw new Error('Step exploded');
+      }
+    };
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, failingRuntime);
+
+    expect(finished!.status).toEqual('failed');
+    const steps = await loadSteps(claimed!.id);
+    expect(steps.map(s => s.status)).toEqual(['failed', 'pending']);
+  });
+
+  it('should start consecutive async tasks together', async () => {
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'A', description: 'A', expected_output: 'Done', async_execution: true },
+        { name: 'B', description: 'B', expected_output: 'Done', async_execution: true },
+        { name: 'Summary', description: 'Summarize', expected_output: 'Done' }
+      ])
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agents.map(a => a.id), task_ids: tasks.map(t => t.id) })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const prompts: string[] = [];
+    const slowRuntime: AgentRuntime = {
+      name: 'slow',
+      execute: async ({ agent, prompt }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        inFlight--;
+        prompts.push(prompt);
+        return `${agent.name} done`;
+      }
+    };
+
+    const claimed = await claimNextRun();
+    await executeRun(claimed!, slowRuntime);
+
+    expect(maxInFlight).toEqual(2);
+    // The summary sees both async results
+    expect(prompts[2]).toContain('Researcher done');
+    expect(prompts[2]).toContain('Writer done');
+  });
+
+  it('should stop the rest of an async batch when one task fails', async () => {
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'A', description: 'A', expected_output: 'Done', agent_id: agents[0].id, async_execution: true },
+        { name: 'B', description: 'B', expected_output: 'Done', agent_id: agents[1].id, async_execution: true },
+        { name: 'Summary', description: 'Summarize', expected_output: 'Done' }
+      ])
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agents.map(a => a.id), task_ids: tasks.map(t => t.id) })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    let writerStopped = false;
+    const runtime: AgentRuntime = {
+      name: 'half-failing',
+      execute: async ({ agent, signal }) => {
+        if (agent.name === 'Researcher') {
+          throw new Error('Research exploded');
+        }
+        // The writer only stops when told to
+        await new Promise((_, reject) => {
+          const stop = () => {
+            writerStopped = true;
+            reject(signal.reason);
+          };
+          if (signal.aborted) {
+            stop();
+          }
+          signal.addEventListener('abort', stop, { once: true });
+        });
+        return 'unreachable';
+      }
+    };
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, runtime);
+
+    expect(finished!.status).toEqual('failed');
+    expect(writerStopped).toBe(true);
+    const steps = await loadSteps(claimed!.id);
+    expect(steps.map(s => s.status)).toEqual(['failed', 'cancelled', 'pending']);
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .execute();
+    expect(outputs.some(o => o.output_type === 'error' && o.content.includes('Research exploded'))).toBe(true);
+  });
+
+  it('should fail a task nobody in the crew is left to take', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Write', description: 'Write the article', expected_output: 'Article' })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', process: 'hierarchical', agent_ids: [agents[0].id], task_ids: [task.id] })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+    // The only member is purged after the run was queued
+    await db.update(crewsTable).set({ agent_ids: [agents[0].id + 100] }).where(eq(crewsTable.id, crew.id)).execute();
+
+    const calls: { agent: string; prompt: string }[] = [];
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, recordingRuntime(calls));
+
+    expect(finished!.status).toEqual('failed');
+    expect(calls).toHaveLength(0);
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .execute();
+    expect(outputs.some(o => o.content.includes('Crew "Crew" has no members left to take "Write"'))).toBe(true);
+  });
+
+  it('should pick the first coworker the manager names', () => {
+    expect(parseDelegation('writer, then maybe the Researcher', agents)?.name).toEqual('Writer');
+    expect(parseDelegation('Nobody fits', agents)).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, agentRevisionsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { deleteAgent } from '../handlers/delete_agent';
+import { restoreAgent } from '../handlers/restore_agent';
+import { purgeAgent } from '../handlers/purge_agent';
+import { deleteAgentRun } from '../handlers/delete_agent_run';
+import { getAgents } from '../handlers/get_agents';
+import { getAgentById } from '../handlers/get_agent_by_id';
+import { getAgentRuns } from '../handlers/get_agent_runs';
+import { getArchive } from '../handlers/get_archive';
+import { startAgentRun } from '../handlers/start_agent_run';
+import { updateAgent } from '../handlers/update_agent';
+import { NotFoundError } from '../errors';
+import { ensureAgentRevision } from '../agents/revisions';
+import { eq } from 'drizzle-orm';
+
+// Test agent data
+const testAgent = {
+  name: 'Archivable Agent',
+  description: 'Agent for deletion tests',
+  role: 'Tester',
+  goal: 'Get deleted',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+describe('agent deletion', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    agentId = agent.id;
+  });
+
+  const insertRun = async (status: 'pending' | 'running' | 'completed' | 'failed' = 'completed') => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: `A ${status} run`, status })
+      .returning()
+      .execute();
+    return run;
+  };
+
+  it('should hide a deleted agent and its runs from queries', async () => {
+    await insertRun();
+
+    const result = await deleteAgent(agentId);
+
+    expect(result.success).toBe(true);
+    expect(await getAgents('all')).toHaveLength(0);
+    await expect(getAgentById(agentId)).rejects.toThrow(NotFoundError);
+    expect(await getAgentRuns(agentId)).toHaveLength(0);
+    await expect(updateAgent({ id: agentId, name: 'Renamed' })).rejects.toThrow(NotFoundError);
+  });
+
+  it('should keep deleted agents and their runs in the database', async () => {
+    const run = await insertRun();
+
+    await deleteAgent(agentId);
+
+    const [agent] = await db.select().from(agentsTable).where(eq(agentsTable.id, agentId)).execute();
+    const [storedRun] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, run.id)).execute();
+    expect(agent.deleted_at).toBeInstanceOf(Date);
+    expect(storedRun.deleted_at).toEqual(agent.deleted_at);
+  });
+
+  it('should not start runs for a deleted agent', async () => {
+    await deleteAgent(agentId);
+
+    await expect(startAgentRun({ agent_id: agentId, input_text: 'Hello' })).rejects.toThrow(/not found/i);
+  });
+
+  it('should refuse to delete an agent with active runs', async () => {
+    await insertRun('running');
+
+    await expect(deleteAgent(agentId)).rejects.toThrow(/active run/i);
+    expect(await getAgentById(agentId)).not.toBeNull();
+  });
+
+  it('should refuse to delete an agent that an active crew run may still use', async () => {
+    const [lead] = await db.insert(agentsTable)
+      .values({ ...testAgent, name: 'Lead Agent' })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [lead.id, agentId], task_ids: [] })
+      .returning()
+      .execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: lead.id, crew_id: crew.id, input_text: 'Go', status: 'running' })
+      .execute();
+
+    await expect(deleteAgent(agentId)).rejects.toThrow(/active run/i);
+    expect(await getAgentById(agentId)).not.toBeNull();
+  });
+
+  it('should reject missing or already deleted agents', async () => {
+    await expect(deleteAgent(999)).rejects.toThrow(NotFoundError);
+
+    await deleteAgent(agentId);
+    await expect(deleteAgent(agentId)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should list deleted agents in the archive and restore them with their runs', async () => {
+    const archivedEarlier = await insertRun();
+    const archivedWithAgent = await insertRun();
+    await deleteAgentRun(archivedEarlier.id);
+    await deleteAgent(agentId);
+
+    const archive = await getArchive();
+    expect(archive.agents.map(a => a.id)).toEqual([agentId]);
+    // Runs archived with their agent come back with it, so the archive doesn't list them separately
+    expect(archive.runs).toHaveLength(0);
+
+    const restored = await restoreAgent(agentId);
+
+    expect(restored).not.toBeNull();
+    expect(restored!.deleted_at).toBeNull();
+    expect((await getAgentRuns(agentId)).map(r => r.id)).toEqual([archivedWithAgent.id]);
+    expect((await getArchive()).runs.map(r => r.id)).toEqual([archivedEarlier.id]);
+  });
+
+  it('should throw when restoring a missing agent', async () => {
+    await expect(restoreAgent(999)).rejects.toThrow(/agent with ID 999 not found/i);
+  });
+
+  it('should only purge deleted agents', async () => {
+    await expect(purgeAgent(agentId)).rejects.toThrow(/must be deleted/i);
+    await expect(purgeAgent(999)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should purge an agent with its runs, outputs, steps and revisions', async () => {
+    await ensureAgentRevision(db, agentId);
+    const run = await insertRun();
+    await db.insert(agentOutputsTable).values({ run_id: run.id, output_type: 'result', content: 'Done' }).execute();
+    await db.insert(runStepsTable).values({ run_id: run.id, position: 0, agent_id: agentId }).execute();
+
+    await deleteAgent(agentId);
+    const result = await purgeAgent(agentId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(agentsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(agentRunsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(agentOutputsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(runStepsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(agentRevisionsTable).execute()).toHaveLength(0);
+  });
+
+  it('should detach a purged agent from tasks and crews', async () => {
+    const [other] = await db.insert(agentsTable)
+      .values({ ...testAgent, name: 'Other Agent' })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Task', description: 'Do it', expected_output: 'Done', agent_id: agentId })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', process: 'hierarchical', manager_agent_id: agentId, agent_ids: [other.id], task_ids: [task.id] })
+      .returning()
+      .execute();
+    const [memberCrew] = await db.insert(crewsTable)
+      .values({ name: 'Member crew', agent_ids: [agentId, other.id], task_ids: [task.id] })
+      .returning()
+      .execute();
+    // Output recorded by the purged agent in another agent's crew run
+    const [otherRun] = await db.insert(agentRunsTable)
+      .values({ agent_id: other.id, crew_id: memberCrew.id, input_text: 'Crew work', status: 'completed' })
+      .returning()
+      .execute();
+    await db.insert(agentOutputsTable)
+      .values({ run_id: otherRun.id, agent_id: agentId, output_type: 'log', content: 'Helping out' })
+      .execute();
+
+    await deleteAgent(agentId);
+    await purgeAgent(agentId);
+
+    const [storedTask] = await db.select().from(tasksTable).where(eq(tasksTable.id, task.id)).execute();
+    const [storedCrew] = await db.select().from(crewsTable).where(eq(crewsTable.id, crew.id)).execute();
+    const [storedMemberCrew] = await db.select().from(crewsTable).where(eq(crewsTable.id, memberCrew.id)).execute();
+    const [output] = await db.select().from(agentOutputsTable).execute();
+    expect(storedTask.agent_id).toBeNull();
+    expect(storedCrew.manager_agent_id).toBeNull();
+    expect(storedMemberCrew.agent_ids).toEqual([other.id]);
+    expect(output.agent_id).toBeNull();
+  });
+});
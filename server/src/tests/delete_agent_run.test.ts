@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, runStepsTable } from '../db/schema';
+import { deleteAgentRun } from '../handlers/delete_agent_run';
+import { restoreAgentRun } from '../handlers/restore_agent_run';
+import { purgeAgentRun } from '../handlers/purge_agent_run';
+import { deleteAgent } from '../handlers/delete_agent';
+import { getAgentRun } from '../handlers/get_agent_run';
+import { getAgentRuns } from '../handlers/get_agent_runs';
+import { getAgentOutputs } from '../handlers/get_agent_outputs';
+import { getRunSteps } from '../handlers/get_run_steps';
+import { listAgentRuns } from '../handlers/list_agent_runs';
+import { getArchive } from '../handlers/get_archive';
+import { streamAgentRun } from '../handlers/stream_agent_run';
+import { NotFoundError } from '../errors';
+
+// Test agent data
+const testAgent = {
+  name: 'Test Agent',
+  description: 'Agent for run deletion tests',
+  role: 'Tester',
+  goal: 'Produce runs',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+describe('agent run deletion', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    agentId = agent.id;
+  });
+
+  const insertRun = async (status: 'pending' | 'running' | 'completed' | 'failed' = 'completed') => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: `A ${status} run`, status })
+      .returning()
+      .execute();
+    await db.insert(agentOutputsTable)
+      .values({ run_id: run.id, output_type: 'result', content: 'Answer' })
+      .execute();
+    await db.insert(runStepsTable)
+      .values({ run_id: run.id, position: 0, agent_id: agentId })
+      .execute();
+    return run;
+  };
+
+  it('should hide a deleted run, its outputs and steps from queries', async () => {
+    const run = await insertRun();
+    const kept = await insertRun('failed');
+
+    const result = await deleteAgentRun(run.id);
+
+    expect(result.success).toBe(true);
+    await expect(getAgentRun(run.id)).rejects.toThrow(NotFoundError);
+    expect(await getAgentOutputs(run.id)).toHaveLength(0);
+    expect(await getRunSteps(run.id)).toHaveLength(0);
+    expect((await getAgentRuns()).map(r => r.id)).toEqual([kept.id]);
+    expect((await listAgentRuns({ sort: 'newest', limit: 20 })).items.map(r => r.id)).toEqual([kept.id]);
+  });
+
+  it('should not stream a deleted run', async () => {
+    const run = await insertRun();
+    await deleteAgentRun(run.id);
+
+    await expect(streamAgentRun(run.id).next()).rejects.toThrow(/not found/i);
+  });
+
+  it('should refuse to delete a run that is still active', async () => {
+    const run = await insertRun('running');
+
+    await expect(deleteAgentRun(run.id)).rejects.toThrow(/cancel it first/i);
+  });
+
+  it('should reject missing or already deleted runs', async () => {
+    const run = await insertRun();
+    await expect(deleteAgentRun(999)).rejects.toThrow(NotFoundError);
+
+    await deleteAgentRun(run.id);
+    await expect(deleteAgentRun(run.id)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should list deleted runs in the archive and restore them', async () => {
+    const run = await insertRun();
+    await deleteAgentRun(run.id);
+
+    expect((await getArchive()).runs.map(r => r.id)).toEqual([run.id]);
+
+    const restored = await restoreAgentRun(run.id);
+
+    expect(restored!.deleted_at).toBeNull();
+    expect(await getAgentOutputs(run.id)).toHaveLength(1);
+    expect((await getArchive()).runs).toHaveLength(0);
+  });
+
+  it('should not restore a run while its agent is deleted', async () => {
+    const run = await insertRun();
+    await deleteAgentRun(run.id);
+    await deleteAgent(agentId);
+
+    await expect(restoreAgentRun(run.id)).rejects.toThrow(/restore the agent/i);
+    await expect(restoreAgentRun(999)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should purge a deleted run with its outputs and steps', async () => {
+    const run = await insertRun();
+    await expect(purgeAgentRun(run.id)).rejects.toThrow(/must be deleted/i);
+
+    await deleteAgentRun(run.id);
+    const result = await purgeAgentRun(run.id);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(agentRunsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(agentOutputsTable).execute()).toHaveLength(0);
+    expect(await db.select().from(runStepsTable).execute()).toHaveLength(0);
+    await expect(purgeAgentRun(run.id)).rejects.toThrow(NotFoundError);
+  });
+});
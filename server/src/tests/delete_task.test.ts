@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, crewsTable, tasksTable } from '../db/schema';
+import { deleteTask } from '../handlers/delete_task';
+import { NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const baseTask = {
+  name: 'Disposable task',
+  description: 'Will be deleted',
+  expected_output: 'Nothing'
+};
+
+describe('deleteTask', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete an existing task', async () => {
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+
+    const result = await deleteTask(task.id);
+
+    expect(result.success).toBe(true);
+    const remaining = await db.select().from(tasksTable).execute();
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should reject a non-existent task', async () => {
+    await expect(deleteTask(9999)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should remove the task from other tasks context', async () => {
+    const [context] = await db.insert(tasksTable).values(baseTask).returning().execute();
+    const [dependent] = await db.insert(tasksTable)
+      .values({ ...baseTask, name: 'Dependent', context_task_ids: [context.id] })
+      .returning()
+      .execute();
+
+    await deleteTask(context.id);
+
+    const [stored] = await db.select().from(tasksTable).where(eq(tasksTable.id, dependent.id)).execute();
+    expect(stored.context_task_ids).toEqual([]);
+  });
+
+  it('should remove the task from crews', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Agent', description: null, role: 'Role', goal: 'Goal', backstory: 'Backstory' })
+      .returning()
+      .execute();
+    const tasks = await db.insert(tasksTable)
+      .values([baseTask, { ...baseTask, name: 'Kept' }])
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [agent.id], task_ids: tasks.map(t => t.id) })
+      .returning()
+      .execute();
+
+    await deleteTask(tasks[0].id);
+
+    const [stored] = await db.select().from(crewsTable).where(eq(crewsTable.id, crew.id)).execute();
+    expect(stored.task_ids).toEqual([tasks[1].id]);
+  });
+
+  it('should keep past runs but unlink them from the task', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Agent', description: null, role: 'Role', goal: 'Goal', backstory: 'Backstory' })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, task_id: task.id, input_text: baseTask.description })
+      .returning()
+      .execute();
+
+    await deleteTask(task.id);
+
+    const [stored] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, run.id)).execute();
+    expect(stored.task_id).toBeNull();
+    expect(stored.input_text).toEqual(baseTask.description);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'bun:test';
+import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { router, publicProcedure, viewerProcedure, type Context } from '../trpc';
+import { ConflictError, InactiveError, InvalidInputError, NotFoundError } from '../errors';
+import { RunTransitionError } from '../runs/state_machine';
+
+const testRouter = router({
+  missing: publicProcedure.query(() => {
+    throw new NotFoundError('Agent', 7);
+  }),
+  inactive: publicProcedure.query(() => {
+    throw new InactiveError('Agent', 7);
+  }),
+  conflict: publicProcedure.query(() => {
+    throw new ConflictError('User admin already exists', { username: 'admin' });
+  }),
+  transition: publicProcedure.query(() => {
+    throw new RunTransitionError(3, 'completed', 'pending');
+  }),
+  invalid: publicProcedure.query(() => {
+    throw new InvalidInputError('Provide either input_text or task_id');
+  }),
+  bug: publicProcedure.query(() => {
+    throw new Error('Cannot read properties of undefined');
+  }),
+  signedIn: viewerProcedure.query(() => 'hello')
+});
+
+const anonymous: Context = { user: null, sessionToken: null, apiKey: null, setCookie: () => undefined };
+
+// Calls a procedure over HTTP so the error formatter shapes the response
+const request = async (path: string) => {
+  const response = await fetchRequestHandler({
+    endpoint: '/api',
+    req: new Request(`http://localhost/api/${path}`),
+    router: testRouter,
+    createContext: () => anonymous
+  });
+  const body = await response.json() as { error: { json: { message: string; data: Record<string, unknown> } } };
+  return { status: response.status, error: body.error.json };
+};
+
+describe('domain errors', () => {
+  it('should answer with the error code and status of the domain error', async () => {
+    const cases: [string, number, string][] = [
+      ['missing', 404, 'NOT_FOUND'],
+      ['inactive', 412, 'PRECONDITION_FAILED'],
+      ['conflict', 409, 'CONFLICT'],
+      ['transition', 409, 'CONFLICT'],
+      ['invalid', 400, 'BAD_REQUEST'],
+      ['signedIn', 401, 'UNAUTHORIZED']
+    ];
+
+    for (const [path, status, code] of cases) {
+      const response = await request(path);
+      expect(response.status).toEqual(status);
+      expect(response.error.data['code']).toEqual(code);
+    }
+  });
+
+  it('should pass the details on as the cause', async () => {
+    const missing = await request('missing');
+    expect(missing.error.message).toEqual('Agent with ID 7 not found');
+    expect(missing.error.data['cause']).toEqual({ name: 'NotFoundError', details: { entity: 'Agent', id: 7 } });
+
+    const transition = await request('transition');
+    expect(transition.error.data['cause']).toEqual({
+      name: 'RunTransitionError',
+      details: { entity: 'Agent run', id: 3, from: 'completed', to: 'pending' }
+    });
+  });
+
+  it('should keep unexpected errors internal', async () => {
+    const response = await request('bug');
+
+    expect(response.status).toEqual(500);
+    expect(response.error.data['code']).toEqual('INTERNAL_SERVER_ERROR');
+    expect(response.error.data['cause']).toBeNull();
+  });
+});
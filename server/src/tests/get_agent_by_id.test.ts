@@ -4,6 +4,7 @@ import { db } from '../db';
 import { agentsTable } from '../db/schema';
 import { type CreateAgentInput } from '../schema';
 import { getAgentById } from '../handlers/get_agent_by_id';
+import { NotFoundError } from '../errors';
 
 // Test agent data
 const testAgent: CreateAgentInput = {
@@ -53,12 +54,9 @@ describe('getAgentById', () => {
     expect(result!.updated_at).toBeInstanceOf(Date);
   });
 
-  it('should return null when agent ID does not exist', async () => {
+  it('should throw when agent ID does not exist', async () => {
     // Try to fetch an agent with a non-existent ID
-    const result = await getAgentById(99999);
-
-    // Verify the result is null
-    expect(result).toBeNull();
+    await expect(getAgentById(99999)).rejects.toThrow(NotFoundError);
   });
 
   it('should handle agent with null description', async () => {
@@ -114,17 +112,11 @@ describe('getAgentById', () => {
 
   it('should handle negative ID numbers', async () => {
     // Try to fetch an agent with a negative ID
-    const result = await getAgentById(-1);
-
-    // Verify the result is null
-    expect(result).toBeNull();
+    await expect(getAgentById(-1)).rejects.toThrow(/agent with ID -1 not found/i);
   });
 
   it('should handle zero ID', async () => {
     // Try to fetch an agent with ID zero
-    const result = await getAgentById(0);
-
-    // Verify the result is null
-    expect(result).toBeNull();
+    await expect(getAgentById(0)).rejects.toThrow(/agent with ID 0 not found/i);
   });
 });
\ No newline at end of file
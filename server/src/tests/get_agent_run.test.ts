@@ -8,9 +8,8 @@ describe('getAgentRun', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
-  it('should return null for non-existent run', async () => {
-    const result = await getAgentRun(999);
-    expect(result).toBeNull();
+  it('should throw for non-existent run', async () => {
+    await expect(getAgentRun(999)).rejects.toThrow(/agent run with ID 999 not found/i);
   });
 
   it('should return agent run with empty outputs array when no outputs exist', async () => {
@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { agentsTable, agentRunsTable } from '../db/schema';
-import { type CreateAgentInput, type StartAgentRunInput } from '../schema';
+import { type CreateAgentInput } from '../schema';
 import { getAgentRuns } from '../handlers/get_agent_runs';
 import { eq } from 'drizzle-orm';
 
@@ -29,17 +29,17 @@ describe('getAgentRuns', () => {
     is_active: true
   };
 
-  const testRun1: StartAgentRunInput = {
+  const testRun1 = {
     agent_id: 1,
     input_text: 'First test run'
   };
 
-  const testRun2: StartAgentRunInput = {
+  const testRun2 = {
     agent_id: 1,
     input_text: 'Second test run'
   };
 
-  const testRun3: StartAgentRunInput = {
+  const testRun3 = {
     agent_id: 2,
     input_text: 'Third test run for different agent'
   };
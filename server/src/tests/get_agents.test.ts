@@ -142,4 +142,16 @@ describe('getAgents', () => {
     expect(agent.created_at).toBeInstanceOf(Date);
     expect(agent.updated_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+
+  it('should list inactive or all agents when asked', async () => {
+    await db.insert(agentsTable)
+      .values([testAgent1, inactiveAgent])
+      .execute();
+
+    const inactive = await getAgents('inactive');
+    const all = await getAgents('all');
+
+    expect(inactive.map(a => a.name)).toEqual(['Inactive Agent']);
+    expect(all.map(a => a.name).sort()).toEqual(['Inactive Agent', 'Research Agent']);
+  });
+});
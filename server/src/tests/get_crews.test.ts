@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { getCrews } from '../handlers/get_crews';
+
+describe('getCrews', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty array when there are no crews', async () => {
+    const result = await getCrews();
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return all crews ordered by name', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Agent', description: null, role: 'Helper', goal: 'Help', backstory: 'Helpful', is_active: true })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Task', description: 'Do it', expected_output: 'Done' })
+      .returning()
+      .execute();
+
+    await db.insert(crewsTable)
+      .values([
+        { name: 'Zeta crew', agent_ids: [agent.id], task_ids: [task.id] },
+        { name: 'Alpha crew', process: 'hierarchical', agent_ids: [agent.id], task_ids: [task.id] }
+      ])
+      .execute();
+
+    const result = await getCrews();
+
+    expect(result.map(c => c.name)).toEqual(['Alpha crew', 'Zeta crew']);
+    expect(result[0].process).toEqual('hierarchical');
+    expect(result[1].agent_ids).toEqual([agent.id]);
+  });
+});
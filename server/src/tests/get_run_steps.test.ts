@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, runStepsTable, tasksTable } from '../db/schema';
+import { getRunSteps } from '../handlers/get_run_steps';
+
+describe('getRunSteps', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty array for runs without steps', async () => {
+    const result = await getRunSteps(999);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return the steps of a run in position order', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Agent', description: null, role: 'Helper', goal: 'Help', backstory: 'Helpful', is_active: true })
+      .returning()
+      .execute();
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'First', description: 'First', expected_output: 'Done' },
+        { name: 'Second', description: 'Second', expected_output: 'Done' }
+      ])
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Go' })
+      .returning()
+      .execute();
+
+    await db.insert(runStepsTable)
+      .values([
+        { run_id: run.id, position: 1, task_id: tasks[1].id, agent_id: agent.id },
+        { run_id: run.id, position: 0, task_id: tasks[0].id, agent_id: agent.id, status: 'completed', output: 'First done' }
+      ])
+      .execute();
+
+    const result = await getRunSteps(run.id);
+
+    expect(result.map(s => s.position)).toEqual([0, 1]);
+    expect(result[0].status).toEqual('completed');
+    expect(result[0].output).toEqual('First done');
+    expect(result[1].status).toEqual('pending');
+    expect(result[1].started_at).toBeNull();
+  });
+});
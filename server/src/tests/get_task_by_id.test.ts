@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { getTaskById } from '../handlers/get_task_by_id';
+
+describe('getTaskById', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the task when it exists', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({
+        name: 'Lookup task',
+        description: 'Find it',
+        expected_output: 'Found it',
+        output_file: 'found.txt'
+      })
+      .returning()
+      .execute();
+
+    const result = await getTaskById(task.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(task.id);
+    expect(result!.name).toEqual('Lookup task');
+    expect(result!.output_file).toEqual('found.txt');
+  });
+
+  it('should throw for a non-existent task', async () => {
+    await expect(getTaskById(9999)).rejects.toThrow(/task with ID 9999 not found/i);
+  });
+});
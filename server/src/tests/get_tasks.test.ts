@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { getTasks } from '../handlers/get_tasks';
+
+const baseTask = {
+  description: 'Do the thing',
+  expected_output: 'The thing, done'
+};
+
+describe('getTasks', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty array when there are no tasks', async () => {
+    const result = await getTasks();
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return all tasks ordered by name', async () => {
+    await db.insert(tasksTable)
+      .values([
+        { ...baseTask, name: 'Write report' },
+        { ...baseTask, name: 'Collect data', async_execution: true }
+      ])
+      .execute();
+
+    const result = await getTasks();
+
+    expect(result).toHaveLength(2);
+    expect(result.map(t => t.name)).toEqual(['Collect data', 'Write report']);
+    expect(result[0].async_execution).toBe(true);
+    expect(result[0].context_task_ids).toEqual([]);
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentRevisionsTable, agentsTable, tasksTable } from '../db/schema';
+import { importAgentsInputSchema, type ImportAgentsInput, type User } from '../schema';
+import { exportAgents } from '../handlers/export_agents';
+import { importAgents } from '../handlers/import_agents';
+import { createUser } from '../handlers/create_user';
+import { setAgentAccess } from '../handlers/set_agent_access';
+import { parseLlm } from '../agents/crewai_config';
+import { ForbiddenError, InvalidInputError } from '../errors';
+import { asc, eq } from 'drizzle-orm';
+
+const agentsYaml = `
+researcher:
+  role: >
+    {topic} Senior Data Researcher
+  goal: Uncover developments in {topic}
+  backstory: A seasoned researcher
+  llm: openai/gpt-4o
+  tools: [SerperDevTool]
+
+reporting_analyst:
+  role: Reporting Analyst
+  goal: Turn findings into reports
+  backstory: Detail oriented
+  max_iter: 5
+`;
+
+const tasksYaml = `
+reporting_task:
+  description: Write the report
+  expected_output: A markdown report
+  agent: reporting_analyst
+  context: [research_task]
+  output_file: output/report.md
+
+research_task:
+  description: Research {topic}
+  expected_output: Ten bullet points
+  agent: researcher
+`;
+
+const importInput = (input: Partial<ImportAgentsInput>): ImportAgentsInput =>
+  importAgentsInputSchema.parse({ agents_yaml: agentsYaml, tasks_yaml: tasksYaml, ...input });
+
+const loadAgents = () => db.select().from(agentsTable).orderBy(asc(agentsTable.id)).execute();
+const loadTasks = () => db.select().from(tasksTable).orderBy(asc(tasksTable.id)).execute();
+
+describe('importAgents', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let editor: User;
+
+  beforeEach(async () => {
+    editor = await createUser({ username: 'editor', password: 'correct horse battery', role: 'editor' });
+  });
+
+  it('should create agents and tasks from CrewAI config files', async () => {
+    const result = await importAgents(importInput({}), editor);
+
+    expect(result.dry_run).toBe(false);
+    expect(result.items.map(item => [item.kind, item.key, item.action])).toEqual([
+      ['agent', 'researcher', 'create'],
+      ['agent', 'reporting_analyst', 'create'],
+      ['task', 'reporting_task', 'create'],
+      ['task', 'research_task', 'create']
+    ]);
+    expect(result.items[0].ignored_fields).toEqual(['tools']);
+
+    const [researcher, analyst] = await loadAgents();
+    expect(researcher.name).toEqual('Researcher');
+    expect(researcher.role).toEqual('{topic} Senior Data Researcher');
+    expect(researcher.llm_provider).toEqual('openai');
+    expect(researcher.llm).toEqual('gpt-4o');
+    expect(researcher.owner_id).toEqual(editor.id);
+    expect(analyst.name).toEqual('Reporting Analyst');
+    expect(analyst.max_iter).toEqual(5);
+
+    const revisions = await db.select().from(agentRevisionsTable).execute();
+    expect(revisions).toHaveLength(2);
+
+    // Context may refer to a task defined further down
+    const [reportingTask, researchTask] = await loadTasks();
+    expect(reportingTask.agent_id).toEqual(analyst.id);
+    expect(reportingTask.context_task_ids).toEqual([researchTask.id]);
+    expect(reportingTask.output_file).toEqual('report.md');
+    expect(researchTask.agent_id).toEqual(researcher.id);
+  });
+
+  it('should preview without writing anything', async () => {
+    const result = await importAgents(importInput({ dry_run: true }), editor);
+
+    expect(result.dry_run).toBe(true);
+    expect(result.items).toHaveLength(4);
+    expect(result.items.every(item => item.id === null)).toBe(true);
+    expect(result.items[0].changes).toContainEqual({ field: 'llm', before: null, after: 'openai/gpt-4o' });
+    expect(await loadAgents()).toHaveLength(0);
+    expect(await loadTasks()).toHaveLength(0);
+  });
+
+  it('should round-trip through an export unchanged', async () => {
+    await importAgents(importInput({}), editor);
+    const exported = await exportAgents();
+
+    expect(exported.agents_yaml).toContain('researcher:\n  role: "{topic} Senior Data Researcher"\n');
+    expect(exported.tasks_yaml).toContain('  context:\n    - research_task\n');
+
+    const result = await importAgents(importInput({ ...exported, on_conflict: 'overwrite' }), editor);
+
+    expect(result.items.map(item => item.action)).toEqual(['unchanged', 'unchanged', 'unchanged', 'unchanged']);
+    expect(await loadAgents()).toHaveLength(2);
+    expect(await db.select().from(agentRevisionsTable).execute()).toHaveLength(2);
+  });
+
+  it('should skip, overwrite or rename entries whose names are taken', async () => {
+    await importAgents(importInput({}), editor);
+    const edited = agentsYaml.replace('max_iter: 5', 'max_iter: 8');
+
+    const skipped = await importAgents(importInput({ agents_yaml: edited }), editor);
+    expect(skipped.items.map(item => item.action)).toEqual(['skip', 'skip', 'skip', 'skip']);
+    expect((await loadAgents())[1].max_iter).toEqual(5);
+
+    const overwritten = await importAgents(importInput({ agents_yaml: edited, on_conflict: 'overwrite' }), editor);
+    expect(overwritten.items[1]).toMatchObject({
+      action: 'update',
+      changes: [{ field: 'max_iter', before: 5, after: 8 }]
+    });
+    expect(overwritten.items[0].action).toEqual('unchanged');
+    const [, analyst] = await loadAgents();
+    expect(analyst.max_iter).toEqual(8);
+    expect(await db.select().from(agentRevisionsTable).where(eq(agentRevisionsTable.agent_id, analyst.id)).execute()).toHaveLength(2);
+
+    const renamed = await importAgents(importInput({ agents_yaml: edited, on_conflict: 'rename' }), editor);
+    expect(renamed.items.map(item => [item.name, item.action])).toEqual([
+      ['Researcher 2', 'rename'],
+      ['Reporting Analyst 2', 'rename'],
+      ['Reporting Task 2', 'rename'],
+      ['Research Task 2', 'rename']
+    ]);
+
+    // Renamed tasks point at the renamed agents and at each other
+    const agents = await loadAgents();
+    const tasks = await loadTasks();
+    expect(agents).toHaveLength(4);
+    expect(tasks[2].agent_id).toEqual(agents[3].id);
+    expect(tasks[2].context_task_ids).toEqual([tasks[3].id]);
+  });
+
+  it('should leave fields an entry leaves out alone when overwriting', async () => {
+    await importAgents(importInput({}), editor);
+    await db.update(agentsTable).set({ temperature: 0.3 }).where(eq(agentsTable.name, 'Researcher')).execute();
+
+    const result = await importAgents(importInput({ on_conflict: 'overwrite' }), editor);
+
+    expect(result.items[0].action).toEqual('unchanged');
+    expect((await loadAgents())[0].temperature).toEqual(0.3);
+  });
+
+  it('should refuse to overwrite agents the user may not use', async () => {
+    await importAgents(importInput({}), editor);
+    const [researcher] = await loadAgents();
+    const other = await createUser({ username: 'other', password: 'correct horse battery', role: 'editor' });
+    await setAgentAccess({ agent_id: researcher.id, user_ids: [editor.id] }, editor);
+
+    await expect(importAgents(importInput({ on_conflict: 'overwrite' }), other)).rejects.toThrow(ForbiddenError);
+    expect((await importAgents(importInput({ on_conflict: 'skip' }), other)).items[0].action).toEqual('skip');
+  });
+
+  it('should reject files it cannot import, writing nothing', async () => {
+    await expect(importAgents(importInput({ agents_yaml: 'researcher:\n  role: a\n  role: b\n' }), editor))
+      .rejects.toThrow('agents.yaml: Line 3: duplicate key "role"');
+    await expect(importAgents(importInput({ agents_yaml: 'researcher:\n  role: Researcher\n  goal: Research\n' }), editor))
+      .rejects.toThrow('agents.yaml: researcher.backstory: Required');
+    await expect(importAgents(importInput({ tasks_yaml: tasksYaml.replace('agent: researcher', 'agent: writer') }), editor))
+      .rejects.toThrow(InvalidInputError);
+
+    expect(await loadAgents()).toHaveLength(0);
+    expect(await loadTasks()).toHaveLength(0);
+  });
+
+  it('should read provider and model from LiteLLM-style ids', () => {
+    expect(parseLlm('anthropic/claude-sonnet-4')).toEqual({ llm_provider: 'anthropic', llm: 'claude-sonnet-4' });
+    expect(parseLlm('openai')).toEqual({ llm_provider: 'openai', llm: null });
+    expect(parseLlm('groq/llama-3.1-70b')).toEqual({ llm_provider: null, llm: 'groq/llama-3.1-70b' });
+  });
+});
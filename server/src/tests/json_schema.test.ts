@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+import { validateJson } from '../json_schema';
+import { jsonSchemaSchema, type JsonSchema } from '../schema';
+
+const invoiceSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    customer: { type: 'string', minLength: 1 },
+    status: { enum: ['draft', 'sent'] },
+    total: { type: 'number', minimum: 0 },
+    lines: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' }, quantity: { type: 'integer' } },
+        required: ['sku', 'quantity'],
+        additionalProperties: false
+      }
+    },
+    note: { type: ['string', 'null'] }
+  },
+  required: ['customer', 'total', 'lines']
+};
+
+describe('JSON Schema validation', () => {
+  it('should accept values that match', () => {
+    expect(validateJson({
+      customer: 'ACME',
+      status: 'sent',
+      total: 12.5,
+      lines: [{ sku: 'ABC-1', quantity: 2 }],
+      note: null
+    }, invoiceSchema)).toEqual([]);
+  });
+
+  it('should report every mismatch with its path', () => {
+    const errors = validateJson({
+      customer: '',
+      status: 'paid',
+      total: -1,
+      lines: [{ sku: 'abc', quantity: 1.5, colour: 'red' }],
+      note: 3
+    }, invoiceSchema);
+
+    expect(errors).toEqual([
+      '$.customer: must be at least 1 characters long',
+      '$.status: must be one of "draft", "sent"',
+      '$.total: must be at least 0',
+      '$.lines[0].sku: must match the pattern ^[A-Z]{3}-\\d+$',
+      '$.lines[0].quantity: expected integer, got number',
+      '$.lines[0].colour: is not allowed',
+      '$.note: expected string or null, got integer'
+    ]);
+  });
+
+  it('should report missing required properties and wrong root types', () => {
+    expect(validateJson({ customer: 'ACME' }, invoiceSchema)).toEqual(['$.total: is required', '$.lines: is required']);
+    // Inherited properties such as toString don't count as present
+    expect(validateJson({}, { type: 'object', required: ['toString'] })).toEqual(['$.toString: is required']);
+    expect(validateJson([], invoiceSchema)).toEqual(['$: expected object, got array']);
+  });
+
+  it('should treat integers as numbers and compare constants by value', () => {
+    expect(validateJson(3, { type: 'number' })).toEqual([]);
+    expect(validateJson({ a: [1] }, { const: { a: [1] } })).toEqual([]);
+    expect(validateJson({ a: [2] }, { const: { a: [1] } })).toEqual(['$: must be {"a":[1]}']);
+  });
+
+  it('should pass anyOf when one branch matches', () => {
+    const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] };
+
+    expect(validateJson('one', schema)).toEqual([]);
+    expect(validateJson(['one', 'two'], schema)).toEqual([]);
+    expect(validateJson(1, schema)[0]).toMatch(/does not match any of the allowed shapes/);
+  });
+
+  it('should only accept the supported keywords', () => {
+    expect(jsonSchemaSchema.safeParse(invoiceSchema).success).toBe(true);
+    expect(jsonSchemaSchema.safeParse({ type: 'object', oneOf: [] }).success).toBe(false);
+    expect(jsonSchemaSchema.safeParse({ type: 'decimal' }).success).toBe(false);
+    expect(jsonSchemaSchema.safeParse({ type: 'string', pattern: '(' }).success).toBe(false);
+    expect(jsonSchemaSchema.safeParse({ properties: { nested: { format: 'email' } } }).success).toBe(false);
+  });
+});
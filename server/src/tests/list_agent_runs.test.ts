@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable } from '../db/schema';
+import { type ListAgentRunsInput } from '../schema';
+import { listAgentRuns } from '../handlers/list_agent_runs';
+
+const baseAgent = {
+  description: null,
+  goal: 'Do work',
+  backstory: 'Hard working',
+  is_active: true
+};
+
+const defaults: ListAgentRunsInput = { sort: 'newest', limit: 20 };
+
+describe('listAgentRuns', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentIds: number[];
+
+  beforeEach(async () => {
+    const agents = await db.insert(agentsTable)
+      .values([
+        { ...baseAgent, name: 'Researcher', role: 'Researcher' },
+        { ...baseAgent, name: 'Writer', role: 'Writer' }
+      ])
+      .returning()
+      .execute();
+    agentIds = agents.map(a => a.id);
+  });
+
+  it('should return an empty page when there are no runs', async () => {
+    const result = await listAgentRuns(defaults);
+
+    expect(result).toEqual({ items: [], next_cursor: null });
+  });
+
+  it('should page through runs newest first with a cursor', async () => {
+    await db.insert(agentRunsTable)
+      .values(Array.from({ length: 5 }, (_, i) => ({ agent_id: agentIds[0], input_text: `Run ${i + 1}` })))
+      .execute();
+
+    const first = await listAgentRuns({ ...defaults, limit: 2 });
+    const second = await listAgentRuns({ ...defaults, limit: 2, cursor: first.next_cursor! });
+    const third = await listAgentRuns({ ...defaults, limit: 2, cursor: second.next_cursor! });
+
+    expect(first.items.map(r => r.input_text)).toEqual(['Run 5', 'Run 4']);
+    expect(second.items.map(r => r.input_text)).toEqual(['Run 3', 'Run 2']);
+    expect(third.items.map(r => r.input_text)).toEqual(['Run 1']);
+    expect(third.next_cursor).toBeNull();
+  });
+
+  it('should page oldest first when asked', async () => {
+    await db.insert(agentRunsTable)
+      .values(Array.from({ length: 3 }, (_, i) => ({ agent_id: agentIds[0], input_text: `Run ${i + 1}` })))
+      .execute();
+
+    const first = await listAgentRuns({ ...defaults, sort: 'oldest', limit: 2 });
+    const second = await listAgentRuns({ ...defaults, sort: 'oldest', limit: 2, cursor: first.next_cursor! });
+
+    expect(first.items.map(r => r.input_text)).toEqual(['Run 1', 'Run 2']);
+    expect(second.items.map(r => r.input_text)).toEqual(['Run 3']);
+  });
+
+  it('should filter by agent and status', async () => {
+    await db.insert(agentRunsTable)
+      .values([
+        { agent_id: agentIds[0], input_text: 'Research done', status: 'completed' },
+        { agent_id: agentIds[0], input_text: 'Research failed', status: 'failed' },
+        { agent_id: agentIds[1], input_text: 'Writing done', status: 'completed' }
+      ])
+      .execute();
+
+    const result = await listAgentRuns({ ...defaults, agent_id: agentIds[0], status: 'completed' });
+
+    expect(result.items.map(r => r.input_text)).toEqual(['Research done']);
+  });
+
+  it('should filter by creation date range', async () => {
+    await db.insert(agentRunsTable)
+      .values([
+        { agent_id: agentIds[0], input_text: 'Old', created_at: new Date('2024-01-01T00:00:00Z') },
+        { agent_id: agentIds[0], input_text: 'Middle', created_at: new Date('2024-06-01T00:00:00Z') },
+        { agent_id: agentIds[0], input_text: 'New', created_at: new Date('2025-01-01T00:00:00Z') }
+      ])
+      .execute();
+
+    const result = await listAgentRuns({
+      ...defaults,
+      created_after: new Date('2024-02-01T00:00:00Z'),
+      created_before: new Date('2024-12-31T00:00:00Z')
+    });
+
+    expect(result.items.map(r => r.input_text)).toEqual(['Middle']);
+  });
+
+  it('should search input text case-insensitively and literally', async () => {
+    await db.insert(agentRunsTable)
+      .values([
+        { agent_id: agentIds[0], input_text: 'Summarize the Quarterly report' },
+        { agent_id: agentIds[0], input_text: 'Grow revenue by 100%' },
+        { agent_id: agentIds[0], input_text: 'Grow revenue by 1000' }
+      ])
+      .execute();
+
+    const quarterly = await listAgentRuns({ ...defaults, search: 'quarterly' });
+    const percent = await listAgentRuns({ ...defaults, search: '100%' });
+
+    expect(quarterly.items.map(r => r.input_text)).toEqual(['Summarize the Quarterly report']);
+    expect(percent.items.map(r => r.input_text)).toEqual(['Grow revenue by 100%']);
+  });
+});
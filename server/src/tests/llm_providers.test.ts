@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { createOpenAIProvider } from '../llm/openai';
+import { createAnthropicProvider } from '../llm/anthropic';
+import { createOllamaProvider } from '../llm/ollama';
+import { createMockProvider, loadMockFixtures } from '../llm/mock';
+import { getLLMProvider, getDefaultProviderName } from '../llm';
+import { type ChatMessage } from '../llm/types';
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'You are a tester.' },
+  { role: 'user', content: 'Say hello' }
+];
+
+// Local HTTP server speaking each provider's wire format
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl: string;
+const received: { path: string; headers: Headers; body: any }[] = [];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const path = new URL(req.url).pathname;
+      const body: any = await req.json();
+      received.push({ path, headers: req.headers, body });
+
+      if (path === '/v1/chat/completions') {
+        return Response.json({
+          model: body.model,
+          choices: [{ message: { role: 'assistant', content: 'Hello from OpenAI' } }],
+          usage: { prompt_tokens: 7, completion_tokens: 3 }
+        });
+      }
+      if (path === '/v1/messages') {
+        return Response.json({
+          model: body.model,
+          content: [{ type: 'text', text: 'Hello from ' }, { type: 'text', text: 'Anthropic' }],
+          usage: { input_tokens: 5, output_tokens: 2 }
+        });
+      }
+      if (path === '/api/chat') {
+        return Response.json({
+          model: body.model,
+          message: { role: 'assistant', content: 'Hello from Ollama' },
+          prompt_eval_count: 4,
+          eval_count: 3
+        });
+      }
+      return new Response('not found', { status: 404 });
+    }
+  });
+  baseUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('should send chat completions and parse the reply', async () => {
+    const provider = createOpenAIProvider({ apiKey: 'sk-test', baseUrl: `${baseUrl}/v1`, defaultModel: 'gpt-test' });
+
+    const response = await provider.chat({ messages, temperature: 0.2, max_tokens: 50 });
+
+    expect(response.content).toEqual('Hello from OpenAI');
+    expect(response.model).toEqual('gpt-test');
+    expect(response.usage).toEqual({ input_tokens: 7, output_tokens: 3 });
+
+    const request = received[received.length - 1];
+    expect(request.headers.get('authorization')).toEqual('Bearer sk-test');
+    expect(request.body.messages).toEqual(messages);
+    expect(request.body.temperature).toEqual(0.2);
+    expect(request.body.max_tokens).toEqual(50);
+  });
+
+  it('should surface HTTP errors', async () => {
+    const provider = createOpenAIProvider({ baseUrl: `${baseUrl}/missing`, defaultModel: 'gpt-test' });
+
+    await expect(provider.chat({ messages })).rejects.toThrow(/failed with status 404/i);
+  });
+});
+
+describe('Anthropic-style provider', () => {
+  it('should move system prompts to the top-level field', async () => {
+    const provider = createAnthropicProvider({ apiKey: 'ant-test', baseUrl, defaultModel: 'claude-test' });
+
+    const response = await provider.chat({ messages, model: 'claude-override' });
+
+    expect(response.content).toEqual('Hello from Anthropic');
+    expect(response.model).toEqual('claude-override');
+    expect(response.usage).toEqual({ input_tokens: 5, output_tokens: 2 });
+
+    const request = received[received.length - 1];
+    expect(request.headers.get('x-api-key')).toEqual('ant-test');
+    expect(request.headers.get('anthropic-version')).toEqual('2023-06-01');
+    expect(request.body.system).toEqual('You are a tester.');
+    expect(request.body.messages).toEqual([{ role: 'user', content: 'Say hello' }]);
+    expect(request.body.max_tokens).toBeGreaterThan(0);
+  });
+});
+
+describe('Ollama-compatible provider', () => {
+  it('should request a non-streaming chat and parse the reply', async () => {
+    const provider = createOllamaProvider({ baseUrl, defaultModel: 'llama-test' });
+
+    const response = await provider.chat({ messages, temperature: 0.5 });
+
+    expect(response.content).toEqual('Hello from Ollama');
+    expect(response.usage).toEqual({ input_tokens: 4, output_tokens: 3 });
+
+    const request = received[received.length - 1];
+    expect(request.body.stream).toBe(false);
+    expect(request.body.model).toEqual('llama-test');
+    expect(request.body.options.temperature).toEqual(0.5);
+  });
+});
+
+describe('mock provider', () => {
+  it('should prefer fixtures whose match appears in the latest user message', async () => {
+    const provider = createMockProvider({
+      responses: [
+        { match: 'hello', content: 'Matched greeting' },
+        { content: 'Fallback' }
+      ]
+    });
+
+    const response = await provider.chat({ messages });
+
+    expect(response.content).toEqual('Matched greeting');
+    expect(response.usage!.output_tokens).toEqual(2);
+  });
+
+  it('should replay unmatched fixtures in order and wrap around', async () => {
+    const provider = createMockProvider({
+      responses: [{ content: 'First' }, { content: 'Second' }]
+    });
+    const request = { messages: [{ role: 'user' as const, content: 'anything' }] };
+
+    const replies = [];
+    for (let i = 0; i < 3; i++) {
+      replies.push((await provider.chat(request)).content);
+    }
+
+    expect(replies).toEqual(['First', 'Second', 'First']);
+  });
+
+  it('should fail when nothing matches and there is no fallback', async () => {
+    const provider = createMockProvider({ responses: [{ match: 'never', content: 'Unused' }] });
+
+    await expect(provider.chat({ messages })).rejects.toThrow(/no mock llm fixture/i);
+  });
+
+  it('should load the bundled default fixtures', () => {
+    const fixtures = loadMockFixtures(new URL('../../fixtures/llm/default.json', import.meta.url).pathname);
+
+    expect(fixtures.responses.length).toBeGreaterThan(0);
+  });
+});
+
+describe('provider selection', () => {
+  it('should default to the offline mock provider', () => {
+    const previous = process.env['LLM_PROVIDER'];
+    delete process.env['LLM_PROVIDER'];
+
+    expect(getDefaultProviderName()).toEqual('mock');
+    expect(getLLMProvider().name).toEqual('mock');
+
+    if (previous !== undefined) process.env['LLM_PROVIDER'] = previous;
+  });
+
+  it('should build the requested provider', () => {
+    expect(getLLMProvider('ollama').name).toEqual('ollama');
+    expect(getLLMProvider('anthropic').name).toEqual('anthropic');
+  });
+
+  it('should reject unknown providers in configuration', () => {
+    const previous = process.env['LLM_PROVIDER'];
+    process.env['LLM_PROVIDER'] = 'unknown';
+
+    expect(() => getDefaultProviderName()).toThrow();
+
+    if (previous !== undefined) process.env['LLM_PROVIDER'] = previous;
+    else delete process.env['LLM_PROVIDER'];
+  });
+});
@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, agentToolsTable } from '../db/schema';
+import { claimNextRun, executeRun } from '../executor/run_executor';
+import { cancelAgentRun } from '../handlers/cancel_agent_run';
+import { createLLMRuntime, buildAgentMessages, extractFinalAnswer, extractThought, parseToolAction } from '../executor/llm_runtime';
+import { type ChatRequest, type LLMProvider } from '../llm/types';
+import { createMockProvider } from '../llm/mock';
+import { eq, asc } from 'drizzle-orm';
+
+const testAgent = {
+  name: 'Scripted Agent',
+  description: 'Agent backed by the mock provider',
+  role: 'Analyst',
+  goal: 'Answer from fixtures',
+  backstory: 'Lives offline',
+  llm_provider: 'mock' as const,
+  is_active: true
+};
+
+describe('LLM runtime', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should build a persona system prompt followed by the input', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+
+    const messages = buildAgentMessages(agent, 'What now?');
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].role).toEqual('system');
+    expect(messages[0].content).toContain('You are Analyst.');
+    expect(messages[0].content).toContain('Answer from fixtures');
+    expect(messages[1]).toEqual({ role: 'user', content: 'What now?' });
+  });
+
+  it('should complete a run with the provider reply as the result', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Give me the numbers', status: 'pending' })
+      .execute();
+
+    const provider = createMockProvider({ responses: [{ match: 'numbers', content: 'Thought: easy.\nFinal Answer: 42' }] });
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, createLLMRuntime(() => provider));
+
+    expect(finished!.status).toEqual('completed');
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    expect(outputs[0].content).toContain('mock');
+    expect(outputs[outputs.length - 1].output_type).toEqual('result');
+    expect(outputs[outputs.length - 1].content).toEqual('42');
+  });
+
+  it('should use the bundled fixtures for agents configured with the mock provider', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Please review my code', status: 'pending' })
+      .execute();
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, createLLMRuntime());
+
+    expect(finished!.status).toEqual('completed');
+  });
+
+  it('should extract the text after the final answer marker', () => {
+    expect(extractFinalAnswer('Thinking...\nFinal Answer: done')).toEqual('done');
+    expect(extractFinalAnswer('Still thinking')).toBeNull();
+  });
+
+  it('should extract the reasoning before an action or answer', () => {
+    expect(extractThought('Thought: check the docs\nAction: read_file\nAction Input: {}')).toEqual('check the docs');
+    expect(extractThought('Easy one.\nFinal Answer: 42')).toEqual('Easy one.');
+    expect(extractThought('Final Answer: 42')).toBeNull();
+  });
+
+  it('should record thoughts and token usage as structured outputs', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Measure me', status: 'pending' })
+      .execute();
+
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'default-model',
+      chat: async () => ({
+        content: 'Thought: nothing to look up.\nFinal Answer: done',
+        model: 'default-model',
+        usage: { input_tokens: 20, output_tokens: 5 }
+      })
+    };
+
+    const claimed = await claimNextRun();
+    await executeRun(claimed!, createLLMRuntime(() => provider));
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    const metric = outputs.find(o => o.output_type === 'metric');
+    expect(metric!.metadata).toEqual({ model: 'default-model', input_tokens: 20, output_tokens: 5 });
+    const thought = outputs.find(o => o.output_type === 'thought');
+    expect(thought!.content).toEqual('nothing to look up.');
+  });
+
+  it('should pass the agent model settings to the provider', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, llm: 'custom-model', temperature: 0.3, max_tokens: 256 })
+      .returning()
+      .execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Configured run', status: 'pending' })
+      .execute();
+
+    const requests: ChatRequest[] = [];
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'default-model',
+      chat: async (request) => {
+        requests.push(request);
+        return { content: 'Final Answer: ok', model: request.model ?? 'default-model' };
+      }
+    };
+
+    const claimed = await claimNextRun();
+    await executeRun(claimed!, createLLMRuntime(() => provider));
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toEqual('custom-model');
+    expect(requests[0].temperature).toEqual(0.3);
+    expect(requests[0].max_tokens).toEqual(256);
+  });
+
+  it('should stop after max_iter iterations without a final answer', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, max_iter: 3, verbose: true })
+      .returning()
+      .execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Never finishes', status: 'pending' })
+      .execute();
+
+    let calls = 0;
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'default-model',
+      chat: async () => {
+        calls++;
+        return { content: `Thinking ${calls}`, model: 'default-model' };
+      }
+    };
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, createLLMRuntime(() => provider));
+
+    expect(calls).toEqual(3);
+    expect(finished!.status).toEqual('completed');
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    // Verbose agents log the prompt and every iteration
+    expect(outputs.some(o => o.content.startsWith('System prompt:'))).toBe(true);
+    expect(outputs.filter(o => o.content.startsWith('Iteration ')).length).toEqual(3);
+    expect(outputs[outputs.length - 1].content).toEqual('Thinking 3');
+  });
+
+  it('should stop calling the provider once the run is cancelled', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, max_iter: 5 })
+      .returning()
+      .execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Never finishes', status: 'pending' })
+      .execute();
+
+    let calls = 0;
+    let finishFirstCall = () => {};
+    // Ignores the request's signal, like a provider that can't abort its requests
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'default-model',
+      chat: async () => {
+        calls++;
+        if (calls === 1) {
+          await new Promise<void>(resolve => {
+            finishFirstCall = resolve;
+          });
+        }
+        return { content: `Thinking ${calls}`, model: 'default-model' };
+      }
+    };
+
+    const claimed = await claimNextRun();
+    const execution = executeRun(claimed!, createLLMRuntime(() => provider));
+    while (calls === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    await cancelAgentRun(claimed!.id);
+
+    expect((await execution)!.status).toEqual('cancelled');
+    finishFirstCall();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(calls).toEqual(1);
+  });
+
+  it('should parse tool actions from a reply', () => {
+    expect(parseToolAction('Thought: add\nAction: calculator\nAction Input: {"expression": "1 + 1"}'))
+      .toEqual({ tool: 'calculator', input: { expression: '1 + 1' } });
+    expect(parseToolAction('Action: calculator\nAction Input: ```json\n{"expression": "2"}\n```\nObservation: 2'))
+      .toEqual({ tool: 'calculator', input: { expression: '2' } });
+    expect(parseToolAction('Action: calculator\nAction Input: 1 + 1')).toEqual({ tool: 'calculator', input: '1 + 1' });
+    expect(parseToolAction('No tools needed')).toBeNull();
+  });
+
+  it('should run the tools the model asks for and record them as outputs', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    await db.insert(agentToolsTable).values({ agent_id: agent.id, tool_name: 'calculator' }).execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'What is 6 times 7?', status: 'pending' })
+      .execute();
+
+    const requests: ChatRequest[] = [];
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'default-model',
+      chat: async (request) => {
+        requests.push(request);
+        const content = requests.length === 1
+          ? 'Thought: multiply.\nAction: calculator\nAction Input: {"expression": "6 * 7"}'
+          : 'Final Answer: 42';
+        return { content, model: 'default-model' };
+      }
+    };
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, createLLMRuntime(() => provider));
+
+    expect(finished!.status).toEqual('completed');
+    expect(requests[0].messages[0].content).toContain('- calculator:');
+    expect(requests[1].messages[requests[1].messages.length - 1]).toEqual({ role: 'user', content: 'Observation: 42' });
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    const toolOutputs = outputs.filter(o => o.output_type === 'tool_call' || o.output_type === 'tool_result');
+    expect(toolOutputs.map(o => o.output_type)).toEqual(['tool_call', 'tool_result']);
+    expect(toolOutputs[0].metadata).toEqual({ tool: 'calculator', input: { expression: '6 * 7' } });
+    expect(toolOutputs[1].content).toEqual('42');
+    expect(toolOutputs[1].metadata).toEqual({ tool: 'calculator', error: null });
+  });
+
+  it('should ignore tool actions from agents without tools', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Try a tool', status: 'pending' })
+      .execute();
+
+    const requests: ChatRequest[] = [];
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'default-model',
+      chat: async (request) => {
+        requests.push(request);
+        return {
+          content: requests.length === 1 ? 'Action: calculator\nAction Input: {"expression": "1"}' : 'Final Answer: done',
+          model: 'default-model'
+        };
+      }
+    };
+
+    const claimed = await claimNextRun();
+    await executeRun(claimed!, createLLMRuntime(() => provider));
+
+    expect(requests[0].messages[0].content).not.toContain('You can use these tools');
+    const outputs = await db.select().from(agentOutputsTable).where(eq(agentOutputsTable.run_id, claimed!.id)).execute();
+    expect(outputs.some(o => o.output_type === 'tool_call')).toBe(false);
+  });
+});
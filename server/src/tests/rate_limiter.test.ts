@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+import { createRateLimiter } from '../llm/rate_limiter';
+
+describe('rate limiter', () => {
+  it('should let requests through while under the limit', async () => {
+    const limiter = createRateLimiter();
+
+    const started = Date.now();
+    await limiter.acquire('agent:1', 3);
+    await limiter.acquire('agent:1', 3);
+    await limiter.acquire('agent:1', 3);
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('should keep separate windows per key', async () => {
+    const limiter = createRateLimiter();
+
+    await limiter.acquire('agent:1', 1);
+    const started = Date.now();
+    await limiter.acquire('agent:2', 1);
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('should wait until the window frees up once the limit is reached', async () => {
+    // Clock starts just before the first request leaves the one-minute window
+    let clock = 0;
+    const limiter = createRateLimiter(() => clock);
+
+    await limiter.acquire('agent:1', 1);
+    clock = 59_950;
+
+    const started = Date.now();
+    const pending = limiter.acquire('agent:1', 1);
+    clock = 60_000;
+    await pending;
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should remove its abort listener once the wait is over', async () => {
+    let clock = 0;
+    const limiter = createRateLimiter(() => clock);
+    const controller = new AbortController();
+    const listeners = new Set<unknown>();
+    const { signal } = controller;
+    const addEventListener = signal.addEventListener.bind(signal);
+    const removeEventListener = signal.removeEventListener.bind(signal);
+    signal.addEventListener = (...args: Parameters<typeof addEventListener>) => {
+      listeners.add(args[1]);
+      addEventListener(...args);
+    };
+    signal.removeEventListener = (...args: Parameters<typeof removeEventListener>) => {
+      listeners.delete(args[1]);
+      removeEventListener(...args);
+    };
+
+    await limiter.acquire('agent:1', 1, signal);
+    clock = 59_990;
+    const pending = limiter.acquire('agent:1', 1, signal);
+    clock = 60_000;
+    await pending;
+
+    expect(listeners.size).toEqual(0);
+  });
+
+  it('should reject waiting requests when aborted', async () => {
+    const limiter = createRateLimiter();
+    const controller = new AbortController();
+
+    await limiter.acquire('agent:1', 1);
+    const pending = limiter.acquire('agent:1', 1, controller.signal);
+    controller.abort(new Error('Stopped'));
+
+    await expect(pending).rejects.toThrow('Stopped');
+  });
+});
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, crewsTable, sessionsTable, tasksTable } from '../db/schema';
+import { createUserInputSchema, hasRole, type User, type UserRole } from '../schema';
+import { agentIdsForCrewInput, agentIdsForRunInput, agentIdsForTaskInput, canUseAgent } from '../auth/access';
+import { createSession } from '../auth/sessions';
+import { createUser } from '../handlers/create_user';
+import { getUsers } from '../handlers/get_users';
+import { updateUser } from '../handlers/update_user';
+import { getAgentAccess } from '../handlers/get_agent_access';
+import { setAgentAccess } from '../handlers/set_agent_access';
+import { NotFoundError } from '../errors';
+import {
+  createContext,
+  router,
+  viewerProcedure,
+  operatorProcedure,
+  adminProcedure,
+  requireAgentAccess,
+  requireAgentOwner
+} from '../trpc';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+
+// Test agent data
+const testAgent = {
+  name: 'Code Reviewer',
+  description: 'Reviews code',
+  role: 'Senior Software Engineer',
+  goal: 'Catch bugs',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+const testRouter = router({
+  watch: viewerProcedure.query(() => 'watching'),
+  operate: operatorProcedure.mutation(() => 'operating'),
+  changeTask: operatorProcedure
+    .input(z.object({ id: z.number().optional(), agent_id: z.number().nullable().optional() }))
+    .use(requireAgentAccess(agentIdsForTaskInput))
+    .mutation(() => 'changed task'),
+  changeCrew: operatorProcedure
+    .input(z.object({
+      id: z.number().optional(),
+      manager_agent_id: z.number().nullable().optional(),
+      agent_ids: z.array(z.number()).optional()
+    }))
+    .use(requireAgentAccess(agentIdsForCrewInput))
+    .mutation(() => 'changed crew'),
+  administer: adminProcedure.mutation(() => 'administering'),
+  runAgent: operatorProcedure
+    .input(z.object({ id: z.number() }))
+    .use(requireAgentAccess(async (input: { id: number }) => [input.id]))
+    .mutation(({ input }) => `running ${input.id}`),
+  shareAgent: viewerProcedure
+    .input(z.object({ id: z.number() }))
+    .use(requireAgentOwner((input: { id: number }) => input.id))
+    .mutation(({ input }) => `sharing ${input.id}`)
+});
+
+// Signs the user in and returns a caller acting as them
+const callerFor = async (user: User) => {
+  const { token } = await createSession(user.id);
+  const options = {
+    req: { headers: { cookie: `session=${token}` } },
+    res: { setHeader: () => undefined }
+  } as unknown as CreateHTTPContextOptions;
+  return testRouter.createCaller(await createContext(options));
+};
+
+const createTestUser = (username: string, role: UserRole) =>
+  createUser({ username, password: 'correct horse battery', role });
+
+describe('role-based access control', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should rank roles so each includes the ones below it', () => {
+    const operator = { role: 'operator' as const };
+
+    expect(hasRole(operator, 'viewer')).toBe(true);
+    expect(hasRole(operator, 'operator')).toBe(true);
+    expect(hasRole(operator, 'editor')).toBe(false);
+    expect(hasRole({ role: 'admin' }, 'editor')).toBe(true);
+  });
+
+  it('should default new users to the viewer role', async () => {
+    const user = await createUser(createUserInputSchema.parse({ username: 'newcomer', password: 'correct horse battery' }));
+
+    expect(user.role).toEqual('viewer');
+    expect((await getUsers()).map(u => u.username)).toEqual(['newcomer']);
+  });
+
+  it('should only let sufficiently privileged users through role procedures', async () => {
+    const viewer = await callerFor(await createTestUser('viewer', 'viewer'));
+    const operator = await callerFor(await createTestUser('operator', 'operator'));
+    const admin = await callerFor(await createTestUser('admin', 'admin'));
+
+    expect(await viewer.watch()).toEqual('watching');
+    await expect(viewer.operate()).rejects.toThrow(/operator role/i);
+    expect(await operator.operate()).toEqual('operating');
+    await expect(operator.administer()).rejects.toThrow(/admin role/i);
+    expect(await admin.administer()).toEqual('administering');
+  });
+
+  it('should restrict an agent to its access list, owner and admins', async () => {
+    const owner = await createTestUser('owner', 'editor');
+    const member = await createTestUser('member', 'operator');
+    const outsider = await createTestUser('outsider', 'operator');
+    const admin = await createTestUser('admin', 'admin');
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, owner_id: owner.id })
+      .returning()
+      .execute();
+
+    // Open until the owner lists someone
+    expect(await canUseAgent(outsider, agent.id)).toBe(true);
+
+    await setAgentAccess({ agent_id: agent.id, user_ids: [member.id] }, owner);
+
+    expect(await canUseAgent(member, agent.id)).toBe(true);
+    expect(await canUseAgent(owner, agent.id)).toBe(true);
+    expect(await canUseAgent(admin, agent.id)).toBe(true);
+    expect(await canUseAgent(outsider, agent.id)).toBe(false);
+
+    const outsiderCaller = await callerFor(outsider);
+    await expect(outsiderCaller.runAgent({ id: agent.id })).rejects.toThrow(/don't have access/i);
+    expect(await (await callerFor(member)).runAgent({ id: agent.id })).toEqual(`running ${agent.id}`);
+
+    // An empty list opens the agent again
+    await setAgentAccess({ agent_id: agent.id, user_ids: [] }, owner);
+    expect(await outsiderCaller.runAgent({ id: agent.id })).toEqual(`running ${agent.id}`);
+  });
+
+  it('should only let the owner and admins manage access', async () => {
+    const owner = await createTestUser('owner', 'editor');
+    const editor = await createTestUser('editor', 'editor');
+    const admin = await createTestUser('admin', 'admin');
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, owner_id: owner.id })
+      .returning()
+      .execute();
+
+    expect(await (await callerFor(owner)).shareAgent({ id: agent.id })).toEqual(`sharing ${agent.id}`);
+    expect(await (await callerFor(admin)).shareAgent({ id: agent.id })).toEqual(`sharing ${agent.id}`);
+    await expect((await callerFor(editor)).shareAgent({ id: agent.id })).rejects.toThrow(/only the owner/i);
+  });
+
+  it('should report access for the requesting user', async () => {
+    const owner = await createTestUser('owner', 'editor');
+    const outsider = await createTestUser('outsider', 'operator');
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, owner_id: owner.id })
+      .returning()
+      .execute();
+
+    await setAgentAccess({ agent_id: agent.id, user_ids: [owner.id, owner.id] }, owner);
+
+    const ownerView = await getAgentAccess(agent.id, owner);
+    expect(ownerView).toEqual({ agent_id: agent.id, owner_id: owner.id, user_ids: [owner.id], can_use: true, can_manage: true });
+
+    const outsiderView = await getAgentAccess(agent.id, outsider);
+    expect(outsiderView!.can_use).toBe(false);
+    expect(outsiderView!.can_manage).toBe(false);
+
+    await expect(getAgentAccess(agent.id + 1, owner)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should reject unknown users in an access list', async () => {
+    const owner = await createTestUser('owner', 'editor');
+    const [agent] = await db.insert(agentsTable)
+      .values({ ...testAgent, owner_id: owner.id })
+      .returning()
+      .execute();
+
+    await expect(setAgentAccess({ agent_id: agent.id, user_ids: [owner.id + 100] }, owner))
+      .rejects.toThrow(/user with id \d+ not found/i);
+  });
+
+  it('should check the agent assigned to a task run', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Review', description: 'Review the diff', expected_output: 'Comments', agent_id: agent.id })
+      .returning()
+      .execute();
+
+    expect(await agentIdsForRunInput({ task_id: task.id })).toEqual([agent.id]);
+    expect(await agentIdsForRunInput({ task_id: task.id, agent_id: 42 })).toEqual([42]);
+    expect(await agentIdsForRunInput({ input_text: 'Hello' })).toEqual([]);
+  });
+
+  it('should check the agents a task or crew has and is given', async () => {
+    const owner = await createTestUser('owner', 'editor');
+    const outsider = await createTestUser('outsider', 'editor');
+    const [open, restricted] = await db.insert(agentsTable)
+      .values([{ ...testAgent, owner_id: owner.id }, { ...testAgent, name: 'Restricted', owner_id: owner.id }])
+      .returning()
+      .execute();
+    await setAgentAccess({ agent_id: restricted.id, user_ids: [owner.id] }, owner);
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Review', description: 'Review the diff', expected_output: 'Comments', agent_id: restricted.id })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Reviewers', manager_agent_id: restricted.id, agent_ids: [open.id], task_ids: [task.id] })
+      .returning()
+      .execute();
+
+    expect(await agentIdsForTaskInput({ id: task.id, agent_id: open.id })).toEqual([restricted.id, open.id]);
+    expect(await agentIdsForCrewInput({ id: crew.id, agent_ids: [open.id] })).toEqual([restricted.id, open.id]);
+
+    const outsiderCaller = await callerFor(outsider);
+    // Assigning the restricted agent, or changing something that already uses it, is refused
+    await expect(outsiderCaller.changeTask({ agent_id: restricted.id })).rejects.toThrow(/don't have access/i);
+    await expect(outsiderCaller.changeTask({ id: task.id, agent_id: open.id })).rejects.toThrow(/don't have access/i);
+    await expect(outsiderCaller.changeCrew({ agent_ids: [open.id, restricted.id] })).rejects.toThrow(/don't have access/i);
+    await expect(outsiderCaller.changeCrew({ manager_agent_id: restricted.id, agent_ids: [open.id] })).rejects.toThrow(/don't have access/i);
+    await expect(outsiderCaller.changeCrew({ id: crew.id, manager_agent_id: null })).rejects.toThrow(/don't have access/i);
+
+    expect(await outsiderCaller.changeTask({ agent_id: open.id })).toEqual('changed task');
+    expect(await outsiderCaller.changeCrew({ agent_ids: [open.id] })).toEqual('changed crew');
+    expect(await (await callerFor(owner)).changeCrew({ id: crew.id, agent_ids: [restricted.id] })).toEqual('changed crew');
+  });
+
+  it('should change roles but keep at least one admin', async () => {
+    const admin = await createTestUser('admin', 'admin');
+    const viewer = await createTestUser('viewer', 'viewer');
+
+    const promoted = await updateUser({ id: viewer.id, role: 'admin' });
+    expect(promoted!.role).toEqual('admin');
+
+    const demoted = await updateUser({ id: admin.id, role: 'editor' });
+    expect(demoted!.role).toEqual('editor');
+
+    await expect(updateUser({ id: viewer.id, role: 'viewer' })).rejects.toThrow(/last admin/i);
+    await expect(updateUser({ id: viewer.id + 100, role: 'viewer' })).rejects.toThrow(NotFoundError);
+  });
+
+  it('should sign the user out everywhere after a password change', async () => {
+    const user = await createTestUser('viewer', 'viewer');
+    await createSession(user.id);
+
+    await updateUser({ id: user.id, password: 'another long password' });
+
+    const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.user_id, user.id)).execute();
+    expect(sessions).toHaveLength(0);
+  });
+});
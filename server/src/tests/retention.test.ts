@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable } from '../db/schema';
+import { createRetentionSweeper, DEFAULT_RETENTION_RULES, loadRetentionRules, sweepExpiredOutputs } from '../retention';
+import { getRetentionReport } from '../handlers/get_retention_report';
+import { asc } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Test agent data
+const testAgent = {
+  name: 'Test Agent',
+  description: 'Agent for retention tests',
+  role: 'Tester',
+  goal: 'Produce outputs',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+describe('output retention', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    agentId = agent.id;
+  });
+
+  const insertRun = async (status: 'running' | 'completed' = 'completed') => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Work', status })
+      .returning()
+      .execute();
+    return run;
+  };
+
+  const insertOutput = async (runId: number, outputType: 'log' | 'result' | 'error', ageDays: number, content = 'Output') => {
+    const createdAt = new Date(Date.now() - ageDays * DAY_MS);
+    const [output] = await db.insert(agentOutputsTable)
+      .values({ run_id: runId, output_type: outputType, content, timestamp: createdAt, created_at: createdAt })
+      .returning()
+      .execute();
+    return output;
+  };
+
+  const remainingContents = async () => (await db.select()
+    .from(agentOutputsTable)
+    .orderBy(asc(agentOutputsTable.id))
+    .execute()).map(output => output.content);
+
+  it('should default to keeping logs for 14 days and everything else forever', () => {
+    expect(loadRetentionRules(undefined)).toEqual(DEFAULT_RETENTION_RULES);
+    expect(DEFAULT_RETENTION_RULES).toEqual({ log: { max_age_days: 14 } });
+  });
+
+  it('should parse and validate rules from JSON', () => {
+    expect(loadRetentionRules('{"log":{"max_age_days":7,"max_per_run":100},"error":{"max_age_days":90}}')).toEqual({
+      log: { max_age_days: 7, max_per_run: 100 },
+      error: { max_age_days: 90 }
+    });
+    expect(() => loadRetentionRules('{"log":{"max_age_days":-1}}')).toThrow();
+    expect(() => loadRetentionRules('{"trace":{"max_age_days":1}}')).toThrow();
+  });
+
+  it('should delete only outputs older than their type allows', async () => {
+    const run = await insertRun();
+    await insertOutput(run.id, 'log', 30, 'old log');
+    await insertOutput(run.id, 'log', 1, 'new log');
+    await insertOutput(run.id, 'result', 365, 'old result');
+    await insertOutput(run.id, 'error', 365, 'old error');
+
+    const deleted = await sweepExpiredOutputs(DEFAULT_RETENTION_RULES);
+
+    expect(deleted).toEqual(1);
+    expect(await remainingContents()).toEqual(['new log', 'old result', 'old error']);
+  });
+
+  it('should keep only the newest outputs per run when capped', async () => {
+    const first = await insertRun();
+    const second = await insertRun();
+    for (let i = 1; i <= 4; i++) {
+      await insertOutput(first.id, 'log', 0, `first ${i}`);
+    }
+    await insertOutput(first.id, 'result', 0, 'first result');
+    await insertOutput(second.id, 'log', 0, 'second 1');
+
+    const deleted = await sweepExpiredOutputs({ log: { max_per_run: 2 } });
+
+    expect(deleted).toEqual(2);
+    expect(await remainingContents()).toEqual(['first 3', 'first 4', 'first result', 'second 1']);
+  });
+
+  it('should never touch outputs of runs that are still going', async () => {
+    const run = await insertRun('running');
+    await insertOutput(run.id, 'log', 30, 'old log');
+
+    expect(await sweepExpiredOutputs({ log: { max_age_days: 1, max_per_run: 1 } })).toEqual(0);
+    expect(await remainingContents()).toEqual(['old log']);
+  });
+
+  it('should delete across several batches', async () => {
+    const run = await insertRun();
+    for (let i = 0; i < 5; i++) {
+      await insertOutput(run.id, 'log', 30);
+    }
+
+    expect(await sweepExpiredOutputs(DEFAULT_RETENTION_RULES, { batchSize: 2 })).toEqual(5);
+    expect(await remainingContents()).toHaveLength(0);
+  });
+
+  it('should report what a sweep would delete without deleting it', async () => {
+    const first = await insertRun();
+    const second = await insertRun();
+    const oldest = await insertOutput(first.id, 'log', 40);
+    await insertOutput(first.id, 'log', 20);
+    await insertOutput(second.id, 'log', 20);
+    await insertOutput(second.id, 'error', 20);
+    await insertOutput(second.id, 'result', 20);
+
+    const report = await getRetentionReport({ log: { max_age_days: 14 }, error: { max_age_days: 7 } }, false);
+
+    expect(report.enabled).toBe(false);
+    expect(report.total).toEqual(4);
+    expect(report.runs_affected).toEqual(2);
+    expect(report.by_type).toEqual([
+      { output_type: 'log', count: 3, oldest: oldest.created_at },
+      { output_type: 'error', count: 1, oldest: expect.any(Date) }
+    ]);
+    expect(await remainingContents()).toHaveLength(5);
+  });
+
+  it('should report nothing when no rule removes outputs', async () => {
+    const run = await insertRun();
+    await insertOutput(run.id, 'log', 400);
+
+    const report = await getRetentionReport({}, true);
+
+    expect(report.total).toEqual(0);
+    expect(report.by_type).toEqual([]);
+  });
+
+  it('should sweep on start and stop cleanly', async () => {
+    const run = await insertRun();
+    await insertOutput(run.id, 'log', 30);
+
+    const sweeper = createRetentionSweeper({ rules: DEFAULT_RETENTION_RULES, intervalMs: 60000 });
+    sweeper.start();
+    await sweeper.stop();
+
+    expect(await remainingContents()).toHaveLength(0);
+  });
+});
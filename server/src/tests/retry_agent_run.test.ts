@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, runStepsTable, tasksTable } from '../db/schema';
+import { retryAgentRun } from '../handlers/retry_agent_run';
+import { claimNextRun } from '../executor/run_executor';
+import { eq } from 'drizzle-orm';
+
+const testAgent = {
+  name: 'Test Agent',
+  description: 'Agent for retry tests',
+  role: 'Tester',
+  goal: 'Try again',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+describe('retryAgentRun', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    agentId = agent.id;
+  });
+
+  it('should queue a failed run again as its next attempt', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({
+        agent_id: agentId,
+        input_text: 'Flaky work',
+        status: 'failed',
+        started_at: new Date('2024-01-01T10:00:00Z'),
+        completed_at: new Date('2024-01-01T10:05:00Z')
+      })
+      .returning()
+      .execute();
+
+    const result = await retryAgentRun(run.id);
+
+    expect(result.status).toEqual('pending');
+    expect(result.attempt).toEqual(2);
+    expect(result.started_at).toBeNull();
+    expect(result.completed_at).toBeNull();
+
+    const outputs = await db.select().from(agentOutputsTable).where(eq(agentOutputsTable.run_id, run.id)).execute();
+    expect(outputs.map(o => o.content)).toEqual(['Retrying (attempt 2)']);
+
+    const claimed = await claimNextRun();
+    expect(claimed!.id).toEqual(run.id);
+    expect(claimed!.attempt).toEqual(2);
+  });
+
+  it('should start crew steps over', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Research', description: 'Research', expected_output: 'Notes', agent_id: agentId })
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Crew work', status: 'cancelled', completed_at: new Date() })
+      .returning()
+      .execute();
+    await db.insert(runStepsTable)
+      .values({ run_id: run.id, position: 0, task_id: task.id, agent_id: agentId, status: 'cancelled', output: 'Half done' })
+      .execute();
+
+    await retryAgentRun(run.id);
+
+    const [step] = await db.select().from(runStepsTable).where(eq(runStepsTable.run_id, run.id)).execute();
+    expect(step.status).toEqual('pending');
+    expect(step.output).toBeNull();
+    expect(step.agent_id).toEqual(agentId);
+  });
+
+  it('should reject runs that did not fail or get cancelled', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Done', status: 'completed' })
+      .returning()
+      .execute();
+
+    await expect(retryAgentRun(run.id)).rejects.toThrow(/is completed and cannot move to pending/i);
+  });
+
+  it('should reject runs of inactive agents', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Failed', status: 'failed' })
+      .returning()
+      .execute();
+    await db.update(agentsTable).set({ is_active: false }).where(eq(agentsTable.id, agentId)).execute();
+
+    await expect(retryAgentRun(run.id)).rejects.toThrow(/is not active/i);
+  });
+
+  it('should reject runs of deleted agents', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Failed', status: 'failed' })
+      .returning()
+      .execute();
+    await db.update(agentsTable).set({ deleted_at: new Date() }).where(eq(agentsTable.id, agentId)).execute();
+
+    await expect(retryAgentRun(run.id)).rejects.toThrow(`Agent with ID ${agentId} not found`);
+    const [stored] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, run.id)).execute();
+    expect(stored.status).toEqual('failed');
+  });
+
+  it('should throw for deleted and non-existent runs', async () => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Archived', status: 'failed', deleted_at: new Date() })
+      .returning()
+      .execute();
+
+    await expect(retryAgentRun(run.id)).rejects.toThrow(/Agent run with ID \d+ not found/i);
+    await expect(retryAgentRun(999)).rejects.toThrow(/Agent run with ID 999 not found/i);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { pool } from '../db';
+import { createRunEventBus, type RunEvent, type RunResyncEvent } from '../events';
+import { startNotifyBridge, type NotifyBridge } from '../events/notify_bridge';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('run event bus', () => {
+  it('should deliver events only to listeners of the same run', async () => {
+    const bus = createRunEventBus();
+    const received: (RunEvent | RunResyncEvent)[] = [];
+    bus.subscribe(1, event => received.push(event));
+    bus.subscribe(2, () => {
+      throw new Error('Wrong run');
+    });
+
+    await bus.publish({ type: 'output', run_id: 1, output_id: 7 });
+
+    expect(received).toEqual([{ type: 'output', run_id: 1, output_id: 7 }]);
+  });
+
+  it('should stop delivering after unsubscribe', async () => {
+    const bus = createRunEventBus();
+    const received: (RunEvent | RunResyncEvent)[] = [];
+    const unsubscribe = bus.subscribe(1, event => received.push(event));
+
+    unsubscribe();
+    await bus.publish({ type: 'status', run_id: 1, status: 'running' });
+
+    expect(received).toEqual([]);
+    expect(bus.listenerCount()).toEqual(0);
+  });
+
+  it('should send a resync to every listener', () => {
+    const bus = createRunEventBus();
+    const received: (RunEvent | RunResyncEvent)[] = [];
+    bus.subscribe(1, event => received.push(event));
+    bus.subscribe(2, event => received.push(event));
+
+    bus.resync();
+
+    expect(received).toEqual([{ type: 'resync', run_id: 1 }, { type: 'resync', run_id: 2 }]);
+  });
+
+  it('should keep local delivery working when forwarding fails', async () => {
+    const bus = createRunEventBus();
+    const received: (RunEvent | RunResyncEvent)[] = [];
+    bus.subscribe(1, event => received.push(event));
+    bus.setForwarder(async () => {
+      throw new Error('Connection lost');
+    });
+
+    await bus.publish({ type: 'step', run_id: 1, step_id: 3 });
+
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('NOTIFY bridge', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const bridges: NotifyBridge[] = [];
+
+  afterEach(async () => {
+    await Promise.all(bridges.splice(0).map(bridge => bridge.stop()));
+  });
+
+  it('should deliver events published on one instance to the others exactly once', async () => {
+    const first = createRunEventBus();
+    const second = createRunEventBus();
+    bridges.push(await startNotifyBridge(first, pool), await startNotifyBridge(second, pool));
+
+    const onFirst: (RunEvent | RunResyncEvent)[] = [];
+    const onSecond: (RunEvent | RunResyncEvent)[] = [];
+    first.subscribe(5, event => onFirst.push(event));
+    second.subscribe(5, event => onSecond.push(event));
+
+    await first.publish({ type: 'status', run_id: 5, status: 'cancelled' });
+    await waitFor(() => onSecond.length > 0);
+    // Give a duplicate delivery the chance to show up
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(onFirst).toEqual([{ type: 'status', run_id: 5, status: 'cancelled' }]);
+    expect(onSecond).toEqual([{ type: 'status', run_id: 5, status: 'cancelled' }]);
+  });
+
+  it('should ignore notifications that are not run events', async () => {
+    const bus = createRunEventBus();
+    bridges.push(await startNotifyBridge(bus, pool));
+    const received: (RunEvent | RunResyncEvent)[] = [];
+    bus.subscribe(5, event => received.push(event));
+
+    await pool.query(`SELECT pg_notify('run_events', 'not json')`);
+    await pool.query(`SELECT pg_notify('run_events', '{"origin": "elsewhere"}')`);
+    await pool.query(`SELECT pg_notify('run_events', $1)`, [
+      JSON.stringify({ origin: 'elsewhere', event: { type: 'output', run_id: 5, output_id: 1 } })
+    ]);
+
+    // The bridge keeps listening after the bad payloads
+    await waitFor(() => received.length > 0);
+    expect(received).toEqual([{ type: 'output', run_id: 5, output_id: 1 }]);
+  });
+
+  it('should stop forwarding once stopped', async () => {
+    const first = createRunEventBus();
+    const second = createRunEventBus();
+    const firstBridge = await startNotifyBridge(first, pool);
+    bridges.push(await startNotifyBridge(second, pool));
+
+    const onSecond: (RunEvent | RunResyncEvent)[] = [];
+    second.subscribe(5, event => onSecond.push(event));
+
+    await firstBridge.stop();
+    await first.publish({ type: 'output', run_id: 5, output_id: 1 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(onSecond).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, tasksTable } from '../db/schema';
+import { claimNextRun, executeRun, createRunExecutor } from '../executor/run_executor';
+import { applyRunTransition } from '../runs/state_machine';
+import { createLocalRuntime } from '../executor/local_runtime';
+import { type AgentRuntime } from '../executor/runtime';
+import { eq, asc } from 'drizzle-orm';
+import { readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+// Test agent data
+const testAgent = {
+  name: 'Test Agent',
+  description: 'Agent for executor tests',
+  role: 'Tester',
+  goal: 'Exercise the run executor',
+  backstory: 'Created for testing purposes',
+  is_active: true
+};
+
+const failingRuntime: AgentRuntime = {
+  name: 'failing',
+  execute: async ({ log }) => {
+    await log('About to fail');
+    throw new Error('Runtime exploded');
+  }
+};
+
+describe('run executor', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    agentId = agent.id;
+  });
+
+  const insertRun = async (inputText: string, status: 'pending' | 'running' | 'completed' | 'failed' = 'pending') => {
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: inputText, status })
+      .returning()
+      .execute();
+    return run;
+  };
+
+  it('should return null when there is nothing to claim', async () => {
+    await insertRun('Already done', 'completed');
+
+    const claimed = await claimNextRun();
+
+    expect(claimed).toBeNull();
+  });
+
+  it('should claim the oldest pending run and mark it running', async () => {
+    const first = await insertRun('First');
+    await insertRun('Second');
+
+    const claimed = await claimNextRun();
+
+    expect(claimed).not.toBeNull();
+    expect(claimed!.id).toEqual(first.id);
+    expect(claimed!.status).toEqual('running');
+    expect(claimed!.started_at).toBeInstanceOf(Date);
+
+    const [stored] = await db.select()
+      .from(agentRunsTable)
+      .where(eq(agentRunsTable.id, first.id))
+      .execute();
+    expect(stored.status).toEqual('running');
+  });
+
+  it('should never hand the same run to concurrent claimers', async () => {
+    await insertRun('Only one');
+
+    const claims = await Promise.all([claimNextRun(), claimNextRun(), claimNextRun()]);
+    const claimed = claims.filter(run => run !== null);
+
+    expect(claimed).toHaveLength(1);
+  });
+
+  it('should complete a run and record logs and the result', async () => {
+    await insertRun('Summarize the report');
+    const claimed = await claimNextRun();
+
+    const finished = await executeRun(claimed!, createLocalRuntime());
+
+    expect(finished!.status).toEqual('completed');
+    expect(finished!.completed_at).toBeInstanceOf(Date);
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    expect(outputs.length).toBeGreaterThan(1);
+    expect(outputs.slice(0, -1).every(o => o.output_type === 'log')).toBe(true);
+    expect(outputs[outputs.length - 1].output_type).toEqual('result');
+    expect(outputs[outputs.length - 1].content).toEqual('Tester completed: Summarize the report');
+  });
+
+  it('should fail a run and record the error when the runtime throws', async () => {
+    await insertRun('Doomed');
+    const claimed = await claimNextRun();
+
+    const finished = await executeRun(claimed!, failingRuntime);
+
+    expect(finished!.status).toEqual('failed');
+    expect(finished!.completed_at).toBeInstanceOf(Date);
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+
+    expect(outputs.map(o => o.output_type)).toEqual(['log', 'error']);
+    expect(outputs[1].content).toEqual('Runtime exploded');
+  });
+
+  it('should not report a run another actor finished as cancelled', async () => {
+    await insertRun('Finished elsewhere');
+    const claimed = await claimNextRun();
+    const overtakenRuntime: AgentRuntime = {
+      name: 'overtaken',
+      execute: async ({ run }) => {
+        await applyRunTransition(run.id, 'failed');
+        return 'Too late';
+      }
+    };
+
+    const finished = await executeRun(claimed!, overtakenRuntime);
+
+    expect(finished!.status).toEqual('failed');
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .orderBy(asc(agentOutputsTable.id))
+      .execute();
+    expect(outputs.map(o => o.content)).not.toContain('Run cancelled');
+    expect(outputs[outputs.length - 1].content).toEqual("Run was already failed; the executor's outcome was dropped");
+  });
+
+  it('should fail a run that exceeds the agent max execution time', async () => {
+    await db.update(agentsTable)
+      .set({ max_execution_time: 1 })
+      .where(eq(agentsTable.id, agentId))
+      .execute();
+    await insertRun('Too slow');
+
+    const slowRuntime: AgentRuntime = {
+      name: 'slow',
+      execute: () => new Promise(resolve => setTimeout(() => resolve('late'), 3000))
+    };
+
+    const claimed = await claimNextRun();
+    const finished = await executeRun(claimed!, slowRuntime);
+
+    expect(finished!.status).toEqual('failed');
+
+    const outputs = await db.select()
+      .from(agentOutputsTable)
+      .where(eq(agentOutputsTable.run_id, claimed!.id))
+      .execute();
+
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0].output_type).toEqual('error');
+    expect(outputs[0].content).toMatch(/max execution time of 1s/i);
+  });
+
+  it('should build the prompt from the task and its context results', async () => {
+    const [contextTask] = await db.insert(tasksTable)
+      .values({ name: 'Research', description: 'Research the topic', expected_output: 'Notes' })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable)
+      .values({
+        name: 'Write',
+        description: 'Write the article',
+        expected_output: 'A short article',
+        context_task_ids: [contextTask.id]
+      })
+      .returning()
+      .execute();
+
+    // A completed run of the context task provides the context
+    const [contextRun] = await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, task_id: contextTask.id, input_text: 'Research the topic', status: 'completed', completed_at: new Date() })
+      .returning()
+      .execute();
+    await db.insert(agentOutputsTable)
+      .values({ run_id: contextRun.id, output_type: 'result', content: 'Research notes here' })
+      .execute();
+
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, task_id: task.id, input_text: 'Write the article' })
+      .execute();
+
+    const prompts: string[] = [];
+    const recordingRuntime: AgentRuntime = {
+      name: 'recording',
+      execute: async ({ prompt }) => {
+        prompts.push(prompt);
+        return 'Article';
+      }
+    };
+
+    const claimed = await claimNextRun();
+    await executeRun(claimed!, recordingRuntime);
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('Write the article');
+    expect(prompts[0]).toContain('expected criteria for your final answer: A short article');
+    expect(prompts[0]).toContain('Research notes here');
+  });
+
+  it('should write the result to the task output file', async () => {
+    const outputDir = join(tmpdir(), `task-output-${Date.now()}`);
+    const previous = process.env['TASK_OUTPUT_DIR'];
+    process.env['TASK_OUTPUT_DIR'] = outputDir;
+
+    try {
+      const [task] = await db.insert(tasksTable)
+        .values({ name: 'Report', description: 'Write a report', expected_output: 'Report', output_file: 'report.md' })
+        .returning()
+        .execute();
+      await db.insert(agentRunsTable)
+        .values({ agent_id: agentId, task_id: task.id, input_text: 'Write a report' })
+        .execute();
+
+      const claimed = await claimNextRun();
+      const finished = await executeRun(claimed!, createLocalRuntime());
+
+      expect(finished!.status).toEqual('completed');
+      const written = await readFile(join(outputDir, 'report.md'), 'utf8');
+      expect(written).toStartWith('Tester completed: Write a report');
+
+      const [artifact] = await db.select()
+        .from(agentOutputsTable)
+        .where(eq(agentOutputsTable.output_type, 'artifact'))
+        .execute();
+      expect(artifact.metadata).toEqual({ path: join(outputDir, 'report.md'), bytes: Buffer.byteLength(written) });
+    } finally {
+      if (previous !== undefined) process.env['TASK_OUTPUT_DIR'] = previous;
+      else delete process.env['TASK_OUTPUT_DIR'];
+      await rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should drive every pending run to a terminal status', async () => {
+    await insertRun('One');
+    await insertRun('Two');
+    await insertRun('Three');
+
+    const executor = createRunExecutor({ runtime: createLocalRuntime(), concurrency: 2 });
+    await executor.tick();
+    await executor.idle();
+    await executor.tick();
+    await executor.idle();
+
+    const runs = await db.select().from(agentRunsTable).execute();
+    expect(runs).toHaveLength(3);
+    expect(runs.every(run => run.status === 'completed')).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentOutputsTable, agentRunsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { findTemplateVariables, renderTemplate } from '../templates';
+import { startAgentRun } from '../handlers/start_agent_run';
+import { startCrewRun } from '../handlers/start_crew_run';
+import { getRunInputVariables } from '../handlers/get_run_input_variables';
+import { claimNextRun, executeRun } from '../executor/run_executor';
+import { type AgentRuntime } from '../executor/runtime';
+import { InvalidInputError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const templatedAgent = {
+  name: 'Analyst',
+  description: null,
+  role: '{sector} Analyst',
+  goal: 'Spot trends in {sector}',
+  backstory: 'Has followed {sector} for years',
+  is_active: true
+};
+
+const templatedTask = {
+  name: 'Market scan',
+  description: 'Scan the {sector} market in {region}',
+  expected_output: 'Three trends for {region}'
+};
+
+// Answers with the persona and prompt it was given
+const echoRuntime = (calls: { role: string; prompt: string }[]): AgentRuntime => ({
+  name: 'echo',
+  execute: async ({ agent, prompt }) => {
+    calls.push({ role: agent.role, prompt });
+    return `${agent.role} done`;
+  }
+});
+
+describe('run inputs', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+  let taskId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable).values(templatedAgent).returning().execute();
+    agentId = agent.id;
+    const [task] = await db.insert(tasksTable).values({ ...templatedTask, agent_id: agentId }).returning().execute();
+    taskId = task.id;
+  });
+
+  it('should find variables and fill them in, leaving other braces alone', () => {
+    const text = 'Summarize {topic} for {audience}, then {topic} again as {"json": true} or {not a var}';
+
+    expect(findTemplateVariables(text, 'About {audience_2}')).toEqual(['topic', 'audience', 'audience_2']);
+    expect(renderTemplate(text, { topic: 'AI', audience: 'CFOs' }))
+      .toEqual('Summarize AI for CFOs, then AI again as {"json": true} or {not a var}');
+    expect(renderTemplate('Hi {name}', {})).toEqual('Hi {name}');
+  });
+
+  it('should list the variables of an agent, a task and a crew', async () => {
+    expect(await getRunInputVariables({ agent_id: agentId })).toEqual(['sector']);
+    expect(await getRunInputVariables({ task_id: taskId })).toEqual(['sector', 'region']);
+
+    const [writer] = await db.insert(agentsTable)
+      .values({ ...templatedAgent, name: 'Writer', role: 'Writer', goal: 'Write in a {tone} tone', backstory: 'Writes' })
+      .returning()
+      .execute();
+    expect(await getRunInputVariables({ task_id: taskId, agent_id: writer.id })).toEqual(['tone', 'sector', 'region']);
+
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [writer.id, agentId], task_ids: [taskId] })
+      .returning()
+      .execute();
+    expect(await getRunInputVariables({ crew_id: crew.id })).toEqual(['tone', 'sector', 'region']);
+
+    await expect(getRunInputVariables({ task_id: 9999 })).rejects.toThrow(/Task with ID 9999 not found/);
+  });
+
+  it('should refuse to start a run with missing inputs', async () => {
+    const attempt = startAgentRun({ task_id: taskId, inputs: { sector: 'Energy', region: ' ' } });
+
+    await expect(attempt).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(attempt).rejects.toThrow('Missing values for input variables: region');
+    expect(await db.select().from(agentRunsTable).execute()).toHaveLength(0);
+  });
+
+  it('should store the inputs and the resolved prompt', async () => {
+    const run = await startAgentRun({ task_id: taskId, inputs: { sector: 'Energy', region: 'Europe' } });
+    expect(run.inputs).toEqual({ sector: 'Energy', region: 'Europe' });
+    expect(run.resolved_prompt).toBeNull();
+
+    const calls: { role: string; prompt: string }[] = [];
+    await executeRun((await claimNextRun())!, echoRuntime(calls));
+
+    expect(calls[0].role).toEqual('Energy Analyst');
+    expect(calls[0].prompt).toContain('Scan the Energy market in Europe');
+    expect(calls[0].prompt).toContain('Three trends for Europe');
+
+    const [stored] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, run.id)).execute();
+    expect(stored.resolved_prompt).toEqual(calls[0].prompt);
+  });
+
+  it('should fail the run when the agent gained a variable after it started', async () => {
+    const run = await startAgentRun({ agent_id: agentId, input_text: 'Go', inputs: { sector: 'Energy' } });
+    await db.update(agentsTable).set({ goal: 'Cover {sector} in {country}' }).where(eq(agentsTable.id, agentId)).execute();
+
+    const finished = await executeRun((await claimNextRun())!, echoRuntime([]));
+
+    expect(finished!.status).toEqual('failed');
+    const [error] = await db.select().from(agentOutputsTable).where(eq(agentOutputsTable.run_id, run.id)).execute();
+    expect(error.content).toEqual('Missing values for input variables: country');
+  });
+
+  it('should fill in inputs for every crew member and task', async () => {
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [agentId], task_ids: [taskId] })
+      .returning()
+      .execute();
+
+    await expect(startCrewRun({ crew_id: crew.id, input_text: 'Go' })).rejects.toThrow(/sector, region/);
+
+    const run = await startCrewRun({ crew_id: crew.id, input_text: 'Go', inputs: { sector: 'Retail', region: 'Asia' } });
+    const calls: { role: string; prompt: string }[] = [];
+    await executeRun((await claimNextRun())!, echoRuntime(calls));
+
+    expect(calls[0].role).toEqual('Retail Analyst');
+    const [step] = await db.select().from(runStepsTable).where(eq(runStepsTable.run_id, run.id)).execute();
+    expect(step.input_text).toContain('Scan the Retail market in Asia');
+  });
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable } from '../db/schema';
+import { runStatusSchema, type RunStatus } from '../schema';
+import {
+  RUN_TRANSITIONS,
+  RunTimestampError,
+  RunTransitionError,
+  applyRunTransition,
+  canTransition,
+  isTerminalStatus,
+  planTransition,
+  type RunTransition
+} from '../runs/state_machine';
+import { eq } from 'drizzle-orm';
+
+const statuses = runStatusSchema.options;
+
+// Small seeded PRNG (mulberry32) so a failing sequence can be replayed from its seed
+const createRandom = (seed: number) => {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)]
+  };
+};
+
+type SimulatedRun = RunTransition & { id: number };
+
+const freshRun = (): SimulatedRun => ({ id: 1, status: 'pending', started_at: null, completed_at: null, attempt: 1 });
+
+// The invariants every reachable run state has to keep
+const expectConsistent = (run: SimulatedRun) => {
+  if (run.status === 'pending') {
+    expect(run.started_at).toBeNull();
+    expect(run.completed_at).toBeNull();
+  }
+  if (run.status === 'running') {
+    expect(run.started_at).not.toBeNull();
+    expect(run.completed_at).toBeNull();
+  }
+  if (isTerminalStatus(run.status)) {
+    expect(run.completed_at).not.toBeNull();
+  }
+  if (run.started_at && run.completed_at) {
+    expect(run.completed_at.getTime()).toBeGreaterThanOrEqual(run.started_at.getTime());
+  }
+};
+
+describe('run state machine', () => {
+  it('should only allow the documented transitions', () => {
+    expect(canTransition('pending', 'running')).toBe(true);
+    expect(canTransition('running', 'completed')).toBe(true);
+    expect(canTransition('failed', 'pending')).toBe(true);
+    expect(canTransition('completed', 'pending')).toBe(false);
+    expect(canTransition('pending', 'completed')).toBe(false);
+    expect(RUN_TRANSITIONS.completed).toEqual([]);
+    for (const status of statuses) {
+      expect(canTransition(status, status)).toBe(false);
+    }
+  });
+
+  it('should keep runs consistent along random transition sequences', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const random = createRandom(seed);
+      let run = freshRun();
+      let clock = Date.UTC(2024, 0, 1);
+
+      for (let step = 0; step < 50; step++) {
+        clock += Math.floor(random.next() * 60_000);
+        const to = random.pick(statuses);
+        const before = run;
+
+        if (!canTransition(run.status, to)) {
+          expect(() => planTransition(before, to, { now: new Date(clock) })).toThrow(RunTransitionError);
+          continue;
+        }
+
+        run = { id: run.id, ...planTransition(run, to, { now: new Date(clock) }) };
+        expectConsistent(run);
+        expect(run.attempt).toEqual(to === 'pending' ? before.attempt + 1 : before.attempt);
+      }
+    }
+  });
+
+  it('should refuse random timestamps that would break the run history', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const random = createRandom(seed);
+      const now = new Date(Date.UTC(2024, 0, 1, 12));
+      const offset = () => new Date(now.getTime() + Math.floor((random.next() - 0.5) * 7_200_000));
+      const startedAt = offset();
+      const completedAt = offset();
+
+      const attemptStart = () => planTransition(freshRun(), 'running', { now, started_at: startedAt });
+      if (startedAt > now) {
+        expect(attemptStart).toThrow(RunTimestampError);
+        continue;
+      }
+
+      const running = { id: 1, ...attemptStart() };
+      const to = random.pick(['completed', 'failed', 'cancelled'] as RunStatus[]);
+      const attemptFinish = () => planTransition(running, to, { now, completed_at: completedAt });
+      if (completedAt < startedAt) {
+        expect(attemptFinish).toThrow(RunTimestampError);
+      } else {
+        expectConsistent({ id: 1, ...attemptFinish() });
+      }
+    }
+  });
+});
+
+describe('applyRunTransition', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should keep stored runs consistent along random transition sequences', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Walker', description: 'Walks', role: 'Tester', goal: 'Move', backstory: 'Created for testing purposes' })
+      .returning()
+      .execute();
+
+    for (let seed = 1; seed <= 5; seed++) {
+      const random = createRandom(seed);
+      const [created] = await db.insert(agentRunsTable)
+        .values({ agent_id: agent.id, input_text: `Walk ${seed}` })
+        .returning()
+        .execute();
+      let run: SimulatedRun = created;
+
+      for (let step = 0; step < 20; step++) {
+        const to = random.pick(statuses);
+        if (!canTransition(run.status, to)) {
+          await expect(applyRunTransition(run.id, to)).rejects.toThrow(RunTransitionError);
+          continue;
+        }
+
+        const updated = await applyRunTransition(run.id, to);
+        expect(updated!.status).toEqual(to);
+        expect(updated!.attempt).toBeGreaterThanOrEqual(run.attempt);
+        expectConsistent(updated!);
+        run = updated!;
+      }
+
+      const [stored] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, run.id)).execute();
+      expect(stored.status).toEqual(run.status);
+      expect(stored.attempt).toEqual(run.attempt);
+    }
+  });
+
+  it('should throw for a non-existent run', async () => {
+    await expect(applyRunTransition(999, 'running')).rejects.toThrow(/agent run with ID 999 not found/i);
+  });
+});
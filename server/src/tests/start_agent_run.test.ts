@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { agentsTable, agentRunsTable } from '../db/schema';
-import { type StartAgentRunInput } from '../schema';
+import { agentsTable, agentRunsTable, tasksTable } from '../db/schema';
+import { type StartAgentRunInput, startAgentRunInputSchema } from '../schema';
 import { startAgentRun } from '../handlers/start_agent_run';
 import { eq } from 'drizzle-orm';
 
@@ -171,4 +171,59 @@ describe('startAgentRun', () => {
     expect(result.input_text).toEqual(longText);
     expect(result.input_text.length).toEqual(1000);
   });
+
+  it('should start a run from a saved task using its assigned agent', async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    const [task] = await db.insert(tasksTable)
+      .values({
+        name: 'Daily digest',
+        description: 'Summarize the news of the day',
+        expected_output: 'Five bullet points',
+        agent_id: agent.id
+      })
+      .returning()
+      .execute();
+
+    const result = await startAgentRun({ task_id: task.id });
+
+    expect(result.agent_id).toEqual(agent.id);
+    expect(result.task_id).toEqual(task.id);
+    expect(result.input_text).toEqual('Summarize the news of the day');
+    expect(result.status).toEqual('pending');
+  });
+
+  it('should let agent_id override the task assignment', async () => {
+    const [assigned] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    const [override] = await db.insert(agentsTable).values({ ...testAgent, name: 'Override' }).returning().execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Task', description: 'Do it', expected_output: 'Done', agent_id: assigned.id })
+      .returning()
+      .execute();
+
+    const result = await startAgentRun({ task_id: task.id, agent_id: override.id });
+
+    expect(result.agent_id).toEqual(override.id);
+  });
+
+  it('should throw when a task has no agent and none is given', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Orphan', description: 'Nobody owns me', expected_output: 'Nothing' })
+      .returning()
+      .execute();
+
+    await expect(startAgentRun({ task_id: task.id }))
+      .rejects.toThrow(/has no assigned agent/i);
+  });
+
+  it('should throw for a non-existent task', async () => {
+    await expect(startAgentRun({ task_id: 9999, agent_id: 1 }))
+      .rejects.toThrow(/task with id 9999 not found/i);
+  });
+
+  it('should require exactly one of input_text and task_id', () => {
+    expect(startAgentRunInputSchema.safeParse({ agent_id: 1 }).success).toBe(false);
+    expect(startAgentRunInputSchema.safeParse({ agent_id: 1, input_text: 'Hi', task_id: 2 }).success).toBe(false);
+    expect(startAgentRunInputSchema.safeParse({ agent_id: 1, input_text: 'Hi' }).success).toBe(true);
+    expect(startAgentRunInputSchema.safeParse({ task_id: 2 }).success).toBe(true);
+  });
 });
\ No newline at end of file
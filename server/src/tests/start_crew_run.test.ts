@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { startCrewRun } from '../handlers/start_crew_run';
+import { eq, asc } from 'drizzle-orm';
+
+const baseAgent = {
+  description: null,
+  goal: 'Get the job done',
+  backstory: 'Works well in a team',
+  is_active: true
+};
+
+describe('startCrewRun', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentIds: number[];
+  let taskIds: number[];
+
+  beforeEach(async () => {
+    const agents = await db.insert(agentsTable)
+      .values([
+        { ...baseAgent, name: 'Researcher', role: 'Researcher' },
+        { ...baseAgent, name: 'Writer', role: 'Writer' }
+      ])
+      .returning()
+      .execute();
+    agentIds = agents.map(a => a.id);
+
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'Research', description: 'Research', expected_output: 'Notes' },
+        { name: 'Draft', description: 'Draft', expected_output: 'Draft', agent_id: agentIds[0] },
+        { name: 'Polish', description: 'Polish', expected_output: 'Article' }
+      ])
+      .returning()
+      .execute();
+    taskIds = tasks.map(t => t.id);
+  });
+
+  const loadSteps = (runId: number) => db.select()
+    .from(runStepsTable)
+    .where(eq(runStepsTable.run_id, runId))
+    .orderBy(asc(runStepsTable.position))
+    .execute();
+
+  it('should create a pending run with one step per task', async () => {
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agentIds, task_ids: taskIds })
+      .returning()
+      .execute();
+
+    const run = await startCrewRun({ crew_id: crew.id, input_text: 'Write about crews' });
+
+    expect(run.status).toEqual('pending');
+    expect(run.crew_id).toEqual(crew.id);
+    expect(run.agent_id).toEqual(agentIds[0]);
+    expect(run.input_text).toEqual('Write about crews');
+
+    const steps = await loadSteps(run.id);
+    expect(steps.map(s => s.task_id)).toEqual(taskIds);
+    expect(steps.every(s => s.status === 'pending')).toBe(true);
+    // The assigned agent wins; the rest go to crew members in turn
+    expect(steps.map(s => s.agent_id)).toEqual([agentIds[0], agentIds[0], agentIds[0]]);
+  });
+
+  it('should leave agent choice to the manager in hierarchical crews', async () => {
+    const [manager] = await db.insert(agentsTable)
+      .values({ ...baseAgent, name: 'Manager', role: 'Manager' })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', process: 'hierarchical', manager_agent_id: manager.id, agent_ids: agentIds, task_ids: taskIds })
+      .returning()
+      .execute();
+
+    const run = await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    expect(run.agent_id).toEqual(manager.id);
+    const steps = await loadSteps(run.id);
+    expect(steps.every(s => s.agent_id === null)).toBe(true);
+  });
+
+  it('should throw for a non-existent crew', async () => {
+    await expect(startCrewRun({ crew_id: 999, input_text: 'Go' })).rejects.toThrow(/crew with ID 999 not found/i);
+  });
+
+  it('should throw when a crew member is inactive', async () => {
+    await db.update(agentsTable)
+      .set({ is_active: false })
+      .where(eq(agentsTable.id, agentIds[1]))
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agentIds, task_ids: taskIds })
+      .returning()
+      .execute();
+
+    await expect(startCrewRun({ crew_id: crew.id, input_text: 'Go' })).rejects.toThrow(/is not active/i);
+  });
+
+  it('should throw before planning steps for a task that no longer exists', async () => {
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agentIds, task_ids: [...taskIds, 999] })
+      .returning()
+      .execute();
+
+    await expect(startCrewRun({ crew_id: crew.id, input_text: 'Go' })).rejects.toThrow(/task with ID 999 not found/i);
+    expect(await db.select().from(runStepsTable).execute()).toHaveLength(0);
+  });
+
+  it('should throw when a crew has no tasks left', async () => {
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: agentIds, task_ids: [] })
+      .returning()
+      .execute();
+
+    await expect(startCrewRun({ crew_id: crew.id, input_text: 'Go' })).rejects.toThrow(/has no tasks/i);
+  });
+});
@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { agentsTable, agentRunsTable, agentOutputsTable } from '../db/schema';
+import { agentsTable, agentRunsTable, agentOutputsTable, runStepsTable, tasksTable } from '../db/schema';
 import { streamAgentRun } from '../handlers/stream_agent_run';
-import { eq } from 'drizzle-orm';
+import { createAgentOutput } from '../handlers/create_agent_output';
+import { updateAgentRunStatus } from '../handlers/update_agent_run_status';
 
 // Test data
 const testAgent = {
@@ -77,28 +78,29 @@ describe('streamAgentRun', () => {
       if (events.length > 10) break;
     }
 
-    // Should have 2 output events + 1 complete event
-    expect(events).toHaveLength(3);
+    // Should have the current status, 2 output events and 1 complete event
+    expect(events).toHaveLength(4);
+    expect(events[0]).toEqual({ type: 'status_update', run_id: run.id, data: { status: 'completed' } });
 
-    // First two should be outputs
-    expect(events[0].type).toEqual('output');
-    expect(events[0].run_id).toEqual(run.id);
-    expect(events[0].data).toMatchObject({
+    // Then the outputs
+    expect(events[1].type).toEqual('output');
+    expect(events[1].run_id).toEqual(run.id);
+    expect(events[1].data).toMatchObject({
       output_type: 'log',
       content: 'Starting process...'
     });
 
-    expect(events[1].type).toEqual('output');
-    expect(events[1].run_id).toEqual(run.id);
-    expect(events[1].data).toMatchObject({
+    expect(events[2].type).toEqual('output');
+    expect(events[2].run_id).toEqual(run.id);
+    expect(events[2].data).toMatchObject({
       output_type: 'result',
       content: 'Process completed successfully'
     });
 
     // Last should be completion
-    expect(events[2].type).toEqual('complete');
-    expect(events[2].run_id).toEqual(run.id);
-    expect((events[2].data as any).final_result).toEqual('Process completed successfully');
+    expect(events[3].type).toEqual('complete');
+    expect(events[3].run_id).toEqual(run.id);
+    expect((events[3].data as any).final_result).toEqual('Process completed successfully');
   });
 
   it('should stream empty completion for run with no outputs', async () => {
@@ -129,11 +131,10 @@ describe('streamAgentRun', () => {
       if (events.length > 5) break;
     }
 
-    // Should only have completion event
-    expect(events).toHaveLength(1);
-    expect(events[0].type).toEqual('complete');
-    expect(events[0].run_id).toEqual(run.id);
-    expect((events[0].data as any).final_result).toBeUndefined();
+    // Should only have the status and the completion event
+    expect(events.map(e => e.type)).toEqual(['status_update', 'complete']);
+    expect(events[1].run_id).toEqual(run.id);
+    expect((events[1].data as any).final_result).toBeUndefined();
   });
 
   it('should stream status updates and new outputs during run', async () => {
@@ -170,46 +171,19 @@ describe('streamAgentRun', () => {
     // Simulate run progress with delays
     await new Promise(resolve => setTimeout(resolve, 100));
 
-    // Update status to running
-    await db.update(agentRunsTable)
-      .set({ 
-        status: 'running',
-        started_at: new Date()
-      })
-      .where(eq(agentRunsTable.id, run.id))
-      .execute();
+    // Update status to running; the handlers publish the events the stream waits for
+    await updateAgentRunStatus({ id: run.id, status: 'running' });
 
     await new Promise(resolve => setTimeout(resolve, 100));
 
     // Add some outputs
-    await db.insert(agentOutputsTable)
-      .values({
-        run_id: run.id,
-        output_type: 'log',
-        content: 'Processing started',
-        timestamp: new Date()
-      })
-      .execute();
+    await createAgentOutput({ run_id: run.id, output_type: 'log', content: 'Processing started' });
 
     await new Promise(resolve => setTimeout(resolve, 100));
 
     // Add result and complete
-    await db.insert(agentOutputsTable)
-      .values({
-        run_id: run.id,
-        output_type: 'result',
-        content: 'Task completed',
-        timestamp: new Date()
-      })
-      .execute();
-
-    await db.update(agentRunsTable)
-      .set({ 
-        status: 'completed',
-        completed_at: new Date()
-      })
-      .where(eq(agentRunsTable.id, run.id))
-      .execute();
+    await createAgentOutput({ run_id: run.id, output_type: 'result', content: 'Task completed' });
+    await updateAgentRunStatus({ id: run.id, status: 'completed' });
 
     // Wait for stream to complete
     await streamPromise;
@@ -217,10 +191,11 @@ describe('streamAgentRun', () => {
     // Should have received status update, outputs, and completion
     expect(events.length).toBeGreaterThan(2);
 
-    // Find status update (could be running or completed depending on timing)
-    const statusUpdate = events.find(e => e.type === 'status_update');
-    expect(statusUpdate).toBeDefined();
-    expect(['running', 'completed']).toContain((statusUpdate!.data as any).status);
+    // The stream opens with the pending status, then follows the run
+    const statuses = events.filter(e => e.type === 'status_update').map(e => (e.data as any).status);
+    expect(statuses[0]).toEqual('pending');
+    expect(statuses.slice(1).every(status => ['running', 'completed'].includes(status))).toBe(true);
+    expect(statuses.length).toBeGreaterThan(1);
 
     // Find outputs
     const outputs = events.filter(e => e.type === 'output');
@@ -337,4 +312,142 @@ describe('streamAgentRun', () => {
     const completion = events.find(e => e.type === 'complete');
     expect(completion).toBeDefined();
   });
-});
\ No newline at end of file
+
+  it('should report crew steps and tag outputs with their agent and task', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Research', description: 'Research the topic', expected_output: 'Notes' })
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({
+        ...testRun,
+        agent_id: agent.id,
+        status: 'completed',
+        started_at: new Date(),
+        completed_at: new Date()
+      })
+      .returning()
+      .execute();
+
+    await db.insert(runStepsTable)
+      .values({ run_id: run.id, position: 0, task_id: task.id, agent_id: agent.id, status: 'completed', output: 'Notes' })
+      .execute();
+    await db.insert(agentOutputsTable)
+      .values({ run_id: run.id, agent_id: agent.id, task_id: task.id, output_type: 'result', content: 'Notes' })
+      .execute();
+
+    const events = [];
+    for await (const event of streamAgentRun(run.id)) {
+      events.push(event);
+      if (events.length > 10) break;
+    }
+
+    expect(events.map(e => e.type)).toEqual(['status_update', 'step_update', 'output', 'complete']);
+    expect(events[1].data).toMatchObject({ position: 0, task_id: task.id, agent_id: agent.id, status: 'completed' });
+    expect(events[2].data).toMatchObject({ agent_id: agent.id, task_id: task.id, content: 'Notes' });
+  });
+
+  it('should treat a cancelled run as finished', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ ...testRun, agent_id: agent.id, status: 'cancelled', completed_at: new Date() })
+      .returning()
+      .execute();
+
+    const events = [];
+    for await (const event of streamAgentRun(run.id)) {
+      events.push(event);
+      if (events.length > 10) break;
+    }
+
+    expect(events.map(e => e.type)).toEqual(['status_update', 'complete']);
+    expect(events[0].data).toEqual({ status: 'cancelled' });
+    expect((events[1].data as any).final_result).toBeUndefined();
+  });
+
+  it('should resume after the given output and re-send the status', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ ...testRun, agent_id: agent.id, status: 'completed', completed_at: new Date() })
+      .returning()
+      .execute();
+    const outputs = await db.insert(agentOutputsTable)
+      .values([
+        { run_id: run.id, output_type: 'result', content: 'Part 1' },
+        { run_id: run.id, output_type: 'log', content: 'Seen before the drop' },
+        { run_id: run.id, output_type: 'result', content: 'Part 2' }
+      ])
+      .returning()
+      .execute();
+
+    const events = [];
+    for await (const event of streamAgentRun(run.id, { afterOutputId: outputs[1].id })) {
+      events.push(event);
+      if (events.length > 10) break;
+    }
+
+    expect(events.map(e => e.type)).toEqual(['status_update', 'output', 'complete']);
+    expect(events[0].data).toEqual({ status: 'completed' });
+    expect(events[1].data).toMatchObject({ id: outputs[2].id, content: 'Part 2' });
+    expect((events[2].data as any).final_result).toEqual('Part 1\nPart 2');
+  });
+
+  it('should stop waiting when the subscriber goes away', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ ...testRun, agent_id: agent.id })
+      .returning()
+      .execute();
+
+    const controller = new AbortController();
+    const stream = streamAgentRun(run.id, { signal: controller.signal });
+    expect((await stream.next()).value).toMatchObject({ type: 'status_update', data: { status: 'pending' } });
+    const next = stream.next();
+    setTimeout(() => controller.abort(), 50);
+
+    expect((await next).done).toBe(true);
+  });
+
+  it('should send the current status when reconnecting before any output', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values(testAgent)
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ ...testRun, agent_id: agent.id })
+      .returning()
+      .execute();
+
+    // The first stream drops while the run is still pending
+    const controller = new AbortController();
+    const first = streamAgentRun(run.id, { signal: controller.signal });
+    expect((await first.next()).value).toMatchObject({ data: { status: 'pending' } });
+    controller.abort();
+    await first.return(undefined);
+
+    await updateAgentRunStatus({ id: run.id, status: 'running' });
+    await updateAgentRunStatus({ id: run.id, status: 'failed' });
+
+    const events = [];
+    for await (const event of streamAgentRun(run.id)) {
+      events.push(event);
+      if (events.length > 10) break;
+    }
+
+    expect(events.map(e => e.type)).toEqual(['status_update', 'complete']);
+    expect(events[0].data).toEqual({ status: 'failed' });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db, pool } from '../db';
+import { agentsTable, agentRunsTable } from '../db/schema';
+import { type StreamOutputEvent } from '../schema';
+import { streamAgentRun } from '../handlers/stream_agent_run';
+import { createAgentOutput } from '../handlers/create_agent_output';
+import { updateAgentRunStatus } from '../handlers/update_agent_run_status';
+
+const SUBSCRIBERS = 20;
+
+// Counts every query sent through the shared pool while it is installed
+const countQueries = () => {
+  const original = pool.query;
+  let count = 0;
+  pool.query = ((...args: Parameters<typeof pool.query>) => {
+    count++;
+    return (original as (...a: unknown[]) => unknown).apply(pool, args);
+  }) as typeof pool.query;
+
+  return {
+    count: () => count,
+    restore: () => {
+      pool.query = original;
+    }
+  };
+};
+
+describe('streamAgentRun under load', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should not query while subscribers wait and only query per event afterwards', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Agent', description: null, role: 'Worker', goal: 'Work', backstory: 'Works', is_active: true })
+      .returning()
+      .execute();
+    const [run] = await db.insert(agentRunsTable)
+      .values({ agent_id: agent.id, input_text: 'Busy work' })
+      .returning()
+      .execute();
+
+    const queries = countQueries();
+    try {
+      const received: StreamOutputEvent[][] = [];
+      const subscribers = Array.from({ length: SUBSCRIBERS }, async (_, index) => {
+        received[index] = [];
+        for await (const event of streamAgentRun(run.id)) {
+          received[index].push(event);
+        }
+      });
+
+      // Let every subscriber catch up, then measure an idle second
+      await new Promise(resolve => setTimeout(resolve, 200));
+      const afterCatchUp = queries.count();
+      expect(afterCatchUp).toBeGreaterThanOrEqual(SUBSCRIBERS);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      expect(queries.count()).toEqual(afterCatchUp);
+
+      const beforeOutputs = queries.count();
+      await updateAgentRunStatus({ id: run.id, status: 'running' });
+      for (let i = 0; i < 5; i++) {
+        await createAgentOutput({ run_id: run.id, output_type: 'log', content: `Step ${i}` });
+      }
+      await createAgentOutput({ run_id: run.id, output_type: 'result', content: 'Done' });
+      await updateAgentRunStatus({ id: run.id, status: 'completed' });
+      await Promise.all(subscribers);
+
+      // Each write costs at most one read per subscriber, no matter how long the run takes
+      const writes = 2 * 2 + 6 * 2;
+      expect(queries.count() - beforeOutputs).toBeLessThanOrEqual(writes + 6 * SUBSCRIBERS);
+
+      for (const events of received) {
+        expect(events.filter(e => e.type === 'output')).toHaveLength(6);
+        expect(events[events.length - 1]).toEqual({ type: 'complete', run_id: run.id, data: { final_result: 'Done' } });
+      }
+    } finally {
+      queries.restore();
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, agentRunsTable, agentOutputsTable, crewsTable, runStepsTable, tasksTable } from '../db/schema';
+import { type JsonSchema } from '../schema';
+import { claimNextRun, executeRun } from '../executor/run_executor';
+import { type AgentRuntime } from '../executor/runtime';
+import { checkStructuredAnswer, extractJson, MAX_REPAIR_ATTEMPTS } from '../executor/structured_output';
+import { retryAgentRun } from '../handlers/retry_agent_run';
+import { startCrewRun } from '../handlers/start_crew_run';
+import { eq, asc } from 'drizzle-orm';
+
+const summarySchema: JsonSchema = {
+  type: 'object',
+  properties: { title: { type: 'string' }, score: { type: 'integer', minimum: 1, maximum: 5 } },
+  required: ['title', 'score']
+};
+
+const testAgent = {
+  name: 'Structured Agent',
+  description: 'Agent with an output schema',
+  role: 'Summarizer',
+  goal: 'Return machine-readable summaries',
+  backstory: 'Feeds other systems',
+  expected_output_schema: summarySchema,
+  is_active: true
+};
+
+// Replies with the given answers in turn and remembers the prompts it got
+const scriptedRuntime = (answers: string[], prompts: string[]): AgentRuntime => ({
+  name: 'scripted',
+  execute: async ({ prompt }) => {
+    prompts.push(prompt);
+    return answers[Math.min(prompts.length, answers.length) - 1];
+  }
+});
+
+const loadOutputs = (runId: number) => db.select()
+  .from(agentOutputsTable)
+  .where(eq(agentOutputsTable.run_id, runId))
+  .orderBy(asc(agentOutputsTable.id))
+  .execute();
+
+describe('structured output', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentId: number;
+
+  beforeEach(async () => {
+    const [agent] = await db.insert(agentsTable).values(testAgent).returning().execute();
+    agentId = agent.id;
+  });
+
+  const insertRun = async (values: Partial<typeof agentRunsTable.$inferInsert> = {}) => {
+    await db.insert(agentRunsTable)
+      .values({ agent_id: agentId, input_text: 'Summarize the report', ...values })
+      .execute();
+    return (await claimNextRun())!;
+  };
+
+  it('should find JSON in fenced or chatty answers', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Sure! [1, 2] is the list.')).toEqual([1, 2]);
+    expect(() => extractJson('no JSON here')).toThrow(/not valid JSON/);
+    expect(checkStructuredAnswer('nope', summarySchema)).toEqual({ ok: false, errors: ['$: the answer is not valid JSON'] });
+  });
+
+  it('should store the parsed JSON on the run', async () => {
+    const run = await insertRun();
+    const prompts: string[] = [];
+
+    const finished = await executeRun(run, scriptedRuntime(['```json\n{"title": "Q3", "score": 4}\n```'], prompts));
+
+    expect(finished!.status).toEqual('completed');
+    expect(finished!.output_json).toEqual({ title: 'Q3', score: 4 });
+    expect(prompts[0]).toContain('must be only a JSON value');
+    expect(prompts[0]).toContain('"required": [');
+
+    const outputs = await loadOutputs(run.id);
+    expect(JSON.parse(outputs[outputs.length - 1].content)).toEqual({ title: 'Q3', score: 4 });
+  });
+
+  it('should ask the agent to repair an answer that does not match', async () => {
+    const run = await insertRun();
+    const prompts: string[] = [];
+
+    const finished = await executeRun(run, scriptedRuntime(['{"title": "Q3", "score": 9}', '{"title": "Q3", "score": 5}'], prompts));
+
+    expect(finished!.status).toEqual('completed');
+    expect(finished!.output_json).toEqual({ title: 'Q3', score: 5 });
+    expect(prompts[1]).toContain('- $.score: must be at most 5');
+
+    const [error] = (await loadOutputs(run.id)).filter(o => o.output_type === 'error');
+    expect(error.metadata).toEqual({ kind: 'output_validation', attempt: 1, errors: ['$.score: must be at most 5'] });
+  });
+
+  it('should fail the run with typed errors once the repairs run out', async () => {
+    const run = await insertRun();
+    const prompts: string[] = [];
+
+    const finished = await executeRun(run, scriptedRuntime(['I think it went well'], prompts));
+
+    expect(finished!.status).toEqual('failed');
+    expect(finished!.output_json).toBeNull();
+    expect(prompts).toHaveLength(MAX_REPAIR_ATTEMPTS + 1);
+
+    const errors = (await loadOutputs(run.id)).filter(o => o.output_type === 'error');
+    expect(errors.map(e => (e.metadata as { attempt: number }).attempt)).toEqual([1, 2, 3]);
+    expect(errors[2].content).toMatch(/does not match the expected output schema/);
+  });
+
+  it('should prefer the task schema and clear the result on retry', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({
+        name: 'Tags',
+        description: 'Tag the report',
+        expected_output: 'A list of tags',
+        expected_output_schema: { type: 'array', items: { type: 'string' } }
+      })
+      .returning()
+      .execute();
+    const run = await insertRun({ task_id: task.id });
+
+    const finished = await executeRun(run, scriptedRuntime(['["finance", "q3"]'], []));
+    expect(finished!.output_json).toEqual(['finance', 'q3']);
+
+    // Completed runs are final, so fail it first the way a later check would
+    await db.update(agentRunsTable).set({ status: 'failed' }).where(eq(agentRunsTable.id, run.id)).execute();
+    const retried = await retryAgentRun(run.id);
+    expect(retried.output_json).toBeNull();
+  });
+
+  it('should validate and repair the answers of crew tasks', async () => {
+    await db.update(agentsTable).set({ expected_output_schema: null }).execute();
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { name: 'Notes', description: 'Take notes', expected_output: 'Notes' },
+        { name: 'Summary', description: 'Summarize the notes', expected_output: 'A summary', expected_output_schema: summarySchema }
+      ])
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [agentId], task_ids: tasks.map(t => t.id) })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+    const prompts: string[] = [];
+
+    const run = (await claimNextRun())!;
+    const finished = await executeRun(run, scriptedRuntime(['Some notes', '{"title": "Q3", "score": 9}', '{"title": "Q3", "score": 5}'], prompts));
+
+    expect(finished!.status).toEqual('completed');
+    expect(finished!.output_json).toEqual({ title: 'Q3', score: 5 });
+    expect(prompts[0]).not.toContain('must be only a JSON value');
+    expect(prompts[1]).toContain('must be only a JSON value');
+    expect(prompts[2]).toContain('- $.score: must be at most 5');
+
+    const [error] = (await loadOutputs(run.id)).filter(o => o.output_type === 'error');
+    expect(error.task_id).toEqual(tasks[1].id);
+    expect(error.metadata).toEqual({ kind: 'output_validation', attempt: 1, errors: ['$.score: must be at most 5'] });
+
+    const steps = await db.select().from(runStepsTable).where(eq(runStepsTable.run_id, run.id)).orderBy(asc(runStepsTable.position)).execute();
+    expect(JSON.parse(steps[1].output!)).toEqual({ title: 'Q3', score: 5 });
+  });
+
+  it('should fail a crew run whose task answer never matches', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Summary', description: 'Summarize', expected_output: 'A summary' })
+      .returning()
+      .execute();
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [agentId], task_ids: [task.id] })
+      .returning()
+      .execute();
+    await startCrewRun({ crew_id: crew.id, input_text: 'Go' });
+
+    // The agent's schema applies since the task has none
+    const finished = await executeRun((await claimNextRun())!, scriptedRuntime(['No JSON, sorry'], []));
+
+    expect(finished!.status).toEqual('failed');
+    expect(finished!.output_json).toBeNull();
+  });
+
+  it('should leave runs without a schema alone', async () => {
+    await db.update(agentsTable).set({ expected_output_schema: null }).execute();
+    const run = await insertRun();
+
+    const finished = await executeRun(run, scriptedRuntime(['Plain text answer'], []));
+
+    expect(finished!.status).toEqual('completed');
+    expect(finished!.output_json).toBeNull();
+  });
+});
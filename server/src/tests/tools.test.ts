@@ -0,0 +1,226 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, mkdir, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable } from '../db/schema';
+import { createCalculatorTool, evaluateExpression } from '../tools/calculator';
+import { createReadFileTool } from '../tools/read_file';
+import { createHttpFetchTool, isHostAllowed } from '../tools/http_fetch';
+import { createSqlQueryTool } from '../tools/sql_query';
+import { createToolbox, listTools } from '../tools';
+import { ToolInputError } from '../tools/types';
+
+const context = () => ({ signal: new AbortController().signal });
+
+describe('calculator tool', () => {
+  it('should follow operator precedence and associativity', () => {
+    expect(evaluateExpression('1 + 2 * 3')).toEqual(7);
+    expect(evaluateExpression('(1 + 2) * 3')).toEqual(9);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toEqual(512);
+    expect(evaluateExpression('-2 ^ 2')).toEqual(-4);
+    expect(evaluateExpression('2 ^ -1')).toEqual(0.5);
+    expect(evaluateExpression('10 % 4 - 8 / 2')).toEqual(-2);
+  });
+
+  it('should support functions and constants', () => {
+    expect(evaluateExpression('sqrt(16) + max(1, 5, 3)')).toEqual(9);
+    expect(evaluateExpression('round(pi * 100)')).toEqual(314);
+  });
+
+  it('should reject anything that is not arithmetic', () => {
+    expect(() => evaluateExpression('process.exit(1)')).toThrow(ToolInputError);
+    expect(() => evaluateExpression('1 / 0')).toThrow(/finite/i);
+    expect(() => evaluateExpression('2 +')).toThrow(ToolInputError);
+    expect(() => evaluateExpression('unknown(2)')).toThrow(/unknown/i);
+  });
+
+  it('should validate its input against the schema', async () => {
+    const calculator = createCalculatorTool();
+
+    expect(await calculator.invoke({ expression: '6 * 7' }, context())).toEqual('42');
+    await expect(calculator.invoke({ expr: '6 * 7' }, context())).rejects.toThrow(/invalid input \(expression/i);
+  });
+});
+
+describe('read_file tool', () => {
+  let root: string;
+  let workspace: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'read-file-tool-'));
+    workspace = join(root, 'workspace');
+    await mkdir(join(workspace, 'notes'), { recursive: true });
+    await writeFile(join(workspace, 'notes', 'todo.md'), 'Ship it');
+    await writeFile(join(workspace, 'big.txt'), 'x'.repeat(100));
+    await writeFile(join(root, 'secret.txt'), 'top secret');
+    await symlink(join(root, 'secret.txt'), join(workspace, 'escape.txt'));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should read files and list directories in the workspace', async () => {
+    const tool = createReadFileTool({ workspaceDir: workspace });
+
+    expect(await tool.invoke({ path: 'notes/todo.md' }, context())).toEqual('Ship it');
+    expect(await tool.invoke({ path: '.' }, context())).toEqual('big.txt\nescape.txt\nnotes/');
+  });
+
+  it('should truncate large files', async () => {
+    const tool = createReadFileTool({ workspaceDir: workspace, maxBytes: 10 });
+
+    const content = await tool.invoke({ path: 'big.txt' }, context());
+    expect(content).toStartWith('xxxxxxxxxx\n');
+    expect(content).toContain('truncated after 10 of 100 bytes');
+  });
+
+  it('should refuse paths and symlinks leading out of the workspace', async () => {
+    const tool = createReadFileTool({ workspaceDir: workspace });
+
+    await expect(tool.invoke({ path: '../secret.txt' }, context())).rejects.toThrow(/outside the workspace/i);
+    await expect(tool.invoke({ path: join(root, 'secret.txt') }, context())).rejects.toThrow(/outside the workspace/i);
+    await expect(tool.invoke({ path: 'escape.txt' }, context())).rejects.toThrow(/outside the workspace/i);
+    await expect(tool.invoke({ path: 'missing.txt' }, context())).rejects.toThrow(/does not exist/i);
+  });
+});
+
+describe('http_fetch tool', () => {
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: (req) => {
+        const url = new URL(req.url);
+        if (url.pathname === '/hop') {
+          return Response.redirect(`http://localhost:${server.port}/data`, 302);
+        }
+        if (url.pathname === '/away') {
+          return Response.redirect(`http://127.0.0.1:${server.port}/data`, 302);
+        }
+        if (url.pathname === '/loop') {
+          return Response.redirect(`http://localhost:${server.port}/loop`, 302);
+        }
+        if (url.pathname === '/endless') {
+          // Keeps sending until the client hangs up
+          return new Response(new ReadableStream({
+            pull: (controller) => controller.enqueue(new TextEncoder().encode('y'.repeat(1024)))
+          }));
+        }
+        return new Response('{"ok":true}');
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it('should match hosts against the allow-list', () => {
+    expect(isHostAllowed('api.example.com', ['*.example.com'])).toBe(true);
+    expect(isHostAllowed('example.com', ['*.example.com'])).toBe(true);
+    expect(isHostAllowed('badexample.com', ['*.example.com'])).toBe(false);
+    expect(isHostAllowed('Example.com', ['example.com'])).toBe(true);
+    expect(isHostAllowed('example.com', [])).toBe(false);
+  });
+
+  it('should fetch allow-listed URLs and follow allowed redirects', async () => {
+    const tool = createHttpFetchTool({ allowedHosts: ['localhost'] });
+
+    expect(await tool.invoke({ url: `http://localhost:${server.port}/data` }, context())).toEqual('Status: 200\n\n{"ok":true}');
+    expect(await tool.invoke({ url: `http://localhost:${server.port}/hop` }, context())).toEqual('Status: 200\n\n{"ok":true}');
+  });
+
+  it('should stop reading bodies at the size limit', async () => {
+    const tool = createHttpFetchTool({ allowedHosts: ['localhost'], maxBytes: 2000 });
+
+    const output = await tool.invoke({ url: `http://localhost:${server.port}/endless` }, context());
+    expect(output).toEqual(`Status: 200\n\n${'y'.repeat(2000)}\n[truncated after 2000 bytes]`);
+  });
+
+  it('should refuse other hosts, schemes and redirects off the allow-list', async () => {
+    const tool = createHttpFetchTool({ allowedHosts: ['localhost'], maxRedirects: 2 });
+
+    await expect(tool.invoke({ url: `http://127.0.0.1:${server.port}/data` }, context())).rejects.toThrow(/allow-list/i);
+    await expect(tool.invoke({ url: 'file:///etc/passwd' }, context())).rejects.toThrow(/only http/i);
+    await expect(tool.invoke({ url: `http://localhost:${server.port}/away` }, context())).rejects.toThrow(/127\.0\.0\.1 is not on the allow-list/i);
+    await expect(tool.invoke({ url: `http://localhost:${server.port}/loop` }, context())).rejects.toThrow(/2 redirects/i);
+  });
+});
+
+describe('sql_query tool', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(agentsTable)
+      .values({ name: 'Queried Agent', description: 'Agent', role: 'Analyst', goal: 'Be found', backstory: 'Stored' })
+      .execute();
+  });
+
+  const tool = () => createSqlQueryTool({ connectionString: process.env['APP_DATABASE_URL'], maxRows: 1 });
+
+  it('should return rows as JSON', async () => {
+    const output = await tool().invoke({ query: 'SELECT name FROM agents' }, context());
+
+    expect(JSON.parse(output)).toEqual([{ name: 'Queried Agent' }]);
+  });
+
+  it('should cap the number of rows', async () => {
+    const output = await tool().invoke({ query: 'SELECT generate_series(1, 3) AS n' }, context());
+
+    expect(output).toContain('[2 more rows not shown]');
+  });
+
+  it('should refuse writes and statement lists', async () => {
+    await expect(tool().invoke({ query: "UPDATE agents SET name = 'Changed'" }, context())).rejects.toThrow(/read-only/i);
+    await expect(tool().invoke({ query: "COMMIT; UPDATE agents SET name = 'Changed'" }, context())).rejects.toThrow(ToolInputError);
+
+    const agents = await db.select().from(agentsTable).execute();
+    expect(agents[0].name).toEqual('Queried Agent');
+  });
+
+  it('should report databases it cannot reach', async () => {
+    const unreachable = createSqlQueryTool({ connectionString: 'postgres://postgres@localhost:1/postgres' });
+
+    await expect(unreachable.invoke({ query: 'SELECT 1' }, context())).rejects.toThrow(/ECONNREFUSED/);
+  });
+
+  it('should refuse to run without a database', async () => {
+    const unconfigured = createSqlQueryTool({});
+
+    await expect(unconfigured.invoke({ query: 'SELECT 1' }, context())).rejects.toThrow(/no read-only database/i);
+  });
+});
+
+describe('toolbox', () => {
+  it('should list every built-in tool', () => {
+    expect(listTools().map(tool => tool.name)).toEqual(['calculator', 'read_file', 'http_fetch', 'sql_query']);
+  });
+
+  it('should record calls and results, returning failures as text', async () => {
+    const recorded: { type: string; content: string; metadata: unknown }[] = [];
+    const toolbox = createToolbox([createCalculatorTool()], {
+      signal: new AbortController().signal,
+      record: async (type, content, metadata) => {
+        recorded.push({ type, content, metadata });
+      }
+    });
+
+    expect(await toolbox.call('calculator', { expression: '2 + 2' })).toEqual('4');
+    expect(await toolbox.call('calculator', { expression: '2 +' })).toStartWith('Error: calculator:');
+    expect(await toolbox.call('shell', { command: 'ls' })).toMatch(/unknown tool "shell"/i);
+
+    expect(recorded[0]).toEqual({
+      type: 'tool_call',
+      content: 'calculator {"expression":"2 + 2"}',
+      metadata: { tool: 'calculator', input: { expression: '2 + 2' } }
+    });
+    expect(recorded[1]).toEqual({ type: 'tool_result', content: '4', metadata: { tool: 'calculator', error: null } });
+    expect(recorded[3].metadata).toEqual({ tool: 'calculator', error: recorded[3].content });
+    expect(recorded).toHaveLength(6);
+  });
+});
@@ -127,15 +127,24 @@ describe('updateAgent', () => {
     expect(result!.name).toEqual(initialAgent.name); // Other fields unchanged
   });
 
-  it('should return null for non-existent agent ID', async () => {
+  it('should switch and clear the LLM provider', async () => {
+    const initialAgent = await createTestAgent(testAgentData);
+
+    const switched = await updateAgent({ id: initialAgent.id, llm_provider: 'anthropic' });
+    expect(switched!.llm_provider).toEqual('anthropic');
+
+    const cleared = await updateAgent({ id: initialAgent.id, llm_provider: null });
+    expect(cleared!.llm_provider).toBeNull();
+    expect(cleared!.role).toEqual(initialAgent.role); // Other fields unchanged
+  });
+
+  it('should throw for non-existent agent ID', async () => {
     const updateInput: UpdateAgentInput = {
       id: 99999, // Non-existent ID
       name: 'This should not work'
     };
 
-    const result = await updateAgent(updateInput);
-
-    expect(result).toBeNull();
+    await expect(updateAgent(updateInput)).rejects.toThrow(/agent with ID 99999 not found/i);
   });
 
   it('should save updates to database', async () => {
@@ -120,7 +120,12 @@ describe('updateAgentRunStatus', () => {
 
   it('should accept custom completed_at timestamp', async () => {
     const customCompletedTime = new Date('2024-01-01T11:00:00Z');
-    
+    await updateAgentRunStatus({
+      id: testRunId,
+      status: 'running',
+      started_at: new Date('2024-01-01T10:00:00Z')
+    });
+
     const input: UpdateAgentRunInput = {
       id: testRunId,
       status: 'completed',
@@ -134,34 +139,56 @@ describe('updateAgentRunStatus', () => {
     expect(result!.completed_at).toEqual(customCompletedTime);
   });
 
-  it('should accept null timestamps when provided', async () => {
-    const input: UpdateAgentRunInput = {
+  it('should reject completed_at before started_at', async () => {
+    await updateAgentRunStatus({
       id: testRunId,
-      status: 'pending',
-      started_at: null,
-      completed_at: null
-    };
+      status: 'running',
+      started_at: new Date('2024-01-01T10:00:00Z')
+    });
 
-    const result = await updateAgentRunStatus(input);
+    await expect(updateAgentRunStatus({
+      id: testRunId,
+      status: 'completed',
+      completed_at: new Date('2024-01-01T09:00:00Z')
+    })).rejects.toThrow(/completed_at cannot be before started_at/i);
+  });
 
-    expect(result).not.toBeNull();
-    expect(result!.status).toEqual('pending');
-    expect(result!.started_at).toBeNull();
-    expect(result!.completed_at).toBeNull();
+  it('should reject timestamps that the transition does not set', async () => {
+    await expect(updateAgentRunStatus({
+      id: testRunId,
+      status: 'cancelled',
+      started_at: new Date('2024-01-01T10:00:00Z')
+    })).rejects.toThrow(/started_at can only be given/i);
+  });
+
+  it('should reject skipping the running status', async () => {
+    await expect(updateAgentRunStatus({ id: testRunId, status: 'completed' }))
+      .rejects.toThrow(/is pending and cannot move to completed/i);
+  });
+
+  it('should keep completed runs completed', async () => {
+    await updateAgentRunStatus({ id: testRunId, status: 'running' });
+    await updateAgentRunStatus({ id: testRunId, status: 'completed' });
+
+    await expect(updateAgentRunStatus({ id: testRunId, status: 'pending' }))
+      .rejects.toThrow(/is completed and cannot move to pending/i);
+
+    const [run] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, testRunId)).execute();
+    expect(run.status).toEqual('completed');
   });
 
-  it('should return null for non-existent agent run', async () => {
+  it('should throw for non-existent agent run', async () => {
     const input: UpdateAgentRunInput = {
       id: 99999, // Non-existent ID
       status: 'running'
     };
 
-    const result = await updateAgentRunStatus(input);
-
-    expect(result).toBeNull();
+    await expect(updateAgentRunStatus(input)).rejects.toThrow(/agent run with ID 99999 not found/i);
   });
 
   it('should update the database record correctly', async () => {
+    await updateAgentRunStatus({ id: testRunId, status: 'running' });
+
     const input: UpdateAgentRunInput = {
       id: testRunId,
       status: 'completed'
@@ -181,23 +208,29 @@ describe('updateAgentRunStatus', () => {
     expect(updatedRun[0].updated_at).toBeInstanceOf(Date);
   });
 
-  it('should preserve existing timestamps when not changing status type', async () => {
-    // First set to running to establish started_at
+  it('should reject moving a run to the status it already has', async () => {
     const firstUpdate = await updateAgentRunStatus({
       id: testRunId,
       status: 'running'
     });
 
-    const originalStartedAt = firstUpdate!.started_at;
+    await expect(updateAgentRunStatus({ id: testRunId, status: 'running' }))
+      .rejects.toThrow(/is running and cannot move to running/i);
 
-    // Update to running again (should preserve started_at)
-    const secondUpdate = await updateAgentRunStatus({
-      id: testRunId,
-      status: 'running'
-    });
+    const [run] = await db.select().from(agentRunsTable).where(eq(agentRunsTable.id, testRunId)).execute();
+    expect(run.started_at).toEqual(firstUpdate!.started_at);
+  });
+
+  it('should start retried runs over as their next attempt', async () => {
+    await updateAgentRunStatus({ id: testRunId, status: 'running' });
+    await updateAgentRunStatus({ id: testRunId, status: 'failed' });
 
-    expect(secondUpdate!.started_at).toEqual(originalStartedAt);
-    expect(secondUpdate!.completed_at).toBeNull();
+    const result = await updateAgentRunStatus({ id: testRunId, status: 'pending' });
+
+    expect(result!.status).toEqual('pending');
+    expect(result!.attempt).toEqual(2);
+    expect(result!.started_at).toBeNull();
+    expect(result!.completed_at).toBeNull();
   });
 
   it('should handle status transitions correctly', async () => {
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, crewsTable, tasksTable } from '../db/schema';
+import { updateCrew } from '../handlers/update_crew';
+import { NotFoundError } from '../errors';
+
+const baseAgent = {
+  description: null,
+  goal: 'Get the job done',
+  backstory: 'Works well in a team',
+  is_active: true
+};
+
+describe('updateCrew', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let agentIds: number[];
+  let taskId: number;
+  let crewId: number;
+
+  beforeEach(async () => {
+    const agents = await db.insert(agentsTable)
+      .values([
+        { ...baseAgent, name: 'First', role: 'First' },
+        { ...baseAgent, name: 'Second', role: 'Second' }
+      ])
+      .returning()
+      .execute();
+    agentIds = agents.map(a => a.id);
+
+    const [task] = await db.insert(tasksTable)
+      .values({ name: 'Task', description: 'Do it', expected_output: 'Done' })
+      .returning()
+      .execute();
+    taskId = task.id;
+
+    const [crew] = await db.insert(crewsTable)
+      .values({ name: 'Crew', agent_ids: [agentIds[0]], task_ids: [taskId] })
+      .returning()
+      .execute();
+    crewId = crew.id;
+  });
+
+  it('should update only the provided fields', async () => {
+    const result = await updateCrew({ id: crewId, name: 'Renamed crew', agent_ids: agentIds });
+
+    expect(result).not.toBeNull();
+    expect(result!.name).toEqual('Renamed crew');
+    expect(result!.agent_ids).toEqual(agentIds);
+    expect(result!.task_ids).toEqual([taskId]);
+    expect(result!.process).toEqual('sequential');
+  });
+
+  it('should throw for a non-existent crew', async () => {
+    await expect(updateCrew({ id: 999, name: 'Nobody' })).rejects.toThrow(NotFoundError);
+  });
+
+  it('should reject unknown agents and tasks', async () => {
+    await expect(updateCrew({ id: crewId, agent_ids: [999] })).rejects.toThrow(/agent with ID 999 not found/i);
+    await expect(updateCrew({ id: crewId, task_ids: [999] })).rejects.toThrow(/task with ID 999 not found/i);
+    await expect(updateCrew({ id: crewId, manager_agent_id: 999 })).rejects.toThrow(/agent with ID 999 not found/i);
+  });
+
+  it('should reject a manager that would also be a crew member', async () => {
+    await expect(updateCrew({ id: crewId, manager_agent_id: agentIds[0] })).rejects.toThrow(/cannot also be a crew member/i);
+
+    await updateCrew({ id: crewId, process: 'hierarchical', manager_agent_id: agentIds[1] });
+    await expect(updateCrew({ id: crewId, agent_ids: agentIds })).rejects.toThrow(/cannot also be a crew member/i);
+  });
+});
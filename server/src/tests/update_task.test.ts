@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { agentsTable, tasksTable } from '../db/schema';
+import { updateTask } from '../handlers/update_task';
+import { NotFoundError } from '../errors';
+import { eq } from 'drizzle-orm';
+
+const baseTask = {
+  name: 'Original task',
+  description: 'Original description',
+  expected_output: 'Original output'
+};
+
+describe('updateTask', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update only the provided fields', async () => {
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+
+    const result = await updateTask({ id: task.id, description: 'New description', async_execution: true });
+
+    expect(result).not.toBeNull();
+    expect(result!.description).toEqual('New description');
+    expect(result!.async_execution).toBe(true);
+    expect(result!.name).toEqual('Original task');
+    expect(result!.updated_at.getTime()).toBeGreaterThanOrEqual(task.updated_at.getTime());
+  });
+
+  it('should assign and unassign an agent', async () => {
+    const [agent] = await db.insert(agentsTable)
+      .values({ name: 'Agent', description: null, role: 'Role', goal: 'Goal', backstory: 'Backstory' })
+      .returning()
+      .execute();
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+
+    const assigned = await updateTask({ id: task.id, agent_id: agent.id });
+    expect(assigned!.agent_id).toEqual(agent.id);
+
+    const unassigned = await updateTask({ id: task.id, agent_id: null });
+    expect(unassigned!.agent_id).toBeNull();
+  });
+
+  it('should update context tasks', async () => {
+    const [context] = await db.insert(tasksTable).values({ ...baseTask, name: 'Context' }).returning().execute();
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+
+    await updateTask({ id: task.id, context_task_ids: [context.id] });
+
+    const [stored] = await db.select().from(tasksTable).where(eq(tasksTable.id, task.id)).execute();
+    expect(stored.context_task_ids).toEqual([context.id]);
+  });
+
+  it('should reject a task as its own context', async () => {
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+
+    await expect(updateTask({ id: task.id, context_task_ids: [task.id] }))
+      .rejects.toThrow(/cannot use itself as context/i);
+  });
+
+  it('should throw for a non-existent agent', async () => {
+    const [task] = await db.insert(tasksTable).values(baseTask).returning().execute();
+
+    await expect(updateTask({ id: task.id, agent_id: 9999 }))
+      .rejects.toThrow(/agent with id 9999 not found/i);
+  });
+
+  it('should throw for a non-existent task', async () => {
+    await expect(updateTask({ id: 9999, name: 'Nope' })).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import { parseYaml, stringifyYaml, YamlSyntaxError } from '../yaml';
+
+// As generated by `crewai create crew`, trimmed
+const crewAgentsYaml = `---
+# Agents for the research crew
+researcher:
+  role: >
+    {topic} Senior Data Researcher
+  goal: >
+    Uncover cutting-edge developments in {topic}
+  backstory: >
+    You're a seasoned researcher with a knack for uncovering the latest
+    developments in {topic}.
+  llm: openai/gpt-4o  # any LiteLLM model id
+  allow_delegation: false
+  tools: [SerperDevTool, 'ScrapeWebsiteTool']
+
+reporting_analyst:
+  role: "{topic} Reporting Analyst"
+  goal: |
+    Create detailed reports
+    based on {topic} data analysis
+  backstory: 'It''s your job to turn data into reports'
+  max_iter: 15
+  temperature: 0.2
+  memory: ~
+  context:
+    - research_task
+    - other_task
+`;
+
+const expectSyntaxError = (text: string, line: number, message: string) => {
+  let caught: unknown;
+  try {
+    parseYaml(text);
+  } catch (error) {
+    caught = error;
+  }
+  expect(caught).toBeInstanceOf(YamlSyntaxError);
+  expect((caught as YamlSyntaxError).line).toEqual(line);
+  expect((caught as YamlSyntaxError).message).toContain(message);
+};
+
+describe('YAML', () => {
+  it('should parse CrewAI config files', () => {
+    expect(parseYaml(crewAgentsYaml)).toEqual({
+      researcher: {
+        role: '{topic} Senior Data Researcher\n',
+        goal: 'Uncover cutting-edge developments in {topic}\n',
+        backstory: "You're a seasoned researcher with a knack for uncovering the latest developments in {topic}.\n",
+        llm: 'openai/gpt-4o',
+        allow_delegation: false,
+        tools: ['SerperDevTool', 'ScrapeWebsiteTool']
+      },
+      reporting_analyst: {
+        role: '{topic} Reporting Analyst',
+        goal: 'Create detailed reports\nbased on {topic} data analysis\n',
+        backstory: "It's your job to turn data into reports",
+        max_iter: 15,
+        temperature: 0.2,
+        memory: null,
+        context: ['research_task', 'other_task']
+      }
+    });
+  });
+
+  it('should treat an empty document as null', () => {
+    expect(parseYaml('')).toBeNull();
+    expect(parseYaml('# nothing here\n\n')).toBeNull();
+  });
+
+  it('should round-trip what it writes', () => {
+    const mapping = {
+      writer: {
+        role: 'Writer',
+        goal: 'Write: clearly',
+        backstory: 'Line one\nLine two\n',
+        llm: 'anthropic/claude-sonnet',
+        temperature: 0.7,
+        verbose: true,
+        note: 'yes',
+        count: '42',
+        empty: '',
+        padded: '  spaced  ',
+        context: ['a', 'b']
+      },
+      reviewer: { role: '#1 reviewer', goal: '- bullet', backstory: '{topic} expert' }
+    };
+
+    const text = stringifyYaml(mapping);
+
+    expect(text).toContain('writer:\n  role: Writer\n');
+    expect(text).toContain('  backstory: |\n    Line one\n    Line two\n');
+    expect(text).toContain('\n\nreviewer:\n');
+    expect(parseYaml(text)).toEqual(mapping);
+  });
+
+  it('should report what it does not understand with the line', () => {
+    expectSyntaxError('agent:\n  role: a\n  role: b\n', 3, 'duplicate key "role"');
+    expectSyntaxError('agent:\n  role: a\n    goal: b\n', 3, 'unexpected indentation');
+    expectSyntaxError('base: &base\n  role: a\n', 1, 'anchors');
+    expectSyntaxError('agent: {role: a}\n', 1, 'flow mappings');
+    expectSyntaxError('agent:\n\trole: a\n', 2, 'tabs');
+    expectSyntaxError('agent:\n  role: "open\n', 2, 'unterminated');
+    expectSyntaxError('a: 1\n---\nb: 2\n', 2, 'multiple documents');
+  });
+});
@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { defineTool, ToolInputError, type Tool } from './types';
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  ln: Math.log,
+  log10: Math.log10,
+  exp: Math.exp
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const TOKEN = /\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|[-+*/%^(),])/iy;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (/^\s*$/.test(expression.slice(TOKEN.lastIndex))) break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      throw new ToolInputError('calculator', `unexpected character "${expression.slice(start).trim()[0]}"`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+};
+
+// Recursive descent over + - * / % ^ with the usual precedence; ^ is right-associative.
+// Nothing is ever passed to eval.
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position];
+    if (token === undefined || (expected !== undefined && token !== expected)) {
+      throw new ToolInputError('calculator', expected ? `expected "${expected}"` : 'unexpected end of expression');
+    }
+    position++;
+    return token;
+  };
+
+  const primary = (): number => {
+    const token = take();
+    if (token === '(') {
+      const value = sum();
+      take(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) {
+      return Number(token);
+    }
+
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) {
+      return CONSTANTS[name];
+    }
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+      throw new ToolInputError('calculator', `unknown name "${token}"`);
+    }
+    take('(');
+    const args = [sum()];
+    while (peek() === ',') {
+      take(',');
+      args.push(sum());
+    }
+    take(')');
+    return fn(...args);
+  };
+
+  // Exponents bind tighter than a leading minus, so -2 ^ 2 is -4 like in maths
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^') {
+      take();
+      return base ** unary();
+    }
+    return base;
+  };
+
+  const unary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -unary();
+    }
+    if (peek() === '+') {
+      take();
+      return unary();
+    }
+    return power();
+  };
+
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = unary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      const operator = take();
+      const right = product();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const result = sum();
+  if (position < tokens.length) {
+    throw new ToolInputError('calculator', `unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new ToolInputError('calculator', 'the result is not a finite number');
+  }
+  return result;
+};
+
+export const createCalculatorTool = (): Tool => defineTool({
+  name: 'calculator',
+  description: 'Evaluates an arithmetic expression with + - * / % ^, parentheses, ' +
+    `the functions ${Object.keys(FUNCTIONS).join(', ')} and the constants pi and e.`,
+  input: z.object({ expression: z.string().min(1).max(1000) }),
+  exampleInput: { expression: '(3 + 4) * sqrt(16)' },
+  execute: async ({ expression }) => String(evaluateExpression(expression))
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { defineTool, ToolInputError, type Tool } from './types';
+
+export interface HttpFetchToolOptions {
+  // Host names the tool may contact; "*.example.com" also allows subdomains
+  allowedHosts: string[];
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  fetch?: typeof fetch;
+}
+
+export const isHostAllowed = (host: string, allowedHosts: string[]): boolean => {
+  const name = host.toLowerCase();
+  return allowedHosts.some(allowed => {
+    const pattern = allowed.trim().toLowerCase();
+    if (pattern.startsWith('*.')) {
+      return name === pattern.slice(2) || name.endsWith(pattern.slice(1));
+    }
+    return name === pattern;
+  });
+};
+
+// Reads at most maxBytes of the body, cancelling the rest so large or endless responses stay cheap
+const readBody = async (response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> => {
+  if (!response.body) {
+    return { text: '', truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { text: Buffer.concat(chunks).toString('utf8'), truncated: false };
+    }
+    const room = maxBytes - size;
+    if (value.byteLength > room) {
+      chunks.push(value.subarray(0, room));
+      await reader.cancel();
+      return { text: Buffer.concat(chunks).toString('utf8'), truncated: true };
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+};
+
+// GET requests to allow-listed hosts. Redirects are followed by hand so every hop is checked.
+export const createHttpFetchTool = (options: HttpFetchToolOptions): Tool => {
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const maxBytes = options.maxBytes ?? 100 * 1024;
+  const maxRedirects = options.maxRedirects ?? 3;
+  const fetchImpl = options.fetch ?? fetch;
+
+  const checkUrl = (raw: string): URL => {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      throw new ToolInputError('http_fetch', `${raw} is not a valid URL`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ToolInputError('http_fetch', 'only http and https URLs are allowed');
+    }
+    if (!isHostAllowed(url.hostname, options.allowedHosts)) {
+      throw new ToolInputError('http_fetch', `${url.hostname} is not on the allow-list`);
+    }
+    return url;
+  };
+
+  return defineTool({
+    name: 'http_fetch',
+    description: 'Fetches a URL with GET and returns the status and body. Only allow-listed hosts can be reached.',
+    input: z.object({ url: z.string().min(1) }),
+    exampleInput: { url: 'https://example.com/data.json' },
+    execute: async ({ url }, { signal }) => {
+      const requestSignal = AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]);
+      let target = checkUrl(url);
+
+      for (let redirects = 0; ; redirects++) {
+        const response = await fetchImpl(target, { redirect: 'manual', signal: requestSignal });
+        const location = response.headers.get('location');
+
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          if (redirects >= maxRedirects) {
+            throw new ToolInputError('http_fetch', `gave up after ${maxRedirects} redirects`);
+          }
+          target = checkUrl(new URL(location, target).toString());
+          continue;
+        }
+
+        const body = await readBody(response, maxBytes);
+        return `Status: ${response.status}\n\n${body.text}${body.truncated ? `\n[truncated after ${maxBytes} bytes]` : ''}`;
+      }
+    }
+  });
+};
@@ -0,0 +1,95 @@
+import { db } from '../db';
+import { agentToolsTable } from '../db/schema';
+import { toolNameSchema, type ToolCallMetadata, type ToolInfo, type ToolName, type ToolResultMetadata } from '../schema';
+import { createCalculatorTool } from './calculator';
+import { createReadFileTool } from './read_file';
+import { createHttpFetchTool } from './http_fetch';
+import { createSqlQueryTool } from './sql_query';
+import { type Tool } from './types';
+import { asc, eq } from 'drizzle-orm';
+
+// Longest tool output handed back to the model; the recorded result keeps the same text
+const MAX_OBSERVATION_LENGTH = 8000;
+
+const tools = new Map<ToolName, Tool>();
+
+const createTool = (name: ToolName): Tool => {
+  switch (name) {
+    case 'calculator':
+      return createCalculatorTool();
+    case 'read_file':
+      return createReadFileTool({ workspaceDir: process.env['TOOL_WORKSPACE_DIR'] || 'workspace' });
+    case 'http_fetch':
+      return createHttpFetchTool({
+        allowedHosts: (process.env['TOOL_HTTP_ALLOWLIST'] || '').split(',').filter(host => host.trim() !== '')
+      });
+    case 'sql_query':
+      return createSqlQueryTool({ connectionString: process.env['TOOL_SQL_DATABASE_URL'] || undefined });
+  }
+};
+
+// Tools are built lazily from the environment and reused afterwards
+export const getTool = (name: ToolName): Tool => {
+  let tool = tools.get(name);
+  if (!tool) {
+    tool = createTool(name);
+    tools.set(name, tool);
+  }
+  return tool;
+};
+
+export const listTools = (): ToolInfo[] => toolNameSchema.options.map(name => {
+  const tool = getTool(name);
+  return { name: tool.name, description: tool.description, example_input: tool.exampleInput };
+});
+
+export const loadAgentTools = async (agentId: number): Promise<Tool[]> => {
+  const rows = await db.select()
+    .from(agentToolsTable)
+    .where(eq(agentToolsTable.agent_id, agentId))
+    .orderBy(asc(agentToolsTable.tool_name))
+    .execute();
+  return rows.map(row => getTool(row.tool_name));
+};
+
+export interface ToolboxOptions {
+  signal: AbortSignal;
+  // Persists a tool call or result output for the run
+  record: (outputType: 'tool_call' | 'tool_result', content: string, metadata: ToolCallMetadata | ToolResultMetadata) => Promise<void>;
+}
+
+// The tools an agent may use during one run
+export interface Toolbox {
+  tools: Tool[];
+  // Runs a tool and records the call and its result. Failures come back as text
+  // so the model can correct itself instead of failing the run.
+  call: (name: string, input: unknown) => Promise<string>;
+}
+
+export const createToolbox = (available: Tool[], options: ToolboxOptions): Toolbox => ({
+  tools: available,
+  call: async (name, input) => {
+    await options.record('tool_call', `${name} ${JSON.stringify(input)}`, { tool: name, input });
+
+    let output: string | null = null;
+    let error: string | null = null;
+    const tool = available.find(t => t.name === name);
+    if (!tool) {
+      error = `Unknown tool "${name}". Available tools: ${available.map(t => t.name).join(', ') || 'none'}`;
+    } else {
+      try {
+        output = await tool.invoke(input, { signal: options.signal });
+        if (output.length > MAX_OBSERVATION_LENGTH) {
+          output = `${output.slice(0, MAX_OBSERVATION_LENGTH)}\n[output truncated]`;
+        }
+      } catch (caught) {
+        // A cancelled or timed-out run stops here instead of carrying on with an error observation
+        options.signal.throwIfAborted();
+        error = caught instanceof Error ? caught.message : String(caught);
+      }
+    }
+
+    await options.record('tool_result', error ?? output ?? '', { tool: name, error });
+    return error !== null ? `Error: ${error}` : output ?? '';
+  }
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { open, readdir, realpath, stat } from 'fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { defineTool, ToolInputError, type Tool } from './types';
+
+export interface ReadFileToolOptions {
+  workspaceDir: string;
+  maxBytes?: number;
+}
+
+const isInside = (root: string, path: string): boolean => {
+  const fromRoot = relative(root, path);
+  return fromRoot === '' || (!fromRoot.startsWith(`..${sep}`) && fromRoot !== '..' && !isAbsolute(fromRoot));
+};
+
+// Reads files and lists directories inside the workspace only. Paths are checked again after
+// resolving symlinks, so a link can't point the tool outside the workspace either.
+export const createReadFileTool = (options: ReadFileToolOptions): Tool => {
+  const maxBytes = options.maxBytes ?? 64 * 1024;
+
+  const resolveInWorkspace = async (path: string): Promise<string> => {
+    const root = await realpath(resolve(options.workspaceDir)).catch(() => {
+      throw new ToolInputError('read_file', 'the workspace directory does not exist');
+    });
+    const target = resolve(root, path);
+    if (!isInside(root, target)) {
+      throw new ToolInputError('read_file', `${path} is outside the workspace`);
+    }
+
+    const real = await realpath(target).catch(() => {
+      throw new ToolInputError('read_file', `${path} does not exist`);
+    });
+    if (!isInside(root, real)) {
+      throw new ToolInputError('read_file', `${path} is outside the workspace`);
+    }
+    return real;
+  };
+
+  return defineTool({
+    name: 'read_file',
+    description: 'Reads a text file from the workspace directory, or lists a directory. Paths are relative to the workspace.',
+    input: z.object({ path: z.string().min(1) }),
+    exampleInput: { path: 'notes/summary.md' },
+    execute: async ({ path }) => {
+      const real = await resolveInWorkspace(path);
+      const info = await stat(real);
+
+      if (info.isDirectory()) {
+        const entries = await readdir(real, { withFileTypes: true });
+        if (entries.length === 0) {
+          return '(empty directory)';
+        }
+        return entries
+          .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+          .sort()
+          .join('\n');
+      }
+
+      const file = await open(real, 'r');
+      try {
+        const buffer = Buffer.alloc(Math.min(info.size, maxBytes));
+        await file.read(buffer, 0, buffer.length, 0);
+        const content = buffer.toString('utf8');
+        return info.size > maxBytes ? `${content}\n[truncated after ${maxBytes} of ${info.size} bytes]` : content;
+      } finally {
+        await file.close();
+      }
+    }
+  });
+};
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { Client, type QueryConfig } from 'pg';
+import { defineTool, ToolInputError, type Tool } from './types';
+
+export interface SqlQueryToolOptions {
+  // Should point at a database role that can only read; the tool refuses to run without one
+  connectionString?: string;
+  timeoutMs?: number;
+  maxRows?: number;
+}
+
+// Runs one statement inside a read-only transaction that is always rolled back. The extended query
+// protocol rejects statement lists, so a query can't end the transaction and write afterwards.
+export const createSqlQueryTool = (options: SqlQueryToolOptions): Tool => {
+  const timeoutMs = options.timeoutMs ?? 5_000;
+  const maxRows = options.maxRows ?? 100;
+
+  return defineTool({
+    name: 'sql_query',
+    description: `Runs a single read-only SQL query and returns up to ${maxRows} rows as JSON.`,
+    input: z.object({ query: z.string().min(1).max(10_000) }),
+    exampleInput: { query: 'SELECT name, role FROM agents LIMIT 5' },
+    execute: async ({ query }, { signal }) => {
+      signal.throwIfAborted();
+      if (!options.connectionString) {
+        throw new ToolInputError('sql_query', 'no read-only database is configured');
+      }
+      const client = new Client({ connectionString: options.connectionString });
+      await client.connect().catch(async (error: unknown) => {
+        // A half-open client still holds its socket until it is ended
+        await client.end().catch(() => undefined);
+        throw error;
+      });
+
+      try {
+        await client.query('BEGIN TRANSACTION READ ONLY');
+        await client.query(`SET LOCAL statement_timeout = ${Math.floor(timeoutMs)}`);
+        // queryMode isn't in the pg typings yet
+        const result = await client.query({ text: query, queryMode: 'extended' } as QueryConfig)
+          .catch((error: unknown) => {
+            throw new ToolInputError('sql_query', error instanceof Error ? error.message : String(error));
+          });
+
+        const rows = result.rows.slice(0, maxRows);
+        const more = result.rows.length > maxRows ? `\n[${result.rows.length - maxRows} more rows not shown]` : '';
+        return `${JSON.stringify(rows, null, 2)}${more}`;
+      } finally {
+        await client.query('ROLLBACK').catch(() => undefined);
+        await client.end();
+      }
+    }
+  });
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { type ToolName } from '../schema';
+
+// What a tool gets besides its input
+export interface ToolContext {
+  // Aborted when the run is cancelled or times out
+  signal: AbortSignal;
+}
+
+// A tool as the runtime sees it: invoke validates the raw input the model produced
+export interface Tool {
+  name: ToolName;
+  description: string;
+  exampleInput: Record<string, unknown>;
+  invoke: (input: unknown, context: ToolContext) => Promise<string>;
+}
+
+export interface ToolDefinition<TSchema extends z.ZodTypeAny> {
+  name: ToolName;
+  description: string;
+  input: TSchema;
+  exampleInput: z.input<TSchema> & Record<string, unknown>;
+  execute: (input: z.output<TSchema>, context: ToolContext) => Promise<string>;
+}
+
+// Input the model sent that doesn't match the tool's schema, or that the tool refuses
+export class ToolInputError extends Error {
+  constructor(tool: ToolName, message: string) {
+    super(`${tool}: ${message}`);
+    this.name = 'ToolInputError';
+  }
+}
+
+// Turns a typed definition into a tool that checks its input against the zod schema first
+export const defineTool = <TSchema extends z.ZodTypeAny>(definition: ToolDefinition<TSchema>): Tool => ({
+  name: definition.name,
+  description: definition.description,
+  exampleInput: definition.exampleInput,
+  invoke: async (input, context) => {
+    const parsed = definition.input.safeParse(input);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`);
+      throw new ToolInputError(definition.name, `invalid input (${issues.join('; ')})`);
+    }
+    return definition.execute(parsed.data, context);
+  }
+});
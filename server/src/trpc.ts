@@ -0,0 +1,187 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { TRPC_ERROR_CODES_BY_KEY } from '@trpc/server/rpc';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { hasRole, type ApiKeyScope, type User, type UserRole } from './schema';
+import { getSessionUser, readSessionToken } from './auth/sessions';
+import { authenticateApiKey, readBearerToken, type ApiKeyPrincipal } from './auth/api_keys';
+import { agentIdsForRun, canManageAgentAccess, canUseAgent } from './auth/access';
+import { auditSnapshotLoaders, diffRecords, recordAuditEvent, toAuditJson } from './audit';
+import { DomainError, ForbiddenError, UnauthorizedError, type DomainErrorDetails } from './errors';
+
+export interface Context {
+  user: User | null;
+  sessionToken: string | null;
+  // Set for machine clients that sent an API key instead of a session cookie
+  apiKey: ApiKeyPrincipal | null;
+  // Sets the Set-Cookie header on the response
+  setCookie: (cookie: string) => void;
+}
+
+// Resolves the signed-in user from the session cookie, or the API key from the
+// Authorization header, on every request
+export const createContext = async ({ req, res }: CreateHTTPContextOptions): Promise<Context> => {
+  const sessionToken = readSessionToken(req.headers.cookie);
+  const user = sessionToken ? await getSessionUser(sessionToken) : null;
+  const bearerToken = readBearerToken(req.headers.authorization);
+  const apiKey = bearerToken ? await authenticateApiKey(bearerToken) : null;
+
+  return {
+    user,
+    sessionToken,
+    apiKey,
+    setCookie: (cookie) => res.setHeader('Set-Cookie', cookie)
+  };
+};
+
+// Subscriptions are served as server-sent events. Pings keep proxies from closing idle
+// streams; clients reconnect when they hear nothing for two ping intervals.
+const ssePingMs = parseInt(process.env['SSE_PING_MS'] || '15000');
+
+// What clients get to know about a domain error besides its message
+export interface ErrorCause {
+  name: string;
+  details: DomainErrorDetails;
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+  // Domain errors thrown by handlers arrive wrapped as internal errors; they are expected
+  // failures, so they get their own code and HTTP status and pass their details on
+  errorFormatter: ({ shape, error }) => {
+    if (!(error.cause instanceof DomainError)) {
+      return { ...shape, data: { ...shape.data, cause: null as ErrorCause | null } };
+    }
+
+    const translated = new TRPCError({ code: error.cause.code, message: error.message, cause: error.cause });
+    const cause: ErrorCause = { name: error.cause.name, details: error.cause.details };
+    return {
+      ...shape,
+      code: TRPC_ERROR_CODES_BY_KEY[translated.code],
+      data: { ...shape.data, code: translated.code, httpStatus: getHTTPStatusCodeFromError(translated), cause }
+    };
+  },
+  sse: {
+    ping: { enabled: true, intervalMs: ssePingMs },
+    client: { reconnectAfterInactivityMs: ssePingMs * 2 }
+  }
+});
+
+// Records every mutation with its actor, input and outcome, including ones refused for lack of access.
+// Mutations with a snapshot loader also record which fields they changed.
+const auditMutations = t.middleware(async ({ ctx, type, path, getRawInput, next }) => {
+  if (type !== 'mutation') {
+    return next();
+  }
+
+  const input = await getRawInput().catch(() => undefined);
+  const loadSnapshot = auditSnapshotLoaders[path];
+  const before = loadSnapshot
+    ? await loadSnapshot(input).catch((error: unknown) => {
+      console.error(`Audit snapshot for ${path} failed:`, error);
+      return null;
+    })
+    : null;
+
+  const result = await next();
+
+  await recordAuditEvent({
+    actor_type: ctx.user ? 'user' : ctx.apiKey ? 'api_key' : 'anonymous',
+    user_id: ctx.user?.id ?? null,
+    api_key_id: ctx.apiKey?.id ?? null,
+    actor_name: ctx.user?.username ?? ctx.apiKey?.name ?? null,
+    procedure: path,
+    input: toAuditJson(input),
+    changes: result.ok && loadSnapshot ? diffRecords(before, result.data) : null,
+    result: result.ok ? toAuditJson(result.data) : null,
+    success: result.ok,
+    error: result.ok ? null : result.error.message
+  });
+
+  return result;
+});
+
+const auditedProcedure = t.procedure.use(auditMutations);
+
+export const router = t.router;
+export const publicProcedure = auditedProcedure;
+
+// Procedures that need a signed-in user; ctx.user is non-null inside them
+export const protectedProcedure = auditedProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new UnauthorizedError('Sign in to continue');
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// Procedures limited to a role and the roles above it
+const requireRole = (role: UserRole) => protectedProcedure.use(({ ctx, next }) => {
+  if (!hasRole(ctx.user, role)) {
+    throw new ForbiddenError(`This needs the ${role} role`, { role });
+  }
+  return next();
+});
+
+export const viewerProcedure = requireRole('viewer');
+export const operatorProcedure = requireRole('operator');
+export const editorProcedure = requireRole('editor');
+export const adminProcedure = requireRole('admin');
+
+// Middleware that checks per-agent access for the agents a route acts on, resolved from its
+// input. Place it after .input() so the input has been validated.
+export const requireAgentAccess = <TInput>(resolveAgentIds: (input: TInput) => Promise<number[]>) =>
+  t.middleware(async ({ ctx, input, next }) => {
+    if (!ctx.user) {
+      throw new UnauthorizedError('Sign in to continue');
+    }
+    for (const agentId of await resolveAgentIds(input as TInput)) {
+      if (!await canUseAgent(ctx.user, agentId)) {
+        throw new ForbiddenError(`You don't have access to agent ${agentId}`, { agent_id: agentId });
+      }
+    }
+    return next();
+  });
+
+// Middleware that lets only the agent's owner and admins through
+export const requireAgentOwner = <TInput>(resolveAgentId: (input: TInput) => number) =>
+  t.middleware(async ({ ctx, input, next }) => {
+    if (!ctx.user) {
+      throw new UnauthorizedError('Sign in to continue');
+    }
+    const agentId = resolveAgentId(input as TInput);
+    if (!await canManageAgentAccess(ctx.user, agentId)) {
+      throw new ForbiddenError(`Only the owner of agent ${agentId} can change who may use it`, { agent_id: agentId });
+    }
+    return next();
+  });
+
+// Procedures open to users with the role and to API keys with the scope
+export const scopedProcedure = (scope: ApiKeyScope, role: UserRole) => auditedProcedure.use(({ ctx, next }) => {
+  if (ctx.user) {
+    if (!hasRole(ctx.user, role)) {
+      throw new ForbiddenError(`This needs the ${role} role`, { role });
+    }
+    return next();
+  }
+  if (ctx.apiKey) {
+    if (!ctx.apiKey.scopes.includes(scope)) {
+      throw new ForbiddenError(`This API key lacks the ${scope} scope`, { scope });
+    }
+    return next();
+  }
+  throw new UnauthorizedError('Sign in or provide an API key to continue');
+});
+
+// Middleware that keeps API keys limited to one agent away from other agents' runs
+export const requireApiKeyRunAccess = <TInput>(resolveRunId: (input: TInput) => number) =>
+  t.middleware(async ({ ctx, input, next }) => {
+    const agentId = ctx.apiKey?.agent_id ?? null;
+    if (agentId !== null) {
+      const runId = resolveRunId(input as TInput);
+      if (!(await agentIdsForRun(runId)).includes(agentId)) {
+        throw new ForbiddenError(`This API key can't access run ${runId}`, { run_id: runId });
+      }
+    }
+    return next();
+  });
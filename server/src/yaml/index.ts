@@ -0,0 +1,404 @@
+// Reads and writes the YAML subset CrewAI project configs are written in: block mappings and
+// sequences, plain and quoted scalars, literal (|) and folded (>) block scalars, single-line
+// flow sequences and comments. Written in-house like the JSON Schema validator; anchors, tags,
+// flow mappings and multiple documents are rejected with a clear error instead.
+
+export class YamlSyntaxError extends Error {
+  constructor(readonly line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlSyntaxError';
+  }
+}
+
+type YamlMapping = Record<string, unknown>;
+
+const isBlankLine = (line: string): boolean => /^\s*(#.*)?$/.test(line);
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const isDocumentMarker = (line: string): boolean => /^---\s*$/.test(line);
+
+const isSequenceItem = (content: string): boolean => content === '-' || content.startsWith('- ');
+
+// Index just past the closing quote of the quoted scalar the text starts with, or -1 when unterminated
+const closingQuote = (text: string): number => {
+  const quote = text[0];
+  for (let i = 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i + 1;
+      }
+    }
+  }
+  return -1;
+};
+
+// Drops a trailing comment; quotes only protect a # when the scalar starts with one
+const stripComment = (text: string): string => {
+  let start = 0;
+  if (text.startsWith('"') || text.startsWith("'")) {
+    start = closingQuote(text);
+    // An unterminated quote continues on the next line, so the rest isn't a comment
+    if (start === -1) return text.trimEnd();
+  } else if (text.startsWith('[')) {
+    let quote: string | null = null;
+    for (; start < text.length && (quote !== null || text[start] !== ']'); start++) {
+      if (quote === null && (text[start] === '"' || text[start] === "'")) quote = text[start];
+      else if (quote !== null && text[start] === quote) quote = null;
+    }
+  }
+
+  const comment = text.slice(start).search(/(^|\s)#/);
+  return (comment === -1 ? text : text.slice(0, start + comment)).trimEnd();
+};
+
+// Position of the colon separating a mapping key from its value, or -1 when the text isn't a mapping entry
+const mappingColon = (content: string): number => {
+  let from = 0;
+  if (content.startsWith('"') || content.startsWith("'")) {
+    from = closingQuote(content);
+    if (from === -1) return -1;
+  } else if (/^[[{#]/.test(content)) {
+    return -1;
+  }
+
+  const match = /:(\s|$)/.exec(content.slice(from));
+  return match ? from + match.index : -1;
+};
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  '0': '\0', 'a': '\x07', 'b': '\b', 't': '\t', 'n': '\n', 'v': '\v', 'f': '\f', 'r': '\r', 'e': '\x1b',
+  ' ': ' ', '"': '"', '/': '/', '\\': '\\', 'N': '\u0085', '_': ' '
+};
+
+const parseDoubleQuoted = (body: string, line: number): string => {
+  let result = '';
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== '\\') {
+      result += body[i];
+      continue;
+    }
+
+    const escape = body[++i];
+    const hexLength = escape === 'x' ? 2 : escape === 'u' ? 4 : escape === 'U' ? 8 : 0;
+    if (hexLength > 0) {
+      const hex = body.slice(i + 1, i + 1 + hexLength);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== hexLength) {
+        throw new YamlSyntaxError(line, `invalid \\${escape} escape`);
+      }
+      result += String.fromCodePoint(parseInt(hex, 16));
+      i += hexLength;
+    } else if (escape in DOUBLE_QUOTE_ESCAPES) {
+      result += DOUBLE_QUOTE_ESCAPES[escape];
+    } else {
+      throw new YamlSyntaxError(line, `unknown escape \\${escape ?? ''}`);
+    }
+  }
+  return result;
+};
+
+const resolvePlain = (text: string): unknown => {
+  if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return parseInt(text, 10);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return parseFloat(text);
+  return text;
+};
+
+const parseFlowSequence = (text: string, line: number): unknown[] => {
+  if (!text.endsWith(']')) {
+    throw new YamlSyntaxError(line, 'flow sequences must close on the same line');
+  }
+
+  const items: unknown[] = [];
+  let rest = text.slice(1, -1).trim();
+  while (rest !== '') {
+    let item: string;
+    if (rest.startsWith('"') || rest.startsWith("'")) {
+      const end = closingQuote(rest);
+      if (end === -1) throw new YamlSyntaxError(line, 'unterminated quoted string');
+      item = rest.slice(0, end);
+      rest = rest.slice(end).trim();
+    } else {
+      const comma = rest.indexOf(',');
+      item = (comma === -1 ? rest : rest.slice(0, comma)).trim();
+      rest = comma === -1 ? '' : rest.slice(comma);
+    }
+    if (/^[[{]/.test(item)) {
+      throw new YamlSyntaxError(line, 'nested flow collections are not supported');
+    }
+
+    items.push(parseScalar(item, line));
+    if (rest.startsWith(',')) {
+      rest = rest.slice(1).trim();
+    } else if (rest !== '') {
+      throw new YamlSyntaxError(line, `expected , between sequence items`);
+    }
+  }
+  return items;
+};
+
+// A single-line scalar or flow collection, comment already stripped
+const parseScalar = (text: string, line: number): unknown => {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = closingQuote(text);
+    if (end === -1) throw new YamlSyntaxError(line, 'unterminated quoted string');
+    if (end !== text.length) throw new YamlSyntaxError(line, 'unexpected text after quoted string');
+    const body = text.slice(1, end - 1);
+    return text[0] === '"' ? parseDoubleQuoted(body, line) : body.replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) return parseFlowSequence(text, line);
+  if (text === '{}') return {};
+  if (text.startsWith('{')) throw new YamlSyntaxError(line, 'flow mappings are not supported');
+  if (/^[&*!]/.test(text)) throw new YamlSyntaxError(line, 'anchors, aliases and tags are not supported');
+  if (/^[|>]/.test(text)) throw new YamlSyntaxError(line, 'block scalars must start at the end of a line');
+  return resolvePlain(text);
+};
+
+const foldLines = (lines: string[]): string => {
+  let result = '';
+  let breaks = 0;
+  let started = false;
+  let previousMoreIndented = false;
+
+  for (const line of lines) {
+    if (line === '') {
+      breaks++;
+      continue;
+    }
+    const moreIndented = /^\s/.test(line);
+    if (!started) {
+      result += '\n'.repeat(breaks);
+    } else if (moreIndented || previousMoreIndented) {
+      result += '\n'.repeat(breaks + 1);
+    } else {
+      result += breaks === 0 ? ' ' : '\n'.repeat(breaks);
+    }
+    result += line;
+    started = true;
+    previousMoreIndented = moreIndented;
+    breaks = 0;
+  }
+  return result;
+};
+
+export const parseYaml = (text: string): unknown => {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  let pos = 0;
+
+  const skipBlank = () => {
+    while (pos < lines.length && isBlankLine(lines[pos])) pos++;
+  };
+
+  const contentAt = (index: number): string => {
+    const line = lines[index];
+    if (/^ *\t/.test(line)) {
+      throw new YamlSyntaxError(index + 1, 'tabs are not allowed for indentation');
+    }
+    return line.trimStart();
+  };
+
+  const parseBlockScalar = (header: string, parentIndent: number, line: number): string => {
+    const match = /^([|>])([-+]?)$/.exec(header);
+    if (!match) {
+      throw new YamlSyntaxError(line, `unsupported block scalar header ${header}`);
+    }
+
+    let blockIndent = -1;
+    for (let i = pos; i < lines.length; i++) {
+      if (lines[i].trim() !== '') {
+        blockIndent = indentOf(lines[i]);
+        break;
+      }
+    }
+
+    const body: string[] = [];
+    if (blockIndent > parentIndent) {
+      while (pos < lines.length && (lines[pos].trim() === '' || indentOf(lines[pos]) >= blockIndent)) {
+        body.push(lines[pos].trim() === '' ? '' : lines[pos].slice(blockIndent));
+        pos++;
+      }
+    }
+
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+      trailing++;
+    }
+
+    const content = match[1] === '|' ? body.join('\n') : foldLines(body);
+    if (match[2] === '-' || content === '') return content;
+    return match[2] === '+' ? content + '\n'.repeat(trailing + 1) : content + '\n';
+  };
+
+  // Plain and quoted scalars may continue on more indented lines, which fold into spaces
+  const parseInlineValue = (text: string, parentIndent: number, line: number): unknown => {
+    let value = text;
+    const quoted = value.startsWith('"') || value.startsWith("'");
+    while (pos < lines.length && !isBlankLine(lines[pos]) && indentOf(lines[pos]) > parentIndent &&
+      (quoted ? closingQuote(value) === -1 : !value.startsWith('['))) {
+      const next = lines[pos].trim();
+      if (!quoted && mappingColon(next) !== -1) {
+        throw new YamlSyntaxError(pos + 1, 'unexpected indentation');
+      }
+      value += ' ' + (quoted ? next : stripComment(next));
+      pos++;
+    }
+    return parseScalar(quoted ? stripComment(value) : value, line);
+  };
+
+  const parseValue = (rest: string, parentIndent: number, line: number): unknown => {
+    if (/^[|>]/.test(rest)) {
+      return parseBlockScalar(rest, parentIndent, line);
+    }
+    if (/^[&*!]/.test(rest)) {
+      throw new YamlSyntaxError(line, 'anchors, aliases and tags are not supported');
+    }
+    if (rest !== '') {
+      return parseInlineValue(rest, parentIndent, line);
+    }
+
+    skipBlank();
+    if (pos >= lines.length) return null;
+    const indent = indentOf(lines[pos]);
+    if (indent > parentIndent) return parseNode(indent);
+    // Sequences may sit at the same indentation as the key they belong to
+    if (indent === parentIndent && isSequenceItem(contentAt(pos))) return parseSequence(indent);
+    return null;
+  };
+
+  const parseMapping = (indent: number): YamlMapping => {
+    const mapping: YamlMapping = {};
+    while (true) {
+      skipBlank();
+      if (pos >= lines.length || indentOf(lines[pos]) < indent) break;
+
+      const line = pos + 1;
+      const content = contentAt(pos);
+      if (indentOf(lines[pos]) > indent) throw new YamlSyntaxError(line, 'unexpected indentation');
+      if (isSequenceItem(content) || isDocumentMarker(lines[pos])) break;
+
+      const colon = mappingColon(content);
+      if (colon === -1) throw new YamlSyntaxError(line, 'expected a "key: value" entry');
+      const rawKey = content.slice(0, colon).trim();
+      const key = rawKey.startsWith('"') || rawKey.startsWith("'") ? parseScalar(rawKey, line) : rawKey;
+      if (typeof key !== 'string' || key === '') throw new YamlSyntaxError(line, 'mapping keys must be non-empty strings');
+      if (Object.hasOwn(mapping, key)) throw new YamlSyntaxError(line, `duplicate key "${key}"`);
+
+      pos++;
+      mapping[key] = parseValue(stripComment(content.slice(colon + 1).trim()), indent, line);
+    }
+    return mapping;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (true) {
+      skipBlank();
+      if (pos >= lines.length || indentOf(lines[pos]) !== indent || !isSequenceItem(contentAt(pos))) break;
+
+      const line = pos + 1;
+      const content = contentAt(pos);
+      const item = content.slice(1).trimStart();
+      if (item !== '' && mappingColon(item) !== -1 && !/^[|>]/.test(item)) {
+        // "- key: value" starts a mapping indented to where its first key sits
+        const itemIndent = indent + content.length - item.length;
+        lines[pos] = ' '.repeat(itemIndent) + item;
+        items.push(parseMapping(itemIndent));
+      } else {
+        pos++;
+        items.push(parseValue(stripComment(item), indent, line));
+      }
+    }
+    return items;
+  };
+
+  const parseNode = (indent: number): unknown => {
+    const content = contentAt(pos);
+    if (isSequenceItem(content)) return parseSequence(indent);
+    if (/^[|>]/.test(content) || mappingColon(content) === -1) {
+      const line = pos + 1;
+      pos++;
+      return parseValue(stripComment(content), indent - 1, line);
+    }
+    return parseMapping(indent);
+  };
+
+  skipBlank();
+  if (pos < lines.length && isDocumentMarker(lines[pos])) {
+    pos++;
+    skipBlank();
+  }
+  if (pos >= lines.length) return null;
+
+  const value = parseNode(indentOf(lines[pos]));
+  skipBlank();
+  if (pos < lines.length) {
+    throw new YamlSyntaxError(pos + 1, isDocumentMarker(lines[pos]) ? 'multiple documents are not supported' : 'unexpected content after the document');
+  }
+  return value;
+};
+
+const isPlainSafe = (text: string): boolean =>
+  text !== '' &&
+  text === text.trim() &&
+  !/^[-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+  !/:(\s|$)|\s#|[\x00-\x1f\x7f]/.test(text) &&
+  resolvePlain(text) === text;
+
+const formatKey = (key: string): string => /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Cannot write ${value} as YAML`);
+    return String(value);
+  }
+  const text = String(value);
+  return isPlainSafe(text) ? text : JSON.stringify(text);
+};
+
+const isMapping = (value: unknown): value is YamlMapping =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Multi-line strings become literal blocks, unless their first line starts with a space,
+// which a block can't express without an indentation indicator
+const formatValue = (value: unknown, indent: number): string => {
+  if (typeof value === 'string' && value.includes('\n') && !/^\s|\n[ \t]+(\n|$)|[\x00-\x09\x0b-\x1f\x7f]/.test(value)) {
+    const trailing = /\n*$/.exec(value)![0].length;
+    const chomping = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+    const body = value.slice(0, value.length - trailing).split('\n')
+      .map(line => line === '' ? '' : ' '.repeat(indent) + line)
+      .join('\n');
+    return ` |${chomping}\n${body}${'\n'.repeat(Math.max(trailing - 1, 0))}`;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ' []';
+    return '\n' + value.map(item => {
+      const rendered = isMapping(item) && Object.keys(item).length > 0
+        ? formatMapping(item, indent + 2).trimStart()
+        : formatValue(item, indent + 2).trimStart();
+      return `${' '.repeat(indent)}- ${rendered}`;
+    }).join('\n');
+  }
+  if (isMapping(value)) {
+    return Object.keys(value).length === 0 ? ' {}' : '\n' + formatMapping(value, indent);
+  }
+  return ' ' + formatScalar(value);
+};
+
+const formatMapping = (mapping: YamlMapping, indent: number): string =>
+  Object.entries(mapping)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${' '.repeat(indent)}${formatKey(key)}:${formatValue(value, indent + 2)}`)
+    .join(indent === 0 ? '\n\n' : '\n');
+
+// Writes a mapping as a YAML document; top-level entries are separated by blank lines like CrewAI's templates
+export const stringifyYaml = (mapping: YamlMapping): string =>
+  Object.keys(mapping).length === 0 ? '{}\n' : formatMapping(mapping, 0) + '\n';